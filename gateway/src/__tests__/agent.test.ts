@@ -0,0 +1,231 @@
+/**
+ * Agent Tests
+ *
+ * AgentRunner tool loop over a stubbed provider, and the JSON Schema validator it uses.
+ */
+
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { createGateway, type LLMGateway } from "../core/gateway";
+import { AgentRunner, type AgentTool } from "../agent";
+import { validateJsonSchema } from "../core/json-schema";
+import { provider, restoreFetch, stubFetch } from "./fixtures";
+
+const providers = [
+  provider("openai", "gpt-4o-mini", {
+    model: { costPer1kInput: 1, costPer1kOutput: 1, capabilities: ["fast", "cheap", "function_calling"] },
+  }),
+];
+
+type ScriptedTurn = { content?: string; toolCalls?: Array<{ id: string; name: string; arguments: string }> };
+
+// The OpenAI request fields these tests read
+interface SentBody {
+  tools: Array<{ function: { name: string } }>;
+  messages: Array<{ role: string; tool_calls?: Array<{ id: string }> }>;
+}
+
+// Answer each provider call with the next scripted turn, recording request bodies
+const scriptProvider = (turns: ScriptedTurn[]) =>
+  stubFetch<SentBody>((_url, call) => {
+    const turn = turns[Math.min(call, turns.length - 1)]!;
+    return Response.json({
+      choices: [
+        {
+          message: {
+            content: turn.content ?? null,
+            tool_calls: turn.toolCalls?.map((tc) => ({
+              id: tc.id,
+              type: "function",
+              function: { name: tc.name, arguments: tc.arguments },
+            })),
+          },
+        },
+      ],
+      usage: { prompt_tokens: 100, completion_tokens: 100, total_tokens: 200 },
+    });
+  });
+
+const weather: AgentTool<{ city: string }> = {
+  description: "Current weather for a city",
+  inputSchema: {
+    type: "object",
+    properties: { city: { type: "string", minLength: 1 } },
+    required: ["city"],
+    additionalProperties: false,
+  },
+  execute: ({ city }) => ({ city, tempC: 21 }),
+};
+
+describe("AgentRunner", () => {
+  let gateway: LLMGateway;
+
+  beforeEach(() => {
+    gateway = createGateway({ providers });
+  });
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  const run = (runner: AgentRunner) =>
+    runner.run({ messages: [{ role: "user", content: "What's the weather in Oslo?" }] });
+
+  test("should execute tool calls and feed results back until the model answers", async () => {
+    const bodies = scriptProvider([
+      { content: "Checking.", toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Oslo"}' }] },
+      { content: "It is 21°C in Oslo." },
+    ]);
+
+    const result = await run(new AgentRunner(gateway, { tools: { weather } }));
+
+    expect(result.stopReason).toBe("completed");
+    expect(result.content).toBe("It is 21°C in Oslo.");
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[0]!.toolResults[0]).toMatchObject({
+      name: "weather",
+      input: { city: "Oslo" },
+      output: '{"city":"Oslo","tempC":21}',
+    });
+    expect(result.messages.map((m) => m.role)).toEqual(["user", "assistant", "tool", "assistant"]);
+
+    // The tool definition is advertised and the result replayed on the second call
+    expect(bodies[0]!.tools[0].function.name).toBe("weather");
+    expect(bodies[1]!.messages[1]!.tool_calls![0]!.id).toBe("call_1");
+    expect(bodies[1]!.messages[2]).toMatchObject({ role: "tool", tool_call_id: "call_1" });
+
+    // Per-step accounting: 200 tokens at $1 per 1k each step
+    expect(result.steps.map((s) => s.cost)).toEqual([0.2, 0.2]);
+    expect(result.totalCost).toBeCloseTo(0.4, 6);
+    expect(result.usage.totalTokens).toBe(400);
+    expect(result.steps[0]!.traceId).toBeTruthy();
+    expect(result.steps[0]!.traceId).not.toBe(result.steps[1]!.traceId);
+  });
+
+  test("should send every step upstream with the response cache on", async () => {
+    const toolTurn = {
+      content: "Checking.",
+      toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Oslo"}' }],
+    };
+    const bodies = scriptProvider([toolTurn, { content: "It is 21°C." }, toolTurn, { content: "Still 21°C." }]);
+    const runner = new AgentRunner(gateway, { tools: { weather } });
+
+    // Same question twice: neither run may be answered from the other's cached steps
+    await run(runner);
+    const again = await run(runner);
+
+    expect(bodies).toHaveLength(4);
+    expect(again.content).toBe("Still 21°C.");
+    expect(again.steps.map((s) => s.toolResults.length)).toEqual([1, 0]);
+  });
+
+  test("should report invalid arguments and unknown tools to the model", async () => {
+    let executed = false;
+    scriptProvider([
+      {
+        toolCalls: [
+          { id: "call_1", name: "weather", arguments: '{"town":"Oslo"}' },
+          { id: "call_2", name: "search", arguments: "{}" },
+        ],
+      },
+      { content: "done" },
+    ]);
+
+    const result = await run(
+      new AgentRunner(gateway, {
+        tools: { weather: { ...weather, execute: () => void (executed = true) } },
+      })
+    );
+
+    const [invalid, unknown] = result.steps[0]!.toolResults;
+    expect(executed).toBe(false);
+    expect(invalid!.error).toContain("$.city: is required");
+    expect(invalid!.error).toContain("$.town: is not allowed");
+    expect(unknown!.error).toContain('Unknown tool "search"');
+    expect(result.messages[2]!.content).toStartWith("Error: ");
+  });
+
+  test("should surface tool exceptions as tool output", async () => {
+    scriptProvider([
+      { toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Oslo"}' }] },
+      { content: "The weather service is down." },
+    ]);
+
+    const result = await run(
+      new AgentRunner(gateway, {
+        tools: {
+          weather: {
+            ...weather,
+            execute: () => {
+              throw new Error("service unavailable");
+            },
+          },
+        },
+      })
+    );
+
+    expect(result.stopReason).toBe("completed");
+    expect(result.steps[0]!.toolResults[0]!.output).toBe("Error: service unavailable");
+  });
+
+  test("should stop at the step limit", async () => {
+    scriptProvider([{ toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Oslo"}' }] }]);
+
+    const result = await run(new AgentRunner(gateway, { tools: { weather }, maxSteps: 3 }));
+    expect(result.stopReason).toBe("max_steps");
+    expect(result.steps).toHaveLength(3);
+  });
+
+  test("should stop once the cost limit is reached", async () => {
+    scriptProvider([{ toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Oslo"}' }] }]);
+
+    const result = await run(new AgentRunner(gateway, { tools: { weather }, maxCostUsd: 0.3 }));
+    expect(result.stopReason).toBe("max_cost");
+    expect(result.steps).toHaveLength(2);
+  });
+
+  test("should run every step through the gateway's budgets", async () => {
+    scriptProvider([{ toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Oslo"}' }] }]);
+    gateway = createGateway({
+      providers,
+      cost: {
+        // Any spend exhausts this, so the second step is refused
+        budgets: { daily: 0.000001 },
+        alerts: { enabled: false, thresholds: [] },
+        tracking: { byUser: true, byProject: true, byFeature: true },
+      },
+    });
+
+    await expect(run(new AgentRunner(gateway, { tools: { weather } }))).rejects.toMatchObject({
+      code: "budget_exceeded",
+    });
+  });
+});
+
+describe("validateJsonSchema", () => {
+  test("should accept valid values and report paths for invalid ones", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+        mode: { enum: ["fast", "slow"] },
+        count: { type: "integer", minimum: 1 },
+      },
+      required: ["mode"],
+    };
+
+    expect(validateJsonSchema({ mode: "fast", tags: ["a"], count: 2 }, schema)).toEqual([]);
+    expect(validateJsonSchema({ mode: "other", tags: ["a", 1, "c"], count: 0.5 }, schema)).toEqual([
+      { path: "$.mode", message: 'must be one of "fast", "slow"' },
+      { path: "$.tags", message: "must have at most 2 items" },
+      { path: "$.tags[1]", message: "expected string, got number" },
+      { path: "$.count", message: "expected integer, got number" },
+    ]);
+  });
+
+  test("should support anyOf and nullable types", () => {
+    const schema = { anyOf: [{ type: "string" }, { type: "number" }] };
+    expect(validateJsonSchema(3, schema)).toEqual([]);
+    expect(validateJsonSchema(true, schema)).toHaveLength(1);
+    expect(validateJsonSchema(null, { type: ["string", "null"] })).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Azure OpenAI Provider Tests
+ *
+ * Deployment URLs, api-version and api-key handling, streaming, health checks,
+ * failover to public OpenAI for the same logical model, and config validation.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { ConfigError, validateConfig } from "../config/loader";
+import { restoreFetch } from "./fixtures";
+import type { GatewayRequest, ModelConfig, ProviderConfig } from "../core/types";
+
+function model(provider: string, name: string, cost: number, deployment?: string): ModelConfig {
+  return {
+    provider,
+    model: name,
+    tier: "standard",
+    maxTokens: 8192,
+    costPer1kInput: cost,
+    costPer1kOutput: cost,
+    latencyP50Ms: 300,
+    latencyP95Ms: 800,
+    capabilities: ["coding"],
+    ...(deployment ? { deployment } : {}),
+  };
+}
+
+const azure: ProviderConfig = {
+  provider: "azure-east",
+  kind: "azure_openai",
+  apiKey: "azure-key",
+  baseUrl: "https://contoso.openai.azure.com/",
+  apiVersion: "2024-06-01",
+  enabled: true,
+  weight: 1,
+  models: [model("azure-east", "gpt-4o", 0.001, "gpt4o-prod"), model("azure-east", "gpt-4o-mini", 0.0005)],
+};
+
+const openai: ProviderConfig = {
+  provider: "openai",
+  apiKey: "sk-test",
+  enabled: true,
+  weight: 1,
+  models: [model("openai", "gpt-4o", 0.01), model("openai", "gpt-4o-mini", 0.0001)],
+};
+
+const request: GatewayRequest = {
+  id: "azure-1",
+  messages: [{ role: "user", content: "Hello" }],
+  model: "gpt-4o",
+  routing: { cacheEnabled: false },
+};
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+// Keeps the headers too, which the shared stubFetch does not
+function recordFetch(handler: (url: string) => Response): SentRequest[] {
+  const sent: SentRequest[] = [];
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    sent.push({
+      url: String(url),
+      headers: (init?.headers ?? {}) as Record<string, string>,
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    return handler(String(url));
+  }) as unknown as typeof fetch;
+  return sent;
+}
+
+const completion = (content: string) =>
+  Response.json({
+    choices: [{ message: { content } }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  });
+
+describe("azure_openai provider", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should call the model's deployment with api-version and api-key", async () => {
+    const sent = recordFetch(() => completion("hi from azure"));
+    const gateway = createGateway({ providers: [azure] });
+
+    const response = await gateway.complete(request);
+
+    expect(response.provider).toBe("azure-east");
+    expect(response.model).toBe("gpt-4o");
+    expect(response.content).toBe("hi from azure");
+    expect(sent[0]!.url).toBe(
+      "https://contoso.openai.azure.com/openai/deployments/gpt4o-prod/chat/completions?api-version=2024-06-01"
+    );
+    expect(sent[0]!.headers["api-key"]).toBe("azure-key");
+    expect(sent[0]!.headers.Authorization).toBeUndefined();
+  });
+
+  test("should default the deployment to the model name", async () => {
+    const sent = recordFetch(() => completion("mini"));
+    const gateway = createGateway({ providers: [{ ...azure, apiVersion: undefined }] });
+
+    await gateway.complete({ ...request, model: "gpt-4o-mini" });
+
+    expect(sent[0]!.url).toBe(
+      "https://contoso.openai.azure.com/openai/deployments/gpt-4o-mini/chat/completions?api-version=2024-10-21"
+    );
+  });
+
+  test("should stream from the deployment", async () => {
+    const sent = recordFetch(
+      () =>
+        new Response(
+          [
+            'data: {"choices":[],"prompt_filter_results":[]}',
+            'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+            'data: {"choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}',
+            "data: [DONE]",
+            "",
+          ].join("\n"),
+          { headers: { "Content-Type": "text/event-stream" } }
+        )
+    );
+    const gateway = createGateway({ providers: [azure] });
+
+    let text = "";
+    for await (const chunk of gateway.stream(request)) {
+      expect(chunk.type).not.toBe("error");
+      if (chunk.type === "text") text += chunk.content;
+    }
+
+    expect(text).toBe("Hello");
+    expect(sent[0]!.url).toContain("/openai/deployments/gpt4o-prod/chat/completions?");
+    expect(sent[0]!.body?.stream).toBe(true);
+  });
+
+  test("should health check the resource", async () => {
+    const sent = recordFetch(() => Response.json({ data: [] }));
+    const gateway = createGateway({ providers: [azure] });
+
+    expect(await gateway.healthCheck()).toEqual({ "azure-east": true });
+    expect(sent[0]!.url).toBe("https://contoso.openai.azure.com/openai/models?api-version=2024-06-01");
+  });
+
+  test("should fail over to public OpenAI for the same logical model", async () => {
+    const sent = recordFetch((url) =>
+      url.includes("azure.com") ? new Response("overloaded", { status: 503 }) : completion("hi from openai")
+    );
+    const gateway = createGateway({
+      providers: [{ ...azure, models: [azure.models[0]!] }, openai],
+      reliability: {
+        retryAttempts: 1,
+        retryDelayMs: 1,
+        retryBackoffMultiplier: 1,
+        circuitBreaker: { failureThreshold: 5, recoveryTimeMs: 30000, halfOpenRequests: 1 },
+        timeout: { requestMs: 1000, streamMs: 1000 },
+      },
+    });
+
+    // Azure is preferred; on failure the cheaper gpt-4o-mini must not replace gpt-4o
+    const response = await gateway.complete({
+      ...request,
+      model: undefined,
+      routing: { strategy: "cost_optimized", cacheEnabled: false, preferredProviders: ["azure-east"] },
+    });
+
+    expect(response.provider).toBe("openai");
+    expect(response.model).toBe("gpt-4o");
+    expect(response.metadata.attempts.map((a) => [a.provider, a.model])).toEqual([
+      ["azure-east", "gpt-4o"],
+      ["openai", "gpt-4o"],
+    ]);
+    expect(sent[1]!.url).toBe("https://api.openai.com/v1/chat/completions");
+    expect(sent[1]!.body?.model).toBe("gpt-4o");
+  });
+});
+
+describe("azure_openai config validation", () => {
+  test("should accept deployments and apiVersion", () => {
+    const config = validateConfig({ providers: [azure] });
+    expect(config.providers[0]!.apiVersion).toBe("2024-06-01");
+    expect(config.providers[0]!.models[0]!.deployment).toBe("gpt4o-prod");
+  });
+
+  test("should require a baseUrl", () => {
+    expect(() => validateConfig({ providers: [{ ...azure, baseUrl: undefined }] })).toThrow(ConfigError);
+    expect(() => createGateway({ providers: [{ ...azure, baseUrl: undefined }] })).toThrow(
+      "azure_openai and needs a baseUrl"
+    );
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Config Tests
+ *
+ * File loading, validation and hot reload of GatewayConfig.
+ */
+
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createGateway } from "../core/gateway";
+import {
+  ConfigError,
+  ConfigWatcher,
+  loadConfigFile,
+  parseConfigSource,
+  validateConfig,
+} from "../config";
+import { restoreFetch, stubFetch } from "./fixtures";
+
+const ollamaYaml = (model: string) => `
+providers:
+  - provider: ollama
+    apiKey: ""
+    baseUrl: http://ollama.test
+    enabled: true
+    weight: 1
+    models:
+      - provider: ollama
+        model: ${model}
+        tier: economy
+        maxTokens: 8192
+        costPer1kInput: 0
+        costPer1kOutput: 0
+        latencyP50Ms: 200
+        latencyP95Ms: 500
+        capabilities: [fast, cheap]
+cost:
+  budgets:
+    daily: 25
+  alerts:
+    enabled: false
+    thresholds: []
+  tracking:
+    byUser: true
+    byProject: false
+    byFeature: false
+`;
+
+describe("Config validation", () => {
+  test("should merge file sections onto defaults", () => {
+    const config = validateConfig(parseConfigSource(ollamaYaml("llama3.2"), "yaml"));
+    expect(config.providers.map((p) => p.provider)).toEqual(["ollama"]);
+    expect(config.cost.budgets.daily).toBe(25);
+    expect(config.routing.defaultStrategy).toBe("balanced");
+  });
+
+  test("should report every problem with its path", () => {
+    try {
+      validateConfig({
+        cache: { enabled: "yes", type: "memory", ttlSeconds: 60, maxSize: 10, semanticSimilarityThreshold: 2 },
+        routnig: {},
+      });
+      throw new Error("expected validation to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      const issues = (error as ConfigError).issues.join("\n");
+      expect(issues).toContain("cache.enabled");
+      expect(issues).toContain("cache.semanticSimilarityThreshold");
+      expect(issues).toContain("routnig");
+    }
+  });
+
+  test("should reject typos in nested keys", () => {
+    const raw = parseConfigSource(ollamaYaml("llama3.2"), "yaml") as { providers: Array<Record<string, unknown>> };
+    const rateLimit = { requestsPerMinute: 10, tokenPerMinute: 1000 };
+
+    expect(() => validateConfig({ providers: [{ ...raw.providers[0], rateLimit }] })).toThrow(
+      "providers.0.rateLimit: Unrecognized key(s) in object: 'tokenPerMinute'"
+    );
+    expect(() => validateConfig({ reliability: { circuitBreaker: { halfOpenRequest: 1 } } })).toThrow(
+      "reliability.circuitBreaker: Unrecognized key(s) in object: 'halfOpenRequest'"
+    );
+  });
+
+  test("should interpolate environment variables", () => {
+    const raw = parseConfigSource(
+      JSON.stringify({
+        providers: [
+          {
+            provider: "openai",
+            apiKey: "${TEST_OPENAI_KEY}",
+            baseUrl: "${TEST_OPENAI_URL:-https://api.openai.com}",
+            enabled: true,
+            weight: 1,
+            models: [],
+          },
+        ],
+      }),
+      "json"
+    );
+
+    const config = validateConfig(raw, "test.json", { TEST_OPENAI_KEY: "sk-test" });
+    expect(config.providers[0]?.apiKey).toBe("sk-test");
+    expect(config.providers[0]?.baseUrl).toBe("https://api.openai.com");
+
+    expect(() => validateConfig(raw, "test.json", {})).toThrow("TEST_OPENAI_KEY is not set");
+  });
+});
+
+describe("Config hot reload", () => {
+  let dir: string;
+  let path: string;
+  let sent: { model: string }[];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "gateway-config-"));
+    path = join(dir, "gateway.yaml");
+    sent = stubFetch(() => Response.json({ message: { content: "ok" }, prompt_eval_count: 1, eval_count: 1 }));
+  });
+
+  afterEach(() => {
+    restoreFetch();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should load YAML files", async () => {
+    writeFileSync(path, ollamaYaml("llama3.2"));
+    const config = await loadConfigFile(path);
+    expect(config.providers[0]?.models[0]?.model).toBe("llama3.2");
+  });
+
+  test("should apply reloaded config to new requests only", async () => {
+    writeFileSync(path, ollamaYaml("llama3.2"));
+    const gateway = createGateway(await loadConfigFile(path));
+    const watcher = new ConfigWatcher(path, gateway);
+    const request = {
+      id: "cfg-1",
+      messages: [{ role: "user" as const, content: "Hi" }],
+      routing: { cacheEnabled: false },
+    };
+
+    // Swap the config while a request is in flight
+    let release!: () => void;
+    const gate = new Promise<void>((r) => (release = r));
+    gateway.use({ name: "gate", beforeRequest: () => gate });
+    const inFlight = gateway.complete(request);
+
+    writeFileSync(path, ollamaYaml("qwen2.5"));
+    expect(await watcher.reload()).toBe(true);
+    release();
+
+    expect((await inFlight).model).toBe("llama3.2");
+    expect((await gateway.complete({ ...request, id: "cfg-2" })).model).toBe("qwen2.5");
+    expect(sent.map((b) => b.model)).toEqual(["llama3.2", "qwen2.5"]);
+    expect(gateway.getConfig().cost.budgets.daily).toBe(25);
+  });
+
+  test("should keep the last good config when a reload is invalid", async () => {
+    writeFileSync(path, ollamaYaml("llama3.2"));
+    const gateway = createGateway(await loadConfigFile(path));
+    const errors: Error[] = [];
+    const watcher = new ConfigWatcher(path, gateway, { onError: (e) => errors.push(e) });
+
+    writeFileSync(path, "routing:\n  defaultStrategy: fastest\n");
+    expect(await watcher.reload()).toBe(false);
+    expect(errors[0]?.message).toContain("routing");
+    expect(gateway.getConfig().providers[0]?.models[0]?.model).toBe("llama3.2");
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Model Discovery Tests
+ *
+ * Catalog lookup and files, merging discovered models into routing, and the catalog view.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createGateway } from "../core/gateway";
+import { CatalogError, DEFAULT_MODEL_CATALOG, findCatalogEntry, loadModelCatalog } from "../catalog";
+import { restoreFetch, stubFetch } from "./fixtures";
+import type { DiscoveryConfig, ProviderConfig } from "../core/types";
+
+const ollama: ProviderConfig = {
+  provider: "ollama",
+  apiKey: "",
+  baseUrl: "http://ollama.test",
+  enabled: true,
+  weight: 1,
+  models: ["llama3.2", "llama2-retired"].map((model) => ({
+    provider: "ollama",
+    model,
+    tier: "economy" as const,
+    maxTokens: 8192,
+    costPer1kInput: 0,
+    costPer1kOutput: 0,
+    latencyP50Ms: 200,
+    latencyP95Ms: 500,
+    capabilities: [],
+  })),
+};
+
+// Ollama /api/tags with these models; anything else is a plain completion
+function stubTags(names: string[] | null): void {
+  stubFetch((url) => {
+    if (url.endsWith("/api/tags")) {
+      return names ? Response.json({ models: names.map((name) => ({ name })) }) : new Response("down", { status: 503 });
+    }
+    return Response.json({ message: { content: "ok" }, prompt_eval_count: 1, eval_count: 1 });
+  });
+}
+
+function gatewayWith(discovery: DiscoveryConfig = { enabled: false }) {
+  return createGateway({ providers: [ollama], discovery });
+}
+
+describe("Model catalog", () => {
+  test("should match ids exactly, without tags and by dated snapshot", () => {
+    expect(findCatalogEntry(DEFAULT_MODEL_CATALOG, "gpt-4o")?.costPer1kInput).toBe(0.0025);
+    expect(findCatalogEntry(DEFAULT_MODEL_CATALOG, "qwen2.5:7b")).toBe(DEFAULT_MODEL_CATALOG["qwen2.5"]);
+    expect(findCatalogEntry(DEFAULT_MODEL_CATALOG, "claude-sonnet-4-20250514")).toBe(DEFAULT_MODEL_CATALOG["claude-sonnet-4"]);
+    // The longest matching key wins
+    expect(findCatalogEntry(DEFAULT_MODEL_CATALOG, "gpt-4o-mini-2024-07-18")).toBe(DEFAULT_MODEL_CATALOG["gpt-4o-mini"]);
+    expect(findCatalogEntry(DEFAULT_MODEL_CATALOG, "whisper-1")).toBeUndefined();
+  });
+
+  test("should load catalog files and report invalid entries", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "catalog-"));
+    try {
+      const valid = join(dir, "catalog.yaml");
+      writeFileSync(
+        valid,
+        "phi4:\n  tier: economy\n  maxTokens: 16384\n  costPer1kInput: 0\n  costPer1kOutput: 0\n" +
+          "  latencyP50Ms: 300\n  latencyP95Ms: 800\n  capabilities: [coding]\n"
+      );
+      expect((await loadModelCatalog(valid)).phi4?.maxTokens).toBe(16384);
+
+      const invalid = join(dir, "catalog.json");
+      writeFileSync(invalid, JSON.stringify({ phi4: { tier: "huge" } }));
+      const error = await loadModelCatalog(invalid).catch((e) => e);
+      expect(error).toBeInstanceOf(CatalogError);
+      expect((error as CatalogError).issues.some((i) => i.startsWith("phi4.tier:"))).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("LLMGateway.discoverModels", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should add cataloged models and report missing and uncataloged ones", async () => {
+    stubTags(["llama3.2:latest", "qwen2.5:7b", "homebrew-model"]);
+    const gateway = gatewayWith();
+
+    const [result] = await gateway.discoverModels();
+
+    expect(result).toMatchObject({
+      provider: "ollama",
+      missing: ["llama2-retired"],
+      uncataloged: ["homebrew-model"],
+    });
+    expect(result!.added.map((m) => m.model)).toEqual(["qwen2.5:7b"]);
+    expect(gateway.listModels().map((m) => m.model)).toEqual(["llama3.2", "llama2-retired", "qwen2.5:7b"]);
+
+    const response = await gateway.complete({
+      id: "discovery-1",
+      model: "qwen2.5:7b",
+      messages: [{ role: "user", content: "Hi" }],
+      routing: { cacheEnabled: false },
+    });
+    expect(response.model).toBe("qwen2.5:7b");
+  });
+
+  test("should mark catalog entries by source and status", async () => {
+    stubTags(["llama3.2:latest", "qwen2.5:7b"]);
+    const gateway = gatewayWith();
+    expect(gateway.getModelCatalog().every((m) => m.status === "unverified")).toBe(true);
+
+    await gateway.discoverModels();
+
+    expect(gateway.getModelCatalog().map((m) => [m.model, m.source, m.status])).toEqual([
+      ["llama3.2", "config", "available"],
+      ["llama2-retired", "config", "missing"],
+      ["qwen2.5:7b", "discovered", "available"],
+    ]);
+  });
+
+  test("should only route to uncataloged models when asked to", async () => {
+    stubTags(["homebrew-model"]);
+    const gateway = gatewayWith({ enabled: false, includeUncataloged: true });
+
+    const [result] = await gateway.discoverModels();
+
+    expect(result!.added).toMatchObject([{ model: "homebrew-model", costPer1kInput: 0, tier: "standard" }]);
+  });
+
+  test("should prefer catalog file entries over the built-in catalog", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "catalog-"));
+    try {
+      const path = join(dir, "catalog.json");
+      writeFileSync(
+        path,
+        JSON.stringify({
+          "qwen2.5": {
+            tier: "standard",
+            maxTokens: 32768,
+            costPer1kInput: 0.0002,
+            costPer1kOutput: 0.0002,
+            latencyP50Ms: 300,
+            latencyP95Ms: 800,
+            capabilities: ["coding"],
+          },
+        })
+      );
+      stubTags(["qwen2.5:7b"]);
+      const gateway = gatewayWith({ enabled: false, catalogPath: path });
+
+      const [result] = await gateway.discoverModels();
+
+      expect(result!.added[0]).toMatchObject({ model: "qwen2.5:7b", tier: "standard", costPer1kInput: 0.0002 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should keep discovered models across config reloads", async () => {
+    stubTags(["qwen2.5:7b"]);
+    const gateway = gatewayWith();
+    await gateway.discoverModels();
+
+    gateway.updateConfig({ ...gateway.getConfig(), providers: [{ ...ollama, weight: 2 }] });
+
+    expect(gateway.listModels().map((m) => m.model)).toContain("qwen2.5:7b");
+  });
+
+  test("should leave a provider unverified when listing fails", async () => {
+    stubTags(null);
+    const gateway = gatewayWith();
+
+    const [result] = await gateway.discoverModels();
+
+    expect(result!.available).toBeNull();
+    expect(result!.error).toContain("503");
+    expect(gateway.getModelCatalog().every((m) => m.status === "unverified")).toBe(true);
+  });
+});
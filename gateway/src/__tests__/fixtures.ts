@@ -0,0 +1,92 @@
+/**
+ * Test Fixtures - Provider configs, fetch stubs and stream readers shared by the test files
+ */
+
+import type { ModelConfig, ProviderConfig } from "../core/types";
+
+export const originalFetch = globalThis.fetch;
+
+/**
+ * Put the real fetch back; every test file that stubs fetch calls this in afterEach
+ */
+export function restoreFetch(): void {
+  globalThis.fetch = originalFetch;
+}
+
+export interface ProviderOverrides extends Partial<Omit<ProviderConfig, "provider" | "models">> {
+  // Merged into the provider's only model
+  model?: Partial<ModelConfig>;
+}
+
+/**
+ * A provider serving one economy-tier model at 0.001 per 1k tokens.
+ * Ollama gets a test base URL, since it has no default one.
+ */
+export function provider(name: string, model: string, overrides: ProviderOverrides = {}): ProviderConfig {
+  const { model: modelOverrides, ...providerOverrides } = overrides;
+  return {
+    provider: name,
+    apiKey: "test",
+    baseUrl: name === "ollama" ? "http://ollama.test" : undefined,
+    enabled: true,
+    weight: 1,
+    ...providerOverrides,
+    models: [
+      {
+        provider: name,
+        model,
+        tier: "economy",
+        maxTokens: 8192,
+        costPer1kInput: 0.001,
+        costPer1kOutput: 0.001,
+        latencyP50Ms: 200,
+        latencyP95Ms: 500,
+        capabilities: [],
+        ...modelOverrides,
+      },
+    ],
+  };
+}
+
+/**
+ * Answer every fetch with `answer(url, call)`, where call counts from 0.
+ * Returns the JSON bodies sent, typed as the wire fields the test reads.
+ */
+export function stubFetch<TBody = unknown>(answer: (url: string, call: number) => Response): TBody[] {
+  const bodies: TBody[] = [];
+  let calls = 0;
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    if (init?.body) bodies.push(JSON.parse(String(init.body)) as TBody);
+    return answer(url, calls++);
+  }) as unknown as typeof fetch;
+  return bodies;
+}
+
+/**
+ * A server-sent events body, one data event per value; strings such as "[DONE]" are sent as-is
+ */
+export function sse(events: unknown[]): Response {
+  return new Response(
+    events.map((e) => `data: ${typeof e === "string" ? e : JSON.stringify(e)}\n\n`).join("")
+  );
+}
+
+/**
+ * A newline-delimited JSON body, as Ollama streams
+ */
+export function ndjson(events: unknown[]): Response {
+  return new Response(events.map((e) => JSON.stringify(e) + "\n").join(""));
+}
+
+/**
+ * Read a stream to the end, keeping its chunks and its return value
+ */
+export async function drain<T, R>(stream: AsyncGenerator<T, R, undefined>): Promise<{ chunks: T[]; result: R }> {
+  const chunks: T[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    chunks.push(next.value);
+    next = await stream.next();
+  }
+  return { chunks, result: next.value };
+}
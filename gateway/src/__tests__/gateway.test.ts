@@ -7,6 +7,7 @@ import { SemanticCache } from "../cache/semantic-cache";
 import { IntelligentRouter } from "../routing/router";
 import { CircuitBreaker } from "../reliability/circuit-breaker";
 import { RetryHandler, RequestDeduplicator } from "../reliability/retry";
+import { BudgetExceededError, ProviderError, RateLimitedError, isFallbackEligible } from "../core/errors";
 import { SecurityGuard } from "../security/guard";
 import { CostTracker } from "../cost/tracker";
 import { ContextManager, TokenCounter } from "../context/manager";
@@ -246,6 +247,61 @@ describe("RetryHandler", () => {
       })
     ).rejects.toThrow("rate_limit exceeded");
   });
+
+  test("should use the retryable flag of gateway errors", async () => {
+    const handler = new RetryHandler(config);
+    let attempts = 0;
+
+    await expect(
+      handler.execute(async () => {
+        attempts++;
+        throw new ProviderError("openai", "OpenAI API error: 401 - bad key", { upstreamStatus: 401 });
+      })
+    ).rejects.toThrow("401");
+    expect(attempts).toBe(1);
+
+    attempts = 0;
+    const result = await handler.execute(async () => {
+      attempts++;
+      if (attempts < 2) throw new RateLimitedError("openai", "OpenAI API error: 429 - slow down");
+      return "success";
+    });
+    expect(result).toBe("success");
+    expect(attempts).toBe(2);
+  });
+});
+
+describe("GatewayError", () => {
+  test("should map upstream responses to typed errors", async () => {
+    const limited = await ProviderError.fromResponse(
+      "anthropic",
+      new Response("overloaded", { status: 429, headers: { "retry-after": "3" } }),
+      "Anthropic API error"
+    );
+    expect(limited).toBeInstanceOf(RateLimitedError);
+    expect(limited.code).toBe("rate_limited");
+    expect(limited.status).toBe(429);
+    expect(limited.retryAfterMs).toBe(3000);
+    expect(limited.message).toBe("Anthropic API error: 429 - overloaded");
+
+    const invalid = await ProviderError.fromResponse(
+      "openai",
+      new Response("bad request", { status: 400 }),
+      "OpenAI API error"
+    );
+    expect(invalid.code).toBe("provider_error");
+    expect(invalid.status).toBe(502);
+    expect(invalid.retryable).toBe(false);
+    expect(isFallbackEligible(invalid)).toBe(false);
+  });
+
+  test("should carry stable codes for gateway-level failures", () => {
+    const error = new BudgetExceededError();
+    expect(error.code).toBe("budget_exceeded");
+    expect(error.status).toBe(429);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toBe("Budget exceeded");
+  });
 });
 
 describe("SecurityGuard", () => {
@@ -434,6 +490,7 @@ describe("EvaluationFramework", () => {
         },
         cacheStatus: { hit: false },
         retryCount: 0,
+        attempts: [],
         traceId: "trace-1",
         spanId: "span-1",
       },
@@ -475,6 +532,7 @@ describe("JobQueue", () => {
           },
           cacheStatus: { hit: false },
           retryCount: 0,
+          attempts: [],
           traceId: "t",
           spanId: "s",
         },
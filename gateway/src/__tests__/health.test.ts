@@ -0,0 +1,229 @@
+/**
+ * Health Probe Tests
+ *
+ * Probe strategies, cached and shared probes, health-aware routing and the dashboard feed.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { ProviderAdapter } from "../core/providers";
+import { HealthMonitor } from "../reliability/health-monitor";
+import { MetricsCollector } from "../dashboard/metrics-collector";
+import { connectGateway } from "../dashboard/server";
+import { validateConfig } from "../config";
+import { restoreFetch, stubFetch } from "./fixtures";
+import type { Provider, ProviderConfig, ProviderHealthCheckConfig } from "../core/types";
+
+function provider(name: string, healthCheck?: ProviderHealthCheckConfig): ProviderConfig {
+  return {
+    provider: name,
+    apiKey: "test",
+    baseUrl: name === "ollama" ? "http://ollama.test" : undefined,
+    enabled: true,
+    weight: 1,
+    healthCheck,
+    models: [
+      {
+        provider: name,
+        model: `${name}-large`,
+        tier: "premium",
+        maxTokens: 8192,
+        costPer1kInput: 0.01,
+        costPer1kOutput: 0.03,
+        latencyP50Ms: 200,
+        latencyP95Ms: 500,
+        capabilities: [],
+      },
+      {
+        provider: name,
+        model: `${name}-small`,
+        tier: "economy",
+        maxTokens: 8192,
+        costPer1kInput: 0.0001,
+        costPer1kOutput: 0.0002,
+        latencyP50Ms: 200,
+        latencyP95Ms: 500,
+        capabilities: [],
+      },
+    ],
+  };
+}
+
+// Record every call, with the method the shared stubFetch does not keep, and answer with `status`
+function recordProbes(status: () => number, answer: unknown = {}): Array<{ url: string; init?: RequestInit }> {
+  const calls: Array<{ url: string; init?: RequestInit }> = [];
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    calls.push({ url: String(url), init });
+    return Response.json(answer, { status: status() });
+  }) as unknown as typeof fetch;
+  return calls;
+}
+
+function monitorFor(...configs: ProviderConfig[]): HealthMonitor {
+  const monitor = new HealthMonitor({ cacheTtlMs: 60000, timeoutMs: 1000 });
+  monitor.setProviders(new Map(configs.map((c) => [c.provider as Provider, new ProviderAdapter(c)])));
+  return monitor;
+}
+
+describe("Probe strategies", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should probe Anthropic through the model list, not a completion", async () => {
+    const calls = recordProbes(() => 200);
+
+    expect(await new ProviderAdapter(provider("anthropic")).healthCheck()).toBe(true);
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.url).toBe("https://api.anthropic.com/v1/models?limit=1");
+    expect(calls[0]!.init?.method).toBeUndefined();
+  });
+
+  test("should treat HEAD responses below 500 as up", async () => {
+    let status = 404;
+    const calls = recordProbes(() => status);
+    const adapter = new ProviderAdapter(provider("ollama", { probe: "head" }));
+
+    expect(await adapter.healthCheck()).toBe(true);
+    expect(calls[0]).toMatchObject({ url: "http://ollama.test", init: { method: "HEAD" } });
+
+    status = 503;
+    await expect(adapter.probe()).rejects.toThrow("HEAD http://ollama.test returned 503");
+  });
+
+  test("should run completion probes on the cheapest model and sample them", async () => {
+    const calls = recordProbes(() => 200, { message: { content: "" }, prompt_eval_count: 1, eval_count: 1 });
+    const monitor = monitorFor(provider("ollama", { probe: "completion" }));
+
+    const health = await monitor.check("ollama");
+    await monitor.check("ollama");
+
+    expect(health).toMatchObject({ healthy: true, probe: "completion" });
+    expect(calls).toHaveLength(1);
+    const body = JSON.parse(String(calls[0]!.init?.body));
+    expect(body.model).toBe("ollama-small");
+    expect(body.options.num_predict).toBe(1);
+  });
+});
+
+describe("HealthMonitor", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should share one probe between concurrent callers and cache the result", async () => {
+    const calls = recordProbes(() => 200);
+    const monitor = monitorFor(provider("openai"));
+
+    const results = await Promise.all([monitor.check("openai"), monitor.check("openai"), monitor.checkAll()]);
+    await monitor.check("openai");
+
+    expect(calls).toHaveLength(1);
+    expect(results[0]).toBe(results[1]);
+
+    await monitor.check("openai", true);
+    expect(calls).toHaveLength(2);
+  });
+
+  test("should track failures and error rate", async () => {
+    let status = 500;
+    recordProbes(() => status);
+    const monitor = monitorFor(provider("openai"));
+
+    await monitor.check("openai", true);
+    const failed = await monitor.check("openai", true);
+    expect(failed).toMatchObject({ healthy: false, consecutiveFailures: 2, errorRate: 1 });
+    expect(failed.error).toContain("Health probe failed");
+
+    status = 200;
+    const recovered = await monitor.check("openai", true);
+    expect(recovered).toMatchObject({ healthy: true, consecutiveFailures: 0 });
+    expect(recovered.errorRate).toBeCloseTo(2 / 3);
+  });
+
+  test("should fail probes that exceed the timeout", async () => {
+    globalThis.fetch = (() => new Promise(() => {})) as unknown as typeof fetch;
+    const monitor = new HealthMonitor({ timeoutMs: 10 });
+    monitor.setProviders(new Map([["openai", new ProviderAdapter(provider("openai"))]]));
+
+    const health = await monitor.check("openai");
+    expect(health.healthy).toBe(false);
+    expect(health.error).toContain("timeout");
+  });
+
+  test("should feed probe results to the dashboard", async () => {
+    recordProbes(() => 500);
+    const monitor = monitorFor(provider("openai"));
+    const collector = new MetricsCollector();
+    monitor.subscribe((h) => collector.recordHealthProbe(h.provider, h.healthy, h.error));
+
+    await monitor.checkAll();
+
+    const [health] = collector.getState().current.providers;
+    expect(health).toMatchObject({ provider: "openai", status: "down" });
+  });
+
+  test("should feed a connected dashboard the gateway's probes and requests", async () => {
+    const gateway = createGateway({ providers: [provider("ollama")] });
+    const collector = new MetricsCollector();
+    const disconnect = connectGateway(collector, gateway);
+    const ask = (id: string) =>
+      gateway.complete({ id, messages: [{ role: "user", content: "Hi" }], routing: { cacheEnabled: false } });
+
+    recordProbes(() => 500);
+    await gateway.getHealthMonitor().checkAll();
+    expect(collector.getState().current.providers[0]).toMatchObject({ provider: "ollama", status: "down" });
+
+    recordProbes(() => 200, { message: { content: "Hello" }, prompt_eval_count: 3, eval_count: 2 });
+    await ask("dash-1");
+    expect(collector.getState().current.requests.total).toBe(1);
+
+    disconnect();
+    await ask("dash-2");
+    await gateway.getHealthMonitor().checkAll();
+    expect(collector.getState().current.requests.total).toBe(1);
+  });
+});
+
+describe("Health-aware routing", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should avoid providers whose last probe failed", async () => {
+    stubFetch((url) => {
+      // openai's model list is down, ollama is fine
+      if (url.includes("openai.com")) return new Response("down", { status: 503 });
+      return Response.json({ message: { content: "ok" }, prompt_eval_count: 1, eval_count: 1 });
+    });
+    const gateway = createGateway({
+      providers: [provider("openai"), provider("ollama")],
+      reliability: {
+        retryAttempts: 1,
+        retryDelayMs: 1,
+        retryBackoffMultiplier: 1,
+        circuitBreaker: { failureThreshold: 5, recoveryTimeMs: 30000, halfOpenRequests: 1 },
+        timeout: { requestMs: 1000, streamMs: 1000 },
+      },
+    });
+    const request = {
+      id: "health-1",
+      messages: [{ role: "user" as const, content: "Hi" }],
+      routing: { preferredProviders: ["openai"], cacheEnabled: false },
+    };
+
+    expect(await gateway.healthCheck()).toEqual({ openai: false, ollama: true });
+    expect((await gateway.complete(request)).provider).toBe("ollama");
+
+    // With no healthy alternative the unhealthy provider is still tried
+    await expect(
+      gateway.complete({ ...request, routing: { ...request.routing, allowedProviders: ["openai"] } })
+    ).rejects.toMatchObject({ code: "provider_error" });
+  });
+
+  test("should require a url for head probes without a baseUrl", () => {
+    expect(() => validateConfig({ providers: [provider("anthropic", { probe: "head" })] })).toThrow(
+      "providers.0.healthCheck.url: Required for head probes when the provider has no baseUrl"
+    );
+  });
+});
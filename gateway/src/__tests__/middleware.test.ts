@@ -0,0 +1,145 @@
+/**
+ * Middleware Pipeline Tests
+ */
+
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { resolveMiddleware, type GatewayMiddleware } from "../core/middleware";
+import { provider, restoreFetch } from "./fixtures";
+import type { GatewayRequest } from "../core/types";
+
+const ollamaProvider = provider("ollama", "llama3.2", {
+  apiKey: "",
+  model: { costPer1kOutput: 0.002, capabilities: ["fast", "cheap"] },
+});
+
+let fetchCalls = 0;
+let lastBody: { messages: Array<{ role: string; content: string }> } | null = null;
+
+describe("resolveMiddleware", () => {
+  const named = (name: string): GatewayMiddleware => ({ name });
+
+  test("should keep built-ins first and append custom middleware", () => {
+    const chain = resolveMiddleware([named("security"), named("cache")], {
+      custom: [named("tenant")],
+    });
+    expect(chain.map((m) => m.name)).toEqual(["security", "cache", "tenant"]);
+  });
+
+  test("should apply order and disabled", () => {
+    const chain = resolveMiddleware([named("security"), named("budget"), named("cache")], {
+      order: ["cache", "security"],
+      disabled: ["budget"],
+    });
+    expect(chain.map((m) => m.name)).toEqual(["cache", "security"]);
+  });
+
+  test("should reject duplicate and unknown names", () => {
+    expect(() => resolveMiddleware([named("cache")], { custom: [named("cache")] })).toThrow(
+      "Duplicate middleware name"
+    );
+    expect(() => resolveMiddleware([named("cache")], { order: ["nope"] })).toThrow(
+      "Unknown middleware in order"
+    );
+  });
+});
+
+describe("LLMGateway middleware", () => {
+  const request: GatewayRequest = {
+    id: "mw-1",
+    messages: [{ role: "user", content: "Hello {{name}}" }],
+  };
+
+  beforeEach(() => {
+    fetchCalls = 0;
+    lastBody = null;
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+      fetchCalls++;
+      lastBody = JSON.parse(String(init?.body));
+      return Response.json({
+        message: { content: "Hi Ada, your card is 4111" },
+        prompt_eval_count: 10,
+        eval_count: 5,
+      });
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should let custom middleware rewrite requests and responses", async () => {
+    const gateway = createGateway({
+      providers: [ollamaProvider],
+      middleware: {
+        custom: [
+          {
+            name: "template",
+            beforeRequest(ctx) {
+              ctx.request = {
+                ...ctx.request,
+                messages: ctx.request.messages.map((m) => ({
+                  ...m,
+                  content: String(m.content).replace("{{name}}", "Ada"),
+                })),
+              };
+            },
+          },
+          {
+            name: "redact",
+            afterResponse(_ctx, response) {
+              return { ...response, content: response.content.replace(/\d{4}/g, "****") };
+            },
+          },
+        ],
+      },
+    });
+
+    const response = await gateway.complete(request);
+    expect(lastBody?.messages[0]?.content).toBe("Hello Ada");
+    expect(response.content).toBe("Hi Ada, your card is ****");
+  });
+
+  test("should short-circuit when a middleware responds", async () => {
+    const gateway = createGateway({ providers: [ollamaProvider] });
+    gateway.use({
+      name: "canned",
+      beforeRequest(ctx) {
+        ctx.respond("canned answer");
+      },
+    });
+
+    const response = await gateway.complete(request);
+    expect(fetchCalls).toBe(0);
+    expect(response.content).toBe("canned answer");
+    expect(response.cached).toBe(true);
+  });
+
+  test("should skip disabled built-in stages", async () => {
+    const gateway = createGateway({
+      providers: [ollamaProvider],
+      middleware: { disabled: ["cache"] },
+    });
+
+    await gateway.complete(request);
+    await gateway.complete({ ...request, id: "mw-2" });
+    expect(fetchCalls).toBe(2);
+  });
+
+  test("should call onError hooks when the pipeline fails", async () => {
+    const errors: string[] = [];
+    const gateway = createGateway({ providers: [ollamaProvider] });
+    gateway.use({
+      name: "fail",
+      beforeRequest() {
+        throw new Error("tenant not found");
+      },
+      onError(_ctx, error) {
+        errors.push(error.message);
+      },
+    });
+
+    await expect(gateway.complete(request)).rejects.toThrow("tenant not found");
+    expect(errors).toEqual(["tenant not found"]);
+  });
+});
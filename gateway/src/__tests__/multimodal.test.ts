@@ -0,0 +1,330 @@
+/**
+ * Multimodal Tests
+ *
+ * Image blocks per provider, vision routing, image token estimates and image limits.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway, resolveGatewayConfig } from "../core/gateway";
+import { InvalidRequestError } from "../core/errors";
+import { ContextManager, TokenCounter } from "../context/manager";
+import { SecurityGuard } from "../security/guard";
+import { estimateImageTokens, imageDimensions, isPrivateAddress } from "../core/images";
+import { provider as baseProvider, restoreFetch, stubFetch } from "./fixtures";
+import type {
+  GatewayRequest,
+  ImageSource,
+  ModelCapability,
+  SecurityConfig,
+} from "../core/types";
+
+// Smallest header imageDimensions needs: signature plus IHDR width and height
+function png(width: number, height: number): string {
+  const bytes = Buffer.alloc(33);
+  bytes.writeUInt32BE(0x89504e47, 0);
+  bytes.writeUInt32BE(0x0d0a1a0a, 4);
+  bytes.writeUInt32BE(13, 8);
+  bytes.write("IHDR", 12, "ascii");
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return bytes.toString("base64");
+}
+
+const image = { type: "base64" as const, mediaType: "image/png", data: png(1024, 1024) };
+
+const request: GatewayRequest = {
+  id: "vision-1",
+  messages: [
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "What is in this picture?" },
+        { type: "image", source: image },
+      ],
+    },
+  ],
+  routing: { cacheEnabled: false },
+};
+
+const provider = (name: string, model: string, capabilities: ModelCapability[], cost = 0.001) =>
+  baseProvider(name, model, { model: { costPer1kInput: cost, costPer1kOutput: cost, capabilities } });
+
+// The request fields these tests read, across providers
+interface SentBody {
+  messages: Array<{ role: string; content: string | unknown[]; images?: string[] }>;
+  contents: Array<{ parts: unknown[] }>;
+}
+
+// A fake CDN on a public documentation address, so no DNS lookup is needed
+const CDN = "https://203.0.113.10";
+
+// Answer provider calls with `answer`, serving image URLs from the fake CDN
+const stubProviders = (answer: unknown) =>
+  stubFetch<SentBody>((url) =>
+    String(url).startsWith(CDN)
+      ? new Response(Buffer.from(png(64, 64), "base64"), { headers: { "Content-Type": "image/png" } })
+      : Response.json(answer)
+  );
+
+type ImageLimits = NonNullable<SecurityConfig["images"]>;
+
+// Default security settings with URL fetching turned on
+const fetchingSecurity = (images: Partial<ImageLimits> = {}): SecurityConfig => {
+  const security = resolveGatewayConfig().security;
+  return { ...security, images: { ...security.images!, fetchUrls: { enabled: true }, ...images } };
+};
+
+const geminiAnswer = {
+  candidates: [{ content: { parts: [{ text: "Two cats" }] } }],
+  usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2, totalTokenCount: 12 },
+};
+
+const withUrlImage = (url: string): GatewayRequest => ({
+  ...request,
+  messages: [
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "Compare these" },
+        { type: "image", source: image },
+        { type: "image", source: { type: "url", mediaType: "image/*", data: url } },
+      ],
+    },
+  ],
+});
+
+const openaiAnswer = {
+  choices: [{ message: { content: "A cat" } }],
+  usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+};
+
+describe("Image blocks per provider", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should send OpenAI image_url parts", async () => {
+    const bodies = stubProviders(openaiAnswer);
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o-mini", ["vision"])] });
+
+    await gateway.complete(request);
+
+    expect(bodies[0]!.messages[0].content[1]).toEqual({
+      type: "image_url",
+      image_url: { url: `data:image/png;base64,${image.data}` },
+    });
+  });
+
+  test("should send Anthropic image source blocks", async () => {
+    const bodies = stubProviders({
+      content: [{ type: "text", text: "A cat" }],
+      usage: { input_tokens: 10, output_tokens: 2 },
+    });
+    const gateway = createGateway({ providers: [provider("anthropic", "claude-3-5-haiku-20241022", ["vision"])] });
+
+    await gateway.complete(request);
+
+    expect(bodies[0]!.messages[0].content[1]).toEqual({
+      type: "image",
+      source: { type: "base64", media_type: "image/png", data: image.data },
+    });
+  });
+
+  test("should send Gemini inlineData parts, downloading URL images", async () => {
+    const bodies = stubProviders(geminiAnswer);
+    const gateway = createGateway({
+      providers: [provider("gemini", "gemini-2.0-flash", ["vision"])],
+      security: fetchingSecurity(),
+    });
+
+    await gateway.complete(withUrlImage(`${CDN}/cat.png`));
+
+    expect(bodies[0]!.contents[0].parts).toEqual([
+      { text: "Compare these" },
+      { inlineData: { mimeType: "image/png", data: image.data } },
+      { inlineData: { mimeType: "image/png", data: png(64, 64) } },
+    ]);
+  });
+
+  test("should send Ollama images alongside the text", async () => {
+    const bodies = stubProviders({ message: { content: "A cat" }, prompt_eval_count: 1, eval_count: 1 });
+    const gateway = createGateway({ providers: [provider("ollama", "llava", ["vision"])] });
+
+    await gateway.complete(request);
+
+    expect(bodies[0]!.messages[0]).toEqual({
+      role: "user",
+      content: "What is in this picture?",
+      images: [image.data],
+    });
+  });
+});
+
+describe("Image URL fetching", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  const gemini = [provider("gemini", "gemini-2.0-flash", ["vision"])];
+
+  // Count every fetch: image downloads and provider calls alike
+  const countFetches = (answer: (url: string) => Response) => {
+    const calls: string[] = [];
+    stubFetch((url) => {
+      calls.push(String(url));
+      return answer(String(url));
+    });
+    return calls;
+  };
+
+  test("should refuse URL images for inline-only providers unless fetching is enabled", async () => {
+    const calls = countFetches(() => Response.json(geminiAnswer));
+    const gateway = createGateway({ providers: gemini });
+
+    const error = await gateway.complete(withUrlImage(`${CDN}/cat.png`)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect(error.message).toContain("security.images.fetchUrls");
+    // Nothing was downloaded or sent to Gemini
+    expect(calls).toEqual([]);
+    expect((await gateway.getStats()).providers.gemini?.errors).toBe(0);
+  });
+
+  test("should refuse private and cloud metadata addresses", async () => {
+    const calls = countFetches(() => Response.json(geminiAnswer));
+    const gateway = createGateway({ providers: gemini, security: fetchingSecurity() });
+
+    const metadata = gateway.complete(withUrlImage("http://169.254.169.254/latest/meta-data/"));
+    await expect(metadata).rejects.toThrow("resolves to a private address");
+    const mapped = gateway.complete(withUrlImage("http://[::ffff:127.0.0.1]:8080/admin"));
+    await expect(mapped).rejects.toBeInstanceOf(InvalidRequestError);
+    expect(calls).toEqual([]);
+
+    const privateAddresses = ["10.0.0.1", "172.20.1.1", "192.168.1.1", "127.0.0.1", "::1", "fd00::1", "fe80::1"];
+    expect(privateAddresses.every(isPrivateAddress)).toBe(true);
+    expect(["203.0.113.10", "8.8.8.8", "2606:4700::1111"].some(isPrivateAddress)).toBe(false);
+  });
+
+  test("should only fetch allowed hosts", async () => {
+    countFetches(() => Response.json(geminiAnswer));
+    const gateway = createGateway({
+      providers: gemini,
+      security: fetchingSecurity({ fetchUrls: { enabled: true, allowedHosts: ["*.example.com"] } }),
+    });
+
+    await expect(gateway.complete(withUrlImage(`${CDN}/cat.png`))).rejects.toThrow(
+      "Image host 203.0.113.10 is not allowed"
+    );
+  });
+
+  test("should check downloads against the size and type limits", async () => {
+    countFetches((url) =>
+      url.endsWith("/page.html")
+        ? new Response("<html></html>", { headers: { "Content-Type": "text/html" } })
+        : url.endsWith("/huge.png")
+          ? new Response(Buffer.alloc(2048), { headers: { "Content-Type": "image/png" } })
+          : Response.json(geminiAnswer)
+    );
+    const gateway = createGateway({ providers: gemini, security: fetchingSecurity({ maxBytes: 1024 }) });
+
+    await expect(gateway.complete(withUrlImage(`${CDN}/huge.png`))).rejects.toThrow("Image exceeds 1024 bytes");
+    await expect(gateway.complete(withUrlImage(`${CDN}/page.html`))).rejects.toThrow(
+      "Image type text/html is not allowed"
+    );
+  });
+
+  test("should give up on downloads that take too long", async () => {
+    globalThis.fetch = ((_url: string, init?: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+      })) as unknown as typeof fetch;
+    const gateway = createGateway({
+      providers: gemini,
+      security: fetchingSecurity({ fetchUrls: { enabled: true, timeoutMs: 20 } }),
+    });
+
+    await expect(gateway.complete(withUrlImage(`${CDN}/slow.png`))).rejects.toThrow("timed out after 20ms");
+  });
+});
+
+describe("Vision routing", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should only route image requests to vision models", async () => {
+    stubProviders(openaiAnswer);
+    const gateway = createGateway({
+      providers: [
+        provider("openai", "gpt-4o-mini", ["vision"], 0.01),
+        // Cheaper, but text-only
+        { ...provider("vllm", "qwen", ["fast", "cheap"], 0.0001), kind: "openai_compatible", baseUrl: "http://vllm.test/v1" },
+      ],
+    });
+
+    const vision = await gateway.complete({ ...request, routing: { strategy: "cost_optimized", cacheEnabled: false } });
+    const text = await gateway.complete({
+      ...request,
+      messages: [{ role: "user", content: "Hi" }],
+      routing: { strategy: "cost_optimized", cacheEnabled: false },
+    });
+
+    expect(vision.provider).toBe("openai");
+    expect(text.provider).toBe("vllm");
+  });
+
+  test("should fail when no model accepts images", async () => {
+    const gateway = createGateway({ providers: [provider("openai", "gpt-3.5-turbo", ["fast"])] });
+    await expect(gateway.complete(request)).rejects.toMatchObject({ code: "no_eligible_model" });
+  });
+});
+
+describe("Image token estimates", () => {
+  test("should read dimensions and apply the tiling rule", () => {
+    expect(imageDimensions(image)).toEqual({ width: 1024, height: 1024 });
+    expect(estimateImageTokens(image)).toBe(765);
+    expect(estimateImageTokens({ ...image, data: png(2048, 4096) })).toBe(1105);
+    expect(estimateImageTokens({ ...image, data: png(256, 256) })).toBe(255);
+  });
+
+  test("should count images in ContextManager and TokenCounter", () => {
+    const text = new ContextManager().estimateTokens("What is in this picture?");
+    expect(new ContextManager().getContextStats(request).userTokens).toBe(text + 765);
+
+    const { total } = new TokenCounter().countStructuredContent(request.messages);
+    expect(total).toBeGreaterThan(765);
+    expect(total).toBeLessThan(800);
+  });
+});
+
+describe("Image limits", () => {
+  const config: SecurityConfig = {
+    piiDetection: { enabled: false, action: "mask", patterns: [] },
+    promptInjection: { enabled: false, action: "warn" },
+    outputSanitization: { enabled: false, blockedPatterns: [] },
+    auditLog: { enabled: false, destination: "stdout" },
+    images: { allowedMediaTypes: ["image/png"], maxBytes: 40, allowUrls: false },
+  };
+
+  const withImage = (source: ImageSource): GatewayRequest => ({
+    ...request,
+    messages: [{ role: "user", content: [{ type: "image", source }] }],
+  });
+
+  test("should accept images within the limits", async () => {
+    expect((await new SecurityGuard(config).check(request)).blocked).toBe(false);
+  });
+
+  test("should block disallowed types, oversized images and URLs", async () => {
+    const guard = new SecurityGuard(config);
+
+    const tiff = await guard.check(withImage({ ...image, mediaType: "image/tiff" }));
+    expect(tiff.reason).toBe("Image type image/tiff is not allowed (message[0].content[0])");
+
+    const large = await guard.check(withImage({ ...image, data: Buffer.alloc(41).toString("base64") }));
+    expect(large.reason).toContain("exceeds 40 bytes");
+
+    const url = await guard.check(withImage({ type: "url", mediaType: "image/*", data: "https://cdn.test/a.png" }));
+    expect(url.blocked).toBe(true);
+  });
+});
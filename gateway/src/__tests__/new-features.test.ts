@@ -14,7 +14,13 @@ import { test, expect, describe, beforeEach, afterEach, mock } from "bun:test";
 import { EmbeddingProvider, createEmbeddingProvider } from "../cache/embeddings";
 import { DistributedRedisCache } from "../cache/redis-cache";
 import { LLMJudge, BatchEvaluator } from "../evaluation/llm-judge";
-import { StreamingProvider, collectStream, streamWithCallback, type StreamChunk } from "../core/streaming";
+import {
+  StreamingProvider,
+  collectStream,
+  streamWithCallback,
+  type StreamChunk,
+  type StreamMetrics,
+} from "../core/streaming";
 import { MetricsCollector, getMetricsCollector, type RequestMetric } from "../dashboard/metrics-collector";
 import { DashboardServer } from "../dashboard/server";
 import type { GatewayRequest, GatewayResponse, ProviderConfig, CacheConfig } from "../core/types";
@@ -238,6 +244,23 @@ describe("StreamingProvider", () => {
     models: [],
   };
 
+  const streamMetrics = (
+    firstTokenMs: number,
+    totalMs: number,
+    tokensPerSecond: number,
+    totalTokens: number
+  ): StreamMetrics => ({
+    firstTokenMs,
+    totalMs,
+    tokensPerSecond,
+    totalTokens,
+    outputTokens: totalTokens,
+    estimated: false,
+    chunks: 0,
+    interChunkMs: { p50: 0, p95: 0, p99: 0, max: 0 },
+    stalls: 0,
+  });
+
   test("should initialize correctly", () => {
     const provider = new StreamingProvider(providerConfig);
     expect(provider).toBeDefined();
@@ -245,12 +268,12 @@ describe("StreamingProvider", () => {
 
   test("collectStream should aggregate chunks", async () => {
     // Create a mock stream
-    async function* mockStream(): AsyncGenerator<StreamChunk, { firstTokenMs: number; totalMs: number; tokensPerSecond: number; totalTokens: number }, undefined> {
+    async function* mockStream(): AsyncGenerator<StreamChunk, StreamMetrics, undefined> {
       yield { type: "text", content: "Hello" };
       yield { type: "text", content: " " };
       yield { type: "text", content: "World" };
       yield { type: "done", usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } };
-      return { firstTokenMs: 100, totalMs: 500, tokensPerSecond: 30, totalTokens: 15 };
+      return streamMetrics(100, 500, 30, 15);
     }
 
     const result = await collectStream(mockStream());
@@ -262,14 +285,14 @@ describe("StreamingProvider", () => {
   });
 
   test("collectStream should handle tool calls", async () => {
-    async function* mockStream(): AsyncGenerator<StreamChunk, { firstTokenMs: number; totalMs: number; tokensPerSecond: number; totalTokens: number }, undefined> {
+    async function* mockStream(): AsyncGenerator<StreamChunk, StreamMetrics, undefined> {
       yield { type: "text", content: "Let me help" };
       yield {
         type: "tool_call",
         toolCall: { id: "tc-1", name: "search", arguments: '{"query":"test"}' },
       };
       yield { type: "done" };
-      return { firstTokenMs: 50, totalMs: 200, tokensPerSecond: 20, totalTokens: 10 };
+      return streamMetrics(50, 200, 20, 10);
     }
 
     const result = await collectStream(mockStream());
@@ -280,11 +303,11 @@ describe("StreamingProvider", () => {
   });
 
   test("streamWithCallback should invoke callback for each chunk", async () => {
-    async function* mockStream(): AsyncGenerator<StreamChunk, { firstTokenMs: number; totalMs: number; tokensPerSecond: number; totalTokens: number }, undefined> {
+    async function* mockStream(): AsyncGenerator<StreamChunk, StreamMetrics, undefined> {
       yield { type: "text", content: "A" };
       yield { type: "text", content: "B" };
       yield { type: "done" };
-      return { firstTokenMs: 10, totalMs: 100, tokensPerSecond: 50, totalTokens: 5 };
+      return streamMetrics(10, 100, 50, 5);
     }
 
     const chunks: StreamChunk[] = [];
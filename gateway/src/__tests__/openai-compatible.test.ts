@@ -0,0 +1,208 @@
+/**
+ * OpenAI-Compatible Provider Tests
+ *
+ * Named openai_compatible instances: routing, headers, streaming, health checks,
+ * fallback between instances, cost tracking and config validation.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { ConfigError, validateConfig } from "../config/loader";
+import { provider, restoreFetch } from "./fixtures";
+import type { GatewayRequest, ModelConfig } from "../core/types";
+
+const pricing = (costPer1k: number): Partial<ModelConfig> => ({
+  costPer1kInput: costPer1k,
+  costPer1kOutput: costPer1k,
+  capabilities: ["fast", "cheap"],
+});
+
+const providers = [
+  provider("vllm-a", "qwen2.5-7b", {
+    kind: "openai_compatible",
+    apiKey: "",
+    baseUrl: "http://vllm-a.test/v1/",
+    headers: { "X-Cluster": "a" },
+    model: pricing(0.0001),
+  }),
+  provider("vllm-b", "llama-3.1-70b", {
+    kind: "openai_compatible",
+    apiKey: "secret",
+    baseUrl: "http://vllm-b.test/v1",
+    model: pricing(0.001),
+  }),
+];
+
+const request: GatewayRequest = {
+  id: "compat-1",
+  messages: [{ role: "user", content: "Hello" }],
+  routing: { strategy: "cost_optimized", cacheEnabled: false },
+};
+
+interface SentRequest {
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+// Keeps the headers too, which the shared stubFetch does not
+function recordFetch(handler: (url: string) => Response): SentRequest[] {
+  const sent: SentRequest[] = [];
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    sent.push({
+      url: String(url),
+      headers: (init?.headers ?? {}) as Record<string, string>,
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    return handler(String(url));
+  }) as unknown as typeof fetch;
+  return sent;
+}
+
+const completion = (content: string) =>
+  Response.json({
+    choices: [{ message: { content } }],
+    usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 },
+  });
+
+describe("openai_compatible providers", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should call the instance's baseUrl with its headers", async () => {
+    const sent = recordFetch(() => completion("hi from a"));
+    const gateway = createGateway({ providers });
+
+    const response = await gateway.complete(request);
+
+    expect(response.provider).toBe("vllm-a");
+    expect(response.content).toBe("hi from a");
+    expect(sent[0]!.url).toBe("http://vllm-a.test/v1/chat/completions");
+    expect(sent[0]!.headers["X-Cluster"]).toBe("a");
+    expect(sent[0]!.headers.Authorization).toBeUndefined();
+    expect(sent[0]!.body?.model).toBe("qwen2.5-7b");
+  });
+
+  test("should route to a named instance and send its API key", async () => {
+    const sent = recordFetch(() => completion("hi from b"));
+    const gateway = createGateway({ providers });
+
+    const response = await gateway.complete({ ...request, provider: "vllm-b" });
+
+    expect(response.provider).toBe("vllm-b");
+    expect(sent[0]!.url).toBe("http://vllm-b.test/v1/chat/completions");
+    expect(sent[0]!.headers.Authorization).toBe("Bearer secret");
+  });
+
+  test("should fall back between instances with separate circuit breakers", async () => {
+    recordFetch((url) =>
+      url.startsWith("http://vllm-a.test")
+        ? new Response("bad gateway", { status: 502 })
+        : completion("hi from b")
+    );
+    const gateway = createGateway({
+      providers,
+      reliability: {
+        retryAttempts: 1,
+        retryDelayMs: 1,
+        retryBackoffMultiplier: 1,
+        circuitBreaker: { failureThreshold: 5, recoveryTimeMs: 30000, halfOpenRequests: 1 },
+        timeout: { requestMs: 1000, streamMs: 1000 },
+      },
+    });
+
+    const response = await gateway.complete(request);
+
+    expect(response.provider).toBe("vllm-b");
+    expect(response.metadata.attempts.map((a) => [a.provider, a.success])).toEqual([
+      ["vllm-a", false],
+      ["vllm-b", true],
+    ]);
+    const stats = await gateway.getStats();
+    expect(stats.providers["vllm-a"]!.errors).toBe(1);
+    expect(stats.providers["vllm-b"]!.errors).toBe(0);
+  });
+
+  test("should stream from the instance", async () => {
+    recordFetch(
+      () =>
+        new Response(
+          [
+            'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+            'data: {"choices":[{"delta":{"content":"lo"}}]}',
+            'data: {"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":2,"total_tokens":5}}',
+            "data: [DONE]",
+            "",
+          ].join("\n"),
+          { headers: { "Content-Type": "text/event-stream" } }
+        )
+    );
+    const gateway = createGateway({ providers });
+
+    let text = "";
+    for await (const chunk of gateway.stream(request)) {
+      if (chunk.type === "text") text += chunk.content;
+      expect(chunk.type).not.toBe("error");
+    }
+    expect(text).toBe("Hello");
+  });
+
+  test("should health check each instance via /models", async () => {
+    const sent = recordFetch((url) =>
+      url.startsWith("http://vllm-a.test") ? Response.json({ data: [] }) : new Response("", { status: 503 })
+    );
+    const gateway = createGateway({ providers });
+
+    expect(await gateway.healthCheck()).toEqual({ "vllm-a": true, "vllm-b": false });
+    expect(sent.map((s) => s.url).sort()).toEqual([
+      "http://vllm-a.test/v1/models",
+      "http://vllm-b.test/v1/models",
+    ]);
+  });
+
+  test("should track cost from the model's configured pricing", async () => {
+    recordFetch(() => completion("hi"));
+    const gateway = createGateway({ providers });
+
+    const response = await gateway.complete(request);
+
+    expect(response.cost.totalCost).toBeCloseTo(0.0002, 10);
+    expect((await gateway.getStats()).cost.daily).toBeCloseTo(0.0002, 10);
+  });
+
+  test("should reject an openai_compatible provider without a baseUrl", () => {
+    expect(() =>
+      createGateway({ providers: [{ ...providers[0]!, baseUrl: undefined }] })
+    ).toThrow("needs a baseUrl");
+  });
+});
+
+describe("openai_compatible config validation", () => {
+  const base = (provider: Record<string, unknown>) => ({
+    providers: [{ apiKey: "", enabled: true, weight: 1, models: [], ...provider }],
+  });
+
+  test("should accept named instances with a kind and headers", () => {
+    const config = validateConfig(
+      base({
+        provider: "groq",
+        kind: "openai_compatible",
+        baseUrl: "https://api.groq.com/openai/v1",
+        headers: { "X-Team": "ml" },
+      })
+    );
+    expect(config.providers[0]!.kind).toBe("openai_compatible");
+    expect(config.providers[0]!.headers).toEqual({ "X-Team": "ml" });
+  });
+
+  test("should require a kind for unknown names and a baseUrl for openai_compatible", () => {
+    expect(() => validateConfig(base({ provider: "groq" }))).toThrow(ConfigError);
+    try {
+      validateConfig(base({ provider: "together", kind: "openai_compatible" }));
+      throw new Error("expected ConfigError");
+    } catch (error) {
+      expect((error as ConfigError).issues.join("\n")).toContain("providers.0.baseUrl");
+    }
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Prompt Caching Tests
+ *
+ * Anthropic cache breakpoints, cached-token usage per provider and cache-aware pricing.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { ProviderAdapter } from "../core/providers";
+import { StreamingProvider, collectStream } from "../core/streaming";
+import { CostTracker } from "../cost/tracker";
+import { fromAnthropicRequest, toAnthropicUsage } from "../server/anthropic-compat";
+import { toOpenAIUsage } from "../server/openai-compat";
+import { provider as baseProvider, restoreFetch, sse, stubFetch } from "./fixtures";
+import type { GatewayRequest, PromptCachingConfig, Tool } from "../core/types";
+
+const longText = "You are a meticulous support agent. ".repeat(200);
+
+const tools: Tool[] = [
+  { name: "lookup_order", description: longText, inputSchema: { type: "object", properties: {} } },
+  { name: "refund", description: "Refund an order", inputSchema: { type: "object", properties: {} } },
+];
+
+// Anthropic pricing, with cache reads and writes priced apart
+const provider = (name: string, model: string, promptCaching?: PromptCachingConfig) =>
+  baseProvider(name, model, {
+    promptCaching,
+    model: {
+      tier: "standard",
+      costPer1kInput: 0.003,
+      costPer1kOutput: 0.015,
+      costPer1kCachedInput: 0.0003,
+      costPer1kCacheWrite: 0.00375,
+      capabilities: ["function_calling"],
+    },
+  });
+
+// The Anthropic request fields these tests read
+interface AnthropicBlock {
+  type: string;
+  text?: string;
+  cache_control?: { type: string };
+}
+
+interface AnthropicBody {
+  system?: string | AnthropicBlock[];
+  tools: AnthropicBlock[];
+  messages: Array<{ role: string; content: AnthropicBlock[] }>;
+}
+
+const anthropicAnswer = (usage: Record<string, number> = { input_tokens: 10, output_tokens: 5 }) => () =>
+  Response.json({ content: [{ type: "text", text: "Done." }], usage });
+
+describe("Anthropic cache breakpoints", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should mark long tool definitions and system prompts", async () => {
+    const bodies = stubFetch<AnthropicBody>(anthropicAnswer());
+    const request: GatewayRequest = {
+      id: "cache-1",
+      messages: [
+        { role: "system", content: longText },
+        { role: "user", content: "Where is order 42?" },
+      ],
+      tools,
+    };
+
+    await new ProviderAdapter(provider("anthropic", "claude-sonnet-4")).complete(request, "claude-sonnet-4");
+
+    expect(bodies[0]!.tools[1].cache_control).toEqual({ type: "ephemeral" });
+    expect(bodies[0]!.tools[0].cache_control).toBeUndefined();
+    expect(bodies[0]!.system).toEqual([{ type: "text", text: longText, cache_control: { type: "ephemeral" } }]);
+  });
+
+  test("should leave short prompts alone and respect auto: false", async () => {
+    const bodies = stubFetch<AnthropicBody>(anthropicAnswer());
+    const request: GatewayRequest = {
+      id: "cache-2",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+    };
+
+    await new ProviderAdapter(provider("anthropic", "claude-sonnet-4")).complete(request, "claude-sonnet-4");
+    await new ProviderAdapter(provider("anthropic", "claude-sonnet-4", { auto: false })).complete(
+      { ...request, messages: [{ role: "system", content: longText }, ...request.messages.slice(1)] },
+      "claude-sonnet-4"
+    );
+
+    expect(bodies[0]!.system).toBe("Be brief.");
+    expect(bodies[1]!.system).toBe(longText);
+  });
+
+  test("should send explicit markers and only add automatic ones while breakpoints remain", async () => {
+    const bodies = stubFetch<AnthropicBody>(anthropicAnswer());
+    const marked = (text: string) => ({ type: "text" as const, text, cacheBreakpoint: true });
+    const request: GatewayRequest = {
+      id: "cache-3",
+      messages: [
+        { role: "system", content: [marked(longText)] },
+        { role: "user", content: [marked("Document one"), marked("Document two"), marked("Document three")] },
+      ],
+      tools,
+    };
+
+    await new ProviderAdapter(provider("anthropic", "claude-sonnet-4")).complete(request, "claude-sonnet-4");
+
+    expect(bodies[0]!.system).toEqual([{ type: "text", text: longText, cache_control: { type: "ephemeral" } }]);
+    expect(bodies[0]!.messages[0].content.map((b) => b.cache_control)).toEqual([
+      { type: "ephemeral" },
+      { type: "ephemeral" },
+      { type: "ephemeral" },
+    ]);
+    // Four explicit breakpoints already; the tools are not marked
+    expect(bodies[0]!.tools[1].cache_control).toBeUndefined();
+  });
+});
+
+describe("Cached token usage", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should count Anthropic cache reads and writes as input", async () => {
+    stubFetch(
+      anthropicAnswer({ input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 900, cache_creation_input_tokens: 100 })
+    );
+
+    const result = await new ProviderAdapter(provider("anthropic", "claude-sonnet-4")).complete(
+      { id: "usage-1", messages: [{ role: "user", content: "Hi" }] },
+      "claude-sonnet-4"
+    );
+
+    expect(result.usage).toEqual({
+      inputTokens: 1010,
+      outputTokens: 5,
+      totalTokens: 1015,
+      cacheReadTokens: 900,
+      cacheWriteTokens: 100,
+    });
+  });
+
+  test("should combine message_start and message_delta usage in Anthropic streams", async () => {
+    stubFetch(() =>
+      sse([
+        { type: "message_start", message: { usage: { input_tokens: 10, output_tokens: 1, cache_read_input_tokens: 900 } } },
+        { type: "content_block_delta", delta: { type: "text_delta", text: "Hi" } },
+        { type: "message_delta", usage: { output_tokens: 7 } },
+        { type: "message_stop" },
+      ])
+    );
+
+    const result = await collectStream(
+      new StreamingProvider(provider("anthropic", "claude-sonnet-4")).stream(
+        { id: "usage-2", messages: [{ role: "user", content: "Hi" }] },
+        "claude-sonnet-4"
+      )
+    );
+
+    expect(result.usage).toEqual({ inputTokens: 910, outputTokens: 7, totalTokens: 917, cacheReadTokens: 900 });
+  });
+
+  test("should read OpenAI cached prompt tokens", async () => {
+    stubFetch(() =>
+      Response.json({
+        choices: [{ message: { content: "Hi" } }],
+        usage: { prompt_tokens: 2000, completion_tokens: 10, total_tokens: 2010, prompt_tokens_details: { cached_tokens: 1536 } },
+      })
+    );
+
+    const result = await new ProviderAdapter(provider("openai", "gpt-4o")).complete(
+      { id: "usage-3", messages: [{ role: "user", content: "Hi" }] },
+      "gpt-4o"
+    );
+
+    expect(result.usage.cacheReadTokens).toBe(1536);
+    expect(result.usage.inputTokens).toBe(2000);
+  });
+});
+
+describe("Cache-aware pricing", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should price cached input at the model's cache rates and break it out in the tracker", async () => {
+    stubFetch(
+      anthropicAnswer({ input_tokens: 1000, output_tokens: 1000, cache_read_input_tokens: 10000, cache_creation_input_tokens: 2000 })
+    );
+    const gateway = createGateway({ providers: [provider("anthropic", "claude-sonnet-4")] });
+
+    const response = await gateway.complete({
+      id: "price-1",
+      messages: [{ role: "user", content: "Hi" }],
+      routing: { cacheEnabled: false },
+    });
+
+    expect(response.cost.cacheReadCost).toBeCloseTo(0.003);
+    expect(response.cost.cacheWriteCost).toBeCloseTo(0.0075);
+    // 1000 uncached at 0.003/1k plus the cache costs
+    expect(response.cost.inputCost).toBeCloseTo(0.0135);
+    expect(response.cost.totalCost).toBeCloseTo(0.0285);
+
+    const tracker = new CostTracker({
+      budgets: {},
+      alerts: { enabled: false, thresholds: [] },
+      tracking: { byUser: false, byProject: false, byFeature: false },
+    } as never);
+    await tracker.track({
+      requestId: "price-1",
+      provider: "anthropic",
+      model: "claude-sonnet-4",
+      usage: response.usage,
+      cost: response.cost,
+    });
+
+    const breakdown = await tracker.getBreakdown();
+    expect(breakdown.cacheReads).toBeCloseTo(0.003);
+    expect(breakdown.cacheWrites).toBeCloseTo(0.0075);
+    expect(tracker.exportData("csv").split("\n")[1]).toContain(",13000,1000,0,10000,2000,");
+  });
+});
+
+describe("Compatible APIs", () => {
+  test("should map Anthropic cache_control to cache breakpoints", () => {
+    const request = fromAnthropicRequest({
+      model: "claude-sonnet-4",
+      max_tokens: 100,
+      system: [{ type: "text", text: "Rules", cache_control: { type: "ephemeral" } }],
+      messages: [
+        { role: "user", content: [{ type: "text", text: "Long document", cache_control: { type: "ephemeral" } }] },
+      ],
+    });
+
+    expect(request.messages[0]!.content).toEqual([{ type: "text", text: "Rules", cacheBreakpoint: true }]);
+    expect(request.messages[1]!.content).toEqual([{ type: "text", text: "Long document", cacheBreakpoint: true }]);
+  });
+
+  test("should report cached tokens in each wire format", () => {
+    const usage = { inputTokens: 1010, outputTokens: 5, totalTokens: 1015, cacheReadTokens: 900, cacheWriteTokens: 100 };
+
+    expect(toAnthropicUsage(usage)).toEqual({
+      input_tokens: 10,
+      output_tokens: 5,
+      cache_creation_input_tokens: 100,
+      cache_read_input_tokens: 900,
+    });
+    expect(toOpenAIUsage(usage).prompt_tokens_details).toEqual({ cached_tokens: 900 });
+  });
+});
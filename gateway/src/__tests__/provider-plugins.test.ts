@@ -0,0 +1,169 @@
+/**
+ * Provider Plugin Tests
+ *
+ * ProviderRegistry, third-party plugins behind LLMGateway, and the adapter's
+ * listModels/countTokens/embed fallbacks.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { ProviderAdapter } from "../core/providers";
+import { validateConfig } from "../config/loader";
+import { ProviderRegistry, type ProviderPlugin } from "../providers";
+import { restoreFetch, stubFetch } from "./fixtures";
+import type { GatewayRequest, ProviderConfig } from "../core/types";
+
+// Echoes the last user message back, one word per chunk
+const echoPlugin: ProviderPlugin = {
+  kind: "echo",
+
+  async complete(config, request, model) {
+    const last = request.messages.at(-1)!;
+    const text = `${config.provider}/${model}: ${typeof last.content === "string" ? last.content : ""}`;
+    return { content: text, usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } };
+  },
+
+  async *stream(config, request, model) {
+    const { content } = await this.complete(config, request, model);
+    for (const word of content.split(" ")) {
+      yield { type: "text", content: word };
+    }
+    yield { type: "done", usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } };
+  },
+
+  async healthCheck(config) {
+    return config.apiKey === "ok";
+  },
+
+  validateConfig(config) {
+    if (!config.baseUrl) throw new Error(`${config.provider} needs a baseUrl`);
+  },
+};
+
+const echoProvider: ProviderConfig = {
+  provider: "echo-1",
+  kind: "echo",
+  apiKey: "ok",
+  baseUrl: "http://echo.test",
+  enabled: true,
+  weight: 1,
+  models: [
+    {
+      provider: "echo-1",
+      model: "parrot",
+      tier: "economy",
+      maxTokens: 4096,
+      costPer1kInput: 0,
+      costPer1kOutput: 0,
+      latencyP50Ms: 10,
+      latencyP95Ms: 20,
+      capabilities: ["fast", "cheap"],
+    },
+  ],
+};
+
+const request: GatewayRequest = {
+  id: "plugin-1",
+  messages: [{ role: "user", content: "hello there" }],
+  routing: { cacheEnabled: false },
+};
+
+describe("ProviderRegistry", () => {
+  test("should register the built-in kinds", () => {
+    expect(new ProviderRegistry().kinds().sort()).toEqual([
+      "anthropic",
+      "azure_openai",
+      "gemini",
+      "ollama",
+      "openai",
+      "openai_compatible",
+    ]);
+  });
+
+  test("should reject duplicate kinds unless replacing", () => {
+    const registry = new ProviderRegistry().register(echoPlugin);
+    expect(() => registry.register(echoPlugin)).toThrow("already registered: echo");
+    expect(() => registry.register({ ...echoPlugin }, { replace: true })).not.toThrow();
+  });
+
+  test("should resolve a config to its plugin", () => {
+    const registry = new ProviderRegistry([echoPlugin]);
+    expect(registry.resolve(echoProvider)).toBe(echoPlugin);
+    expect(() => registry.resolve({ ...echoProvider, kind: "bedrock" })).toThrow(
+      'No provider plugin registered for kind "bedrock"'
+    );
+  });
+});
+
+describe("Third-party provider plugins", () => {
+  const registry = new ProviderRegistry().register(echoPlugin);
+
+  test("should complete through a registered plugin", async () => {
+    const gateway = createGateway({ providers: [echoProvider] }, registry);
+
+    const response = await gateway.complete(request);
+
+    expect(response.provider).toBe("echo-1");
+    expect(response.content).toBe("echo-1/parrot: hello there");
+  });
+
+  test("should stream through a registered plugin", async () => {
+    const gateway = createGateway({ providers: [echoProvider] }, registry);
+
+    const words: string[] = [];
+    for await (const chunk of gateway.stream(request)) {
+      if (chunk.type === "text") words.push(chunk.content!);
+    }
+    expect(words).toEqual(["echo-1/parrot:", "hello", "there"]);
+  });
+
+  test("should health check through the plugin", async () => {
+    const gateway = createGateway(
+      { providers: [echoProvider, { ...echoProvider, provider: "echo-2", apiKey: "bad" }] },
+      registry
+    );
+    expect(await gateway.healthCheck()).toEqual({ "echo-1": true, "echo-2": false });
+  });
+
+  test("should fail at build time for unknown kinds and invalid configs", () => {
+    expect(() => createGateway({ providers: [echoProvider] })).toThrow('kind "echo"');
+    expect(() =>
+      createGateway({ providers: [{ ...echoProvider, baseUrl: undefined }] }, registry)
+    ).toThrow("echo-1 needs a baseUrl");
+  });
+
+  test("should accept plugin kinds in config files", () => {
+    const config = validateConfig({ providers: [echoProvider] });
+    expect(config.providers[0]!.kind).toBe("echo");
+  });
+});
+
+describe("ProviderAdapter", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should fall back to configured models and local token estimates", async () => {
+    const adapter = new ProviderAdapter(echoProvider, new ProviderRegistry([echoPlugin]));
+
+    expect(await adapter.listModels()).toEqual(["parrot"]);
+    expect(await adapter.countTokens(request, "parrot")).toBeGreaterThan(0);
+    await expect(adapter.embed(["hi"], "parrot")).rejects.toThrow("does not support embeddings");
+  });
+
+  test("should list and embed through built-in plugins", async () => {
+    const urls: string[] = [];
+    stubFetch((url) => {
+      urls.push(url);
+      return url.endsWith("/models")
+        ? Response.json({ data: [{ id: "gpt-4o" }, { id: "text-embedding-3-small" }] })
+        : Response.json({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+    });
+
+    const adapter = new ProviderAdapter({ ...echoProvider, provider: "openai", kind: undefined });
+
+    expect(await adapter.listModels()).toEqual(["gpt-4o", "text-embedding-3-small"]);
+    expect(await adapter.embed(["a", "b"], "text-embedding-3-small")).toEqual([[1, 0], [0, 1]]);
+    expect(urls).toEqual(["http://echo.test/models", "http://echo.test/embeddings"]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Rate Limit Tests
+ *
+ * Rate-limit header parsing, client-side limits, queueing and rate-limit-aware routing.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { RateLimitedError } from "../core/errors";
+import { parseRateLimitHeaders } from "../providers/http";
+import { RateLimitTracker } from "../reliability/rate-limits";
+import { provider, restoreFetch, stubFetch } from "./fixtures";
+import type { ProviderConfig, RateLimitConfig } from "../core/types";
+
+// The cheaper choice, so it is picked before ollama
+const openai = (rateLimit?: RateLimitConfig) =>
+  provider("openai", "gpt-4o-mini", { rateLimit, model: { costPer1kInput: 0.0001, costPer1kOutput: 0.0002 } });
+const ollama = provider("ollama", "llama3.2");
+
+// OpenAI answers with `headers`; Ollama answers plainly. Returns the hosts called.
+function stubProviders(headers: () => Record<string, string>): string[] {
+  const calls: string[] = [];
+  stubFetch((url) => {
+    const host = new URL(url).host;
+    calls.push(host);
+    if (host === "api.openai.com") {
+      return Response.json(
+        {
+          choices: [{ message: { content: "from openai" } }],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        },
+        { headers: headers() }
+      );
+    }
+    return Response.json({ message: { content: "from ollama" }, prompt_eval_count: 1, eval_count: 1 });
+  });
+  return calls;
+}
+
+function gatewayWith(providers: ProviderConfig[], rateLimitQueueMs = 0, retryAttempts = 1) {
+  return createGateway({
+    providers,
+    reliability: {
+      retryAttempts,
+      retryDelayMs: 1,
+      retryBackoffMultiplier: 1,
+      circuitBreaker: { failureThreshold: 5, recoveryTimeMs: 30000, halfOpenRequests: 1 },
+      timeout: { requestMs: 1000, streamMs: 1000 },
+      rateLimitQueueMs,
+    },
+  });
+}
+
+const request = (id: string) => ({
+  id,
+  messages: [{ role: "user" as const, content: "Hi" }],
+  routing: { cacheEnabled: false },
+});
+
+describe("parseRateLimitHeaders", () => {
+  test("should parse OpenAI counts and duration resets", () => {
+    const now = 1_000_000;
+    const snapshot = parseRateLimitHeaders(
+      new Headers({
+        "x-ratelimit-limit-requests": "500",
+        "x-ratelimit-remaining-requests": "499",
+        "x-ratelimit-reset-requests": "120ms",
+        "x-ratelimit-limit-tokens": "30000",
+        "x-ratelimit-remaining-tokens": "29000",
+        "x-ratelimit-reset-tokens": "6m0.5s",
+      }),
+      now
+    );
+
+    expect(snapshot).toEqual({
+      limitRequests: 500,
+      remainingRequests: 499,
+      resetRequestsAt: now + 120,
+      limitTokens: 30000,
+      remainingTokens: 29000,
+      resetTokensAt: now + 360500,
+    });
+  });
+
+  test("should parse Anthropic counts and timestamp resets", () => {
+    const snapshot = parseRateLimitHeaders(
+      new Headers({
+        "anthropic-ratelimit-requests-limit": "50",
+        "anthropic-ratelimit-requests-remaining": "0",
+        "anthropic-ratelimit-requests-reset": "2030-01-01T00:00:30Z",
+        "anthropic-ratelimit-tokens-remaining": "12000",
+      })
+    );
+
+    expect(snapshot).toEqual({
+      limitRequests: 50,
+      remainingRequests: 0,
+      resetRequestsAt: Date.parse("2030-01-01T00:00:30Z"),
+      remainingTokens: 12000,
+    });
+    expect(parseRateLimitHeaders(new Headers({ "content-type": "application/json" }))).toBeUndefined();
+  });
+});
+
+describe("RateLimitTracker", () => {
+  test("should queue short waits and reject long ones", async () => {
+    const tracker = new RateLimitTracker();
+    const limits = { requestsPerMinute: 1, tokensPerMinute: 100000 };
+
+    await tracker.acquire("openai", "gpt-4o", limits, 10);
+    const error = await tracker.acquire("openai", "gpt-4o", limits, 10, 1000).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBeGreaterThan(59000);
+
+    // Reported quota that resets shortly is waited for
+    tracker.record("anthropic", "claude", { remainingRequests: 0, resetRequestsAt: Date.now() + 30 });
+    const started = Date.now();
+    await tracker.acquire("anthropic", "claude", undefined, 10, 1000);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+  });
+
+  test("should count actual token usage against tokensPerMinute", async () => {
+    const tracker = new RateLimitTracker();
+    const limits = { requestsPerMinute: 100, tokensPerMinute: 1000 };
+
+    const slot = await tracker.acquire("openai", "gpt-4o", limits, 100);
+    expect(tracker.isThrottled("openai", "gpt-4o", limits)).toBe(false);
+
+    tracker.settle(slot, 1000);
+    expect(tracker.isThrottled("openai", "gpt-4o", limits)).toBe(true);
+    expect(tracker.getState()).toMatchObject([{ provider: "openai", windowRequests: 1, windowTokens: 1000 }]);
+  });
+
+  test("should treat nearly spent reported quota as throttled until it resets", () => {
+    const tracker = new RateLimitTracker();
+
+    const resetRequestsAt = Date.now() + 60000;
+    tracker.record("openai", "gpt-4o", { limitRequests: 500, remainingRequests: 20, resetRequestsAt });
+    expect(tracker.isThrottled("openai", "gpt-4o")).toBe(true);
+
+    tracker.record("openai", "gpt-4o", { limitRequests: 500, remainingRequests: 0, resetRequestsAt: 1 });
+    expect(tracker.isThrottled("openai", "gpt-4o")).toBe(false);
+  });
+});
+
+describe("Rate-limit-aware routing", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should route away from a provider that reports its quota nearly spent", async () => {
+    const calls = stubProviders(() => ({
+      "x-ratelimit-limit-requests": "100",
+      "x-ratelimit-remaining-requests": "2",
+      "x-ratelimit-reset-requests": "30s",
+    }));
+    const gateway = gatewayWith([openai(), ollama]);
+
+    expect((await gateway.complete(request("rl-1"))).provider).toBe("openai");
+    expect((await gateway.complete(request("rl-2"))).provider).toBe("ollama");
+    expect(calls).toEqual(["api.openai.com", "ollama.test"]);
+    expect(gateway.getRateLimits()[0]!.models["gpt-4o-mini"]).toMatchObject({ remainingRequests: 2 });
+  });
+
+  test("should fall back without calling a provider over its configured limit", async () => {
+    const calls = stubProviders(() => ({}));
+    const gateway = gatewayWith([openai({ requestsPerMinute: 2, tokensPerMinute: 100 }), ollama]);
+
+    // 15 tokens used; openai still has room, but not for a request reserving 90 more
+    await gateway.complete(request("rl-3"));
+    const response = await gateway.complete({ ...request("rl-4"), maxTokens: 90 });
+    expect(response.provider).toBe("ollama");
+    expect(response.metadata.attempts.map((a) => [a.provider, a.errorCode])).toEqual([
+      ["openai", "rate_limited"],
+      ["ollama", undefined],
+    ]);
+
+    await expect(
+      gateway.complete({
+        ...request("rl-5"),
+        maxTokens: 90,
+        routing: { cacheEnabled: false, allowedProviders: ["openai"] },
+      })
+    ).rejects.toMatchObject({ code: "rate_limited" });
+    expect(calls).toEqual(["api.openai.com", "ollama.test"]);
+  });
+
+  test("should stop sending to a model after a 429 until Retry-After passes", async () => {
+    let calls = 0;
+    stubFetch(() => {
+      calls++;
+      return new Response("slow down", { status: 429, headers: { "retry-after": "20" } });
+    });
+    const gateway = gatewayWith([openai()]);
+
+    await expect(gateway.complete(request("rl-6"))).rejects.toMatchObject({ code: "rate_limited" });
+    await expect(gateway.complete(request("rl-7"))).rejects.toMatchObject({ code: "rate_limited" });
+    expect(calls).toBe(1);
+  });
+
+  test("should release the tokens reserved by failed requests", async () => {
+    let failing = true;
+    stubFetch(() =>
+      failing
+        ? new Response("overloaded", { status: 503 })
+        : Response.json({
+            choices: [{ message: { content: "from openai" } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+          })
+    );
+    const gateway = gatewayWith([openai({ requestsPerMinute: 10, tokensPerMinute: 100 })]);
+    // Reserves about 90 of the 100 tokens per minute until settled
+    const large = (id: string) => ({ ...request(id), maxTokens: 88 });
+
+    await expect(gateway.complete(large("rl-9"))).rejects.toMatchObject({ code: "provider_error" });
+    const chunks = [];
+    for await (const chunk of gateway.stream(large("rl-10"))) chunks.push(chunk);
+    expect(chunks.map((c) => c.errorCode)).toEqual(["provider_error"]);
+
+    failing = false;
+    expect((await gateway.complete(large("rl-11"))).content).toBe("from openai");
+  });
+
+  test("should count every retry against the configured limits", async () => {
+    let calls = 0;
+    stubFetch(() => {
+      calls++;
+      return new Response("overloaded", { status: 503 });
+    });
+    const limited = (requestsPerMinute: number) =>
+      gatewayWith([openai({ requestsPerMinute, tokensPerMinute: 10000 })], 0, 3);
+
+    const gateway = limited(10);
+    await expect(gateway.complete(request("rl-12"))).rejects.toMatchObject({ code: "provider_error" });
+    const chunks = [];
+    for await (const chunk of gateway.stream(request("rl-13"))) chunks.push(chunk);
+    expect(calls).toBe(6);
+    expect(gateway.getRateLimits()[0]!.windowRequests).toBe(6);
+
+    // Retries stop once the limit is reached
+    calls = 0;
+    await expect(limited(2).complete(request("rl-14"))).rejects.toMatchObject({ code: "rate_limited" });
+    const stopped = [];
+    for await (const chunk of limited(2).stream(request("rl-15"))) stopped.push(chunk);
+    expect(stopped.map((c) => c.errorCode)).toEqual(["rate_limited"]);
+    expect(calls).toBe(4);
+  });
+
+  test("should record quota from streamed responses", async () => {
+    stubFetch(
+      () =>
+        new Response(
+          'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: {"choices":[{"delta":{},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n',
+          { headers: { "x-ratelimit-remaining-tokens": "5000", "x-ratelimit-reset-tokens": "1m" } }
+        )
+    );
+    const gateway = gatewayWith([openai()]);
+
+    const chunks = [];
+    for await (const chunk of gateway.stream(request("rl-8"))) chunks.push(chunk);
+
+    expect(chunks.find((c) => c.type === "done")?.rateLimit).toMatchObject({ remainingTokens: 5000 });
+    expect(gateway.getRateLimits()[0]!.models["gpt-4o-mini"]?.remainingTokens).toBe(5000);
+  });
+});
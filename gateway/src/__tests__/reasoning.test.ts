@@ -0,0 +1,254 @@
+/**
+ * Reasoning Tests
+ *
+ * Reasoning options per provider, separate thinking text, reasoning token accounting and routing.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { ProviderAdapter } from "../core/providers";
+import { StreamingProvider, collectStream } from "../core/streaming";
+import { CostTracker } from "../cost/tracker";
+import { reasoningBudget, reasoningEffort } from "../providers/reasoning";
+import { fromOpenAIRequest, toOpenAIResponse } from "../server/openai-compat";
+import { fromAnthropicRequest } from "../server/anthropic-compat";
+import { provider as baseProvider, restoreFetch, sse, stubFetch } from "./fixtures";
+import type { GatewayRequest, ModelCapability } from "../core/types";
+
+const request: GatewayRequest = {
+  id: "reasoning-1",
+  messages: [{ role: "user", content: "Is 1001 prime?" }],
+  maxTokens: 1000,
+  temperature: 0.2,
+  reasoning: { effort: "high" },
+  routing: { cacheEnabled: false },
+};
+
+const provider = (name: string, model: string, capabilities: ModelCapability[] = ["thinking"]) =>
+  baseProvider(name, model, { model: { tier: "standard", costPer1kOutput: 0.01, capabilities } });
+
+// The request fields these tests read, across providers
+interface SentBody {
+  temperature?: number;
+  max_tokens?: number;
+  thinking: { budget_tokens: number };
+  generationConfig: { thinkingConfig: unknown };
+  think?: boolean;
+}
+
+describe("Reasoning options", () => {
+  test("should derive a budget from an effort and an effort from a budget", () => {
+    expect(reasoningBudget({ effort: "low" })).toBe(1024);
+    expect(reasoningBudget({ budgetTokens: 3000, effort: "high" })).toBe(3000);
+    expect(reasoningEffort({ budgetTokens: 3000 })).toBe("low");
+    expect(reasoningEffort({ budgetTokens: 20000 })).toBe("high");
+    expect(reasoningEffort({})).toBe("medium");
+  });
+});
+
+describe("Provider mapping", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should send an Anthropic thinking budget on top of max_tokens and return thinking apart", async () => {
+    const bodies = stubFetch<SentBody>(() =>
+      Response.json({
+        content: [
+          { type: "thinking", thinking: "7 * 11 * 13 = 1001", signature: "sig" },
+          { type: "text", text: "No, 1001 = 7 * 11 * 13." },
+        ],
+        usage: { input_tokens: 12, output_tokens: 200 },
+      })
+    );
+
+    const result = await new ProviderAdapter(provider("anthropic", "claude-sonnet-4")).complete(request, "claude-sonnet-4");
+
+    expect(bodies[0]).toMatchObject({ thinking: { type: "enabled", budget_tokens: 16384 }, max_tokens: 17384 });
+    expect(bodies[0]!.temperature).toBeUndefined();
+    expect(result.content).toBe("No, 1001 = 7 * 11 * 13.");
+    expect(result.reasoning).toBe("7 * 11 * 13 = 1001");
+  });
+
+  test("should send OpenAI reasoning_effort with max_completion_tokens and count reasoning tokens", async () => {
+    const bodies = stubFetch<SentBody>(() =>
+      Response.json({
+        choices: [{ message: { content: "No." } }],
+        usage: {
+          prompt_tokens: 12,
+          completion_tokens: 300,
+          total_tokens: 312,
+          completion_tokens_details: { reasoning_tokens: 256 },
+        },
+      })
+    );
+
+    const result = await new ProviderAdapter(provider("openai", "o3-mini")).complete(request, "o3-mini");
+
+    expect(bodies[0]).toMatchObject({ reasoning_effort: "high", max_completion_tokens: 1000 });
+    expect(bodies[0]!.max_tokens).toBeUndefined();
+    expect(bodies[0]!.temperature).toBeUndefined();
+    expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 300, totalTokens: 312, reasoningTokens: 256 });
+  });
+
+  test("should bill Gemini thoughts as output and keep thought parts out of content", async () => {
+    const bodies = stubFetch<SentBody>(() =>
+      Response.json({
+        candidates: [{ content: { parts: [{ text: "Try small primes.", thought: true }, { text: "No." }] } }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, thoughtsTokenCount: 100, totalTokenCount: 115 },
+      })
+    );
+
+    const result = await new ProviderAdapter(provider("gemini", "gemini-2.5-flash")).complete(
+      { ...request, reasoning: { budgetTokens: 2048 } },
+      "gemini-2.5-flash"
+    );
+
+    expect(bodies[0]!.generationConfig.thinkingConfig).toEqual({ thinkingBudget: 2048, includeThoughts: true });
+    expect(result.content).toBe("No.");
+    expect(result.reasoning).toBe("Try small primes.");
+    expect(result.usage).toEqual({ inputTokens: 10, outputTokens: 105, totalTokens: 115, reasoningTokens: 100 });
+  });
+
+  test("should stream thinking as reasoning chunks", async () => {
+    const bodies = stubFetch<SentBody>(() =>
+      sse([
+        { type: "content_block_delta", delta: { type: "thinking_delta", thinking: "Check 7." } },
+        { type: "content_block_delta", delta: { type: "text_delta", text: "No." } },
+        { type: "message_stop" },
+      ])
+    );
+
+    const result = await collectStream(
+      new StreamingProvider(provider("anthropic", "claude-sonnet-4")).stream(request, "claude-sonnet-4")
+    );
+
+    expect(bodies[0]!.thinking.budget_tokens).toBe(16384);
+    expect(result.reasoning).toBe("Check 7.");
+    expect(result.content).toBe("No.");
+  });
+
+  test("should turn on Ollama think and return its thinking", async () => {
+    const bodies = stubFetch<SentBody>(() =>
+      Response.json({ message: { content: "No.", thinking: "1001 / 7 = 143" }, prompt_eval_count: 5, eval_count: 40 })
+    );
+
+    const result = await new ProviderAdapter(provider("ollama", "qwen3")).complete(request, "qwen3");
+
+    expect(bodies[0]!.think).toBe(true);
+    expect(result.reasoning).toBe("1001 / 7 = 143");
+  });
+});
+
+describe("LLMGateway reasoning", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should only route reasoning requests to thinking models", async () => {
+    stubFetch(() =>
+      Response.json({
+        choices: [{ message: { content: "No." } }],
+        usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+      })
+    );
+    const gateway = createGateway({
+      providers: [provider("ollama", "llama3.2", ["cheap"]), provider("openai", "o3-mini")],
+    });
+
+    expect((await gateway.complete(request)).model).toBe("o3-mini");
+
+    await expect(
+      gateway.complete({ ...request, routing: { cacheEnabled: false, allowedProviders: ["ollama"] } })
+    ).rejects.toMatchObject({ code: "no_eligible_model" });
+  });
+
+  test("should surface streamed reasoning and price reasoning tokens as output", async () => {
+    stubFetch(() =>
+      sse([
+        { choices: [{ delta: { reasoning_content: "Divide by 7." } }] },
+        { choices: [{ delta: { content: "No." }, finish_reason: "stop" }] },
+        {
+          choices: [],
+          usage: {
+            prompt_tokens: 10,
+            completion_tokens: 500,
+            total_tokens: 510,
+            completion_tokens_details: { reasoning_tokens: 400 },
+          },
+        },
+        "[DONE]",
+      ])
+    );
+    const gateway = createGateway({ providers: [provider("openai", "o3-mini")] });
+
+    const stream = gateway.stream(request);
+    let next = await stream.next();
+    while (!next.done) next = await stream.next();
+    const response = next.value!;
+
+    expect(response.content).toBe("No.");
+    expect(response.reasoning).toBe("Divide by 7.");
+    expect(response.usage.reasoningTokens).toBe(400);
+    expect(response.cost.outputCost).toBeCloseTo(0.005);
+    expect(response.cost.reasoningCost).toBeCloseTo(0.004);
+    expect(response.cost.totalCost).toBeCloseTo(0.00501);
+  });
+
+  test("should break out reasoning spend in the cost tracker", async () => {
+    const tracker = new CostTracker({
+      budgets: {},
+      alerts: { enabled: false, thresholds: [] },
+      tracking: { byUser: false, byProject: false, byFeature: false },
+    } as never);
+
+    await tracker.track({
+      requestId: "r1",
+      provider: "openai",
+      model: "o3-mini",
+      usage: { inputTokens: 10, outputTokens: 500, totalTokens: 510, reasoningTokens: 400 },
+      cost: { inputCost: 0.00001, outputCost: 0.005, reasoningCost: 0.004, totalCost: 0.00501 },
+    });
+
+    expect((await tracker.getBreakdown()).reasoning).toBeCloseTo(0.004);
+    expect(tracker.exportData("csv").split("\n")[1]).toContain(",10,500,400,");
+  });
+});
+
+describe("Compatible APIs", () => {
+  test("should map reasoning_effort and return reasoning_content", () => {
+    const gatewayRequest = fromOpenAIRequest({
+      model: "auto",
+      messages: [{ role: "user", content: "Hi" }],
+      reasoning_effort: "low",
+    });
+    expect(gatewayRequest.reasoning).toEqual({ effort: "low" });
+
+    const body = toOpenAIResponse({
+      id: "1",
+      requestId: "1",
+      provider: "openai",
+      model: "o3-mini",
+      content: "Hello",
+      reasoning: "Greet back.",
+      usage: { inputTokens: 1, outputTokens: 20, totalTokens: 21, reasoningTokens: 18 },
+      latencyMs: 1,
+      cached: false,
+      cost: { inputCost: 0, outputCost: 0, totalCost: 0, currency: "USD" },
+      metadata: {} as never,
+    });
+    expect(body.choices[0]!.message.reasoning_content).toBe("Greet back.");
+    expect(body.usage.completion_tokens_details).toEqual({ reasoning_tokens: 18 });
+  });
+
+  test("should take the Anthropic thinking budget out of max_tokens", () => {
+    const gatewayRequest = fromAnthropicRequest({
+      model: "claude-sonnet-4",
+      max_tokens: 6000,
+      thinking: { type: "enabled", budget_tokens: 4000 },
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    expect(gatewayRequest).toMatchObject({ maxTokens: 2000, reasoning: { budgetTokens: 4000 } });
+  });
+});
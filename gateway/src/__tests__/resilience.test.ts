@@ -0,0 +1,336 @@
+/**
+ * Resilience Tests
+ *
+ * Retry and fallback behaviour of LLMGateway.complete() and stream(), and the attempt history they report.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { StreamingProvider } from "../core/streaming";
+import { ProviderError } from "../core/errors";
+import { drain, ndjson, provider, restoreFetch, sse, stubFetch } from "./fixtures";
+import type { GatewayRequest } from "../core/types";
+
+const providers = [
+  provider("ollama", "llama3.2", {
+    apiKey: "",
+    model: { costPer1kInput: 0, costPer1kOutput: 0, capabilities: ["fast", "cheap"] },
+  }),
+  provider("openai", "gpt-4o-mini", { model: { capabilities: ["fast", "cheap"] } }),
+];
+
+const reliability = {
+  retryAttempts: 2,
+  retryDelayMs: 1,
+  retryBackoffMultiplier: 1,
+  circuitBreaker: { failureThreshold: 5, recoveryTimeMs: 30000, halfOpenRequests: 1 },
+  timeout: { requestMs: 1000, streamMs: 1000 },
+};
+
+const request: GatewayRequest = {
+  id: "resilience-1",
+  messages: [{ role: "user", content: "Hello" }],
+  routing: { strategy: "cost_optimized", cacheEnabled: false },
+};
+
+// The request fields these tests read
+interface SentBody {
+  messages: Array<{ role: string; content: string }>;
+  reasoning_effort?: string;
+}
+
+// Route stubbed responses by upstream host
+const stubHosts = (handlers: { ollama: () => Response; openai?: () => Response }) =>
+  stubFetch<SentBody>((url) => (url.startsWith("http://ollama.test") ? handlers.ollama() : handlers.openai!()));
+
+const ollamaOk = () =>
+  Response.json({ message: { content: "from ollama" }, prompt_eval_count: 3, eval_count: 2 });
+
+const openaiOk = () =>
+  Response.json({
+    choices: [{ message: { content: "from openai" } }],
+    usage: { prompt_tokens: 4, completion_tokens: 6 },
+  });
+
+describe("LLMGateway attempt history", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should report a single primary attempt on success", async () => {
+    stubHosts({ ollama: ollamaOk });
+    const gateway = createGateway({ providers, reliability });
+
+    const response = await gateway.complete(request);
+    expect(response.metadata.retryCount).toBe(0);
+    expect(response.metadata.attempts).toHaveLength(1);
+    expect(response.metadata.attempts[0]).toMatchObject({
+      provider: "ollama",
+      model: "llama3.2",
+      kind: "primary",
+      success: true,
+      usage: { inputTokens: 3, outputTokens: 2, totalTokens: 5 },
+    });
+  });
+
+  test("should count retries against the same provider", async () => {
+    let calls = 0;
+    stubHosts({
+      ollama: () => (++calls === 1 ? new Response("overloaded", { status: 503 }) : ollamaOk()),
+    });
+    const gateway = createGateway({ providers, reliability });
+
+    const response = await gateway.complete(request);
+    expect(response.metadata.retryCount).toBe(1);
+    expect(response.metadata.attempts.map((a) => [a.kind, a.success, a.errorCode])).toEqual([
+      ["primary", false, "provider_error"],
+      ["retry", true, undefined],
+    ]);
+  });
+
+  test("should record the fallback chain and report the provider that answered", async () => {
+    stubHosts({
+      ollama: () => new Response("down", { status: 500 }),
+      openai: openaiOk,
+    });
+    const gateway = createGateway({ providers, reliability });
+
+    const response = await gateway.complete(request);
+    expect(response.provider).toBe("openai");
+    expect(response.content).toBe("from openai");
+    expect(response.metadata.routingDecision.selectedProvider).toBe("openai");
+    expect(response.metadata.retryCount).toBe(1);
+    expect(response.metadata.attempts.map((a) => [a.provider, a.kind, a.success])).toEqual([
+      ["ollama", "primary", false],
+      ["ollama", "retry", false],
+      ["openai", "fallback", true],
+    ]);
+    expect(response.metadata.attempts[0]!.error).toContain("500");
+  });
+});
+
+// Ollama NDJSON stream of one chunk per text piece; without `done` the connection drops afterwards
+function ollamaStream(pieces: string[], done = true): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const content of pieces) {
+          controller.enqueue(encoder.encode(JSON.stringify({ message: { content }, done: false }) + "\n"));
+        }
+        if (done) {
+          controller.enqueue(encoder.encode(JSON.stringify({ done: true, prompt_eval_count: 3, eval_count: 2 }) + "\n"));
+          controller.close();
+        }
+      },
+      // Pulled once the pieces have been read
+      pull(controller) {
+        controller.error(new Error("connection reset"));
+      },
+    })
+  );
+}
+
+const openaiStream = (text: string) => () =>
+  new Response(
+    `data: ${JSON.stringify({ choices: [{ delta: { content: text }, finish_reason: "stop" }] })}\n\n` +
+      `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 20, completion_tokens: 4, total_tokens: 24 } })}\n\n` +
+      "data: [DONE]\n\n"
+  );
+
+describe("LLMGateway stream failover", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should retry and fail over silently before the first token", async () => {
+    stubHosts({
+      ollama: () => new Response("down", { status: 500 }),
+      openai: openaiStream("from openai"),
+    });
+    const gateway = createGateway({ providers, reliability });
+
+    const { chunks, result: response } = await drain(gateway.stream(request));
+
+    expect(chunks.filter((c) => c.type !== "done").map((c) => c.type)).toEqual(["text"]);
+    expect(response!.content).toBe("from openai");
+    expect(response!.metadata.attempts.map((a) => [a.provider, a.kind, a.success])).toEqual([
+      ["ollama", "primary", false],
+      ["ollama", "retry", false],
+      ["openai", "fallback", true],
+    ]);
+  });
+
+  test("should continue on a fallback model after a mid-stream failure", async () => {
+    const bodies = stubHosts({ ollama: () => ollamaStream(["Hello, "], false), openai: openaiStream("world.") });
+    const gateway = createGateway({ providers, reliability });
+
+    const { chunks, result: response } = await drain(gateway.stream(request));
+
+    expect(chunks.filter((c) => c.type !== "done").map((c) => c.type)).toEqual(["text", "failover", "text"]);
+    expect(chunks[1]!.failover).toMatchObject({
+      fromProvider: "ollama",
+      fromModel: "llama3.2",
+      provider: "openai",
+      model: "gpt-4o-mini",
+    });
+    expect(chunks[1]!.failover!.error).toContain("connection reset");
+    expect(response!.content).toBe("Hello, world.");
+    expect(response!.provider).toBe("openai");
+    // No retry once output was sent
+    expect(response!.metadata.attempts.map((a) => [a.provider, a.success])).toEqual([
+      ["ollama", false],
+      ["openai", true],
+    ]);
+
+    // The fallback sees the partial answer and is asked to continue it
+    const messages = bodies[1]!.messages;
+    expect(messages[messages.length - 2]).toEqual({ role: "assistant", content: "Hello, " });
+    expect(messages[messages.length - 1]!.role).toBe("user");
+  });
+
+  test("should continue without sending reasoning again when only reasoning was sent", async () => {
+    const encoder = new TextEncoder();
+    const bodies = stubHosts({
+      ollama: () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(encoder.encode(JSON.stringify({ message: { thinking: "Greet back." } }) + "\n"));
+            },
+            pull(controller) {
+              controller.error(new Error("connection reset"));
+            },
+          })
+        ),
+      openai: openaiStream("Hello!"),
+    });
+    const thinking = providers.map((p) => ({
+      ...p,
+      models: p.models.map((m) => ({ ...m, capabilities: [...m.capabilities, "thinking" as const] })),
+    }));
+    const gateway = createGateway({ providers: thinking, reliability });
+
+    const { chunks, result: response } = await drain(gateway.stream({ ...request, reasoning: { effort: "low" } }));
+
+    expect(chunks.filter((c) => c.type !== "done").map((c) => c.type)).toEqual(["reasoning", "failover", "text"]);
+    expect(response!.reasoning).toBe("Greet back.");
+    expect(response!.content).toBe("Hello!");
+    // Nothing to continue from, so the fallback answers the original messages, without reasoning
+    expect(bodies[1]!.messages).toEqual([{ role: "user", content: "Hello" }]);
+    expect(bodies[1]!.reasoning_effort).toBeUndefined();
+  });
+
+  test("should fail over when the provider sends an error inside the stream", async () => {
+    stubHosts({
+      ollama: () => ndjson([{ message: { content: "Hello, " }, done: false }, { error: "model runner has unexpectedly stopped" }]),
+      openai: openaiStream("world."),
+    });
+    const gateway = createGateway({ providers, reliability });
+
+    const { chunks, result: response } = await drain(gateway.stream(request));
+
+    expect(chunks.filter((c) => c.type !== "done").map((c) => c.type)).toEqual(["text", "failover", "text"]);
+    expect(chunks[1]!.failover!.error).toContain("model runner has unexpectedly stopped");
+    expect(response!.content).toBe("Hello, world.");
+  });
+
+  test("should fail over when the stream ends before its final event", async () => {
+    stubHosts({
+      ollama: () => ndjson([{ message: { content: "Hello, " }, done: false }]),
+      openai: openaiStream("world."),
+    });
+    const gateway = createGateway({ providers, reliability });
+
+    const { chunks, result: response } = await drain(gateway.stream(request));
+
+    expect(chunks[1]!.failover!.error).toContain("stream ended before done");
+    expect(response!.content).toBe("Hello, world.");
+    expect(response!.metadata.attempts.map((a) => [a.provider, a.success])).toEqual([
+      ["ollama", false],
+      ["openai", true],
+    ]);
+  });
+
+  test("should end with an error when resuming is turned off", async () => {
+    stubHosts({ ollama: () => ollamaStream(["Hello, "], false), openai: openaiStream("world.") });
+    const gateway = createGateway({ providers, reliability: { ...reliability, resumeStreams: false } });
+
+    const { chunks, result: response } = await drain(gateway.stream(request));
+
+    expect(chunks.map((c) => c.type)).toEqual(["text", "error"]);
+    expect(chunks[1]!.error).toContain("connection reset");
+    expect(response).toBeNull();
+  });
+
+  test("should not fail over when fallback is disabled for the request", async () => {
+    stubHosts({ ollama: () => new Response("down", { status: 500 }), openai: openaiStream("from openai") });
+    const gateway = createGateway({ providers, reliability });
+
+    const { chunks, result: response } = await drain(
+      gateway.stream({ ...request, routing: { ...request.routing, fallbackEnabled: false } })
+    );
+
+    expect(chunks.map((c) => [c.type, c.errorCode])).toEqual([["error", "provider_error"]]);
+    expect(response).toBeNull();
+  });
+});
+
+describe("Provider stream errors", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  const anthropic = provider("anthropic", "claude-sonnet-4");
+  const openai = provider("openai", "gpt-4o-mini");
+
+  async function streamError(config: typeof anthropic, model: string): Promise<ProviderError> {
+    const { chunks } = await drain(new StreamingProvider(config).stream(request, model));
+    const last = chunks[chunks.length - 1]!;
+    expect(last.type).toBe("error");
+    return last.cause as ProviderError;
+  }
+
+  test("should fail an Anthropic stream on an error event, retryable when overloaded", async () => {
+    stubFetch((_url, call) =>
+      sse([
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } },
+        call === 0
+          ? { type: "error", error: { type: "overloaded_error", message: "Overloaded" } }
+          : { type: "error", error: { type: "invalid_request_error", message: "Bad tool result" } },
+      ])
+    );
+
+    const overloaded = await streamError(anthropic, "claude-sonnet-4");
+    expect(overloaded).toBeInstanceOf(ProviderError);
+    expect(overloaded.message).toContain("overloaded_error - Overloaded");
+    expect(overloaded).toMatchObject({ upstreamStatus: 529, retryable: true });
+
+    const invalid = await streamError(anthropic, "claude-sonnet-4");
+    expect(invalid).toMatchObject({ upstreamStatus: 400, retryable: false });
+  });
+
+  test("should fail an Anthropic stream that ends without message_stop", async () => {
+    stubFetch(() => sse([{ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } }]));
+
+    const error = await streamError(anthropic, "claude-sonnet-4");
+    expect(error.message).toContain("stream ended before message_stop");
+    expect(error.retryable).toBe(true);
+  });
+
+  test("should fail an OpenAI stream on an error event or a missing [DONE]", async () => {
+    stubFetch((_url, call) =>
+      sse([
+        { choices: [{ delta: { content: "Hel" } }] },
+        ...(call === 0 ? [{ error: { message: "The server had an error", type: "server_error" } }] : []),
+      ])
+    );
+
+    const serverError = await streamError(openai, "gpt-4o-mini");
+    expect(serverError.message).toContain("server_error - The server had an error");
+    expect(serverError).toMatchObject({ upstreamStatus: 500, retryable: true });
+
+    const truncated = await streamError(openai, "gpt-4o-mini");
+    expect(truncated.message).toContain("stream ended before [DONE]");
+  });
+});
@@ -0,0 +1,641 @@
+/**
+ * Gateway Server Tests
+ *
+ * Tests for the OpenAI- and Anthropic-compatible HTTP API and its wire-format mapping.
+ */
+
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { createGateway, resolveGatewayConfig, type LLMGateway } from "../core/gateway";
+import { GatewayServer } from "../server/server";
+import { fromOpenAIRequest, toOpenAIResponse, OpenAIChunkEncoder } from "../server/openai-compat";
+import { fromAnthropicRequest, toAnthropicResponse, AnthropicEventEncoder } from "../server/anthropic-compat";
+import { toAnthropicMessages } from "../core/providers";
+import { BudgetExceededError, RateLimitedError } from "../core/errors";
+import { drain, originalFetch, provider, restoreFetch, sse, stubFetch } from "./fixtures";
+import type { StreamChunk } from "../core/streaming";
+import type { RequestMetric } from "../dashboard/metrics-collector";
+import type { GatewayRequest, GatewayResponse } from "../core/types";
+
+const PORT = 4011;
+const BASE = `http://localhost:${PORT}`;
+
+function fakeResponse(request: GatewayRequest, overrides: Partial<GatewayResponse> = {}): GatewayResponse {
+  return {
+    id: "resp-1",
+    requestId: request.id,
+    provider: "openai",
+    model: "gpt-4o-mini",
+    content: "Hello there",
+    usage: { inputTokens: 12, outputTokens: 3, totalTokens: 15 },
+    latencyMs: 42,
+    cached: false,
+    cost: { inputCost: 0, outputCost: 0, totalCost: 0, currency: "USD" },
+    metadata: {
+      routingDecision: {
+        strategy: "balanced",
+        selectedModel: "gpt-4o-mini",
+        selectedProvider: "openai",
+        reason: "test",
+        alternativesConsidered: [],
+      },
+      cacheStatus: { hit: false },
+      retryCount: 0,
+      attempts: [],
+      traceId: "t",
+      spanId: "s",
+    },
+    ...overrides,
+  };
+}
+
+describe("OpenAI request mapping", () => {
+  test("should map messages, tools and user onto a GatewayRequest", () => {
+    const request = fromOpenAIRequest({
+      model: "gpt-4o",
+      user: "user-42",
+      max_tokens: 256,
+      messages: [
+        { role: "developer", content: "Be terse." },
+        { role: "user", content: "Weather in Paris?" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "weather", arguments: '{"city":"Paris"}' } },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "18C" },
+      ],
+      tools: [
+        { type: "function", function: { name: "weather", parameters: { type: "object" } } },
+      ],
+    });
+
+    expect(request.model).toBe("gpt-4o");
+    expect(request.maxTokens).toBe(256);
+    expect(request.metadata?.userId).toBe("user-42");
+    expect(request.messages[0]?.role).toBe("system");
+    expect(request.messages[2]?.content).toEqual([
+      { type: "tool_use", id: "call_1", name: "weather", input: { city: "Paris" } },
+    ]);
+    expect(request.messages[3]).toEqual({ role: "tool", content: "18C", toolCallId: "call_1" });
+    expect(request.tools?.[0]?.name).toBe("weather");
+  });
+
+  test("should leave model selection to the router for auto", () => {
+    const request = fromOpenAIRequest({ model: "auto", messages: [{ role: "user", content: "hi" }] });
+    expect(request.model).toBeUndefined();
+  });
+
+  test("should map tool calls and usage back to OpenAI format", () => {
+    const request: GatewayRequest = { id: "r", messages: [] };
+    const completion = toOpenAIResponse(
+      fakeResponse(request, {
+        content: "",
+        toolCalls: [{ id: "call_1", name: "weather", arguments: '{"city":"Paris"}' }],
+      })
+    );
+
+    expect(completion.choices[0]?.finish_reason).toBe("tool_calls");
+    expect(completion.choices[0]?.message.content).toBeNull();
+    expect(completion.choices[0]?.message.tool_calls?.[0]?.function.name).toBe("weather");
+    expect(completion.usage.total_tokens).toBe(15);
+  });
+
+  test("should map json_object onto a format the gateway enforces", () => {
+    const request = fromOpenAIRequest({
+      model: "auto",
+      messages: [{ role: "user", content: "List three colors as JSON" }],
+      response_format: { type: "json_object" },
+    });
+
+    expect(request.responseFormat).toEqual({ schema: { type: "object" }, name: "json_object" });
+  });
+
+  test("should report the provider's finish reason", () => {
+    const request: GatewayRequest = { id: "r", messages: [] };
+    const finishReason = (overrides: Partial<GatewayResponse>) =>
+      toOpenAIResponse(fakeResponse(request, overrides)).choices[0]?.finish_reason;
+    const toolCalls = [{ id: "call_1", name: "weather", arguments: "{}" }];
+
+    expect(finishReason({ finishReason: "length" })).toBe("length");
+    expect(finishReason({ finishReason: "max_tokens" })).toBe("length");
+    expect(finishReason({ finishReason: "content_filter" })).toBe("content_filter");
+    // Ollama reports "stop" for answers that end in tool calls
+    expect(finishReason({ finishReason: "stop", toolCalls })).toBe("tool_calls");
+    expect(finishReason({})).toBe("stop");
+
+    const encoder = new OpenAIChunkEncoder("gpt-4o");
+    encoder.encode({ type: "tool_call", toolCall: { id: "call_1", name: "weather", arguments: '{"ci' } });
+    encoder.encode({ type: "done", finishReason: "length" });
+    expect(encoder.finish()[0]?.choices[0]?.finish_reason).toBe("length");
+  });
+
+  test("chunk encoder should index tool-call fragments", () => {
+    const encoder = new OpenAIChunkEncoder("gpt-4o");
+    const first = encoder.encode({ type: "tool_call", toolCall: { id: "call_1", name: "weather", arguments: "" } });
+    const second = encoder.encode({ type: "tool_call", toolCall: { id: "", name: "", arguments: '{"city"' } });
+
+    expect(first[0]?.choices[0]?.delta.role).toBe("assistant");
+    expect(first[0]?.choices[0]?.delta.tool_calls?.[0]?.id).toBe("call_1");
+    expect(second[0]?.choices[0]?.delta.tool_calls?.[0]?.index).toBe(0);
+    expect(encoder.finish()[0]?.choices[0]?.finish_reason).toBe("tool_calls");
+  });
+
+  test("should report the routed model and the assembler's tool-call indexes", () => {
+    const encoder = new OpenAIChunkEncoder("auto");
+    const delta = (name: string, index: number): StreamChunk => ({
+      type: "tool_call_delta",
+      toolCall: { id: "", name, arguments: "{}", index },
+    });
+
+    const [text] = encoder.encode({ type: "text", content: "Checking.", model: "gpt-4o-mini" });
+    // Calls without ids, as Gemini and Ollama send them
+    const calls = [...encoder.encode(delta("weather", 0)), ...encoder.encode(delta("time", 1))];
+    encoder.encode({
+      type: "failover",
+      failover: { fromProvider: "openai", fromModel: "gpt-4o-mini", provider: "groq", model: "llama-3.3-70b", error: "reset" },
+    });
+    const [last] = encoder.finish();
+
+    expect(text!.model).toBe("gpt-4o-mini");
+    expect(calls.map((c) => c.choices[0]!.delta.tool_calls![0]!.index)).toEqual([0, 1]);
+    expect(calls.map((c) => c.choices[0]!.delta.tool_calls![0]!.function.name)).toEqual(["weather", "time"]);
+    expect(last!.model).toBe("llama-3.3-70b");
+  });
+});
+
+describe("Anthropic request mapping", () => {
+  test("should map system, tool_use and tool_result blocks onto the gateway pivot", () => {
+    const request = fromAnthropicRequest({
+      model: "claude-sonnet-4-20250514",
+      max_tokens: 512,
+      system: [{ type: "text", text: "Be terse." }],
+      metadata: { user_id: "user-7" },
+      messages: [
+        { role: "user", content: "Weather in Paris?" },
+        {
+          role: "assistant",
+          content: [{ type: "tool_use", id: "toolu_1", name: "weather", input: { city: "Paris" } }],
+        },
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_1", content: "18C" },
+            { type: "text", text: "And tomorrow?" },
+          ],
+        },
+      ],
+    });
+
+    expect(request.messages[0]).toEqual({ role: "system", content: "Be terse." });
+    expect(request.messages[2]?.content).toEqual([
+      { type: "tool_use", id: "toolu_1", name: "weather", input: { city: "Paris" } },
+    ]);
+    expect(request.messages[3]).toEqual({ role: "tool", toolCallId: "toolu_1", content: "18C" });
+    expect(request.messages[4]?.role).toBe("user");
+    expect(request.metadata?.userId).toBe("user-7");
+  });
+
+  test("should round-trip tool results back to Anthropic user turns", () => {
+    const request = fromAnthropicRequest({
+      model: "auto",
+      max_tokens: 100,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "a", content: "1" },
+            { type: "tool_result", tool_use_id: "b", content: "2" },
+          ],
+        },
+      ],
+    });
+    const { messages } = toAnthropicMessages(request.messages);
+
+    expect(messages.length).toBe(1);
+    expect(messages[0]?.role).toBe("user");
+    expect(messages[0]?.content).toEqual([
+      { type: "tool_result", tool_use_id: "a", content: "1" },
+      { type: "tool_result", tool_use_id: "b", content: "2" },
+    ]);
+  });
+
+  test("should keep is_error on tool results both ways", () => {
+    const request = fromAnthropicRequest({
+      model: "auto",
+      max_tokens: 100,
+      messages: [
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "a", content: "Timed out", is_error: true }] },
+      ],
+    });
+
+    expect(request.messages[0]).toEqual({ role: "tool", toolCallId: "a", content: "Timed out", isError: true });
+    expect(toAnthropicMessages(request.messages).messages[0]?.content).toEqual([
+      { type: "tool_result", tool_use_id: "a", content: "Timed out", is_error: true },
+    ]);
+  });
+
+  test("should report the provider's finish reason as the stop reason", () => {
+    const request: GatewayRequest = { id: "r", messages: [] };
+    const stopReason = (finishReason?: string) =>
+      toAnthropicResponse(fakeResponse(request, { finishReason })).stop_reason;
+
+    expect(stopReason("max_tokens")).toBe("max_tokens");
+    expect(stopReason("length")).toBe("max_tokens");
+    // Gemini's spelling
+    expect(stopReason("MAX_TOKENS")).toBe("max_tokens");
+    expect(stopReason("stop_sequence")).toBe("stop_sequence");
+    expect(stopReason(undefined)).toBe("end_turn");
+
+    const encoder = new AnthropicEventEncoder("claude");
+    const events = [
+      ...encoder.encode({ type: "text", content: "Hi" }),
+      ...encoder.encode({ type: "done", finishReason: "max_tokens" }),
+      ...encoder.finish(),
+    ];
+    expect(events.find((e) => e.event === "message_delta")!.data.delta).toEqual({
+      stop_reason: "max_tokens",
+      stop_sequence: null,
+    });
+  });
+
+  test("should map tool calls back to tool_use content", () => {
+    const request: GatewayRequest = { id: "r", messages: [] };
+    const message = toAnthropicResponse(
+      fakeResponse(request, {
+        content: "Checking",
+        toolCalls: [{ id: "toolu_1", name: "weather", arguments: '{"city":"Paris"}' }],
+      })
+    );
+
+    expect(message.stop_reason).toBe("tool_use");
+    expect(message.content[1]).toEqual({
+      type: "tool_use",
+      id: "toolu_1",
+      name: "weather",
+      input: { city: "Paris" },
+    });
+    expect(message.usage.input_tokens).toBe(12);
+  });
+
+  test("event encoder should emit the Anthropic event sequence", () => {
+    const encoder = new AnthropicEventEncoder("claude");
+    const events = [
+      ...encoder.encode({ type: "text", content: "Hi" }),
+      ...encoder.encode({ type: "tool_call", toolCall: { id: "toolu_1", name: "weather", arguments: "" } }),
+      ...encoder.encode({ type: "tool_call", toolCall: { id: "", name: "", arguments: '{"city":"Paris"}' } }),
+      ...encoder.finish({ inputTokens: 3, outputTokens: 4, totalTokens: 7 }),
+    ].map((e) => e.event);
+
+    expect(events).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+  });
+
+  test("event encoder should stream thinking blocks and report the routed model and usage", () => {
+    const encoder = new AnthropicEventEncoder("auto", 40);
+    const events = [
+      ...encoder.encode({ type: "reasoning", content: "The user greets.", model: "claude-sonnet-4" }),
+      ...encoder.encode({ type: "text", content: "Hi" }),
+      ...encoder.finish({ inputTokens: 42, outputTokens: 9, totalTokens: 51 }),
+    ];
+
+    expect(events[0]!.data.message).toMatchObject({
+      model: "claude-sonnet-4",
+      usage: { input_tokens: 40, output_tokens: 0 },
+    });
+    expect(events.slice(1, 4).map((e) => e.data)).toEqual([
+      { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "The user greets." } },
+      { type: "content_block_stop", index: 0 },
+    ]);
+    expect(events[4]!.data).toMatchObject({ index: 1, content_block: { type: "text" } });
+    expect(events.find((e) => e.event === "message_delta")!.data.usage).toEqual({ input_tokens: 42, output_tokens: 9 });
+  });
+
+  test("should return thinking blocks and leave out those sent back", () => {
+    const request = fromAnthropicRequest({
+      model: "claude-sonnet-4",
+      max_tokens: 512,
+      messages: [
+        { role: "user", content: "Hi" },
+        {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "The user greets.", signature: "sig" },
+            { type: "text", text: "Hello!" },
+          ],
+        },
+        { role: "user", content: "Bye" },
+      ],
+    });
+    expect(request.messages[1]!.content).toEqual([{ type: "text", text: "Hello!" }]);
+
+    const message = toAnthropicResponse(fakeResponse(request, { reasoning: "Say goodbye." }));
+    expect(message.content.map((b) => b.type)).toEqual(["thinking", "text"]);
+    expect(message.content[0]).toMatchObject({ thinking: "Say goodbye." });
+  });
+});
+
+describe("Upstream finish reasons", () => {
+  const anthropic = provider("anthropic", "claude-sonnet-4");
+  const request: GatewayRequest = {
+    id: "finish-1",
+    messages: [{ role: "user", content: "Write a long story" }],
+    routing: { cacheEnabled: false },
+  };
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should carry Anthropic's stop_reason to complete() responses", async () => {
+    stubFetch(() =>
+      Response.json({
+        content: [{ type: "text", text: "Once upon" }],
+        stop_reason: "max_tokens",
+        usage: { input_tokens: 5, output_tokens: 2 },
+      })
+    );
+    const gateway = createGateway({ providers: [anthropic] });
+
+    expect((await gateway.complete(request)).finishReason).toBe("max_tokens");
+  });
+
+  test("should carry Anthropic's streamed stop_reason to the done chunk and the response", async () => {
+    stubFetch(() =>
+      sse([
+        { type: "message_start", message: { usage: { input_tokens: 5, output_tokens: 0 } } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Once upon" } },
+        { type: "message_delta", delta: { stop_reason: "max_tokens" }, usage: { output_tokens: 2 } },
+        { type: "message_stop" },
+      ])
+    );
+    const gateway = createGateway({ providers: [anthropic] });
+
+    const { chunks, result } = await drain(gateway.stream(request));
+    expect(chunks.find((c) => c.type === "done")).toMatchObject({ finishReason: "max_tokens" });
+    expect(result!.finishReason).toBe("max_tokens");
+  });
+});
+
+describe("GatewayServer", () => {
+  let gateway: LLMGateway;
+  let server: GatewayServer;
+  let lastRequest: GatewayRequest | undefined;
+
+  beforeEach(() => {
+    gateway = createGateway();
+    gateway.complete = (async (request: GatewayRequest) => {
+      lastRequest = request;
+      return fakeResponse(request);
+    }) as LLMGateway["complete"];
+    gateway.stream = async function* (request): AsyncGenerator<StreamChunk, GatewayResponse | null, undefined> {
+      lastRequest = request;
+      yield { type: "text", content: "Hel" };
+      yield { type: "text", content: "lo" };
+      yield { type: "done", usage: { inputTokens: 5, outputTokens: 2, totalTokens: 7 } };
+      return fakeResponse(request);
+    };
+    server = new GatewayServer(gateway, { port: PORT, host: "localhost" });
+    server.start();
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  test("should serve chat completions", async () => {
+    const res = await fetch(`${BASE}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "gpt-4o-mini", messages: [{ role: "user", content: "Hi" }] }),
+    });
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as { object: string; choices: Array<{ message: { content: string } }> };
+    expect(data.object).toBe("chat.completion");
+    expect(data.choices[0]?.message.content).toBe("Hello there");
+    expect(lastRequest?.model).toBe("gpt-4o-mini");
+  });
+
+  test("should stream chat completion chunks over SSE", async () => {
+    const res = await fetch(`${BASE}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    const events = (await res.text())
+      .split("\n\n")
+      .filter((e) => e.startsWith("data: "))
+      .map((e) => e.slice(6));
+
+    expect(events[events.length - 1]).toBe("[DONE]");
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e));
+    const text = chunks.map((c) => c.choices[0]?.delta?.content ?? "").join("");
+    expect(text).toBe("Hello");
+    expect(chunks[chunks.length - 1].usage.total_tokens).toBe(7);
+  });
+
+  test("should serve Anthropic messages", async () => {
+    const res = await fetch(`${BASE}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        max_tokens: 100,
+        system: "Be nice.",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as { type: string; content: Array<{ text: string }> };
+    expect(data.type).toBe("message");
+    expect(data.content[0]?.text).toBe("Hello there");
+    expect(lastRequest?.messages[0]?.role).toBe("system");
+  });
+
+  test("should stream Anthropic SSE events", async () => {
+    const res = await fetch(`${BASE}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "gpt-4o-mini",
+        max_tokens: 100,
+        stream: true,
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    const events = (await res.text())
+      .split("\n\n")
+      .filter(Boolean)
+      .map((block) => {
+        const [eventLine, dataLine] = block.split("\n");
+        return { event: eventLine!.slice(7), data: JSON.parse(dataLine!.slice(6)) };
+      });
+
+    expect(events[0]?.event).toBe("message_start");
+    expect(events[events.length - 1]?.event).toBe("message_stop");
+    const text = events
+      .filter((e) => e.event === "content_block_delta")
+      .map((e) => e.data.delta.text)
+      .join("");
+    expect(text).toBe("Hello");
+    expect(events.find((e) => e.event === "message_delta")?.data.usage.output_tokens).toBe(2);
+  });
+
+  test("should list configured models", async () => {
+    const res = await fetch(`${BASE}/v1/models`);
+    const data = (await res.json()) as { object: string; data: Array<{ id: string; owned_by: string }> };
+
+    expect(data.object).toBe("list");
+    expect(data.data.some((m) => m.id === "gpt-4o" && m.owned_by === "openai")).toBe(true);
+  });
+
+  test("should serve the model catalog", async () => {
+    const res = await fetch(`${BASE}/v1/catalog`);
+    const data = (await res.json()) as { data: Array<{ model: string; source: string; status: string }> };
+
+    expect(data.data.find((m) => m.model === "gpt-4o")).toMatchObject({ source: "config", status: "unverified" });
+  });
+
+  test("should reject malformed bodies with an OpenAI error", async () => {
+    const res = await fetch(`${BASE}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "gpt-4o" }),
+    });
+
+    expect(res.status).toBe(400);
+    const data = (await res.json()) as { error: { type: string } };
+    expect(data.error.type).toBe("invalid_request_error");
+  });
+
+  test("should map gateway errors to status codes and error types", async () => {
+    gateway.complete = async () => {
+      throw new BudgetExceededError();
+    };
+    const res = await fetch(`${BASE}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "gpt-4o", messages: [{ role: "user", content: "Hi" }] }),
+    });
+
+    expect(res.status).toBe(429);
+    const data = (await res.json()) as { error: { type: string; code: string } };
+    expect(data.error.type).toBe("insufficient_quota");
+    expect(data.error.code).toBe("budget_exceeded");
+  });
+
+  test("should forward Retry-After for rate-limited Anthropic requests", async () => {
+    gateway.complete = async () => {
+      throw new RateLimitedError("anthropic", "Anthropic API error: 429 - slow down", 2500);
+    };
+    const res = await fetch(`${BASE}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "claude", max_tokens: 10, messages: [{ role: "user", content: "Hi" }] }),
+    });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("3");
+    const data = (await res.json()) as { error: { type: string } };
+    expect(data.error.type).toBe("rate_limit_error");
+  });
+});
+
+describe("GatewayServer stream errors", () => {
+  let server: GatewayServer;
+  let hookErrors: string[];
+  let metrics: RequestMetric[];
+
+  beforeEach(() => {
+    hookErrors = [];
+    metrics = [];
+    // Every provider call fails, so the stream ends with an error chunk
+    stubFetch(() => new Response("down", { status: 500 }));
+    const gateway = createGateway({
+      providers: [provider("ollama", "llama3.2")],
+      reliability: { ...resolveGatewayConfig().reliability, retryAttempts: 0 },
+      middleware: {
+        custom: [{ name: "probe", onError: (_ctx, error) => void hookErrors.push(error.message) }],
+      },
+    });
+    gateway.subscribeMetrics((metric) => metrics.push(metric));
+    server = new GatewayServer(gateway, { port: PORT, host: "localhost" });
+    server.start();
+  });
+
+  afterEach(() => {
+    server.stop();
+    restoreFetch();
+  });
+
+  // The server is reached with the real fetch; providers get the stub
+  const post = (path: string, body: unknown) =>
+    originalFetch(`${BASE}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  test("should finish the gateway stream after an OpenAI error chunk", async () => {
+    const res = await post("/v1/chat/completions", {
+      model: "llama3.2",
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    const events = (await res.text()).split("\n\n").filter(Boolean);
+    expect(JSON.parse(events[0]!.slice(6)).error.code).toBe("provider_error");
+    expect(events[events.length - 1]).toBe("data: [DONE]");
+    expect(hookErrors).toHaveLength(1);
+    expect(metrics.map((m) => m.success)).toEqual([false]);
+  });
+
+  test("should answer a streamed response_format request with a 400", async () => {
+    const res = await post("/v1/chat/completions", {
+      model: "llama3.2",
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+      response_format: { type: "json_schema", json_schema: { name: "result", schema: { type: "object" } } },
+    });
+
+    expect(res.status).toBe(400);
+    const data = (await res.json()) as { error: { type: string; code: string } };
+    expect(data.error).toMatchObject({ type: "invalid_request_error", code: "invalid_request" });
+  });
+
+  test("should finish the gateway stream after an Anthropic error event", async () => {
+    const res = await post("/v1/messages", {
+      model: "llama3.2",
+      max_tokens: 100,
+      stream: true,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+
+    const events = (await res.text()).split("\n\n").filter(Boolean);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toStartWith("event: error\n");
+    expect(hookErrors).toHaveLength(1);
+    expect(metrics.map((m) => m.success)).toEqual([false]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Stream Fan-out Tests
+ *
+ * StreamMultiplexer replay and live following, stream deduplication, and identical
+ * concurrent gateway streams served by a single upstream call.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { StreamMultiplexer } from "../core/stream-multiplexer";
+import { RequestDeduplicator } from "../reliability/retry";
+import type { StreamChunk } from "../core/streaming";
+import { drain, provider, restoreFetch, stubFetch } from "./fixtures";
+import type { RequestMetric } from "../dashboard/metrics-collector";
+import type { GatewayRequest, GatewayResponse } from "../core/types";
+
+const ollamaProvider = provider("ollama", "llama3.2", {
+  apiKey: "",
+  model: { costPer1kOutput: 0.002, capabilities: ["fast", "cheap"] },
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Yields each value after a short pause, then returns "end"; logs reads and closing
+async function* ticking(values: number[], log: string[] = []): AsyncGenerator<number, string, undefined> {
+  try {
+    for (const value of values) {
+      await sleep(5);
+      log.push(`read ${value}`);
+      yield value;
+    }
+    return "end";
+  } finally {
+    log.push("closed");
+  }
+}
+
+describe("StreamMultiplexer", () => {
+  test("should replay buffered chunks to late subscribers, then follow live", async () => {
+    const multiplexer = new StreamMultiplexer(ticking([1, 2, 3, 4]));
+
+    const first = multiplexer.subscribe();
+    expect((await first.next()).value).toBe(1);
+    expect((await first.next()).value).toBe(2);
+
+    const [a, b] = await Promise.all([drain(first), drain(multiplexer.subscribe())]);
+
+    expect(a).toEqual({ chunks: [3, 4], result: "end" });
+    expect(b).toEqual({ chunks: [1, 2, 3, 4], result: "end" });
+    expect(multiplexer.done).toBe(true);
+  });
+
+  test("should pass a source error to every subscriber", async () => {
+    async function* failing(): AsyncGenerator<number, string, undefined> {
+      yield 1;
+      throw new Error("upstream reset");
+    }
+    const multiplexer = new StreamMultiplexer(failing());
+
+    const results = await Promise.allSettled([drain(multiplexer.subscribe()), drain(multiplexer.subscribe())]);
+
+    expect(results.map((r) => r.status === "rejected" && (r.reason as Error).message)).toEqual([
+      "upstream reset",
+      "upstream reset",
+    ]);
+  });
+
+  test("should read no further than the fastest subscriber and close the source as the last one leaves", async () => {
+    const log: string[] = [];
+    const multiplexer = new StreamMultiplexer(ticking([1, 2, 3, 4, 5], log));
+
+    for await (const value of multiplexer.subscribe()) {
+      if (value === 2) break;
+    }
+
+    expect(log).toEqual(["read 1", "read 2", "closed"]);
+    expect(multiplexer.done).toBe(true);
+  });
+
+  test("should bound the buffer, holding the source for the slowest subscriber", async () => {
+    const log: string[] = [];
+    const multiplexer = new StreamMultiplexer(ticking([1, 2, 3, 4, 5], log), undefined, 2);
+    const fast = multiplexer.subscribe();
+    const slow = multiplexer.subscribe();
+
+    expect((await fast.next()).value).toBe(1);
+    expect((await slow.next()).value).toBe(1);
+    expect((await fast.next()).value).toBe(2);
+    // Chunk 1 is released to make room, so the stream can no longer be replayed
+    expect((await fast.next()).value).toBe(3);
+    expect(multiplexer.joinable).toBe(false);
+    await expect(drain(multiplexer.subscribe())).rejects.toThrow("cannot be joined");
+
+    // The buffer holds 2 and 3, which the slow subscriber has not read yet
+    let fourth: IteratorResult<number, string> | undefined;
+    const pending = fast.next().then((next) => (fourth = next));
+    await sleep(20);
+    expect(fourth).toBeUndefined();
+    expect(log).toEqual(["read 1", "read 2", "read 3"]);
+
+    expect((await slow.next()).value).toBe(2);
+    await pending;
+    expect(fourth!.value).toBe(4);
+
+    const [a, b] = await Promise.all([drain(fast), drain(slow)]);
+    expect(a).toEqual({ chunks: [5], result: "end" });
+    expect(b).toEqual({ chunks: [3, 4, 5], result: "end" });
+  });
+});
+
+describe("RequestDeduplicator.dedupeStream", () => {
+  test("should share a running stream and start a new one after it ends", async () => {
+    const deduplicator = new RequestDeduplicator();
+    let started = 0;
+    const source = () => {
+      started++;
+      return ticking([1, 2]);
+    };
+
+    const first = deduplicator.dedupeStream("faq", source);
+    const second = deduplicator.dedupeStream("faq", source);
+    expect([first.shared, second.shared]).toEqual([false, true]);
+
+    const [a, b] = await Promise.all([drain(first.stream), drain(second.stream)]);
+    expect(a.chunks).toEqual([1, 2]);
+    expect(b.chunks).toEqual([1, 2]);
+    expect(started).toBe(1);
+
+    expect(deduplicator.dedupeStream("faq", source).shared).toBe(false);
+    expect(started).toBe(2);
+  });
+
+  test("should start a new stream once the running one cannot be replayed", async () => {
+    const deduplicator = new RequestDeduplicator();
+    async function* counting(): AsyncGenerator<number, string, undefined> {
+      for (let i = 0; ; i++) yield i;
+    }
+    const first = deduplicator.dedupeStream("long", counting);
+    // One past the default buffer of 1024 chunks
+    for (let i = 0; i < 1025; i++) await first.stream.next();
+
+    expect(deduplicator.dedupeStream("long", () => ticking([1])).shared).toBe(false);
+    await first.stream.return("left");
+  });
+});
+
+describe("LLMGateway stream fan-out", () => {
+  // Ollama NDJSON, one line every few milliseconds; returns the upstream call count
+  function stubSlowStream(): { calls: number } {
+    const counter = { calls: 0 };
+    stubFetch(() => {
+      counter.calls++;
+      const lines = [
+        { message: { content: "Opening hours " } },
+        { message: { content: "are 9 to 5, " } },
+        { message: { content: "Monday to Friday." } },
+        { done: true, prompt_eval_count: 100, eval_count: 50 },
+      ];
+      const encoder = new TextEncoder();
+      return new Response(
+        new ReadableStream({
+          async pull(controller) {
+            const line = lines.shift();
+            if (!line) return controller.close();
+            await sleep(10);
+            controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
+          },
+        })
+      );
+    });
+    return counter;
+  }
+
+  const faq = (id: string, cacheEnabled = true): GatewayRequest => ({
+    id,
+    messages: [{ role: "user", content: "What are your opening hours?" }],
+    metadata: { userId: id },
+    routing: { cacheEnabled },
+  });
+
+  const textOf = (chunks: StreamChunk[]) =>
+    chunks
+      .filter((c) => c.type === "text")
+      .map((c) => c.content)
+      .join("");
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should serve identical concurrent streams from one upstream call and fill the cache", async () => {
+    const upstream = stubSlowStream();
+    const gateway = createGateway({ providers: [ollamaProvider] });
+
+    const leader = gateway.stream(faq("user-1"));
+    expect((await leader.next()).value).toMatchObject({ type: "text", content: "Opening hours " });
+
+    // Joins mid-stream: replays the first chunk, then follows live
+    const [rest, joined] = await Promise.all([drain(leader), drain(gateway.stream(faq("user-2")))]);
+    const leaderResponse = rest.result as GatewayResponse;
+    const joinedResponse = joined.result as GatewayResponse;
+
+    expect(upstream.calls).toBe(1);
+    expect(textOf(joined.chunks)).toBe("Opening hours are 9 to 5, Monday to Friday.");
+    expect(joinedResponse.content).toBe(leaderResponse.content);
+    expect(leaderResponse).toMatchObject({ requestId: "user-1", cached: false, usage: { totalTokens: 150 } });
+    expect(joinedResponse).toMatchObject({ requestId: "user-2", cached: true, usage: { totalTokens: 0 } });
+    expect(joinedResponse.metadata.cacheStatus).toMatchObject({ hit: true, shared: true });
+
+    // The leader's answer was cached, so a later request makes no upstream call either
+    const later = await drain(gateway.stream(faq("user-3")));
+    expect(textOf(later.chunks)).toBe("Opening hours are 9 to 5, Monday to Friday.");
+    expect(upstream.calls).toBe(1);
+  });
+
+  test("should bill the leader and fill the cache when only a follower reads to the end", async () => {
+    const upstream = stubSlowStream();
+    const gateway = createGateway({ providers: [ollamaProvider] });
+    const metrics: RequestMetric[] = [];
+    gateway.subscribeMetrics((metric) => metrics.push(metric));
+
+    const leader = gateway.stream(faq("user-1"));
+    await leader.next();
+    const follower = gateway.stream(faq("user-2"));
+    const first = await follower.next();
+    await leader.return(null);
+    const rest = await drain(follower);
+
+    expect(textOf([first.value as StreamChunk, ...rest.chunks])).toBe("Opening hours are 9 to 5, Monday to Friday.");
+    expect(metrics.map((m) => [m.id, m.inputTokens, m.outputTokens, m.cached])).toEqual([
+      ["user-1", 100, 50, false],
+      ["user-2", 0, 0, true],
+    ]);
+    expect((await gateway.getStats()).cost.daily).toBeCloseTo(0.0002);
+
+    await drain(gateway.stream(faq("user-3")));
+    expect(upstream.calls).toBe(1);
+  });
+
+  test("should close the upstream and bill the request as soon as its only reader leaves", async () => {
+    stubSlowStream();
+    const gateway = createGateway({ providers: [ollamaProvider] });
+    const metrics: RequestMetric[] = [];
+    gateway.subscribeMetrics((metric) => metrics.push(metric));
+
+    const stream = gateway.stream(faq("user-1"));
+    await stream.next();
+    await stream.return(null);
+
+    expect(metrics.map((m) => [m.id, m.cached])).toEqual([["user-1", false]]);
+    expect(metrics[0]!.outputTokens).toBeGreaterThan(0);
+
+    // The partial answer was not cached
+    await drain(gateway.stream(faq("user-2")));
+    expect(metrics.map((m) => [m.id, m.cached])).toEqual([
+      ["user-1", false],
+      ["user-2", false],
+    ]);
+  });
+
+  test("should not share streams the cache could not answer", async () => {
+    const upstream = stubSlowStream();
+    const gateway = createGateway({ providers: [ollamaProvider] });
+
+    await Promise.all([drain(gateway.stream(faq("user-1", false))), drain(gateway.stream(faq("user-2", false)))]);
+
+    expect(upstream.calls).toBe(2);
+  });
+});
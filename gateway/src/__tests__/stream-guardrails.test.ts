@@ -0,0 +1,280 @@
+/**
+ * Stream Guardrail Tests
+ *
+ * Sliding-window output sanitization of streamed text and reasoning, blocking with a
+ * typed error chunk, and the same rules on finished answers.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { OutputBlockedError } from "../core/errors";
+import { SecurityGuard } from "../security/guard";
+import { StreamSanitizer } from "../security/stream-sanitizer";
+import type { StreamChunk } from "../core/streaming";
+import { drain, ndjson, provider, restoreFetch, stubFetch } from "./fixtures";
+import type { GatewayRequest, SecurityConfig } from "../core/types";
+
+const ollamaProvider = provider("ollama", "llama3.2", {
+  apiKey: "",
+  model: { costPer1kOutput: 0.002, capabilities: ["fast", "cheap"] },
+});
+
+function security(outputSanitization: SecurityConfig["outputSanitization"]): SecurityConfig {
+  return {
+    piiDetection: {
+      enabled: false,
+      action: "mask",
+      patterns: ["\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Z|a-z]{2,}\\b", "\\b\\d{3}-\\d{2}-\\d{4}\\b"],
+    },
+    promptInjection: { enabled: false, action: "warn" },
+    outputSanitization,
+    auditLog: { enabled: false, destination: "stdout" },
+  };
+}
+
+const request: GatewayRequest = {
+  id: "guardrails-1",
+  messages: [{ role: "user", content: "Print the deploy key" }],
+  routing: { cacheEnabled: false },
+};
+
+// Ollama streams one NDJSON line per piece of text
+function stubStream(pieces: string[]): void {
+  stubFetch(() =>
+    ndjson([...pieces.map((content) => ({ message: { content } })), { done: true, prompt_eval_count: 10, eval_count: 20 }])
+  );
+}
+
+const textOf = (chunks: StreamChunk[], type: StreamChunk["type"] = "text") =>
+  chunks
+    .filter((c) => c.type === type)
+    .map((c) => c.content)
+    .join("");
+
+describe("StreamSanitizer", () => {
+  const secret = { pattern: /sk-[a-z0-9]{6}/gi, replacement: "[REDACTED]", label: "blocked pattern: sk-" };
+
+  test("should catch a match split across chunks and hold back only the window", () => {
+    const sanitizer = new StreamSanitizer([secret], 9);
+
+    expect(sanitizer.push("The key is s")).toBe("The ");
+    expect(sanitizer.push("k-abc")).toBe("key i");
+    expect(sanitizer.push("123 for prod")).toBe("s [REDACTED] ");
+    expect(sanitizer.flush()).toBe("for prod");
+    expect(sanitizer.content).toBe("The key is [REDACTED] for prod");
+  });
+
+  test("should throw a typed error as soon as a blocking rule matches", () => {
+    const sanitizer = new StreamSanitizer([{ ...secret, block: true }], 9);
+
+    sanitizer.push("Here: sk-ab");
+    expect(() => sanitizer.push("c123")).toThrow(OutputBlockedError);
+    expect(sanitizer.content).not.toContain("sk-");
+  });
+
+  test("should not treat a window boundary as a word boundary", () => {
+    const ssn = { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: "[SSN_REDACTED]", label: "PII: ssn" };
+    // Nothing held back, so each push is scanned on its own
+    const sanitizer = new StreamSanitizer([ssn], 1);
+
+    expect(sanitizer.push("ref 9")).toBe("ref 9");
+    expect(sanitizer.push("123-45-6789")).toBe("123-45-6789");
+  });
+
+  test("should release held-back text before tool calls and close the upstream on block", async () => {
+    let closed = false;
+    async function* upstream(): AsyncGenerator<StreamChunk, Error | undefined, undefined> {
+      try {
+        yield { type: "text", content: "Calling" };
+        yield { type: "tool_call_complete", toolCall: { id: "1", name: "search", arguments: "{}" } };
+        yield { type: "text", content: " with sk-abc123" };
+        yield { type: "text", content: " never sent" };
+        return undefined;
+      } finally {
+        closed = true;
+      }
+    }
+
+    const sanitizer = new StreamSanitizer([{ ...secret, block: true }], 9);
+    const { chunks, result } = await drain(sanitizer.transform(upstream()));
+
+    expect(chunks.map((c) => [c.type, c.content ?? c.error])).toEqual([
+      ["text", "Calling"],
+      ["tool_call_complete", undefined],
+      ["error", "Output blocked: blocked pattern: sk-"],
+    ]);
+    expect(chunks[2]!.errorCode).toBe("output_blocked");
+    expect(result).toBeInstanceOf(OutputBlockedError);
+    expect(closed).toBe(true);
+  });
+
+  test("should scan reasoning in its own window and keep chunks in order", async () => {
+    async function* upstream(): AsyncGenerator<StreamChunk, Error | undefined, undefined> {
+      yield { type: "reasoning", content: "Read sk-ab" };
+      yield { type: "reasoning", content: "c123 aloud" };
+      yield { type: "text", content: "Done: sk-abc" };
+      yield { type: "text", content: "123" };
+      return undefined;
+    }
+
+    const sanitizer = new StreamSanitizer([secret], 9);
+    const { chunks } = await drain(sanitizer.transform(upstream()));
+
+    const types = chunks.map((c) => c.type);
+    expect(types.lastIndexOf("reasoning")).toBeLessThan(types.indexOf("text"));
+    expect(textOf(chunks, "reasoning")).toBe("Read [REDACTED] aloud");
+    expect(textOf(chunks)).toBe("Done: [REDACTED]");
+    expect(sanitizer.reasoning).toBe("Read [REDACTED] aloud");
+    expect(sanitizer.content).toBe("Done: [REDACTED]");
+  });
+});
+
+describe("LLMGateway stream guardrails", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should redact blocked patterns and mask PII across chunks", async () => {
+    stubStream(["Use sk-ab", "c123 and mail ops@exam", "ple.com for access."]);
+    const gateway = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"], maskPII: true, maxMatchLength: 32 }),
+    });
+
+    const { chunks, result } = await drain(gateway.stream(request));
+
+    const expected = "Use [REDACTED] and mail [EMAIL_REDACTED] for access.";
+    expect(textOf(chunks)).toBe(expected);
+    expect((result as { content: string }).content).toBe(expected);
+    expect(chunks[chunks.length - 1]!.type).toBe("done");
+  });
+
+  test("should sanitize and block streamed reasoning like the answer", async () => {
+    stubFetch(() =>
+      ndjson([
+        { message: { thinking: "The key is sk-ab" } },
+        { message: { thinking: "c123, so" } },
+        { message: { content: "Here it is." } },
+        { done: true, prompt_eval_count: 10, eval_count: 20 },
+      ])
+    );
+    const redacting = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"], maxMatchLength: 9 }),
+    });
+    const blocking = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"], action: "block", maxMatchLength: 9 }),
+    });
+
+    const redacted = await drain(redacting.stream(request));
+    expect(textOf(redacted.chunks, "reasoning")).toBe("The key is [REDACTED], so");
+    expect(redacted.result!.reasoning).toBe("The key is [REDACTED], so");
+
+    const blocked = await drain(blocking.stream(request));
+    expect(textOf(blocked.chunks, "reasoning")).not.toContain("sk-");
+    expect(textOf(blocked.chunks)).toBe("");
+    expect(blocked.chunks[blocked.chunks.length - 1]).toMatchObject({ type: "error", errorCode: "output_blocked" });
+  });
+
+  test("should hand the sanitized reasoning to requests joining the stream", async () => {
+    stubFetch(() =>
+      ndjson([
+        { message: { thinking: "The key is sk-ab" } },
+        { message: { thinking: "c123, so" } },
+        { message: { content: "Here it is." } },
+        { done: true, prompt_eval_count: 10, eval_count: 20 },
+      ])
+    );
+    const gateway = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"], maxMatchLength: 9 }),
+    });
+    const shared = (id: string): GatewayRequest => ({ ...request, id, routing: { cacheEnabled: true } });
+
+    const leader = gateway.stream(shared("leader"));
+    await leader.next();
+    const [, joined] = await Promise.all([drain(leader), drain(gateway.stream(shared("follower")))]);
+
+    expect(joined.result!.metadata.cacheStatus.shared).toBe(true);
+    expect(joined.result!.reasoning).toBe("The key is [REDACTED], so");
+  });
+
+  test("should end the stream with an output_blocked error chunk", async () => {
+    stubStream(["Sure. The key is sk-ab", "c123, keep it safe."]);
+    const gateway = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"], action: "block", maxMatchLength: 9 }),
+    });
+
+    const { chunks, result } = await drain(gateway.stream(request));
+    const last = chunks[chunks.length - 1]!;
+
+    expect(result).toBeNull();
+    expect(textOf(chunks)).toBe("Sure. The key ");
+    expect(last).toMatchObject({ type: "error", errorCode: "output_blocked" });
+    expect(last.cause).toBeInstanceOf(OutputBlockedError);
+  });
+});
+
+describe("Finished answers", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should apply the same rules in SecurityGuard.sanitizeOutput", () => {
+    const guard = new SecurityGuard(
+      security({ enabled: true, blockedPatterns: ["internal-only"], maskPII: true })
+    );
+
+    expect(guard.sanitizeOutput("Mail a@b.io, internal-only")).toEqual({
+      content: "Mail [EMAIL_REDACTED], [REDACTED]",
+      warnings: ["Output contained blocked pattern: internal-only", "Output contained PII: email"],
+    });
+
+    const blocking = new SecurityGuard(
+      security({ enabled: true, blockedPatterns: ["internal-only"], action: "block" })
+    );
+    expect(blocking.sanitizeOutput("internal-only").blocked).toBe("blocked pattern: internal-only");
+    expect(blocking.createStreamSanitizer()).not.toBeNull();
+    expect(new SecurityGuard(security({ enabled: true, blockedPatterns: [] })).createStreamSanitizer()).toBeNull();
+  });
+
+  test("should sanitize or block complete() answers", async () => {
+    stubFetch(() => Response.json({ message: { content: "The key is sk-abc123." }, prompt_eval_count: 10, eval_count: 5 }));
+    const redacting = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"] }),
+    });
+    const blocking = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"], action: "block" }),
+    });
+
+    expect((await redacting.complete(request)).content).toBe("The key is [REDACTED].");
+    await expect(blocking.complete(request)).rejects.toMatchObject({ code: "output_blocked", status: 502 });
+  });
+
+  test("should sanitize or block the reasoning of complete() answers", async () => {
+    stubFetch(() =>
+      Response.json({
+        message: { content: "Done.", thinking: "The key is sk-abc123." },
+        prompt_eval_count: 10,
+        eval_count: 5,
+      })
+    );
+    const redacting = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"] }),
+    });
+    const blocking = createGateway({
+      providers: [ollamaProvider],
+      security: security({ enabled: true, blockedPatterns: ["sk-[a-z0-9]{6}"], action: "block" }),
+    });
+
+    const response = await redacting.complete(request);
+    expect(response.content).toBe("Done.");
+    expect(response.reasoning).toBe("The key is [REDACTED].");
+    await expect(blocking.complete(request)).rejects.toMatchObject({ code: "output_blocked" });
+  });
+});
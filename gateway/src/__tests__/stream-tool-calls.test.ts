@@ -0,0 +1,242 @@
+/**
+ * Streaming Tool Call Tests
+ *
+ * Partial JSON parsing, tool-call assembly from provider fragments, and
+ * tool_call_delta / tool_call_complete chunks through the gateway and compatible APIs.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { parsePartialJson } from "../core/partial-json";
+import { StreamingProvider, collectStream, type StreamChunk } from "../core/streaming";
+import { OpenAIChunkEncoder } from "../server/openai-compat";
+import { AnthropicEventEncoder } from "../server/anthropic-compat";
+import { provider as baseProvider, restoreFetch, sse, stubFetch } from "./fixtures";
+import type { GatewayRequest, Tool } from "../core/types";
+
+const search: Tool = {
+  name: "search",
+  description: "Search the web",
+  inputSchema: { type: "object", properties: { query: { type: "string" }, limit: { type: "number" } } },
+};
+
+const request: GatewayRequest = {
+  id: "stream-tools-1",
+  messages: [{ role: "user", content: "Find flights and hotels in Lisbon" }],
+  tools: [search],
+  routing: { cacheEnabled: false },
+};
+
+const provider = (name: string, model: string) =>
+  baseProvider(name, model, { model: { costPer1kOutput: 0.002, capabilities: ["function_calling"] } });
+
+async function chunksOf(stream: AsyncGenerator<StreamChunk, unknown, undefined>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+// Two parallel calls, each split over several fragments; only the first carries id and name
+const openaiToolStream = () =>
+  sse([
+    { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_a", function: { name: "search", arguments: "" } }] } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"query": "fli' } }] } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ghts", "limit": 5}' } }] } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 1, id: "call_b", function: { name: "search", arguments: '{"query"' } }] } }] },
+    { choices: [{ delta: { tool_calls: [{ index: 1, function: { arguments: ': "hotels"}' } }] } }] },
+    { choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+    { choices: [], usage: { prompt_tokens: 20, completion_tokens: 30, total_tokens: 50 } },
+    "[DONE]",
+  ]);
+
+describe("parsePartialJson", () => {
+  test("should close unfinished strings, arrays and objects", () => {
+    expect(parsePartialJson('{"query": "fli')).toEqual({ query: "fli" });
+    expect(parsePartialJson('{"tags": ["a", "b')).toEqual({ tags: ["a", "b"] });
+    expect(parsePartialJson('{"a": {"b": [1, 2')).toEqual({ a: { b: [1, 2] } });
+    expect(parsePartialJson('{"done": true}')).toEqual({ done: true });
+  });
+
+  test("should drop trailing keys, commas and unfinished literals", () => {
+    expect(parsePartialJson('{"query": "x", "lim')).toEqual({ query: "x" });
+    expect(parsePartialJson('{"query": "x",')).toEqual({ query: "x" });
+    expect(parsePartialJson('{"query": "x", "limit":')).toEqual({ query: "x" });
+    expect(parsePartialJson('{"exact": tr')).toEqual({});
+    expect(parsePartialJson('{"limit": 12')).toEqual({ limit: 12 });
+    expect(parsePartialJson('{"q": "a\\')).toEqual({ q: "a" });
+  });
+
+  test("should return undefined without a usable prefix", () => {
+    expect(parsePartialJson("")).toBeUndefined();
+    expect(parsePartialJson("not json")).toBeUndefined();
+  });
+});
+
+describe("Tool call assembly", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should assemble OpenAI fragments per index with live partial arguments", async () => {
+    stubFetch(openaiToolStream);
+
+    const chunks = await chunksOf(new StreamingProvider(provider("openai", "gpt-4o")).stream(request, "gpt-4o"));
+    const toolChunks = chunks.filter((c) => c.type === "tool_call_delta" || c.type === "tool_call_complete");
+
+    expect(chunks.some((c) => c.type === "tool_call")).toBe(false);
+    expect(toolChunks.map((c) => [c.type, c.toolCall!.index, c.parsedArguments])).toEqual([
+      ["tool_call_delta", 0, undefined],
+      ["tool_call_delta", 0, { query: "fli" }],
+      ["tool_call_delta", 0, { query: "flights", limit: 5 }],
+      ["tool_call_complete", 0, { query: "flights", limit: 5 }],
+      ["tool_call_delta", 1, {}],
+      ["tool_call_delta", 1, { query: "hotels" }],
+      ["tool_call_complete", 1, { query: "hotels" }],
+    ]);
+    // Deltas name their call even when the fragment did not
+    expect(toolChunks[2]!.toolCall).toEqual({ id: "call_a", name: "search", arguments: 'ghts", "limit": 5}', index: 0 });
+    expect(toolChunks[6]!.toolCall).toEqual({ id: "call_b", name: "search", arguments: '{"query": "hotels"}', index: 1 });
+
+    // The finish reason and the usage event end the stream as one done chunk
+    expect(chunks.filter((c) => c.type === "done")).toHaveLength(1);
+    expect(chunks[chunks.length - 1]).toMatchObject({
+      type: "done",
+      finishReason: "tool_calls",
+      usage: { inputTokens: 20, outputTokens: 30, totalTokens: 50 },
+    });
+  });
+
+  test("should assemble Anthropic input_json_delta fragments by content block", async () => {
+    stubFetch(() =>
+      sse([
+        { type: "content_block_start", index: 0, content_block: { type: "text" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Searching." } },
+        { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_1", name: "search" } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"query": ' } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"Lisbon"}' } },
+        { type: "message_delta", usage: { output_tokens: 12 } },
+        { type: "message_stop" },
+      ])
+    );
+
+    const result = await collectStream(
+      new StreamingProvider(provider("anthropic", "claude-sonnet-4")).stream(request, "claude-sonnet-4")
+    );
+
+    expect(result.content).toBe("Searching.");
+    expect(result.toolCalls).toEqual([{ id: "toolu_1", name: "search", arguments: '{"query": "Lisbon"}' }]);
+  });
+
+  test("should send one done chunk for message_delta and message_stop", async () => {
+    stubFetch(() =>
+      sse([
+        { type: "message_start", message: { usage: { input_tokens: 9, output_tokens: 1 } } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hi." } },
+        { type: "message_delta", usage: { output_tokens: 4 } },
+        { type: "message_stop" },
+      ])
+    );
+
+    const chunks = await chunksOf(
+      new StreamingProvider(provider("anthropic", "claude-sonnet-4")).stream(request, "claude-sonnet-4")
+    );
+
+    expect(chunks.map((c) => c.type)).toEqual(["text", "done"]);
+    expect(chunks[1]!.usage).toEqual({ inputTokens: 9, outputTokens: 4, totalTokens: 13 });
+  });
+
+  test("should report a call cut off by an error instead of completing it", async () => {
+    const encoder = new TextEncoder();
+    stubFetch(
+      () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(
+                encoder.encode(
+                  `data: ${JSON.stringify({
+                    choices: [{ delta: { tool_calls: [{ index: 0, id: "call_a", function: { name: "search", arguments: '{"qu' } }] } }],
+                  })}\n\n`
+                )
+              );
+            },
+            pull(controller) {
+              controller.error(new Error("connection reset"));
+            },
+          })
+        )
+    );
+
+    const chunks = await chunksOf(new StreamingProvider(provider("openai", "gpt-4o")).stream(request, "gpt-4o"));
+
+    expect(chunks.map((c) => c.type)).toEqual(["tool_call_delta", "error"]);
+    const cutOff = [{ id: "call_a", name: "search", arguments: '{"qu', index: 0 }];
+    expect(chunks[1]!.incompleteToolCalls).toEqual(cutOff);
+
+    // Streams that sent tool calls are not resumed, so the gateway ends with the same report
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o")] });
+    const viaGateway = await chunksOf(gateway.stream(request));
+    expect(viaGateway.map((c) => c.type)).toEqual(["tool_call_delta", "error"]);
+    expect(viaGateway[1]!.incompleteToolCalls).toEqual(cutOff);
+  });
+
+  test("should return assembled calls from the gateway and pass deltas through", async () => {
+    stubFetch(openaiToolStream);
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o")] });
+
+    const stream = gateway.stream(request);
+    const types: string[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      types.push(next.value.type);
+      next = await stream.next();
+    }
+
+    expect(types.filter((t) => t === "tool_call_delta")).toHaveLength(5);
+    expect(types.filter((t) => t === "tool_call_complete")).toHaveLength(2);
+    expect(next.value!.toolCalls).toEqual([
+      { id: "call_a", name: "search", arguments: '{"query": "flights", "limit": 5}' },
+      { id: "call_b", name: "search", arguments: '{"query": "hotels"}' },
+    ]);
+  });
+});
+
+describe("Compatible API encoders", () => {
+  const delta = (index: number, id: string, args: string): StreamChunk => ({
+    type: "tool_call_delta",
+    toolCall: { id, name: "search", arguments: args, index },
+  });
+
+  test("should name each OpenAI call once and index its fragments", () => {
+    const encoder = new OpenAIChunkEncoder("gpt-4o");
+    const calls = [delta(0, "call_a", '{"q":'), delta(0, "call_a", '"x"}'), delta(1, "call_b", "{}")].map(
+      (chunk) => encoder.encode(chunk)[0]!.choices[0]!.delta.tool_calls![0]
+    );
+
+    expect(calls).toEqual([
+      { index: 0, id: "call_a", type: "function", function: { name: "search", arguments: '{"q":' } },
+      { index: 0, function: { arguments: '"x"}' } },
+      { index: 1, id: "call_b", type: "function", function: { name: "search", arguments: "{}" } },
+    ]);
+  });
+
+  test("should open one Anthropic tool_use block per call", () => {
+    const encoder = new AnthropicEventEncoder("claude");
+    const events = [
+      ...encoder.encode(delta(0, "toolu_1", '{"q":')),
+      ...encoder.encode(delta(0, "toolu_1", '"x"}')),
+      ...encoder.encode({ type: "tool_call_complete", toolCall: { id: "toolu_1", name: "search", arguments: '{"q":"x"}' } }),
+      ...encoder.encode(delta(1, "toolu_2", "{}")),
+    ].map((e) => e.event);
+
+    expect(events).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Structured Output Tests
+ *
+ * responseFormat: provider-native schema encodings, validation, repair and zod conversion.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { z } from "zod";
+import { createGateway } from "../core/gateway";
+import { InvalidRequestError } from "../core/errors";
+import { zodToJsonSchema } from "../core/structured-output";
+import { fromOpenAIRequest } from "../server/openai-compat";
+import { provider as baseProvider, restoreFetch, stubFetch } from "./fixtures";
+import type { GatewayRequest } from "../core/types";
+
+const provider = (name: string, model: string) =>
+  baseProvider(name, model, { model: { costPer1kInput: 1, costPer1kOutput: 1, capabilities: ["fast", "cheap"] } });
+
+// The request fields these tests read, across providers
+interface SentBody {
+  response_format: unknown;
+  messages: Array<{ role: string; content: string }>;
+  tool_choice: unknown;
+  tools: Array<{ input_schema: unknown }>;
+  generationConfig: {
+    responseMimeType: string;
+    responseSchema: { additionalProperties?: unknown; properties: Record<string, unknown> };
+  };
+  format: unknown;
+}
+
+// Answer provider calls in turn with the given bodies, recording what was sent
+const stubAnswers = (...responses: unknown[]) =>
+  stubFetch<SentBody>((_url, call) => Response.json(responses[Math.min(call, responses.length - 1)]));
+
+const openaiAnswer = (content: string) => ({
+  choices: [{ message: { content } }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+const Person = z.object({
+  name: z.string().describe("Full name"),
+  age: z.number().int().min(0),
+  email: z.string().email().optional(),
+});
+
+const request = <T>(responseFormat: GatewayRequest<T>["responseFormat"]): GatewayRequest<T> => ({
+  id: `structured-${Math.random()}`,
+  messages: [{ role: "user", content: "Extract: Ada Lovelace, 36" }],
+  routing: { cacheEnabled: false },
+  responseFormat,
+});
+
+describe("Structured output", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should use OpenAI response_format and return the parsed value", async () => {
+    const bodies = stubAnswers(openaiAnswer('{"name":"Ada Lovelace","age":36}'));
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o-mini")] });
+
+    const response = await gateway.complete(request({ schema: Person, name: "person" }));
+
+    const parsed: { name: string; age: number } | undefined = response.parsed;
+    expect(parsed).toEqual({ name: "Ada Lovelace", age: 36 });
+    expect(bodies[0]!.response_format).toEqual({
+      type: "json_schema",
+      json_schema: { name: "person", schema: zodToJsonSchema(Person), strict: false },
+    });
+  });
+
+  test("should re-ask with validation errors until the output is valid", async () => {
+    const bodies = stubAnswers(
+      openaiAnswer('Sure! {"name":"Ada"}'),
+      openaiAnswer('{"name":"Ada"}'),
+      openaiAnswer('```json\n{"name":"Ada","age":36}\n```')
+    );
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o-mini")] });
+
+    const response = await gateway.complete(request({ schema: Person }));
+
+    expect(response.parsed).toEqual({ name: "Ada", age: 36 });
+    expect(bodies).toHaveLength(3);
+    expect(bodies[1]!.messages.at(-2)).toEqual({ role: "assistant", content: 'Sure! {"name":"Ada"}' });
+    expect(bodies[1]!.messages.at(-1)!.content).toContain("not valid JSON");
+    expect(bodies[2]!.messages.at(-1)!.content).toContain("$.age: Required");
+    // Usage and attempts cover every round-trip
+    expect(response.usage.totalTokens).toBe(45);
+    expect(response.metadata.attempts).toHaveLength(3);
+  });
+
+  test("should fail with InvalidOutputError once repairs are used up", async () => {
+    stubAnswers(openaiAnswer('{"name":"Ada"}'));
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o-mini")] });
+
+    await expect(gateway.complete(request({ schema: Person, maxRepairs: 1 }))).rejects.toMatchObject({
+      code: "invalid_output",
+      status: 502,
+      content: '{"name":"Ada"}',
+    });
+  });
+
+  test("should reject a responseFormat on stream() before calling the provider", async () => {
+    const bodies = stubAnswers(openaiAnswer("{}"));
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o-mini")] });
+
+    await expect(gateway.stream(request({ schema: Person })).next()).rejects.toBeInstanceOf(InvalidRequestError);
+    expect(bodies).toHaveLength(0);
+  });
+
+  test("should validate against plain JSON Schema", async () => {
+    stubAnswers(openaiAnswer('{"labels":["bug","ui"]}'));
+    const gateway = createGateway({ providers: [provider("openai", "gpt-4o-mini")] });
+
+    const response = await gateway.complete(
+      request<{ labels: string[] }>({
+        schema: {
+          type: "object",
+          properties: { labels: { type: "array", items: { enum: ["bug", "ui", "docs"] } } },
+          required: ["labels"],
+        },
+      })
+    );
+    expect(response.parsed?.labels).toEqual(["bug", "ui"]);
+  });
+
+  test("should force an Anthropic tool call and unwrap non-object schemas", async () => {
+    const bodies = stubAnswers({
+      content: [{ type: "tool_use", id: "toolu_1", name: "tags", input: { value: ["a", "b"] } }],
+      usage: { input_tokens: 10, output_tokens: 5 },
+    });
+    const gateway = createGateway({ providers: [provider("anthropic", "claude-3-5-haiku-20241022")] });
+
+    const response = await gateway.complete(
+      request({ schema: z.array(z.string()), name: "tags" })
+    );
+
+    expect(response.parsed).toEqual(["a", "b"]);
+    expect(response.content).toBe('["a","b"]');
+    expect(response.toolCalls).toBeUndefined();
+    expect(bodies[0]!.tool_choice).toEqual({ type: "tool", name: "tags" });
+    expect(bodies[0]!.tools[0].input_schema).toEqual({
+      type: "object",
+      properties: { value: { type: "array", items: { type: "string" } } },
+      required: ["value"],
+    });
+  });
+
+  test("should send Gemini a responseSchema it accepts", async () => {
+    const bodies = stubAnswers({
+      candidates: [{ content: { parts: [{ text: '{"name":"Ada","age":36,"nickname":null}' }] } }],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+    });
+    const gateway = createGateway({ providers: [provider("gemini", "gemini-2.0-flash")] });
+
+    await gateway.complete(request({ schema: Person.extend({ nickname: z.string().nullable() }) }));
+
+    const config = bodies[0]!.generationConfig;
+    expect(config.responseMimeType).toBe("application/json");
+    expect(config.responseSchema.additionalProperties).toBeUndefined();
+    expect(config.responseSchema.properties.nickname).toEqual({ type: "string", nullable: true });
+  });
+
+  test("should pass the schema to Ollama as format", async () => {
+    const bodies = stubAnswers({ message: { content: '{"name":"Ada","age":36}' }, prompt_eval_count: 1, eval_count: 1 });
+    const gateway = createGateway({ providers: [provider("ollama", "llama3.2")] });
+
+    const response = await gateway.complete(request({ schema: Person }));
+    expect(response.parsed).toEqual({ name: "Ada", age: 36 });
+    expect(bodies[0]!.format).toEqual(zodToJsonSchema(Person));
+  });
+});
+
+describe("zodToJsonSchema", () => {
+  test("should convert common zod types", () => {
+    expect(
+      zodToJsonSchema(
+        z.object({
+          id: z.string().uuid(),
+          kind: z.enum(["a", "b"]),
+          score: z.number().gt(0).max(1),
+          tags: z.array(z.string()).min(1),
+          meta: z.record(z.boolean()).default({}),
+          either: z.union([z.literal("x"), z.null()]),
+        })
+      )
+    ).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "string", format: "uuid" },
+        kind: { type: "string", enum: ["a", "b"] },
+        score: { type: "number", exclusiveMinimum: 0, maximum: 1 },
+        tags: { type: "array", items: { type: "string" }, minItems: 1 },
+        meta: { type: "object", additionalProperties: { type: "boolean" }, default: {} },
+        either: { anyOf: [{ const: "x" }, { type: "null" }] },
+      },
+      required: ["id", "kind", "score", "tags", "either"],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe("OpenAI-compatible response_format", () => {
+  test("should map json_schema response formats onto responseFormat", () => {
+    const schema = { type: "object", properties: { ok: { type: "boolean" } } };
+    const request = fromOpenAIRequest({
+      model: "auto",
+      messages: [{ role: "user", content: "Hi" }],
+      response_format: { type: "json_schema", json_schema: { name: "result", schema } },
+    });
+    expect(request.responseFormat).toEqual({ schema, name: "result" });
+  });
+});
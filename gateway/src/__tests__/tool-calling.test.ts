@@ -0,0 +1,212 @@
+/**
+ * Tool Calling Tests
+ *
+ * Gemini and Ollama tool definitions, tool history and tool calls, plus function_calling routing.
+ */
+
+import { test, expect, describe, afterEach } from "bun:test";
+import { createGateway } from "../core/gateway";
+import { ProviderAdapter } from "../core/providers";
+import { StreamingProvider, collectStream } from "../core/streaming";
+import { provider as baseProvider, ndjson, restoreFetch, sse, stubFetch } from "./fixtures";
+import type { GatewayRequest, ModelCapability, Tool } from "../core/types";
+
+const weather: Tool = {
+  name: "weather",
+  description: "Current weather for a city",
+  inputSchema: {
+    type: "object",
+    properties: { city: { type: "string" } },
+    required: ["city"],
+    additionalProperties: false,
+  },
+};
+
+// A finished tool round trip, so converters see tool_use blocks and tool results
+const request: GatewayRequest = {
+  id: "tools-1",
+  messages: [
+    { role: "user", content: "Weather in Paris and Rome?" },
+    {
+      role: "assistant",
+      content: [
+        { type: "tool_use", id: "call_1", name: "weather", input: { city: "Paris" } },
+        { type: "tool_use", id: "call_2", name: "weather", input: { city: "Rome" } },
+      ],
+    },
+    { role: "tool", toolCallId: "call_1", content: '{"temp":18}' },
+    { role: "tool", toolCallId: "call_2", content: "sunny" },
+  ],
+  tools: [weather],
+  routing: { cacheEnabled: false },
+};
+
+const provider = (name: string, model: string, capabilities: ModelCapability[], cost = 0.001) =>
+  baseProvider(name, model, { model: { costPer1kInput: cost, costPer1kOutput: cost, capabilities } });
+
+// The request fields these tests read
+interface GeminiBody {
+  tools: Array<{ functionDeclarations: unknown[] }>;
+  contents: unknown[];
+}
+
+interface OllamaBody {
+  tools: unknown[];
+  messages: unknown[];
+}
+
+describe("Gemini tools", () => {
+  const gemini = provider("gemini", "gemini-2.0-flash", ["function_calling"]);
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should send function declarations and tool history", async () => {
+    const bodies = stubFetch<GeminiBody>(() =>
+      Response.json({ candidates: [{ content: { parts: [{ text: "Mild in both" }] } }] })
+    );
+
+    await new ProviderAdapter(gemini).complete(request, "gemini-2.0-flash");
+
+    expect(bodies[0]!.tools[0].functionDeclarations[0]).toEqual({
+      name: "weather",
+      description: "Current weather for a city",
+      parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+    });
+    expect(bodies[0]!.contents.slice(1)).toEqual([
+      {
+        role: "model",
+        parts: [
+          { functionCall: { name: "weather", args: { city: "Paris" } } },
+          { functionCall: { name: "weather", args: { city: "Rome" } } },
+        ],
+      },
+      {
+        role: "user",
+        parts: [
+          { functionResponse: { name: "weather", response: { temp: 18 } } },
+          { functionResponse: { name: "weather", response: { result: "sunny" } } },
+        ],
+      },
+    ]);
+  });
+
+  test("should return functionCall parts as tool calls", async () => {
+    stubFetch(() =>
+      Response.json({
+        candidates: [{ content: { parts: [{ functionCall: { name: "weather", args: { city: "Oslo" } } }] } }],
+        usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 5, totalTokenCount: 25 },
+      })
+    );
+
+    const result = await new ProviderAdapter(gemini).complete(request, "gemini-2.0-flash");
+
+    expect(result.content).toBe("");
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls![0]).toMatchObject({ name: "weather", arguments: '{"city":"Oslo"}' });
+    expect(result.toolCalls![0]!.id).toStartWith("call_");
+  });
+
+  test("should stream functionCall parts as tool_call chunks", async () => {
+    stubFetch(() =>
+      sse([
+        { candidates: [{ content: { parts: [{ text: "Checking" }, { functionCall: { id: "fc_1", name: "weather", args: { city: "Oslo" } } }] } }] },
+        { candidates: [{ finishReason: "STOP" }] },
+      ])
+    );
+
+    const { content, toolCalls } = await collectStream(new StreamingProvider(gemini).stream(request, "gemini-2.0-flash"));
+
+    expect(content).toBe("Checking");
+    expect(toolCalls).toEqual([{ id: "fc_1", name: "weather", arguments: '{"city":"Oslo"}' }]);
+  });
+});
+
+describe("Ollama tools", () => {
+  const ollama = provider("ollama", "llama3.2", ["function_calling"]);
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should send tools and tool history", async () => {
+    const bodies = stubFetch<OllamaBody>(() => Response.json({ message: { content: "Mild in both" } }));
+
+    await new ProviderAdapter(ollama).complete(request, "llama3.2");
+
+    expect(bodies[0]!.tools).toEqual([
+      {
+        type: "function",
+        function: { name: "weather", description: "Current weather for a city", parameters: weather.inputSchema },
+      },
+    ]);
+    expect(bodies[0]!.messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          { function: { name: "weather", arguments: { city: "Paris" } } },
+          { function: { name: "weather", arguments: { city: "Rome" } } },
+        ],
+      },
+      { role: "tool", content: '{"temp":18}', tool_name: "weather" },
+      { role: "tool", content: "sunny", tool_name: "weather" },
+    ]);
+  });
+
+  test("should return tool_calls as tool calls", async () => {
+    stubFetch(() =>
+      Response.json({
+        message: { content: "", tool_calls: [{ function: { name: "weather", arguments: { city: "Oslo" } } }] },
+        prompt_eval_count: 20,
+        eval_count: 5,
+      })
+    );
+
+    const result = await new ProviderAdapter(ollama).complete(request, "llama3.2");
+
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls![0]).toMatchObject({ name: "weather", arguments: '{"city":"Oslo"}' });
+  });
+
+  test("should stream tool_calls as tool_call chunks", async () => {
+    stubFetch(() =>
+      ndjson([
+        { message: { content: "", tool_calls: [{ function: { name: "weather", arguments: { city: "Oslo" } } }] } },
+        { done: true, prompt_eval_count: 20, eval_count: 5 },
+      ])
+    );
+
+    const { toolCalls, usage } = await collectStream(new StreamingProvider(ollama).stream(request, "llama3.2"));
+
+    expect(toolCalls).toHaveLength(1);
+    expect(toolCalls[0]).toMatchObject({ name: "weather", arguments: '{"city":"Oslo"}' });
+    expect(usage?.totalTokens).toBe(25);
+  });
+});
+
+describe("Function calling routing", () => {
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  test("should only route tool requests to function_calling models", async () => {
+    stubFetch(() => Response.json({ message: { content: "ok" }, prompt_eval_count: 1, eval_count: 1 }));
+    const gateway = createGateway({
+      providers: [
+        provider("ollama", "llama3.2", ["function_calling"], 0.001),
+        // Cheaper, but cannot call tools
+        { ...provider("vllm", "qwen", ["fast", "cheap"], 0.0001), kind: "openai_compatible", baseUrl: "http://vllm.test/v1" },
+      ],
+    });
+    const routing = { strategy: "cost_optimized" as const, cacheEnabled: false };
+
+    const withTools = await gateway.complete({ ...request, routing });
+    expect(withTools.provider).toBe("ollama");
+
+    await expect(
+      gateway.complete({ ...request, routing: { ...routing, allowedProviders: ["vllm"] } })
+    ).rejects.toMatchObject({ code: "no_eligible_model" });
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Agent Module - Tool-calling loops over the gateway
+ */
+
+export {
+  AgentRunner,
+  createAgentRunner,
+  type AgentTool,
+  type AgentToolContext,
+  type AgentRunnerConfig,
+  type AgentRunRequest,
+  type AgentRunResult,
+  type AgentStep,
+  type AgentStopReason,
+  type AgentToolResult,
+} from "./runner";
@@ -0,0 +1,228 @@
+/**
+ * Agent Runner - Tool-calling loop on top of LLMGateway
+ * Each step is a normal gateway.complete() call, so routing, budgets, security,
+ * caching and cost tracking apply to every model turn.
+ */
+
+import { nanoid } from "nanoid";
+import type { LLMGateway } from "../core/gateway";
+import type {
+  ContentBlock,
+  GatewayRequest,
+  GatewayResponse,
+  Message,
+  Tool,
+  ToolCall,
+  TokenUsage,
+} from "../core/types";
+import { formatSchemaIssues, validateJsonSchema } from "../core/json-schema";
+
+export interface AgentToolContext {
+  runId: string;
+  step: number;
+  toolCallId: string;
+}
+
+export interface AgentTool<TInput = Record<string, unknown>> {
+  description: string;
+  inputSchema: Record<string, unknown>;
+  // Receives arguments already validated against inputSchema; non-string results are JSON-encoded
+  execute(input: TInput, context: AgentToolContext): unknown | Promise<unknown>;
+}
+
+export interface AgentRunnerConfig {
+  // Tool implementations keyed by Tool.name
+  tools: Record<string, AgentTool>;
+  // Model turns before the run stops with "max_steps"
+  maxSteps?: number;
+  // Cumulative USD cost after which no further step is started
+  maxCostUsd?: number;
+}
+
+export type AgentRunRequest = Omit<GatewayRequest, "id" | "tools" | "stream"> & { id?: string };
+
+export type AgentStopReason = "completed" | "max_steps" | "max_cost";
+
+export interface AgentToolResult {
+  toolCallId: string;
+  name: string;
+  input: unknown;
+  // Content sent back to the model as the tool message
+  output: string;
+  // Set when the tool was unknown, the arguments were invalid or execute() threw
+  error?: string;
+  latencyMs: number;
+}
+
+export interface AgentStep {
+  index: number;
+  response: GatewayResponse;
+  toolResults: AgentToolResult[];
+  cost: number;
+  traceId: string;
+}
+
+export interface AgentRunResult {
+  runId: string;
+  // Final assistant text, from the last step
+  content: string;
+  stopReason: AgentStopReason;
+  // Full conversation, including assistant tool calls and tool results
+  messages: Message[];
+  steps: AgentStep[];
+  usage: TokenUsage;
+  totalCost: number;
+}
+
+const DEFAULT_MAX_STEPS = 10;
+
+export class AgentRunner {
+  private gateway: LLMGateway;
+  private config: Required<Omit<AgentRunnerConfig, "maxCostUsd">> & { maxCostUsd?: number };
+  private toolDefinitions: Tool[];
+
+  constructor(gateway: LLMGateway, config: AgentRunnerConfig) {
+    this.gateway = gateway;
+    this.config = { maxSteps: DEFAULT_MAX_STEPS, ...config };
+    this.toolDefinitions = Object.entries(config.tools).map(([name, tool]) => ({
+      name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    }));
+  }
+
+  /**
+   * Call the model, execute any requested tools and feed their results back
+   * until the model answers without tool calls or a step or cost limit is hit
+   */
+  async run(request: AgentRunRequest): Promise<AgentRunResult> {
+    const runId = request.id ?? `agent_${nanoid(12)}`;
+    const messages: Message[] = [...request.messages];
+    const steps: AgentStep[] = [];
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    let totalCost = 0;
+    let stopReason: AgentStopReason = "max_steps";
+
+    while (steps.length < this.config.maxSteps) {
+      if (this.config.maxCostUsd !== undefined && totalCost >= this.config.maxCostUsd) {
+        stopReason = "max_cost";
+        break;
+      }
+
+      const index = steps.length;
+      const response = await this.gateway.complete({
+        ...request,
+        id: `${runId}_${index}`,
+        messages: [...messages],
+        tools: this.toolDefinitions,
+        // Group every step of the run under one session for cost reporting
+        metadata: { ...request.metadata, sessionId: request.metadata?.sessionId ?? runId },
+      });
+
+      totalCost += response.cost.totalCost;
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      const toolCalls = response.toolCalls ?? [];
+      messages.push(assistantMessage(response.content, toolCalls));
+
+      const toolResults: AgentToolResult[] = [];
+      for (const call of toolCalls) {
+        const result = await this.executeTool(call, { runId, step: index, toolCallId: call.id });
+        toolResults.push(result);
+        messages.push({ role: "tool", content: result.output, toolCallId: call.id, name: call.name });
+      }
+
+      steps.push({
+        index,
+        response,
+        toolResults,
+        cost: response.cost.totalCost,
+        traceId: response.metadata.traceId,
+      });
+
+      if (toolCalls.length === 0) {
+        stopReason = "completed";
+        break;
+      }
+    }
+
+    return {
+      runId,
+      content: steps[steps.length - 1]?.response.content ?? "",
+      stopReason,
+      messages,
+      steps,
+      usage,
+      totalCost,
+    };
+  }
+
+  // Failures are reported to the model as the tool's output so it can correct itself
+  private async executeTool(call: ToolCall, context: AgentToolContext): Promise<AgentToolResult> {
+    const start = Date.now();
+    const failed = (input: unknown, error: string): AgentToolResult => ({
+      toolCallId: call.id,
+      name: call.name,
+      input,
+      output: `Error: ${error}`,
+      error,
+      latencyMs: Date.now() - start,
+    });
+
+    const tool = this.config.tools[call.name];
+    if (!tool) {
+      return failed(undefined, `Unknown tool "${call.name}"`);
+    }
+
+    let input: unknown;
+    try {
+      input = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      return failed(call.arguments, `Arguments for ${call.name} are not valid JSON`);
+    }
+
+    const issues = validateJsonSchema(input, tool.inputSchema);
+    if (issues.length > 0) {
+      return failed(input, `Invalid arguments for ${call.name}: ${formatSchemaIssues(issues)}`);
+    }
+
+    try {
+      const output = await tool.execute(input as Record<string, unknown>, context);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        input,
+        output: typeof output === "string" ? output : JSON.stringify(output ?? null),
+        latencyMs: Date.now() - start,
+      };
+    } catch (error) {
+      return failed(input, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+function assistantMessage(content: string, toolCalls: ToolCall[]): Message {
+  if (toolCalls.length === 0) {
+    return { role: "assistant", content };
+  }
+
+  const blocks: ContentBlock[] = [];
+  if (content) blocks.push({ type: "text", text: content });
+  for (const call of toolCalls) {
+    let input: unknown = {};
+    try {
+      input = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      // Keep the raw text so the transcript still shows what the model sent
+      input = call.arguments;
+    }
+    blocks.push({ type: "tool_use", id: call.id, name: call.name, input });
+  }
+  return { role: "assistant", content: blocks };
+}
+
+export function createAgentRunner(gateway: LLMGateway, config: AgentRunnerConfig): AgentRunner {
+  return new AgentRunner(gateway, config);
+}
@@ -0,0 +1,10 @@
+/**
+ * Auth Module - Gateway-issued API keys with per-key policies
+ */
+
+export { ApiKeyManager, toPublicKey } from "./keys";
+export type { IssueKeyInput, KeyUpdate, PublicApiKey } from "./keys";
+export { FileKeyStore, SqliteKeyStore, openKeyStore } from "./store";
+export { KeyPolicyEnforcer } from "./policy";
+export { issueKeySchema, updateKeySchema } from "./schema";
+export type { ApiKeyRecord, ApiKeyStore, KeyPolicy } from "./types";
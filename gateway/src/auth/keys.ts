@@ -0,0 +1,111 @@
+/**
+ * API Key Manager - Issues, verifies and revokes gateway API keys
+ */
+
+import { createHash } from "node:crypto";
+import { nanoid } from "nanoid";
+import type { RequestPrincipal } from "../core/types";
+import type { ApiKeyRecord, ApiKeyStore, KeyPolicy } from "./types";
+
+const KEY_PREFIX = "gw_";
+
+export interface IssueKeyInput {
+  name: string;
+  tenantId: string;
+  policy?: KeyPolicy;
+  expiresAt?: string;
+}
+
+export type KeyUpdate = Partial<Pick<ApiKeyRecord, "name" | "policy">> & {
+  // null removes the expiry; undefined leaves it as it is
+  expiresAt?: string | null;
+};
+
+// What the admin API returns; the hash never leaves the store
+export type PublicApiKey = Omit<ApiKeyRecord, "keyHash">;
+
+export class ApiKeyManager {
+  private store: ApiKeyStore;
+
+  constructor(store: ApiKeyStore) {
+    this.store = store;
+  }
+
+  /**
+   * Create a key. The returned plaintext key is not stored and cannot be recovered.
+   */
+  async issue(input: IssueKeyInput): Promise<{ key: string; record: ApiKeyRecord }> {
+    const key = `${KEY_PREFIX}${nanoid(40)}`;
+    const record: ApiKeyRecord = {
+      id: `key_${nanoid(12)}`,
+      name: input.name,
+      tenantId: input.tenantId,
+      keyHash: hashKey(key),
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      policy: input.policy || {},
+      createdAt: new Date().toISOString(),
+      expiresAt: input.expiresAt,
+    };
+    await this.store.save(record);
+    return { key, record };
+  }
+
+  /**
+   * Resolve a presented key to its principal, or null if unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<RequestPrincipal | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const record = await this.store.getByHash(hashKey(key));
+    if (!record || record.revokedAt) return null;
+    if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) return null;
+
+    return { keyId: record.id, tenantId: record.tenantId, policy: record.policy };
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return this.store.list();
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return this.store.get(id);
+  }
+
+  async update(id: string, update: KeyUpdate): Promise<ApiKeyRecord | null> {
+    const record = await this.store.get(id);
+    if (!record) return null;
+
+    const updated: ApiKeyRecord = {
+      ...record,
+      name: update.name ?? record.name,
+      policy: update.policy ?? record.policy,
+      expiresAt: update.expiresAt === null ? undefined : (update.expiresAt ?? record.expiresAt),
+    };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  // Revoked keys stay listed for auditing; delete() removes them entirely
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const record = await this.store.get(id);
+    if (!record) return null;
+    if (record.revokedAt) return record;
+
+    const revoked = { ...record, revokedAt: new Date().toISOString() };
+    await this.store.save(revoked);
+    return revoked;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.delete(id);
+  }
+}
+
+export function toPublicKey(record: ApiKeyRecord): PublicApiKey {
+  const { keyHash: _keyHash, ...rest } = record;
+  return rest;
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
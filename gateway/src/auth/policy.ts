@@ -0,0 +1,200 @@
+/**
+ * Key Policy Enforcer - Applies per-key model, routing, budget, rate and security policy
+ * Holds per-key spend and rate windows in memory; they survive config reloads but not restarts.
+ */
+
+import {
+  BudgetExceededError,
+  PermissionDeniedError,
+  QuotaExceededError,
+  SecurityBlockedError,
+} from "../core/errors";
+import type {
+  GatewayRequest,
+  GatewayResponse,
+  RequestPrincipal,
+  SecurityConfig,
+} from "../core/types";
+import { SecurityGuard } from "../security/guard";
+
+interface KeyUsage {
+  day: string;
+  dailySpend: number;
+  month: string;
+  monthlySpend: number;
+  windowStart: number;
+  windowRequests: number;
+  windowTokens: number;
+}
+
+const WINDOW_MS = 60000;
+
+export class KeyPolicyEnforcer {
+  private usage: Map<string, KeyUsage> = new Map();
+  // Per-key guards, rebuilt when the key's security policy or the base config changes
+  private guards: Map<string, { signature: string; guard: SecurityGuard }> = new Map();
+
+  /**
+   * Check the request against its key's policy and return it with the policy applied:
+   * tenant attribution, routing allow-lists and default strategy.
+   */
+  async enforce(request: GatewayRequest, securityConfig: SecurityConfig): Promise<GatewayRequest> {
+    const principal = request.principal;
+    if (!principal) return request;
+
+    const { policy } = principal;
+
+    if (request.model && policy.allowedModels && !policy.allowedModels.includes(request.model)) {
+      throw new PermissionDeniedError(`Model ${request.model} is not allowed for this API key`);
+    }
+    if (
+      request.provider &&
+      policy.allowedProviders &&
+      !policy.allowedProviders.includes(request.provider)
+    ) {
+      throw new PermissionDeniedError(`Provider ${request.provider} is not allowed for this API key`);
+    }
+
+    this.checkBudget(principal);
+    this.checkRateLimit(principal);
+
+    let enforced: GatewayRequest = {
+      ...request,
+      // Spend is attributed to the key's tenant, whatever the caller declared
+      metadata: { ...request.metadata, projectId: principal.tenantId },
+      routing: {
+        ...request.routing,
+        strategy: request.routing?.strategy ?? policy.defaultStrategy,
+        allowedModels: intersect(request.routing?.allowedModels, policy.allowedModels),
+        allowedProviders: intersect(request.routing?.allowedProviders, policy.allowedProviders),
+      },
+    };
+
+    if (policy.security) {
+      const result = await this.guardFor(principal, securityConfig).check(enforced);
+      if (result.blocked) {
+        throw new SecurityBlockedError(result.reason);
+      }
+      if (result.sanitizedRequest) {
+        enforced = result.sanitizedRequest;
+      }
+    }
+
+    return enforced;
+  }
+
+  /**
+   * Record spend and tokens for a completed request
+   */
+  record(request: GatewayRequest, response: GatewayResponse): void {
+    if (!request.principal || response.cached) return;
+
+    const usage = this.usageFor(request.principal.keyId);
+    usage.dailySpend += response.cost.totalCost;
+    usage.monthlySpend += response.cost.totalCost;
+    usage.windowTokens += response.usage.totalTokens;
+  }
+
+  getUsage(keyId: string): { dailySpend: number; monthlySpend: number } {
+    const usage = this.usageFor(keyId);
+    return { dailySpend: usage.dailySpend, monthlySpend: usage.monthlySpend };
+  }
+
+  private checkBudget(principal: RequestPrincipal): void {
+    const budgets = principal.policy.budgets;
+    if (!budgets) return;
+
+    const usage = this.usageFor(principal.keyId);
+    if (budgets.daily !== undefined && usage.dailySpend >= budgets.daily) {
+      throw new BudgetExceededError(`Daily budget exceeded for API key ${principal.keyId}`);
+    }
+    if (budgets.monthly !== undefined && usage.monthlySpend >= budgets.monthly) {
+      throw new BudgetExceededError(`Monthly budget exceeded for API key ${principal.keyId}`);
+    }
+  }
+
+  private checkRateLimit(principal: RequestPrincipal): void {
+    const limit = principal.policy.rateLimit;
+    if (!limit) return;
+
+    const usage = this.usageFor(principal.keyId);
+    const now = Date.now();
+    if (now - usage.windowStart >= WINDOW_MS) {
+      usage.windowStart = now;
+      usage.windowRequests = 0;
+      usage.windowTokens = 0;
+    }
+
+    const retryAfterMs = WINDOW_MS - (now - usage.windowStart);
+    if (usage.windowRequests >= limit.requestsPerMinute) {
+      throw new QuotaExceededError(
+        `Rate limit of ${limit.requestsPerMinute} requests/min exceeded for API key ${principal.keyId}`,
+        retryAfterMs
+      );
+    }
+    if (usage.windowTokens >= limit.tokensPerMinute) {
+      throw new QuotaExceededError(
+        `Rate limit of ${limit.tokensPerMinute} tokens/min exceeded for API key ${principal.keyId}`,
+        retryAfterMs
+      );
+    }
+    usage.windowRequests++;
+  }
+
+  private usageFor(keyId: string): KeyUsage {
+    const now = new Date();
+    const day = now.toISOString().slice(0, 10);
+    const month = day.slice(0, 7);
+
+    let usage = this.usage.get(keyId);
+    if (!usage) {
+      usage = {
+        day,
+        dailySpend: 0,
+        month,
+        monthlySpend: 0,
+        windowStart: now.getTime(),
+        windowRequests: 0,
+        windowTokens: 0,
+      };
+      this.usage.set(keyId, usage);
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.dailySpend = 0;
+    }
+    if (usage.month !== month) {
+      usage.month = month;
+      usage.monthlySpend = 0;
+    }
+    return usage;
+  }
+
+  private guardFor(principal: RequestPrincipal, base: SecurityConfig): SecurityGuard {
+    const security = principal.policy.security!;
+    const signature = JSON.stringify([security, base]);
+    const cached = this.guards.get(principal.keyId);
+    if (cached && cached.signature === signature) return cached.guard;
+
+    const guard = new SecurityGuard({
+      ...base,
+      piiDetection: security.piiAction
+        ? { ...base.piiDetection, enabled: true, action: security.piiAction }
+        : { ...base.piiDetection, enabled: false },
+      promptInjection: security.promptInjectionAction
+        ? { enabled: true, action: security.promptInjectionAction }
+        : { ...base.promptInjection, enabled: false },
+      // Output and audit handling stay with the gateway-wide guard
+      outputSanitization: { ...base.outputSanitization, enabled: false },
+      auditLog: { ...base.auditLog, enabled: false },
+    });
+    this.guards.set(principal.keyId, { signature, guard });
+    return guard;
+  }
+}
+
+function intersect<T>(a: T[] | undefined, b: T[] | undefined): T[] | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a.filter((item) => b.includes(item));
+}
@@ -0,0 +1,56 @@
+/**
+ * Auth Schemas - zod validation for admin API payloads
+ */
+
+import { z } from "zod";
+
+const keyPolicySchema = z
+  .object({
+    allowedModels: z.array(z.string().min(1)).optional(),
+    allowedProviders: z.array(z.string().min(1)).optional(),
+    defaultStrategy: z
+      .enum(["cost_optimized", "latency_optimized", "quality_optimized", "balanced"])
+      .optional(),
+    budgets: z
+      .object({
+        daily: z.number().nonnegative().optional(),
+        monthly: z.number().nonnegative().optional(),
+      })
+      .strict()
+      .optional(),
+    rateLimit: z
+      .object({
+        requestsPerMinute: z.number().int().positive(),
+        tokensPerMinute: z.number().int().positive(),
+      })
+      .strict()
+      .optional(),
+    security: z
+      .object({
+        piiAction: z.enum(["mask", "block", "warn"]).optional(),
+        promptInjectionAction: z.enum(["block", "warn"]).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const expiresAt = z.string().datetime({ offset: true });
+
+export const issueKeySchema = z
+  .object({
+    name: z.string().min(1),
+    tenantId: z.string().min(1),
+    policy: keyPolicySchema.optional(),
+    expiresAt: expiresAt.optional(),
+  })
+  .strict();
+
+// expiresAt: null removes the expiry
+export const updateKeySchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    policy: keyPolicySchema.optional(),
+    expiresAt: expiresAt.nullable().optional(),
+  })
+  .strict();
@@ -0,0 +1,163 @@
+/**
+ * API Key Stores - JSON file and SQLite persistence for gateway-issued keys
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import type { ApiKeyRecord, ApiKeyStore } from "./types";
+
+/**
+ * Keeps every key in one JSON file, rewritten atomically on each change.
+ * Suited to small deployments where keys are also edited by hand.
+ */
+export class FileKeyStore implements ApiKeyStore {
+  private path: string;
+  private records: Map<string, ApiKeyRecord>;
+
+  constructor(path: string) {
+    this.path = path;
+    this.records = new Map();
+
+    if (existsSync(path)) {
+      const data = JSON.parse(readFileSync(path, "utf8")) as { keys?: ApiKeyRecord[] };
+      for (const record of data.keys || []) {
+        this.records.set(record.id, record);
+      }
+    }
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return [...this.records.values()];
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    return this.records.get(id) || null;
+  }
+
+  async getByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    for (const record of this.records.values()) {
+      if (record.keyHash === keyHash) return record;
+    }
+    return null;
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, record);
+    this.flush();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = this.records.delete(id);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  private flush(): void {
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify({ keys: [...this.records.values()] }, null, 2));
+    renameSync(tmp, this.path);
+  }
+}
+
+/**
+ * SQLite-backed store; the policy is kept as a JSON column
+ */
+export class SqliteKeyStore implements ApiKeyStore {
+  private db: Database;
+
+  constructor(path: string = ":memory:") {
+    this.db = new Database(path, { create: true });
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        tenant_id TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        policy TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT,
+        revoked_at TEXT
+      )
+    `);
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const rows = this.db.query("SELECT * FROM api_keys ORDER BY created_at").all() as KeyRow[];
+    return rows.map(fromRow);
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const row = this.db.query("SELECT * FROM api_keys WHERE id = ?").get(id) as KeyRow | null;
+    return row ? fromRow(row) : null;
+  }
+
+  async getByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const row = this.db
+      .query("SELECT * FROM api_keys WHERE key_hash = ?")
+      .get(keyHash) as KeyRow | null;
+    return row ? fromRow(row) : null;
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO api_keys
+          (id, name, tenant_id, key_hash, prefix, policy, created_at, expires_at, revoked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.id,
+        record.name,
+        record.tenantId,
+        record.keyHash,
+        record.prefix,
+        JSON.stringify(record.policy),
+        record.createdAt,
+        record.expiresAt ?? null,
+        record.revokedAt ?? null
+      );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.query("DELETE FROM api_keys WHERE id = ?").run(id).changes > 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+interface KeyRow {
+  id: string;
+  name: string;
+  tenant_id: string;
+  key_hash: string;
+  prefix: string;
+  policy: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+function fromRow(row: KeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    tenantId: row.tenant_id,
+    keyHash: row.key_hash,
+    prefix: row.prefix,
+    policy: JSON.parse(row.policy),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+  };
+}
+
+/**
+ * Open a store by path: .json files use FileKeyStore, anything else SQLite
+ */
+export function openKeyStore(path: string): ApiKeyStore {
+  return extname(path).toLowerCase() === ".json" ? new FileKeyStore(path) : new SqliteKeyStore(path);
+}
@@ -0,0 +1,47 @@
+/**
+ * Auth Types - Gateway-issued API keys and the policies bound to them
+ */
+
+import type { Provider, RateLimitConfig, RoutingStrategy, SecurityConfig } from "../core/types";
+
+export interface KeyPolicy {
+  // Unset means no restriction beyond the gateway's own configuration
+  allowedModels?: string[];
+  allowedProviders?: Provider[];
+  // Applied when the request does not choose a strategy itself
+  defaultStrategy?: RoutingStrategy;
+  // USD spend limits for this key, on top of the gateway-wide budgets
+  budgets?: {
+    daily?: number;
+    monthly?: number;
+  };
+  rateLimit?: RateLimitConfig;
+  // Checked in addition to the gateway-wide guard, so a key can only tighten it
+  security?: {
+    piiAction?: SecurityConfig["piiDetection"]["action"];
+    promptInjectionAction?: SecurityConfig["promptInjection"]["action"];
+  };
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  tenantId: string;
+  // SHA-256 of the key; the key itself is only shown once, when issued
+  keyHash: string;
+  // First characters of the key, for recognising it in listings
+  prefix: string;
+  policy: KeyPolicy;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export interface ApiKeyStore {
+  list(): Promise<ApiKeyRecord[]>;
+  get(id: string): Promise<ApiKeyRecord | null>;
+  getByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  // Insert or replace by id
+  save(record: ApiKeyRecord): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
@@ -37,6 +37,11 @@ export class SemanticCache {
     this.embeddingCache = new Map();
   }
 
+  // Apply new thresholds and limits without dropping cached entries
+  updateConfig(config: CacheConfig): void {
+    this.config = config;
+  }
+
   async get(request: GatewayRequest): Promise<string | null> {
     if (!this.config.enabled) return null;
 
@@ -0,0 +1,115 @@
+/**
+ * Model Catalog - Pricing, limits and capabilities by model id
+ * Provider list endpoints only return ids; the catalog supplies everything routing needs.
+ */
+
+import { extname } from "node:path";
+import { YAML } from "bun";
+import type { ModelConfig } from "../core/types";
+import { modelCatalogSchema } from "../config/schema";
+
+export type ModelCatalogEntry = Omit<ModelConfig, "provider" | "model" | "deployment">;
+export type ModelCatalog = Record<string, ModelCatalogEntry>;
+
+export class CatalogError extends Error {
+  readonly source: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid model catalog (${source}):\n  - ${issues.join("\n  - ")}`);
+    this.name = "CatalogError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const entry = (
+  tier: ModelCatalogEntry["tier"],
+  maxTokens: number,
+  costPer1kInput: number,
+  costPer1kOutput: number,
+  latencyP50Ms: number,
+  capabilities: ModelCatalogEntry["capabilities"],
+  // Prompt cache read and write prices, when the provider discounts cached input
+  cache?: { read: number; write?: number }
+): ModelCatalogEntry => ({
+  tier,
+  maxTokens,
+  costPer1kInput,
+  costPer1kOutput,
+  ...(cache ? { costPer1kCachedInput: cache.read } : {}),
+  ...(cache?.write !== undefined ? { costPer1kCacheWrite: cache.write } : {}),
+  latencyP50Ms,
+  latencyP95Ms: latencyP50Ms * 2.5,
+  capabilities,
+});
+
+// Keys also match dated snapshots and tags, e.g. claude-sonnet-4-20250514 and llama3.2:3b
+export const DEFAULT_MODEL_CATALOG: ModelCatalog = {
+  // Anthropic
+  "claude-opus-4": entry("premium", 200000, 0.015, 0.075, 1500, ["reasoning", "coding", "creative", "vision", "function_calling", "long_context", "thinking"], { read: 0.0015, write: 0.01875 }),
+  "claude-sonnet-4": entry("premium", 200000, 0.003, 0.015, 800, ["reasoning", "coding", "creative", "vision", "function_calling", "long_context", "thinking"], { read: 0.0003, write: 0.00375 }),
+  "claude-3-7-sonnet": entry("premium", 200000, 0.003, 0.015, 800, ["reasoning", "coding", "creative", "vision", "function_calling", "long_context", "thinking"], { read: 0.0003, write: 0.00375 }),
+  "claude-3-5-haiku": entry("economy", 200000, 0.0008, 0.004, 400, ["coding", "vision", "function_calling", "fast", "cheap"], { read: 0.00008, write: 0.001 }),
+  // OpenAI
+  "gpt-4.1": entry("premium", 1000000, 0.002, 0.008, 600, ["reasoning", "coding", "creative", "vision", "function_calling", "long_context"], { read: 0.0005 }),
+  "gpt-4.1-mini": entry("standard", 1000000, 0.0004, 0.0016, 400, ["coding", "vision", "function_calling", "long_context", "fast", "cheap"], { read: 0.0001 }),
+  "gpt-4.1-nano": entry("economy", 1000000, 0.0001, 0.0004, 250, ["vision", "function_calling", "long_context", "fast", "cheap"], { read: 0.000025 }),
+  "gpt-4o": entry("premium", 128000, 0.0025, 0.01, 600, ["reasoning", "coding", "creative", "vision", "function_calling"], { read: 0.00125 }),
+  "gpt-4o-mini": entry("economy", 128000, 0.00015, 0.0006, 300, ["coding", "vision", "function_calling", "fast", "cheap"], { read: 0.000075 }),
+  "o3-mini": entry("standard", 200000, 0.0011, 0.0044, 3000, ["reasoning", "coding", "function_calling", "thinking"], { read: 0.00055 }),
+  // Gemini
+  "gemini-2.5-pro": entry("premium", 1000000, 0.00125, 0.01, 1500, ["reasoning", "coding", "creative", "vision", "function_calling", "long_context", "thinking"], { read: 0.00031 }),
+  "gemini-2.5-flash": entry("standard", 1000000, 0.0003, 0.0025, 600, ["reasoning", "coding", "vision", "function_calling", "long_context", "fast", "thinking"], { read: 0.000075 }),
+  "gemini-2.0-flash": entry("standard", 1000000, 0.000075, 0.0003, 500, ["reasoning", "coding", "vision", "function_calling", "long_context", "fast", "cheap"], { read: 0.000025 }),
+  "gemini-1.5-pro": entry("premium", 2000000, 0.00125, 0.005, 1200, ["reasoning", "coding", "vision", "function_calling", "long_context"]),
+  // Ollama
+  "llama3.2": entry("economy", 8192, 0, 0, 200, ["coding", "function_calling", "fast", "cheap"]),
+  "llama3.1": entry("economy", 8192, 0, 0, 400, ["coding", "function_calling", "cheap"]),
+  "qwen2.5": entry("economy", 32768, 0, 0, 300, ["coding", "function_calling", "cheap"]),
+  "qwen3": entry("economy", 32768, 0, 0, 400, ["reasoning", "coding", "function_calling", "cheap", "thinking"]),
+  "deepseek-r1": entry("economy", 32768, 0, 0, 800, ["reasoning", "coding", "cheap", "thinking"]),
+  "mistral": entry("economy", 32768, 0, 0, 300, ["function_calling", "fast", "cheap"]),
+  "llava": entry("economy", 4096, 0, 0, 400, ["vision", "cheap"]),
+};
+
+/**
+ * Catalog entry for a model id: an exact match, then the id without its tag
+ * (llama3.2:3b), then the longest key the id extends with "-" (gpt-4o-2024-08-06)
+ */
+export function findCatalogEntry(catalog: ModelCatalog, model: string): ModelCatalogEntry | undefined {
+  const exact = catalog[model] ?? catalog[model.split(":")[0]!];
+  if (exact) return exact;
+
+  const key = Object.keys(catalog)
+    .filter((k) => model.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? catalog[key] : undefined;
+}
+
+/**
+ * Load a JSON or YAML catalog file (by extension) mapping model ids to entries
+ */
+export async function loadModelCatalog(path: string): Promise<ModelCatalog> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new CatalogError(path, ["file not found"]);
+  }
+
+  let raw: unknown;
+  try {
+    const text = await file.text();
+    raw = extname(path).toLowerCase() === ".json" ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new CatalogError(path, [`could not parse: ${(error as Error).message}`]);
+  }
+
+  const result = modelCatalogSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    throw new CatalogError(
+      path,
+      result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,134 @@
+/**
+ * Model Discovery - Merge provider model lists with configured models and the catalog
+ */
+
+import type { GatewayConfig, ModelConfig, Provider, ProviderConfig } from "../core/types";
+import type { ProviderAdapter } from "../core/providers";
+import { findCatalogEntry, type ModelCatalog, type ModelCatalogEntry } from "./catalog";
+
+export interface ProviderDiscovery {
+  provider: Provider;
+  // Ids the provider reported, or null when listing failed or is not supported
+  available: string[] | null;
+  // Discovered models made routable, priced from the catalog
+  added: ModelConfig[];
+  // Configured models the provider no longer reports
+  missing: string[];
+  // Discovered ids without a catalog entry; only routable with includeUncataloged
+  uncataloged: string[];
+  error?: string;
+}
+
+export interface CatalogModel extends ModelConfig {
+  source: "config" | "discovered";
+  // unverified: discovery has not run for the provider, or listing failed
+  status: "available" | "missing" | "unverified";
+}
+
+// Used for uncataloged models when includeUncataloged is set
+const UNCATALOGED_ENTRY: ModelCatalogEntry = {
+  tier: "standard",
+  maxTokens: 8192,
+  costPer1kInput: 0,
+  costPer1kOutput: 0,
+  latencyP50Ms: 1000,
+  latencyP95Ms: 3000,
+  capabilities: [],
+};
+
+// Ollama reports "llama3.2:latest" for a model configured as "llama3.2"
+function sameModel(a: string, b: string): boolean {
+  return a.replace(/:latest$/, "") === b.replace(/:latest$/, "");
+}
+
+/**
+ * List one provider's models and compare them with its configured models
+ */
+export async function discoverProviderModels(
+  adapter: ProviderAdapter,
+  config: ProviderConfig,
+  catalog: ModelCatalog,
+  includeUncataloged = false
+): Promise<ProviderDiscovery> {
+  if (!adapter.supportsModelListing()) {
+    return { provider: config.provider, available: null, added: [], missing: [], uncataloged: [] };
+  }
+
+  let available: string[];
+  try {
+    available = await adapter.listModels();
+  } catch (error) {
+    return {
+      provider: config.provider,
+      available: null,
+      added: [],
+      missing: [],
+      uncataloged: [],
+      error: (error as Error).message,
+    };
+  }
+
+  const added: ModelConfig[] = [];
+  const uncataloged: string[] = [];
+  for (const model of available) {
+    if (config.models.some((m) => sameModel(m.model, model))) continue;
+
+    const entry = findCatalogEntry(catalog, model);
+    if (!entry) uncataloged.push(model);
+    if (entry || includeUncataloged) {
+      added.push({ ...(entry ?? UNCATALOGED_ENTRY), provider: config.provider, model });
+    }
+  }
+
+  return {
+    provider: config.provider,
+    available,
+    added,
+    missing: config.models
+      .filter((m) => !available.some((id) => sameModel(m.model, id)))
+      .map((m) => m.model),
+    uncataloged,
+  };
+}
+
+/**
+ * Config with each provider's discovered models appended after its configured ones
+ */
+export function withDiscoveredModels(
+  config: GatewayConfig,
+  discovery: Map<Provider, ProviderDiscovery>
+): GatewayConfig {
+  if (discovery.size === 0) return config;
+  return {
+    ...config,
+    providers: config.providers.map((p) => {
+      const added = (discovery.get(p.provider)?.added ?? []).filter(
+        (a) => !p.models.some((m) => m.model === a.model)
+      );
+      return added.length > 0 ? { ...p, models: [...p.models, ...added] } : p;
+    }),
+  };
+}
+
+/**
+ * Every routable model of the enabled providers, marked with where it came from
+ * and whether the provider still serves it
+ */
+export function buildCatalogView(
+  config: GatewayConfig,
+  discovery: Map<Provider, ProviderDiscovery>
+): CatalogModel[] {
+  return config.providers
+    .filter((p) => p.enabled)
+    .flatMap((p) => {
+      const result = discovery.get(p.provider);
+      return p.models.map((m): CatalogModel => {
+        const discovered = result?.added.some((a) => a.model === m.model) ?? false;
+        let status: CatalogModel["status"] = "unverified";
+        if (result?.available) {
+          status = result.missing.includes(m.model) ? "missing" : "available";
+        }
+        return { ...m, source: discovered ? "discovered" : "config", status };
+      });
+    });
+}
@@ -0,0 +1,19 @@
+/**
+ * Catalog Module - Model pricing catalog and discovery from provider list endpoints
+ */
+
+export {
+  CatalogError,
+  DEFAULT_MODEL_CATALOG,
+  findCatalogEntry,
+  loadModelCatalog,
+  type ModelCatalog,
+  type ModelCatalogEntry,
+} from "./catalog";
+export {
+  buildCatalogView,
+  discoverProviderModels,
+  withDiscoveredModels,
+  type CatalogModel,
+  type ProviderDiscovery,
+} from "./discovery";
@@ -0,0 +1,37 @@
+/**
+ * Config Module - File-based gateway configuration with validation and hot reload
+ */
+
+import { LLMGateway } from "../core/gateway";
+import { loadConfigFile } from "./loader";
+import { ConfigWatcher, type ConfigWatcherOptions } from "./watcher";
+import type { ProviderRegistry } from "../providers/registry";
+
+export { gatewayConfigSchema } from "./schema";
+export {
+  ConfigError,
+  loadConfigFile,
+  parseConfigSource,
+  validateConfig,
+  type ConfigFormat,
+} from "./loader";
+export { ConfigWatcher, type ConfigWatcherOptions } from "./watcher";
+
+/**
+ * Create a gateway from a config file, optionally reloading it on change
+ */
+export async function createGatewayFromFile(
+  path: string,
+  options: { watch?: boolean; providerRegistry?: ProviderRegistry } & ConfigWatcherOptions = {}
+): Promise<{ gateway: LLMGateway; watcher: ConfigWatcher | null }> {
+  const { watch, providerRegistry, ...watcherOptions } = options;
+  const gateway = new LLMGateway(await loadConfigFile(path), providerRegistry);
+
+  let watcher: ConfigWatcher | null = null;
+  if (watch) {
+    watcher = new ConfigWatcher(path, gateway, watcherOptions);
+    watcher.start();
+  }
+
+  return { gateway, watcher };
+}
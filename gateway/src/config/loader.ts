@@ -0,0 +1,117 @@
+/**
+ * Config Loader - Reads GatewayConfig from YAML or JSON files
+ * Files are partial: each top-level section replaces the built-in default for that section.
+ * String values may reference environment variables as ${NAME} or ${NAME:-fallback}.
+ */
+
+import { extname } from "node:path";
+import { YAML } from "bun";
+import { resolveGatewayConfig } from "../core/gateway";
+import type { GatewayConfig } from "../core/types";
+import { gatewayConfigSchema } from "./schema";
+
+export class ConfigError extends Error {
+  readonly source: string;
+  // One "path: message" line per problem found
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid gateway config (${source}):\n  - ${issues.join("\n  - ")}`);
+    this.name = "ConfigError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+export type ConfigFormat = "json" | "yaml";
+
+/**
+ * Parse config file contents into a plain object
+ */
+export function parseConfigSource(
+  text: string,
+  format: ConfigFormat,
+  source = "config"
+): Record<string, unknown> {
+  let raw: unknown;
+  try {
+    raw = format === "json" ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new ConfigError(source, [`could not parse ${format}: ${(error as Error).message}`]);
+  }
+
+  // An empty YAML document means "all defaults"
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ConfigError(source, ["top level must be a mapping of config sections"]);
+  }
+  return raw as Record<string, unknown>;
+}
+
+/**
+ * Interpolate env vars, merge onto the defaults and validate
+ */
+export function validateConfig(
+  raw: Record<string, unknown>,
+  source = "config",
+  env: Record<string, string | undefined> = process.env
+): GatewayConfig {
+  const missing: string[] = [];
+  const interpolated = interpolateEnv(raw, env, missing, []) as Partial<GatewayConfig>;
+  if (missing.length > 0) {
+    throw new ConfigError(source, missing);
+  }
+
+  const result = gatewayConfigSchema.safeParse(resolveGatewayConfig(interpolated));
+  if (!result.success) {
+    throw new ConfigError(
+      source,
+      result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Load and validate a config file; the format follows the extension (.json, .yaml, .yml)
+ */
+export async function loadConfigFile(path: string): Promise<GatewayConfig> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new ConfigError(path, ["file not found"]);
+  }
+  const format: ConfigFormat = extname(path).toLowerCase() === ".json" ? "json" : "yaml";
+  return validateConfig(parseConfigSource(await file.text(), format, path), path);
+}
+
+const ENV_REF = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+function interpolateEnv(
+  value: unknown,
+  env: Record<string, string | undefined>,
+  missing: string[],
+  path: (string | number)[]
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(ENV_REF, (_match, name: string, fallback?: string) => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        missing.push(`${path.join(".")}: environment variable ${name} is not set`);
+        return "";
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolateEnv(item, env, missing, [...path, i]));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolateEnv(item, env, missing, [...path, key]),
+      ])
+    );
+  }
+  return value;
+}
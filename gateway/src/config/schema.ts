@@ -0,0 +1,265 @@
+/**
+ * Config Schema - zod validation for GatewayConfig loaded from files
+ */
+
+import { z } from "zod";
+import { BUILTIN_PROVIDERS } from "../providers/kind";
+
+// Built-in names, or any name for an instance that declares its kind
+const provider = z.string().min(1);
+// A built-in kind, "openai_compatible" or the kind of a registered plugin; checked when the gateway is built
+const providerKind = z.string().min(1);
+
+const capability = z.enum([
+  "reasoning",
+  "coding",
+  "creative",
+  "vision",
+  "function_calling",
+  "long_context",
+  "fast",
+  "cheap",
+  "thinking",
+]);
+
+const strategy = z.enum(["cost_optimized", "latency_optimized", "quality_optimized", "balanced"]);
+
+const nonNegative = z.number().nonnegative();
+const ratio = z.number().min(0).max(1);
+
+const modelSchema = z.object({
+  provider,
+  model: z.string().min(1),
+  tier: z.enum(["premium", "standard", "economy"]),
+  maxTokens: z.number().int().positive(),
+  costPer1kInput: nonNegative,
+  costPer1kOutput: nonNegative,
+  costPer1kCachedInput: nonNegative.optional(),
+  costPer1kCacheWrite: nonNegative.optional(),
+  latencyP50Ms: nonNegative,
+  latencyP95Ms: nonNegative,
+  capabilities: z.array(capability),
+  deployment: z.string().min(1).optional(),
+}).strict();
+
+// Pricing and capabilities by model id, for models discovered from provider list endpoints
+export const modelCatalogSchema = z.record(
+  modelSchema.omit({ provider: true, model: true, deployment: true }).strict()
+);
+
+const providerSchema = z
+  .object({
+    provider,
+    kind: providerKind.optional(),
+    apiKey: z.string(),
+    baseUrl: z.string().url().optional(),
+    apiVersion: z.string().min(1).optional(),
+    headers: z.record(z.string()).optional(),
+    models: z.array(modelSchema),
+    enabled: z.boolean(),
+    weight: nonNegative,
+    rateLimit: z
+      .object({
+        requestsPerMinute: z.number().int().positive(),
+        tokensPerMinute: z.number().int().positive(),
+      })
+      .strict()
+      .optional(),
+    healthCheck: z
+      .object({
+        probe: z.enum(["models", "head", "completion"]),
+        url: z.string().url().optional(),
+        model: z.string().min(1).optional(),
+        intervalMs: nonNegative.optional(),
+      })
+      .strict()
+      .optional(),
+    promptCaching: z
+      .object({
+        auto: z.boolean(),
+        minTokens: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .superRefine((p, ctx) => {
+    const builtin = (BUILTIN_PROVIDERS as readonly string[]).includes(p.provider);
+    if (!p.kind && !builtin) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["kind"],
+        message: `Provider "${p.provider}" is not built in and needs a kind, e.g. "openai_compatible"`,
+      });
+    }
+    if ((p.kind === "openai_compatible" || p.kind === "azure_openai") && !p.baseUrl) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["baseUrl"],
+        message: `Required for ${p.kind} providers`,
+      });
+    }
+    if (p.healthCheck?.probe === "head" && !p.healthCheck.url && !p.baseUrl) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["healthCheck", "url"],
+        message: "Required for head probes when the provider has no baseUrl",
+      });
+    }
+    p.models.forEach((m, i) => {
+      if (m.provider !== p.provider) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["models", i, "provider"],
+          message: `Model provider "${m.provider}" does not match "${p.provider}"`,
+        });
+      }
+    });
+  });
+
+// Unknown keys are rejected at every level so typos do not silently fall back to defaults
+export const gatewayConfigSchema = z.object({
+  providers: z.array(providerSchema).superRefine((providers, ctx) => {
+    const seen = new Set<string>();
+    providers.forEach((p, i) => {
+      if (seen.has(p.provider)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, "provider"],
+          message: `Duplicate provider "${p.provider}"`,
+        });
+      }
+      seen.add(p.provider);
+    });
+  }),
+  routing: z.object({
+    defaultStrategy: strategy,
+    complexityThresholds: z.object({ simple: ratio, medium: ratio, complex: ratio }).strict(),
+    modelMapping: z.record(modelSchema),
+  }).strict(),
+  cache: z.object({
+    enabled: z.boolean(),
+    type: z.enum(["memory", "redis"]),
+    redisUrl: z.string().optional(),
+    ttlSeconds: z.number().int().positive(),
+    maxSize: z.number().int().positive(),
+    semanticSimilarityThreshold: ratio,
+  }).strict(),
+  reliability: z.object({
+    retryAttempts: z.number().int().min(1),
+    retryDelayMs: nonNegative,
+    retryBackoffMultiplier: z.number().min(1),
+    circuitBreaker: z.object({
+      failureThreshold: z.number().int().positive(),
+      recoveryTimeMs: nonNegative,
+      halfOpenRequests: z.number().int().positive(),
+    }).strict(),
+    timeout: z.object({
+      requestMs: z.number().positive(),
+      streamMs: z.number().positive(),
+    }).strict(),
+    healthMonitor: z
+      .object({
+        enabled: z.boolean(),
+        intervalMs: z.number().positive(),
+        cacheTtlMs: nonNegative,
+        timeoutMs: z.number().positive(),
+      })
+      .strict()
+      .optional(),
+    rateLimitQueueMs: nonNegative.optional(),
+    resumeStreams: z.boolean().optional(),
+    dedupeStreams: z.boolean().optional(),
+  }).strict(),
+  observability: z.object({
+    tracing: z.object({
+      enabled: z.boolean(),
+      serviceName: z.string(),
+      exporterUrl: z.string().optional(),
+    }).strict(),
+    metrics: z.object({
+      enabled: z.boolean(),
+      prefix: z.string(),
+      stallThresholdMs: z.number().positive().optional(),
+    }).strict(),
+    logging: z.object({
+      level: z.enum(["debug", "info", "warn", "error"]),
+      format: z.enum(["json", "pretty"]),
+    }).strict(),
+  }).strict(),
+  security: z.object({
+    piiDetection: z.object({
+      enabled: z.boolean(),
+      action: z.enum(["mask", "block", "warn"]),
+      patterns: z.array(z.string()),
+    }).strict(),
+    promptInjection: z.object({
+      enabled: z.boolean(),
+      action: z.enum(["block", "warn"]),
+    }).strict(),
+    outputSanitization: z.object({
+      enabled: z.boolean(),
+      blockedPatterns: z.array(z.string()),
+      action: z.enum(["redact", "block"]).optional(),
+      maskPII: z.boolean().optional(),
+      maxMatchLength: z.number().int().positive().optional(),
+    }).strict(),
+    auditLog: z.object({
+      enabled: z.boolean(),
+      destination: z.enum(["file", "stdout", "remote"]),
+      path: z.string().optional(),
+    }).strict(),
+    images: z
+      .object({
+        allowedMediaTypes: z.array(z.string()),
+        maxBytes: z.number().int().positive(),
+        allowUrls: z.boolean(),
+        fetchUrls: z
+          .object({
+            enabled: z.boolean(),
+            timeoutMs: z.number().int().positive().optional(),
+            allowedHosts: z.array(z.string()).optional(),
+            allowPrivateNetworks: z.boolean().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+  }).strict(),
+  cost: z.object({
+    budgets: z.object({
+      daily: nonNegative.optional(),
+      weekly: nonNegative.optional(),
+      monthly: nonNegative.optional(),
+      perRequest: nonNegative.optional(),
+    }).strict(),
+    alerts: z.object({
+      enabled: z.boolean(),
+      thresholds: z.array(nonNegative),
+      webhookUrl: z.string().url().optional(),
+    }).strict(),
+    tracking: z.object({
+      byUser: z.boolean(),
+      byProject: z.boolean(),
+      byFeature: z.boolean(),
+    }).strict(),
+  }).strict(),
+  // Custom middleware is code, so files may only reorder or disable stages
+  middleware: z
+    .object({
+      order: z.array(z.string()).optional(),
+      disabled: z.array(z.string()).optional(),
+    })
+    .strict()
+    .optional(),
+  discovery: z
+    .object({
+      enabled: z.boolean(),
+      catalogPath: z.string().min(1).optional(),
+      refreshIntervalMs: z.number().positive().optional(),
+      includeUncataloged: z.boolean().optional(),
+    })
+    .strict()
+    .optional(),
+}).strict();
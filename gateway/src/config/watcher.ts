@@ -0,0 +1,90 @@
+/**
+ * Config Watcher - Reloads a config file on change and applies it to a running gateway
+ * Invalid edits are reported and ignored; the gateway keeps its last good config.
+ */
+
+import { watch, type FSWatcher } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
+import type { LLMGateway } from "../core/gateway";
+import type { GatewayConfig } from "../core/types";
+import { loadConfigFile } from "./loader";
+
+export interface ConfigWatcherOptions {
+  // Editors often write a file in several steps; wait for them to settle
+  debounceMs?: number;
+  onReload?: (config: GatewayConfig) => void;
+  onError?: (error: Error) => void;
+}
+
+export class ConfigWatcher {
+  private path: string;
+  private gateway: LLMGateway;
+  private options: ConfigWatcherOptions;
+  private watcher: FSWatcher | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Serializes reloads so a slow one cannot overwrite a newer one
+  private pending: Promise<boolean> = Promise.resolve(true);
+
+  constructor(path: string, gateway: LLMGateway, options: ConfigWatcherOptions = {}) {
+    this.path = resolve(path);
+    this.gateway = gateway;
+    this.options = options;
+  }
+
+  /**
+   * Start watching. The parent directory is watched so atomic
+   * rename-on-save by editors and config management is picked up.
+   */
+  start(): void {
+    if (this.watcher) return;
+
+    const file = basename(this.path);
+    this.watcher = watch(dirname(this.path), (_event, filename) => {
+      if (filename === file) this.schedule();
+    });
+  }
+
+  /**
+   * Stop watching
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  /**
+   * Load, validate and apply the file now. Resolves to false if it was rejected.
+   */
+  reload(): Promise<boolean> {
+    this.pending = this.pending.then(async () => {
+      try {
+        const config = await loadConfigFile(this.path);
+        this.gateway.updateConfig(config);
+        this.options.onReload?.(config);
+        return true;
+      } catch (error) {
+        if (this.options.onError) {
+          this.options.onError(error as Error);
+        } else {
+          console.error(`[Config] Reload rejected: ${(error as Error).message}`);
+        }
+        return false;
+      }
+    });
+    return this.pending;
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.reload();
+    }, this.options.debounceMs ?? 100);
+  }
+}
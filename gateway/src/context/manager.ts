@@ -3,6 +3,7 @@
  */
 
 import type { GatewayRequest, Message } from "../core/types";
+import { estimateImageTokens } from "../core/images";
 
 interface ContextStats {
   totalTokens: number;
@@ -32,6 +33,17 @@ export class ContextManager {
     return Math.ceil(text.length / 4);
   }
 
+  // Estimate token count for a message, including its images
+  estimateMessageTokens(message: Message): number {
+    if (typeof message.content === "string") return this.estimateTokens(message.content);
+
+    let tokens = this.estimateTokens(message.content.map((b) => b.text || "").join(""));
+    for (const block of message.content) {
+      if (block.type === "image" && block.source) tokens += estimateImageTokens(block.source);
+    }
+    return tokens;
+  }
+
   // Get context stats for a request
   getContextStats(request: GatewayRequest): ContextStats {
     let systemTokens = 0;
@@ -39,12 +51,7 @@ export class ContextManager {
     let assistantTokens = 0;
 
     for (const message of request.messages) {
-      const content =
-        typeof message.content === "string"
-          ? message.content
-          : message.content.map((b) => b.text || "").join("");
-
-      const tokens = this.estimateTokens(content);
+      const tokens = this.estimateMessageTokens(message);
 
       switch (message.role) {
         case "system":
@@ -85,13 +92,7 @@ export class ContextManager {
     const systemMessage = request.messages.find((m) => m.role === "system");
     const nonSystemMessages = request.messages.filter((m) => m.role !== "system");
 
-    const systemTokens = systemMessage
-      ? this.estimateTokens(
-          typeof systemMessage.content === "string"
-            ? systemMessage.content
-            : systemMessage.content.map((b) => b.text || "").join("")
-        )
-      : 0;
+    const systemTokens = systemMessage ? this.estimateMessageTokens(systemMessage) : 0;
 
     const availableTokens = maxTokens - systemTokens;
 
@@ -101,11 +102,7 @@ export class ContextManager {
 
     for (let i = nonSystemMessages.length - 1; i >= 0; i--) {
       const msg = nonSystemMessages[i]!;
-      const content =
-        typeof msg.content === "string"
-          ? msg.content
-          : msg.content.map((b) => b.text || "").join("");
-      const msgTokens = this.estimateTokens(content);
+      const msgTokens = this.estimateMessageTokens(msg);
 
       if (currentTokens + msgTokens <= availableTokens) {
         keptMessages.unshift(msg);
@@ -169,13 +166,7 @@ export class ContextManager {
 
   // Memory management for long-running sessions
   saveMemory(sessionId: string, messages: Message[]): void {
-    const totalTokens = messages.reduce((sum, m) => {
-      const content =
-        typeof m.content === "string"
-          ? m.content
-          : m.content.map((b) => b.text || "").join("");
-      return sum + this.estimateTokens(content);
-    }, 0);
+    const totalTokens = messages.reduce((sum, m) => sum + this.estimateMessageTokens(m), 0);
 
     this.memories.set(sessionId, {
       sessionId,
@@ -305,12 +296,18 @@ export class TokenCounter {
     };
 
     for (const message of messages) {
-      const content =
-        typeof message.content === "string"
-          ? message.content
-          : message.content.map((b) => b.text || JSON.stringify(b)).join("");
-
-      const tokens = this.countTokens(content);
+      let tokens: number;
+      if (typeof message.content === "string") {
+        tokens = this.countTokens(message.content);
+      } else {
+        tokens = 0;
+        for (const block of message.content) {
+          // Images are priced by size, not by their encoded bytes
+          tokens += block.type === "image" && block.source
+            ? estimateImageTokens(block.source)
+            : this.countTokens(block.text || JSON.stringify(block));
+        }
+      }
       byRole[message.role] = (byRole[message.role] || 0) + tokens;
 
       // Add overhead for role markers
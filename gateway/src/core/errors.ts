@@ -0,0 +1,258 @@
+/**
+ * Gateway Errors - Typed failures with stable codes, HTTP status and retryability
+ */
+
+import type { Provider } from "./types";
+
+export type GatewayErrorCode =
+  | "budget_exceeded"
+  | "security_blocked"
+  | "rate_limited"
+  | "provider_error"
+  | "timeout"
+  | "no_eligible_model"
+  | "circuit_open"
+  | "invalid_api_key"
+  | "permission_denied"
+  | "invalid_output"
+  | "output_blocked"
+  | "invalid_request";
+
+interface GatewayErrorOptions {
+  status: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class GatewayError extends Error {
+  readonly code: GatewayErrorCode;
+  // HTTP status the gateway's own API should answer with
+  readonly status: number;
+  // Whether repeating the same call against the same provider may succeed
+  readonly retryable: boolean;
+  // How long the caller should wait before trying again, when known
+  readonly retryAfterMs?: number;
+
+  constructor(code: GatewayErrorCode, message: string, options: GatewayErrorOptions) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = "GatewayError";
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  toJSON(): { code: GatewayErrorCode; message: string; status: number; retryable: boolean } {
+    return {
+      code: this.code,
+      message: this.message,
+      status: this.status,
+      retryable: this.retryable,
+    };
+  }
+}
+
+export class BudgetExceededError extends GatewayError {
+  constructor(message = "Budget exceeded") {
+    super("budget_exceeded", message, { status: 429, retryable: false });
+    this.name = "BudgetExceededError";
+  }
+}
+
+export class SecurityBlockedError extends GatewayError {
+  readonly reason?: string;
+
+  constructor(reason?: string) {
+    super("security_blocked", `Request blocked: ${reason}`, { status: 400, retryable: false });
+    this.name = "SecurityBlockedError";
+    this.reason = reason;
+  }
+}
+
+export class ProviderError extends GatewayError {
+  readonly provider: Provider;
+  // Status returned by the upstream API, if the failure came from an HTTP response
+  readonly upstreamStatus?: number;
+
+  constructor(
+    provider: Provider,
+    message: string,
+    options: {
+      upstreamStatus?: number;
+      retryAfterMs?: number;
+      retryable?: boolean;
+      cause?: unknown;
+    } = {},
+    code: GatewayErrorCode = "provider_error",
+    status = 502
+  ) {
+    super(code, message, {
+      status,
+      retryable: options.retryable ?? isRetryableStatus(options.upstreamStatus),
+      retryAfterMs: options.retryAfterMs,
+      cause: options.cause,
+    });
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.upstreamStatus = options.upstreamStatus;
+  }
+
+  /**
+   * Build an error from a failed upstream response, e.g. "OpenAI API error: 500 - {...}"
+   */
+  static async fromResponse(
+    provider: Provider,
+    response: Response,
+    label: string
+  ): Promise<ProviderError> {
+    const body = await response.text();
+    const message = `${label}: ${response.status} - ${body}`;
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+
+    if (response.status === 429) {
+      return new RateLimitedError(provider, message, retryAfterMs);
+    }
+    return new ProviderError(provider, message, {
+      upstreamStatus: response.status,
+      retryAfterMs,
+    });
+  }
+}
+
+export class RateLimitedError extends ProviderError {
+  constructor(provider: Provider, message: string, retryAfterMs?: number) {
+    super(
+      provider,
+      message,
+      { upstreamStatus: 429, retryAfterMs, retryable: true },
+      "rate_limited",
+      429
+    );
+    this.name = "RateLimitedError";
+  }
+}
+
+export class TimeoutError extends GatewayError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super("timeout", `Request timeout after ${timeoutMs}ms`, { status: 504, retryable: true });
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class NoEligibleModelError extends GatewayError {
+  constructor(message = "No eligible models found for request") {
+    super("no_eligible_model", message, { status: 404, retryable: false });
+    this.name = "NoEligibleModelError";
+  }
+}
+
+export class InvalidApiKeyError extends GatewayError {
+  constructor(message = "Invalid or missing API key") {
+    super("invalid_api_key", message, { status: 401, retryable: false });
+    this.name = "InvalidApiKeyError";
+  }
+}
+
+export class PermissionDeniedError extends GatewayError {
+  constructor(message: string) {
+    super("permission_denied", message, { status: 403, retryable: false });
+    this.name = "PermissionDeniedError";
+  }
+}
+
+// Gateway-side limits such as per-key request quotas; upstream 429s are RateLimitedError
+export class QuotaExceededError extends GatewayError {
+  constructor(message: string, retryAfterMs?: number) {
+    super("rate_limited", message, { status: 429, retryable: false, retryAfterMs });
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class CircuitOpenError extends GatewayError {
+  readonly provider: Provider;
+
+  // Not retryable against the same provider; callers should fall back instead
+  constructor(provider: Provider) {
+    super("circuit_open", `Circuit breaker open for ${provider}, no fallback available`, {
+      status: 503,
+      retryable: false,
+    });
+    this.name = "CircuitOpenError";
+    this.provider = provider;
+  }
+}
+
+// The model's answer still failed responseFormat validation after every repair attempt
+export class InvalidOutputError extends GatewayError {
+  // Last answer received, and why it was rejected
+  readonly content: string;
+  readonly issues: string;
+
+  constructor(content: string, issues: string, attempts: number) {
+    super(
+      "invalid_output",
+      `Model output did not match the response schema after ${attempts} attempt(s): ${issues}`,
+      { status: 502, retryable: false }
+    );
+    this.name = "InvalidOutputError";
+    this.content = content;
+    this.issues = issues;
+  }
+}
+
+// The answer matched an outputSanitization pattern whose action is block
+export class OutputBlockedError extends GatewayError {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super("output_blocked", `Output blocked: ${reason}`, { status: 502, retryable: false });
+    this.name = "OutputBlockedError";
+    this.reason = reason;
+  }
+}
+
+// A request the gateway cannot serve as asked, whichever provider it goes to
+export class InvalidRequestError extends GatewayError {
+  constructor(message: string) {
+    super("invalid_request", message, { status: 400, retryable: false });
+    this.name = "InvalidRequestError";
+  }
+}
+
+/**
+ * Stable code for any thrown value; untyped errors map to "unknown"
+ */
+export function errorCodeOf(error: unknown): GatewayErrorCode | "unknown" {
+  return error instanceof GatewayError ? error.code : "unknown";
+}
+
+// Upstream statuses worth repeating: timeouts, conflicts, rate limits, overload and 5xx
+function isRetryableStatus(status?: number): boolean {
+  if (status === undefined) return true;
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Whether another provider could succeed where this one failed.
+ * Malformed or oversized requests fail everywhere, so fallback is skipped for them.
+ */
+export function isFallbackEligible(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return ![400, 413, 422].includes(error.upstreamStatus ?? 0);
+  }
+  return !(error instanceof GatewayError) || error.code === "timeout";
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
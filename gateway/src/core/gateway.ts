@@ -5,200 +5,974 @@
 
 import { nanoid } from "nanoid";
 import type {
+  AttemptRecord,
   GatewayRequest,
   GatewayResponse,
   GatewayConfig,
+  ModelConfig,
   Provider,
+  ProviderHealth,
+  ResponseFormat,
   RoutingDecision,
   TokenUsage,
   CostBreakdown,
+  ToolCall,
 } from "./types";
 import { SemanticCache } from "../cache/semantic-cache";
 import { IntelligentRouter } from "../routing/router";
 import { CircuitBreaker } from "../reliability/circuit-breaker";
-import { RetryHandler } from "../reliability/retry";
-import { Tracer } from "../observability/tracer";
+import { RequestDeduplicator, RetryHandler } from "../reliability/retry";
+import { DEFAULT_HEALTH_MONITOR_CONFIG, HealthMonitor } from "../reliability/health-monitor";
+import {
+  DEFAULT_RATE_LIMIT_QUEUE_MS,
+  RateLimitTracker,
+  type ProviderRateLimitState,
+  type RateLimitSlot,
+} from "../reliability/rate-limits";
+import { DEFAULT_MODEL_CATALOG, loadModelCatalog } from "../catalog/catalog";
+import {
+  buildCatalogView,
+  discoverProviderModels,
+  withDiscoveredModels,
+  type CatalogModel,
+  type ProviderDiscovery,
+} from "../catalog/discovery";
+import { MetricsCollector, Tracer } from "../observability/tracer";
 import { CostTracker } from "../cost/tracker";
 import { SecurityGuard } from "../security/guard";
 import { ProviderAdapter } from "./providers";
+import { StreamingProvider, type StreamChunk, type StreamMetrics } from "./streaming";
+import { inlineImages } from "./images";
+import { defaultProviderRegistry, type ProviderRegistry } from "../providers/registry";
 import { Logger } from "../observability/logger";
+import { KeyPolicyEnforcer } from "../auth/policy";
+import type { RequestMetric } from "../dashboard/metrics-collector";
+import { TokenCounter } from "../context/manager";
+import {
+  CircuitOpenError,
+  GatewayError,
+  InvalidOutputError,
+  InvalidRequestError,
+  OutputBlockedError,
+  ProviderError,
+  RateLimitedError,
+  errorCodeOf,
+  isFallbackEligible,
+} from "./errors";
+import {
+  DEFAULT_MAX_REPAIRS,
+  parseStructuredOutput,
+  repairMessages,
+} from "./structured-output";
+import {
+  createBuiltinMiddleware,
+  isCacheable,
+  resolveMiddleware,
+  runBeforeRequest,
+  runAfterResponse,
+  runOnError,
+  type GatewayMiddleware,
+  type MiddlewareContext,
+} from "./middleware";
+
+// Everything derived from GatewayConfig, swapped as a unit by updateConfig().
+// Requests capture the snapshot once, so in-flight calls finish on the config they started with.
+interface GatewayRuntime {
+  // Active config: the given one plus discovered models
+  config: GatewayConfig;
+  // As passed to the constructor or updateConfig()
+  sourceConfig: GatewayConfig;
+  router: IntelligentRouter;
+  retryHandler: RetryHandler;
+  securityGuard: SecurityGuard;
+  providers: Map<Provider, ProviderAdapter>;
+  streamingProviders: Map<Provider, StreamingProvider>;
+  circuitBreakers: Map<Provider, CircuitBreaker>;
+  middleware: GatewayMiddleware[];
+}
+
+// Outcome of one provider call after retries and fallback
+interface ExecutionResult {
+  content: string;
+  reasoning?: string;
+  usage: TokenUsage;
+  toolCalls?: ToolCall[];
+  finishReason?: string;
+  routingDecision: RoutingDecision;
+}
+
+// What a stream has produced so far, across retries and failovers
+interface StreamOutput {
+  content: string;
+  reasoning: string;
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
+  // From the done chunk of the stream that finished the answer
+  finishReason?: string;
+  // Set once any output has been sent to the caller
+  started?: boolean;
+  // Set once a tool-call fragment has been sent; such streams are not resumed
+  toolCallsStarted?: boolean;
+  firstTokenAt?: number;
+  // Whether the provider streaming now has reported its usage yet
+  usageReported?: boolean;
+  // Timing of the stream that finished the answer
+  metrics?: StreamMetrics;
+  // The provider streaming now, or the last one tried
+  routingDecision?: RoutingDecision;
+}
+
+// A finished upstream stream, as handed to every request reading it
+interface UpstreamResult {
+  output: StreamOutput;
+  attempts: AttemptRecord[];
+  // The answer and reasoning as sent: output.content and output.reasoning after sanitization
+  content: string;
+  reasoning: string;
+  // The error the stream ended with, already yielded as an error chunk
+  failure?: Error;
+  // What the request that started the stream got back, after its middleware
+  response: GatewayResponse | null;
+}
+
+const tokenCounter = new TokenCounter();
+
+// Token counts of two provider calls billed for the same request
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const sum: TokenUsage = {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+  for (const key of ["reasoningTokens", "cacheReadTokens", "cacheWriteTokens"] as const) {
+    if (a[key] || b[key]) sum[key] = (a[key] ?? 0) + (b[key] ?? 0);
+  }
+  return sum;
+}
 
 export class LLMGateway {
-  private config: GatewayConfig;
+  private runtime: GatewayRuntime;
   private cache: SemanticCache;
-  private router: IntelligentRouter;
-  private circuitBreakers: Map<Provider, CircuitBreaker>;
-  private retryHandler: RetryHandler;
   private tracer: Tracer;
+  // Prometheus counters and histograms, see getMetrics()
+  private metrics: MetricsCollector;
+  private metricListeners: Set<(metric: RequestMetric) => void> = new Set();
   private costTracker: CostTracker;
-  private securityGuard: SecurityGuard;
-  private providers: Map<Provider, ProviderAdapter>;
+  private keyPolicy: KeyPolicyEnforcer;
+  private healthMonitor: HealthMonitor;
+  // Provider quota and client-side rate windows; survive config reloads
+  private rateLimits: RateLimitTracker;
+  // Streams in flight, joined by identical requests
+  private deduplicator: RequestDeduplicator = new RequestDeduplicator();
   private logger: Logger;
+  // Resolves each provider's kind to a plugin on every (re)build
+  private providerRegistry: ProviderRegistry;
+  // Registered through use(); carried across config reloads
+  private customMiddleware: GatewayMiddleware[] = [];
+  // Latest discoverModels() result per provider; also carried across reloads
+  private discovery: Map<Provider, ProviderDiscovery> = new Map();
+  private discoveryInterval: ReturnType<typeof setInterval> | null = null;
 
-  constructor(config: GatewayConfig) {
-    this.config = config;
+  constructor(config: GatewayConfig, providerRegistry: ProviderRegistry = defaultProviderRegistry) {
+    this.providerRegistry = providerRegistry;
     this.logger = new Logger(config.observability.logging);
     this.cache = new SemanticCache(config.cache);
-    this.router = new IntelligentRouter(config.routing, config.providers);
-    this.circuitBreakers = new Map();
-    this.retryHandler = new RetryHandler(config.reliability);
     this.tracer = new Tracer(config.observability.tracing);
+    this.metrics = new MetricsCollector(config.observability.metrics.prefix);
     this.costTracker = new CostTracker(config.cost);
-    this.securityGuard = new SecurityGuard(config.security);
-    this.providers = new Map();
-
-    this.initializeProviders();
-    this.initializeCircuitBreakers();
+    this.keyPolicy = new KeyPolicyEnforcer();
+    this.healthMonitor = new HealthMonitor(config.reliability.healthMonitor);
+    this.rateLimits = new RateLimitTracker();
+    this.runtime = this.buildRuntime(config);
+    this.healthMonitor.setProviders(this.runtime.providers);
+    if (config.reliability.healthMonitor?.enabled) this.healthMonitor.start();
+    this.scheduleDiscovery(config);
   }
 
-  private initializeProviders(): void {
-    for (const providerConfig of this.config.providers) {
+  private buildRuntime(sourceConfig: GatewayConfig, previous?: GatewayRuntime): GatewayRuntime {
+    const config = withDiscoveredModels(sourceConfig, this.discovery);
+    const securityGuard = new SecurityGuard(config.security);
+    const providers = new Map<Provider, ProviderAdapter>();
+    const streamingProviders = new Map<Provider, StreamingProvider>();
+    const circuitBreakers = new Map<Provider, CircuitBreaker>();
+
+    for (const providerConfig of config.providers) {
       if (providerConfig.enabled) {
-        this.providers.set(
+        providers.set(
+          providerConfig.provider,
+          new ProviderAdapter(providerConfig, this.providerRegistry)
+        );
+        streamingProviders.set(
           providerConfig.provider,
-          new ProviderAdapter(providerConfig)
+          new StreamingProvider(providerConfig, this.providerRegistry, {
+            stallThresholdMs: config.observability.metrics.stallThresholdMs,
+          })
         );
       }
     }
-  }
 
-  private initializeCircuitBreakers(): void {
-    for (const providerConfig of this.config.providers) {
-      this.circuitBreakers.set(
+    // Keep breaker state across reloads unless its thresholds changed
+    const breakerConfigChanged =
+      !previous ||
+      JSON.stringify(previous.config.reliability.circuitBreaker) !==
+        JSON.stringify(config.reliability.circuitBreaker);
+    for (const providerConfig of config.providers) {
+      const existing = previous?.circuitBreakers.get(providerConfig.provider);
+      circuitBreakers.set(
         providerConfig.provider,
-        new CircuitBreaker(
-          providerConfig.provider,
-          this.config.reliability.circuitBreaker
-        )
+        existing && !breakerConfigChanged
+          ? existing
+          : new CircuitBreaker(providerConfig.provider, config.reliability.circuitBreaker)
       );
     }
+
+    const middleware = resolveMiddleware(
+      createBuiltinMiddleware({
+        securityGuard,
+        securityConfig: config.security,
+        keyPolicy: this.keyPolicy,
+        costTracker: this.costTracker,
+        cache: this.cache,
+        cacheConfig: config.cache,
+        logger: this.logger,
+      }),
+      config.middleware
+    );
+    for (const custom of this.customMiddleware) {
+      if (middleware.some((m) => m.name === custom.name)) {
+        throw new Error(`Duplicate middleware name: ${custom.name}`);
+      }
+      middleware.push(custom);
+    }
+
+    return {
+      config,
+      sourceConfig,
+      router: new IntelligentRouter(
+        config.routing,
+        config.providers,
+        (p) => this.healthMonitor.getHealth(p),
+        (m, limits) => this.rateLimits.isThrottled(m.provider, m.model, limits)
+      ),
+      retryHandler: new RetryHandler(config.reliability),
+      securityGuard,
+      providers,
+      streamingProviders,
+      circuitBreakers,
+      middleware,
+    };
+  }
+
+  /**
+   * Atomically replace the active configuration. Requests already in flight
+   * keep the providers, routing and middleware they started with.
+   * Cache contents, spend totals and circuit breaker state are preserved.
+   */
+  updateConfig(config: GatewayConfig): void {
+    const runtime = this.buildRuntime(config, this.runtime);
+    this.cache.updateConfig(config.cache);
+    this.costTracker.updateConfig(config.cost);
+    this.runtime = runtime;
+    this.healthMonitor.setProviders(runtime.providers);
+    this.healthMonitor.updateConfig(config.reliability.healthMonitor);
+    this.scheduleDiscovery(config);
+    this.logger.info("Configuration updated", {
+      providers: config.providers.filter((p) => p.enabled).map((p) => p.provider),
+      strategy: config.routing.defaultStrategy,
+    });
   }
 
+  // Discover at once when enabled, then every refreshIntervalMs
+  private scheduleDiscovery(config: GatewayConfig): void {
+    if (this.discoveryInterval) {
+      clearInterval(this.discoveryInterval);
+      this.discoveryInterval = null;
+    }
+    if (!config.discovery?.enabled) return;
+
+    const discover = () =>
+      this.discoverModels().catch((error) =>
+        this.logger.error("Model discovery failed", { error: (error as Error).message })
+      );
+    void discover();
+    if (config.discovery.refreshIntervalMs) {
+      this.discoveryInterval = setInterval(discover, config.discovery.refreshIntervalMs);
+      this.discoveryInterval.unref?.();
+    }
+  }
+
+  /**
+   * List every enabled provider's models and merge them with the configured models
+   * and the catalog. Discovered models with a catalog entry become routable; configured
+   * models a provider no longer serves are logged as warnings.
+   */
+  async discoverModels(): Promise<ProviderDiscovery[]> {
+    const rt = this.runtime;
+    const settings = rt.sourceConfig.discovery;
+    const catalog = settings?.catalogPath
+      ? { ...DEFAULT_MODEL_CATALOG, ...(await loadModelCatalog(settings.catalogPath)) }
+      : DEFAULT_MODEL_CATALOG;
+
+    const results = await Promise.all(
+      rt.sourceConfig.providers
+        .filter((p) => p.enabled)
+        .map((p) => discoverProviderModels(rt.providers.get(p.provider)!, p, catalog, settings?.includeUncataloged))
+    );
+
+    for (const result of results) {
+      if (result.error) {
+        this.logger.warn("Model discovery failed", { provider: result.provider, error: result.error });
+      }
+      for (const model of result.missing) {
+        this.logger.warn("Configured model not served by provider", { provider: result.provider, model });
+      }
+    }
+
+    this.discovery = new Map(results.map((r) => [r.provider, r]));
+    // Rebuild on the current config, which a reload may have replaced meanwhile
+    this.runtime = this.buildRuntime(this.runtime.sourceConfig, this.runtime);
+    this.healthMonitor.setProviders(this.runtime.providers);
+    this.logger.info("Models discovered", {
+      added: results.flatMap((r) => r.added.map((m) => `${r.provider}:${m.model}`)),
+    });
+    return results;
+  }
+
+  /**
+   * Routable models with their source (config or discovered) and whether the
+   * provider still serves them
+   */
+  getModelCatalog(): CatalogModel[] {
+    return buildCatalogView(this.runtime.config, this.discovery);
+  }
+
+  getConfig(): GatewayConfig {
+    return this.runtime.config;
+  }
+
+  /**
+   * Register a middleware at runtime, appended after the configured chain
+   */
+  use(middleware: GatewayMiddleware): this {
+    if (this.runtime.middleware.some((m) => m.name === middleware.name)) {
+      throw new Error(`Duplicate middleware name: ${middleware.name}`);
+    }
+    this.customMiddleware.push(middleware);
+    this.runtime = { ...this.runtime, middleware: [...this.runtime.middleware, middleware] };
+    return this;
+  }
+
+  /**
+   * Complete a request. With a responseFormat, the answer is validated and
+   * returned as `parsed`, typed by the format's zod schema when one is given.
+   */
+  complete<T>(request: GatewayRequest<T>): Promise<GatewayResponse<T>>;
   async complete(request: GatewayRequest): Promise<GatewayResponse> {
     const startTime = Date.now();
     const traceId = this.tracer.startTrace(request.id);
     const spanId = this.tracer.startSpan("gateway.complete");
+    const rt = this.runtime;
+    const ctx = this.createContext(rt, request, startTime, traceId, spanId, false);
 
     try {
-      // Security checks
-      const securityResult = await this.securityGuard.check(request);
-      if (securityResult.blocked) {
-        throw new Error(`Request blocked: ${securityResult.reason}`);
-      }
-      if (securityResult.sanitizedRequest) {
-        request = securityResult.sanitizedRequest;
-      }
+      await runBeforeRequest(rt.middleware, ctx);
+      request = ctx.request;
 
-      // Check budget
-      const budgetOk = await this.costTracker.checkBudget(request.metadata);
-      if (!budgetOk) {
-        throw new Error("Budget exceeded");
-      }
+      let response = ctx.response;
+      if (!response) {
+        ctx.request = request = await inlineImages(request, rt.config.security.images);
+
+        // Route to best provider/model
+        const routingDecision = await rt.router.route(request);
+        ctx.routingDecision = routingDecision;
+        this.logger.info("Routing decision", {
+          requestId: request.id,
+          provider: routingDecision.selectedProvider,
+          model: routingDecision.selectedModel,
+          reason: routingDecision.reason
+        });
 
-      // Check cache
-      if (request.routing?.cacheEnabled !== false && this.config.cache.enabled) {
-        const cachedResponse = await this.cache.get(request);
-        if (cachedResponse) {
-          this.logger.info("Cache hit", { requestId: request.id });
-          return this.buildResponse(
-            request,
-            cachedResponse,
-            { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
-            Date.now() - startTime,
-            true,
-            traceId,
-            spanId
-          );
+        // Execute with retry and circuit breaker
+        const attempts: AttemptRecord[] = [];
+        let result: ExecutionResult & { parsed?: unknown } = this.sanitizeResult(
+          rt,
+          await this.executeWithResilience(rt, request, routingDecision, attempts)
+        );
+        if (request.responseFormat) {
+          result = await this.enforceResponseFormat(rt, request, request.responseFormat, result, attempts);
+        }
+        ctx.routingDecision = result.routingDecision;
+
+        response = this.buildResponse(
+          rt,
+          request,
+          result.content,
+          result.usage,
+          Date.now() - startTime,
+          false,
+          traceId,
+          spanId,
+          result.routingDecision,
+          result.toolCalls,
+          attempts,
+          result.reasoning
+        );
+        response.finishReason = result.finishReason;
+        if (request.responseFormat) {
+          response.parsed = result.parsed;
         }
       }
 
-      // Route to best provider/model
-      const routingDecision = await this.router.route(request);
-      this.logger.info("Routing decision", {
-        requestId: request.id,
-        provider: routingDecision.selectedProvider,
-        model: routingDecision.selectedModel,
-        reason: routingDecision.reason
-      });
+      response = await runAfterResponse(rt.middleware, ctx, response);
+
+      this.recordRequestMetrics(rt, ctx, response);
+      this.tracer.endSpan(spanId);
+      this.tracer.endTrace(traceId);
+
+      return response;
+    } catch (error) {
+      await runOnError(rt.middleware, ctx, error as Error);
+      this.recordRequestMetrics(rt, ctx, null, error as Error);
+      this.tracer.recordError(spanId, error as Error);
+      this.tracer.endSpan(spanId);
+      this.tracer.endTrace(traceId);
+      throw error;
+    }
+  }
 
-      // Execute with retry and circuit breaker
-      const result = await this.executeWithResilience(request, routingDecision);
+  /**
+   * Stream a completion through the same middleware pipeline as complete():
+   * security, budget, cache, routing, circuit breakers, cost tracking and tracing.
+   * After-response hooks see the assembled response once the stream finishes.
+   * Text is sanitized as it streams, see StreamSanitizer.
+   * Identical requests arriving while a cacheable stream runs join it instead of calling
+   * the provider again, see RequestDeduplicator.dedupeStream().
+   * Failed streams are retried and failed over, see streamWithResilience().
+   * A responseFormat is rejected with InvalidRequestError: the answer is validated and
+   * repaired as a whole, which text already sent cannot follow.
+   * Returns that response, or null if the stream ended with an error chunk.
+   */
+  async *stream(
+    request: GatewayRequest
+  ): AsyncGenerator<StreamChunk, GatewayResponse | null, undefined> {
+    const startTime = Date.now();
+    const traceId = this.tracer.startTrace(request.id);
+    const spanId = this.tracer.startSpan("gateway.stream");
+    const rt = this.runtime;
+    const ctx = this.createContext(rt, request, startTime, traceId, spanId, true);
 
-      // Cache the response
-      if (request.routing?.cacheEnabled !== false && this.config.cache.enabled) {
-        await this.cache.set(request, result.content);
+    let ended = false;
+    try {
+      if (request.responseFormat) {
+        throw new InvalidRequestError("responseFormat is not supported when streaming; use complete()");
       }
+      await runBeforeRequest(rt.middleware, ctx);
 
-      // Track cost
-      await this.costTracker.track({
-        requestId: request.id,
-        provider: routingDecision.selectedProvider,
-        model: routingDecision.selectedModel,
-        usage: result.usage,
-        metadata: request.metadata,
-      });
+      // A middleware answered without a provider call (e.g. cache hit)
+      if (ctx.response) {
+        yield { type: "text", content: ctx.response.content, model: ctx.response.model };
+        yield { type: "done", usage: ctx.response.usage, finishReason: ctx.response.finishReason ?? "stop" };
+
+        ended = true;
+        const response = await runAfterResponse(rt.middleware, ctx, ctx.response);
+        this.endStream(rt, ctx, response);
+        return response;
+      }
+      ctx.request = await inlineImages(ctx.request, rt.config.security.images);
+      ended = true;
+    } catch (error) {
+      ended = true;
+      await this.endFailedStream(rt, ctx, error as Error);
+      throw error;
+    } finally {
+      if (!ended) this.endAbandonedStream(rt, ctx, ctx.response ?? null);
+    }
+
+    // Route to best provider/model, or join an identical request that is already streaming
+    const shareKey = this.streamShareKey(rt, ctx.request);
+    if (!shareKey) {
+      return (yield* this.streamAnswer(rt, ctx)).response;
+    }
+    const { stream: upstream, shared } = this.deduplicator.dedupeStream(shareKey, () =>
+      this.streamAnswer(rt, ctx)
+    );
+    return shared ? yield* this.followStream(rt, ctx, upstream) : (yield* upstream).response;
+  }
 
-      const response = this.buildResponse(
-        request,
-        result.content,
-        result.usage,
-        Date.now() - startTime,
+  /**
+   * The provider side of a stream and the accounting of the request that started it:
+   * after-response hooks (cost, key spend, cache fill), metrics and the end of its trace.
+   * Shared streams run this once for every reader, so billing does not depend on the
+   * starting request reading to the end. Output is sanitized as it streams.
+   */
+  private async *streamAnswer(
+    rt: GatewayRuntime,
+    ctx: MiddlewareContext
+  ): AsyncGenerator<StreamChunk, UpstreamResult, undefined> {
+    const attempts: AttemptRecord[] = [];
+    const output: StreamOutput = {
+      content: "",
+      reasoning: "",
+      toolCalls: [],
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    };
+    // output keeps the raw answer, which resumed streams continue from
+    const sanitizer = rt.securityGuard.createStreamSanitizer();
+    const sent = () => (sanitizer ? sanitizer.content : output.content);
+    const sentReasoning = () => (sanitizer ? sanitizer.reasoning : output.reasoning);
+    let ended = false;
+
+    try {
+      const chunks = this.streamWithResilience(
+        rt,
+        ctx.request,
+        await rt.router.route(ctx.request),
+        attempts,
+        output
+      );
+      const failure = yield* (sanitizer ? sanitizer.transform(chunks) : chunks);
+      ended = true;
+      ctx.routingDecision = output.routingDecision;
+      this.recordStreamSpan(ctx.spanId, ctx.startTime, output);
+
+      if (failure) {
+        const error =
+          failure instanceof OutputBlockedError
+            ? failure
+            : new ProviderError(
+                output.routingDecision!.selectedProvider,
+                `Stream failed for ${output.routingDecision!.selectedProvider}: ${failure.message}`,
+                { cause: failure }
+              );
+        await this.endFailedStream(rt, ctx, error, output);
+        return { output, attempts, content: sent(), reasoning: sentReasoning(), failure: error, response: null };
+      }
+
+      const answer = this.buildResponse(
+        rt,
+        ctx.request,
+        sent(),
+        output.usage,
+        Date.now() - ctx.startTime,
         false,
-        traceId,
-        spanId,
-        routingDecision,
-        result.toolCalls
+        ctx.traceId,
+        ctx.spanId,
+        output.routingDecision,
+        output.toolCalls.length > 0 ? output.toolCalls : undefined,
+        attempts,
+        sentReasoning() || undefined
       );
+      answer.finishReason = output.finishReason;
+      const response = await runAfterResponse(rt.middleware, ctx, answer);
+      this.endStream(rt, ctx, response, output);
+      return { output, attempts, content: sent(), reasoning: sentReasoning(), response };
+    } catch (error) {
+      ended = true;
+      ctx.routingDecision ??= output.routingDecision;
+      await this.endFailedStream(rt, ctx, error as Error);
+      throw error;
+    } finally {
+      if (!ended) await this.settleAbandonedStream(rt, ctx, attempts, output, sent(), sentReasoning());
+    }
+  }
 
-      this.tracer.endSpan(spanId);
-      this.tracer.endTrace(traceId);
+  /**
+   * Bill a stream the caller stopped reading for what was generated so far.
+   * The partial answer goes through after-response hooks marked abandoned, so the
+   * cost and key spend stages count it and the cache stage leaves it out.
+   */
+  private async settleAbandonedStream(
+    rt: GatewayRuntime,
+    ctx: MiddlewareContext,
+    attempts: AttemptRecord[],
+    output: StreamOutput,
+    content: string,
+    reasoning: string
+  ): Promise<void> {
+    ctx.routingDecision ??= output.routingDecision;
+    // Closed before a provider was picked
+    if (!output.routingDecision) {
+      this.endAbandonedStream(rt, ctx, null, output);
+      return;
+    }
+    this.recordStreamSpan(ctx.spanId, ctx.startTime, output);
 
+    const answer = this.buildResponse(
+      rt,
+      ctx.request,
+      content,
+      this.partialUsage(ctx.request, output),
+      Date.now() - ctx.startTime,
+      false,
+      ctx.traceId,
+      ctx.spanId,
+      output.routingDecision,
+      output.toolCalls.length > 0 ? output.toolCalls : undefined,
+      attempts,
+      reasoning || undefined
+    );
+    answer.metadata.abandoned = true;
+    let response = answer;
+    try {
+      response = await runAfterResponse(rt.middleware, ctx, answer);
+    } catch (error) {
+      // The caller is gone, so there is nobody to hand the error to
+      this.logger.warn("After-response hooks failed for an abandoned stream", {
+        requestId: ctx.request.id,
+        error: (error as Error).message,
+      });
+    }
+    this.endAbandonedStream(rt, ctx, response, output);
+  }
+
+  // Usage the provider reported, or an estimate from the prompt and the text generated so far
+  private partialUsage(request: GatewayRequest, output: StreamOutput): TokenUsage {
+    if (output.usageReported) return output.usage;
+    const inputTokens = tokenCounter.countStructuredContent(request.messages).total;
+    const outputTokens = tokenCounter.countTokens(
+      output.content + output.reasoning + output.toolCalls.map((tc) => tc.arguments).join("")
+    );
+    return addUsage(output.usage, { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens });
+  }
+
+  /**
+   * Read a stream another request started. A joined stream is billed to the request
+   * that started it, so it is answered like a cache hit.
+   */
+  private async *followStream(
+    rt: GatewayRuntime,
+    ctx: MiddlewareContext,
+    upstream: AsyncGenerator<StreamChunk, UpstreamResult, undefined>
+  ): AsyncGenerator<StreamChunk, GatewayResponse | null, undefined> {
+    this.tracer.setSpanAttribute(ctx.spanId, "stream.shared", true);
+    let ended = false;
+    try {
+      const { output, content, reasoning, failure } = yield* upstream;
+      ended = true;
+      ctx.routingDecision = output.routingDecision;
+
+      if (failure) {
+        await this.endFailedStream(rt, ctx, failure);
+        return null;
+      }
+
+      const answer = this.buildResponse(
+        rt,
+        ctx.request,
+        content,
+        { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        Date.now() - ctx.startTime,
+        true,
+        ctx.traceId,
+        ctx.spanId,
+        output.routingDecision,
+        output.toolCalls.length > 0 ? output.toolCalls : undefined,
+        [],
+        reasoning || undefined
+      );
+      answer.finishReason = output.finishReason;
+      answer.metadata.cacheStatus.shared = true;
+      const response = await runAfterResponse(rt.middleware, ctx, answer);
+      this.endStream(rt, ctx, response);
       return response;
     } catch (error) {
-      this.tracer.recordError(spanId, error as Error);
-      this.tracer.endSpan(spanId);
-      this.tracer.endTrace(traceId);
+      ended = true;
+      await this.endFailedStream(rt, ctx, error as Error);
       throw error;
+    } finally {
+      // Nothing to bill: the request that started the stream pays for it
+      if (!ended) this.endAbandonedStream(rt, ctx, null);
     }
   }
 
-  private async executeWithResilience(
+  // Metrics and the end of the trace for a stream that finished
+  private endStream(
+    rt: GatewayRuntime,
+    ctx: MiddlewareContext,
+    response: GatewayResponse | null,
+    output?: StreamOutput
+  ): void {
+    this.recordRequestMetrics(rt, ctx, response, undefined, output);
+    this.tracer.endSpan(ctx.spanId);
+    this.tracer.endTrace(ctx.traceId);
+  }
+
+  // The same for a stream the caller stopped reading before it ended
+  private endAbandonedStream(
+    rt: GatewayRuntime,
+    ctx: MiddlewareContext,
+    response: GatewayResponse | null,
+    output?: StreamOutput
+  ): void {
+    this.tracer.setSpanAttribute(ctx.spanId, "stream.abandoned", true);
+    this.endStream(rt, ctx, response, output);
+  }
+
+  // Error hooks, metrics and the end of the trace for a stream that failed
+  private async endFailedStream(
+    rt: GatewayRuntime,
+    ctx: MiddlewareContext,
+    error: Error,
+    output?: StreamOutput
+  ): Promise<void> {
+    await runOnError(rt.middleware, ctx, error);
+    this.recordRequestMetrics(rt, ctx, null, error, output);
+    this.tracer.recordError(ctx.spanId, error);
+    this.tracer.endSpan(ctx.spanId);
+    this.tracer.endTrace(ctx.traceId);
+  }
+
+  // Identical streams share one upstream while the cache could answer them anyway;
+  // id, metadata and principal only attribute a request and are left out of the key
+  private streamShareKey(rt: GatewayRuntime, request: GatewayRequest): string | undefined {
+    if (rt.config.reliability.dedupeStreams === false || !isCacheable(request, rt.config.cache)) {
+      return undefined;
+    }
+    const { id: _id, metadata: _metadata, principal: _principal, ...answerInputs } = request;
+    return JSON.stringify(answerInputs);
+  }
+
+  private createContext(
+    rt: GatewayRuntime,
+    request: GatewayRequest,
+    startTime: number,
+    traceId: string,
+    spanId: string,
+    stream: boolean
+  ): MiddlewareContext {
+    const ctx: MiddlewareContext = {
+      request,
+      startTime,
+      traceId,
+      spanId,
+      stream,
+      state: new Map(),
+      respond: (content: string) => {
+        ctx.response = this.buildResponse(
+          rt,
+          ctx.request,
+          content,
+          { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+          Date.now() - startTime,
+          true,
+          traceId,
+          spanId
+        );
+        return ctx.response;
+      },
+    };
+    return ctx;
+  }
+
+  // Walk the fallback chain until a provider with a closed circuit and rate-limit capacity is found
+  private async resolveAvailableRoute(
+    rt: GatewayRuntime,
+    request: GatewayRequest,
+    routingDecision: RoutingDecision,
+    attempts: AttemptRecord[]
+  ): Promise<{ routingDecision: RoutingDecision; slot: RateLimitSlot }> {
+    const circuitBreaker = rt.circuitBreakers.get(routingDecision.selectedProvider);
+    let skipped: GatewayError;
+    if (circuitBreaker && !circuitBreaker.canExecute()) {
+      skipped = new CircuitOpenError(routingDecision.selectedProvider);
+    } else {
+      try {
+        return { routingDecision, slot: await this.acquireCapacity(rt, request, routingDecision) };
+      } catch (error) {
+        skipped = error as GatewayError;
+      }
+    }
+    attempts.push(this.skippedAttempt(routingDecision, attempts, skipped.code));
+
+    const fallbackDecision = await rt.router.getFallback(request, routingDecision);
+    if (!fallbackDecision) {
+      throw skipped;
+    }
+    return this.resolveAvailableRoute(
+      rt,
+      {
+        ...request,
+        routing: {
+          ...request.routing,
+          excludeProviders: [
+            ...(request.routing?.excludeProviders || []),
+            routingDecision.selectedProvider,
+          ],
+        },
+      },
+      fallbackDecision,
+      attempts
+    );
+  }
+
+  /**
+   * Reserve rate-limit capacity for the request, waiting up to rateLimitQueueMs.
+   * Input tokens are estimated locally, plus maxTokens as providers reserve it too.
+   */
+  private acquireCapacity(
+    rt: GatewayRuntime,
     request: GatewayRequest,
     routingDecision: RoutingDecision
-  ): Promise<{ content: string; usage: TokenUsage; toolCalls?: { id: string; name: string; arguments: string }[] }> {
+  ): Promise<RateLimitSlot> {
     const provider = routingDecision.selectedProvider;
-    const circuitBreaker = this.circuitBreakers.get(provider)!;
-
-    // Check circuit breaker
-    if (!circuitBreaker.canExecute()) {
-      // Try fallback provider
-      const fallbackDecision = await this.router.getFallback(
-        request,
-        routingDecision
-      );
-      if (fallbackDecision) {
-        return this.executeWithResilience(request, fallbackDecision);
+    const tokens = tokenCounter.countStructuredContent(request.messages).total + (request.maxTokens ?? 0);
+    return this.rateLimits.acquire(
+      provider,
+      routingDecision.selectedModel,
+      rt.config.providers.find((p) => p.provider === provider)?.rateLimit,
+      tokens,
+      rt.config.reliability.rateLimitQueueMs
+    );
+  }
+
+  // Stream timing as span attributes; first_token_ms counts from the request's start
+  private recordStreamSpan(spanId: string, startTime: number, output: StreamOutput): void {
+    if (output.firstTokenAt) {
+      this.tracer.setSpanAttribute(spanId, "first_token_ms", output.firstTokenAt - startTime);
+    }
+    const metrics = output.metrics;
+    if (!metrics) return;
+    this.tracer.setSpanAttribute(spanId, "stream.tokens_per_second", metrics.tokensPerSecond);
+    this.tracer.setSpanAttribute(spanId, "stream.output_tokens", metrics.outputTokens);
+    this.tracer.setSpanAttribute(spanId, "stream.chunks", metrics.chunks);
+    this.tracer.setSpanAttribute(spanId, "stream.inter_chunk_p50_ms", metrics.interChunkMs.p50);
+    this.tracer.setSpanAttribute(spanId, "stream.inter_chunk_p95_ms", metrics.interChunkMs.p95);
+    this.tracer.setSpanAttribute(spanId, "stream.inter_chunk_max_ms", metrics.interChunkMs.max);
+    this.tracer.setSpanAttribute(spanId, "stream.stalls", metrics.stalls);
+  }
+
+  /**
+   * Export a finished request to the Prometheus collector and metric subscribers.
+   * Requests that failed before routing have no provider and are not recorded.
+   */
+  private recordRequestMetrics(
+    rt: GatewayRuntime,
+    ctx: MiddlewareContext,
+    response: GatewayResponse | null,
+    error?: Error,
+    output?: StreamOutput
+  ): void {
+    const provider = response?.provider ?? ctx.routingDecision?.selectedProvider;
+    const model = response?.model ?? ctx.routingDecision?.selectedModel;
+    if (!provider || !model) return;
+    const latencyMs = Date.now() - ctx.startTime;
+    const stream = output?.metrics;
+
+    if (rt.config.observability.metrics.enabled) {
+      this.metrics.recordRequest(provider, model, latencyMs, !error);
+      if (response && !response.cached) {
+        this.metrics.recordTokens(provider, model, response.usage.inputTokens, response.usage.outputTokens);
+        this.metrics.recordCost(provider, model, response.cost.totalCost);
       }
-      throw new Error(`Circuit breaker open for ${provider}, no fallback available`);
+      if (stream) this.metrics.recordStream(provider, model, stream);
     }
 
+    const metric: RequestMetric = {
+      id: ctx.request.id,
+      timestamp: ctx.startTime,
+      provider,
+      model,
+      latencyMs,
+      inputTokens: response?.usage.inputTokens ?? 0,
+      outputTokens: response?.usage.outputTokens ?? 0,
+      cost: response?.cost.totalCost ?? 0,
+      cached: response?.cached ?? false,
+      success: !error,
+      error: error?.message,
+      firstTokenMs: output?.firstTokenAt ? output.firstTokenAt - ctx.startTime : undefined,
+      tokensPerSecond: stream?.tokensPerSecond,
+      interChunkP95Ms: stream?.interChunkMs.p95,
+      stalls: stream?.stalls,
+    };
+    for (const listener of this.metricListeners) listener(metric);
+  }
+
+  // A provider passed over because its circuit is open or it is out of rate-limit capacity,
+  // recorded with zero latency
+  private skippedAttempt(
+    routingDecision: RoutingDecision,
+    attempts: AttemptRecord[],
+    errorCode: string
+  ): AttemptRecord {
+    return {
+      provider: routingDecision.selectedProvider,
+      model: routingDecision.selectedModel,
+      kind: attempts.length > 0 ? "fallback" : "primary",
+      success: false,
+      errorCode,
+      latencyMs: 0,
+    };
+  }
+
+  // Attempts made along the way, including retries and fallbacks, are appended to `attempts`
+  private async executeWithResilience(
+    rt: GatewayRuntime,
+    request: GatewayRequest,
+    requestedDecision: RoutingDecision,
+    attempts: AttemptRecord[]
+  ): Promise<ExecutionResult> {
+    // Skip providers with an open circuit or no rate-limit capacity
+    const { routingDecision, slot } = await this.resolveAvailableRoute(
+      rt,
+      request,
+      requestedDecision,
+      attempts
+    );
+    const provider = routingDecision.selectedProvider;
+    const circuitBreaker = rt.circuitBreakers.get(provider)!;
+
+    const firstKind = attempts.length > 0 ? "fallback" : "primary";
+    // Failed calls are settled at zero, so their estimate stops counting against the limit
+    let usedTokens = 0;
+    let attemptSlot = slot;
+    let calls = 0;
+
     try {
-      const result = await this.retryHandler.execute(async () => {
-        const adapter = this.providers.get(provider);
-        if (!adapter) {
-          throw new Error(`Provider ${provider} not configured`);
+      const result = await rt.retryHandler.execute(
+        async () => {
+          // Every call takes a slot of its own; the first was taken while routing
+          if (calls++ > 0) {
+            this.rateLimits.settle(attemptSlot, 0);
+            attemptSlot = await this.acquireCapacity(rt, request, routingDecision);
+          }
+          const adapter = rt.providers.get(provider);
+          if (!adapter) {
+            throw new ProviderError(provider, `Provider ${provider} not configured`, {
+              retryable: false,
+            });
+          }
+          return adapter.complete(request, routingDecision.selectedModel);
+        },
+        {
+          onAttempt: (attempt, latencyMs, error) => {
+            if (error instanceof RateLimitedError) {
+              this.rateLimits.recordRejection(provider, routingDecision.selectedModel, error.retryAfterMs);
+            }
+            attempts.push({
+              provider,
+              model: routingDecision.selectedModel,
+              kind: attempt === 1 ? firstKind : "retry",
+              success: !error,
+              errorCode: error ? errorCodeOf(error) : undefined,
+              error: error?.message,
+              latencyMs,
+            });
+          },
         }
-        return adapter.complete(request, routingDecision.selectedModel);
-      });
+      );
 
+      attempts[attempts.length - 1]!.usage = result.usage;
+      this.rateLimits.record(provider, routingDecision.selectedModel, result.rateLimit);
+      usedTokens = result.usage.totalTokens;
       circuitBreaker.recordSuccess();
-      return result;
+      return { ...result, routingDecision };
     } catch (error) {
-      circuitBreaker.recordFailure();
+      // The request was at fault, not the provider
+      if (!(error instanceof InvalidRequestError)) circuitBreaker.recordFailure();
 
-      // Try fallback on failure
-      if (request.routing?.fallbackEnabled !== false) {
-        const fallbackDecision = await this.router.getFallback(
+      // Try fallback on failure, unless the request itself was rejected
+      if (request.routing?.fallbackEnabled !== false && isFallbackEligible(error)) {
+        const fallbackDecision = await rt.router.getFallback(
           request,
           routingDecision
         );
@@ -207,14 +981,259 @@ export class LLMGateway {
             primary: provider,
             fallback: fallbackDecision.selectedProvider,
           });
-          return this.executeWithResilience(request, fallbackDecision);
+          return this.executeWithResilience(rt, request, fallbackDecision, attempts);
         }
       }
       throw error;
+    } finally {
+      this.rateLimits.settle(attemptSlot, usedTokens);
+    }
+  }
+
+  // Apply outputSanitization to a finished answer and its reasoning; streams are sanitized in stream()
+  private sanitizeResult(rt: GatewayRuntime, result: ExecutionResult): ExecutionResult {
+    const answer = rt.securityGuard.sanitizeOutput(result.content);
+    const reasoning = result.reasoning ? rt.securityGuard.sanitizeOutput(result.reasoning) : undefined;
+    const blocked = answer.blocked ?? reasoning?.blocked;
+    if (blocked) {
+      throw new OutputBlockedError(blocked);
+    }
+    const warnings = [...answer.warnings, ...(reasoning?.warnings ?? [])];
+    if (warnings.length > 0) {
+      this.logger.warn("Output sanitized", { warnings });
+    }
+    if (answer.content === result.content && reasoning?.content === result.reasoning) return result;
+    return { ...result, content: answer.content, reasoning: reasoning?.content };
+  }
+
+  /**
+   * Stream from the routed provider, retrying and falling back like executeWithResilience.
+   * Failures before any output are retried, then failed over, without the caller seeing them.
+   * After output has been sent the stream continues on a fallback model, seeded with the
+   * partial answer, behind a failover chunk. Output is accumulated into `output`; returns
+   * the error the stream finally failed with, after yielding it as an error chunk.
+   */
+  private async *streamWithResilience(
+    rt: GatewayRuntime,
+    request: GatewayRequest,
+    requestedDecision: RoutingDecision,
+    attempts: AttemptRecord[],
+    output: StreamOutput
+  ): AsyncGenerator<StreamChunk, Error | undefined, undefined> {
+    const { routingDecision, slot } = await this.resolveAvailableRoute(
+      rt,
+      request,
+      requestedDecision,
+      attempts
+    );
+    output.routingDecision = routingDecision;
+    const provider = routingDecision.selectedProvider;
+    const model = routingDecision.selectedModel;
+    const streamingProvider = rt.streamingProviders.get(provider);
+    if (!streamingProvider) {
+      throw new ProviderError(provider, `Provider ${provider} not configured`, { retryable: false });
+    }
+    const circuitBreaker = rt.circuitBreakers.get(provider)!;
+    const firstKind = attempts.length > 0 ? "fallback" : "primary";
+    let error: Error | undefined;
+    let incompleteToolCalls: StreamChunk["incompleteToolCalls"];
+
+    // Tokens reported by the current attempt; settled even when the caller stops reading
+    let usedTokens = 0;
+    let attemptSlot = slot;
+    // The first chunk names the model, which the request may have left to routing
+    let named = false;
+    try {
+      for (let attempt = 1; ; attempt++) {
+        // Every attempt takes a slot of its own; the first was taken while routing
+        if (attempt > 1) {
+          this.rateLimits.settle(attemptSlot, usedTokens);
+          usedTokens = 0;
+          try {
+            attemptSlot = await this.acquireCapacity(rt, request, routingDecision);
+          } catch (capacityError) {
+            error = capacityError as Error;
+            break;
+          }
+        }
+        // Usage reported by earlier, failed streams; done chunks carry the running total
+        const priorUsage = output.usage;
+        output.usageReported = false;
+        let failure: StreamChunk | undefined;
+        let usage: TokenUsage | undefined;
+        const attemptStart = Date.now();
+
+        // Anything already sent, reasoning included, is continued rather than sent again
+        const chunks = output.started
+          ? streamingProvider.resume(request, model, output.content)
+          : streamingProvider.stream(request, model);
+        // Iterated by hand to keep the stream's metrics, returned once it is drained
+        let next = await chunks.next();
+        for (; !next.done; next = await chunks.next()) {
+          let chunk = next.value;
+          if (chunk.type === "error") {
+            failure = chunk;
+            continue;
+          }
+          if (!named) {
+            named = true;
+            chunk = { ...chunk, model };
+          }
+          if (chunk.type !== "done") output.firstTokenAt ??= Date.now();
+          if (chunk.type === "text" && chunk.content) {
+            output.content += chunk.content;
+            output.started = true;
+          } else if (chunk.type === "reasoning" && chunk.content) {
+            output.reasoning += chunk.content;
+            output.started = true;
+          } else if (chunk.type === "tool_call_delta") {
+            output.started = true;
+            output.toolCallsStarted = true;
+          } else if (chunk.type === "tool_call_complete" && chunk.toolCall) {
+            const { id, name, arguments: args } = chunk.toolCall;
+            output.toolCalls.push({ id, name, arguments: args });
+          } else if (chunk.type === "done") {
+            this.rateLimits.record(provider, model, chunk.rateLimit);
+            output.finishReason = chunk.finishReason;
+            if (chunk.usage) {
+              usage = chunk.usage;
+              usedTokens = usage.totalTokens;
+              output.usage = addUsage(priorUsage, usage);
+              output.usageReported = true;
+              yield { ...chunk, usage: output.usage };
+              continue;
+            }
+          }
+          yield chunk;
+        }
+
+        incompleteToolCalls = failure?.incompleteToolCalls;
+        error = failure
+          ? failure.cause instanceof Error
+            ? failure.cause
+            : new ProviderError(provider, failure.error || "Stream failed")
+          : undefined;
+        attempts.push({
+          provider,
+          model,
+          kind: attempt === 1 ? firstKind : "retry",
+          success: !error,
+          errorCode: error ? errorCodeOf(error) : undefined,
+          error: error?.message,
+          latencyMs: Date.now() - attemptStart,
+          usage,
+        });
+
+        if (!error) {
+          circuitBreaker.recordSuccess();
+          output.metrics = next.value;
+          return undefined;
+        }
+
+        if (error instanceof RateLimitedError) {
+          this.rateLimits.recordRejection(provider, model, error.retryAfterMs);
+        }
+
+        // Output already sent cannot be taken back, so only silent failures are retried
+        const delay = output.started ? null : rt.retryHandler.retryDelay(error, attempt);
+        if (delay === null) break;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    } finally {
+      this.rateLimits.settle(attemptSlot, usedTokens);
+    }
+    if (!(error instanceof InvalidRequestError)) circuitBreaker.recordFailure();
+
+    const canResume =
+      !output.started || (rt.config.reliability.resumeStreams !== false && !output.toolCallsStarted);
+    const fallbackDecision =
+      request.routing?.fallbackEnabled !== false && isFallbackEligible(error) && canResume
+        ? await rt.router.getFallback(request, routingDecision)
+        : null;
+    if (!fallbackDecision) {
+      yield {
+        type: "error",
+        error: error!.message,
+        errorCode: error instanceof GatewayError ? error.code : undefined,
+        cause: error,
+        ...(incompleteToolCalls ? { incompleteToolCalls } : {}),
+      };
+      return error;
+    }
+
+    this.logger.warn("Stream failed, using fallback", {
+      primary: provider,
+      fallback: fallbackDecision.selectedProvider,
+      resumed: output.started === true,
+    });
+    if (output.started) {
+      yield {
+        type: "failover",
+        failover: {
+          fromProvider: provider,
+          fromModel: model,
+          provider: fallbackDecision.selectedProvider,
+          model: fallbackDecision.selectedModel,
+          error: error!.message,
+        },
+      };
+    }
+    return yield* this.streamWithResilience(
+      rt,
+      {
+        ...request,
+        routing: {
+          ...request.routing,
+          excludeProviders: [...(request.routing?.excludeProviders || []), provider],
+        },
+      },
+      fallbackDecision,
+      attempts,
+      output
+    );
+  }
+
+  /**
+   * Validate a structured answer, re-asking with the validation errors until it
+   * passes or maxRepairs is used up. Repairs go to the model that answered.
+   */
+  private async enforceResponseFormat(
+    rt: GatewayRuntime,
+    request: GatewayRequest,
+    format: ResponseFormat,
+    result: ExecutionResult,
+    attempts: AttemptRecord[]
+  ): Promise<ExecutionResult & { parsed: unknown }> {
+    const maxRepairs = format.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+    // Every round-trip is billed, so usage covers the repairs too
+    let usage = result.usage;
+    let messages = request.messages;
+
+    for (let repair = 0; ; repair++) {
+      const parsed = parseStructuredOutput(format, result.content);
+      if (parsed.ok) {
+        return { ...result, usage, parsed: parsed.value };
+      }
+      if (repair >= maxRepairs) {
+        throw new InvalidOutputError(result.content, parsed.issues, repair + 1);
+      }
+
+      this.logger.warn("Structured output failed validation", {
+        requestId: request.id,
+        repair: repair + 1,
+        issues: parsed.issues,
+      });
+      messages = repairMessages(messages, result.content, parsed.issues);
+      result = this.sanitizeResult(
+        rt,
+        await this.executeWithResilience(rt, { ...request, messages }, result.routingDecision, attempts)
+      );
+      usage = addUsage(usage, result.usage);
     }
   }
 
   private buildResponse(
+    rt: GatewayRuntime,
     request: GatewayRequest,
     content: string,
     usage: TokenUsage,
@@ -223,11 +1242,13 @@ export class LLMGateway {
     traceId: string,
     spanId: string,
     routingDecision?: RoutingDecision,
-    toolCalls?: { id: string; name: string; arguments: string }[]
+    toolCalls?: { id: string; name: string; arguments: string }[],
+    attempts: AttemptRecord[] = [],
+    reasoning?: string
   ): GatewayResponse {
     const provider = routingDecision?.selectedProvider || "anthropic";
     const model = routingDecision?.selectedModel || "claude-3-5-sonnet-20241022";
-    const cost = this.calculateCost(provider, model, usage);
+    const cost = this.calculateCost(rt.config, provider, model, usage);
 
     return {
       id: nanoid(),
@@ -235,6 +1256,7 @@ export class LLMGateway {
       provider,
       model,
       content,
+      reasoning,
       toolCalls,
       usage,
       latencyMs,
@@ -250,9 +1272,10 @@ export class LLMGateway {
         },
         cacheStatus: {
           hit: cached,
-          ttlSeconds: cached ? this.config.cache.ttlSeconds : undefined,
+          ttlSeconds: cached ? rt.config.cache.ttlSeconds : undefined,
         },
-        retryCount: 0,
+        retryCount: attempts.filter((a) => a.kind === "retry").length,
+        attempts,
         traceId,
         spanId,
       },
@@ -260,41 +1283,103 @@ export class LLMGateway {
   }
 
   private calculateCost(
+    config: GatewayConfig,
     provider: Provider,
     model: string,
     usage: TokenUsage
   ): CostBreakdown {
-    const providerConfig = this.config.providers.find(
+    const providerConfig = config.providers.find(
       (p) => p.provider === provider
     );
     const modelConfig = providerConfig?.models.find((m) => m.model === model);
 
+    const cacheReadTokens = usage.cacheReadTokens ?? 0;
+    const cacheWriteTokens = usage.cacheWriteTokens ?? 0;
+    // Cached input is priced at its own rates, falling back to the input rate
+    const cacheReadCost = modelConfig
+      ? (cacheReadTokens / 1000) * (modelConfig.costPer1kCachedInput ?? modelConfig.costPer1kInput)
+      : 0;
+    const cacheWriteCost = modelConfig
+      ? (cacheWriteTokens / 1000) * (modelConfig.costPer1kCacheWrite ?? modelConfig.costPer1kInput)
+      : 0;
     const inputCost = modelConfig
-      ? (usage.inputTokens / 1000) * modelConfig.costPer1kInput
+      ? ((usage.inputTokens - cacheReadTokens - cacheWriteTokens) / 1000) * modelConfig.costPer1kInput +
+        cacheReadCost +
+        cacheWriteCost
       : 0;
     const outputCost = modelConfig
       ? (usage.outputTokens / 1000) * modelConfig.costPer1kOutput
       : 0;
+    // Reasoning tokens are part of the output and billed at its rate
+    const reasoningCost =
+      modelConfig && usage.reasoningTokens
+        ? (usage.reasoningTokens / 1000) * modelConfig.costPer1kOutput
+        : undefined;
 
     return {
       inputCost,
       outputCost,
+      ...(reasoningCost !== undefined ? { reasoningCost } : {}),
+      ...(cacheReadTokens ? { cacheReadCost } : {}),
+      ...(cacheWriteTokens ? { cacheWriteCost } : {}),
       totalCost: inputCost + outputCost,
       currency: "USD",
     };
   }
 
-  // Health check endpoint
-  async healthCheck(): Promise<Record<Provider, boolean>> {
+  // Health check endpoint; probe results are cached, see getHealthMonitor()
+  async healthCheck(): Promise<Partial<Record<Provider, boolean>>> {
     const health: Record<string, boolean> = {};
-    for (const [provider, adapter] of this.providers) {
-      try {
-        health[provider] = await adapter.healthCheck();
-      } catch {
-        health[provider] = false;
-      }
+    for (const result of await this.healthMonitor.checkAll()) {
+      health[result.provider] = result.healthy;
     }
-    return health as Record<Provider, boolean>;
+    return health as Partial<Record<Provider, boolean>>;
+  }
+
+  // Detailed probe results: latency, error rate and the last failure per provider
+  async getProviderHealth(): Promise<ProviderHealth[]> {
+    return this.healthMonitor.checkAll();
+  }
+
+  /**
+   * The monitor behind healthCheck() and health-aware routing; start() it to probe
+   * in the background, subscribe() to receive every result
+   */
+  getHealthMonitor(): HealthMonitor {
+    return this.healthMonitor;
+  }
+
+  /**
+   * Request, token, cost and stream timing metrics; toPrometheus() renders them.
+   * Collected while observability.metrics.enabled is set.
+   */
+  getMetrics(): MetricsCollector {
+    return this.metrics;
+  }
+
+  /**
+   * Called with every finished request, e.g. to feed the dashboard's MetricsCollector
+   */
+  subscribeMetrics(callback: (metric: RequestMetric) => void): () => void {
+    this.metricListeners.add(callback);
+    return () => this.metricListeners.delete(callback);
+  }
+
+  // Provider-reported quota and client-side rate windows per provider
+  getRateLimits(): ProviderRateLimitState[] {
+    return this.rateLimits.getState();
+  }
+
+  // Spend recorded against a gateway-issued API key
+  getKeyUsage(keyId: string): { dailySpend: number; monthlySpend: number } {
+    return this.keyPolicy.getUsage(keyId);
+  }
+
+  // Models available for routing across all enabled providers
+  listModels(): ModelConfig[] {
+    return this.runtime.config.providers
+      .filter((p) => p.enabled)
+      .flatMap((p) => p.models);
   }
 
   // Get current stats
@@ -302,7 +1387,7 @@ export class LLMGateway {
     cache: { hits: number; misses: number; hitRate: number };
     cost: { daily: number; weekly: number; monthly: number };
     latency: { p50: number; p95: number; p99: number };
-    providers: Record<Provider, { requests: number; errors: number; avgLatency: number }>;
+    providers: Partial<Record<Provider, { requests: number; errors: number; avgLatency: number }>>;
   }> {
     return {
       cache: await this.cache.getStats(),
@@ -312,20 +1397,31 @@ export class LLMGateway {
     };
   }
 
-  private getProviderStats(): Record<Provider, { requests: number; errors: number; avgLatency: number }> {
+  private getProviderStats(): Partial<Record<Provider, { requests: number; errors: number; avgLatency: number }>> {
     const stats: Record<string, { requests: number; errors: number; avgLatency: number }> = {};
-    for (const [provider, cb] of this.circuitBreakers) {
+    for (const [provider, cb] of this.runtime.circuitBreakers) {
       stats[provider] = cb.getStats();
     }
-    return stats as Record<Provider, { requests: number; errors: number; avgLatency: number }>;
+    return stats as Partial<Record<Provider, { requests: number; errors: number; avgLatency: number }>>;
   }
 }
 
 // Factory function with sensible defaults
 export function createGateway(
-  overrides: Partial<GatewayConfig> = {}
+  overrides: Partial<GatewayConfig> = {},
+  providerRegistry?: ProviderRegistry
 ): LLMGateway {
-  const defaultConfig: GatewayConfig = {
+  return new LLMGateway(resolveGatewayConfig(overrides), providerRegistry);
+}
+
+// Merge overrides onto the defaults; nested sections are merged one level deep
+export function resolveGatewayConfig(overrides: Partial<GatewayConfig> = {}): GatewayConfig {
+  return deepMerge(defaultGatewayConfig(), overrides);
+}
+
+// Built fresh on each call so API keys are read from the current environment
+export function defaultGatewayConfig(): GatewayConfig {
+  return {
     providers: [
       {
         provider: "anthropic",
@@ -340,9 +1436,11 @@ export function createGateway(
             maxTokens: 200000,
             costPer1kInput: 0.003,
             costPer1kOutput: 0.015,
+            costPer1kCachedInput: 0.0003,
+            costPer1kCacheWrite: 0.00375,
             latencyP50Ms: 800,
             latencyP95Ms: 2000,
-            capabilities: ["reasoning", "coding", "creative", "vision", "function_calling", "long_context"],
+            capabilities: ["reasoning", "coding", "creative", "vision", "function_calling", "long_context", "thinking"],
           },
           {
             provider: "anthropic",
@@ -351,9 +1449,11 @@ export function createGateway(
             maxTokens: 200000,
             costPer1kInput: 0.0008,
             costPer1kOutput: 0.004,
+            costPer1kCachedInput: 0.00008,
+            costPer1kCacheWrite: 0.001,
             latencyP50Ms: 400,
             latencyP95Ms: 1000,
-            capabilities: ["coding", "fast", "cheap"],
+            capabilities: ["coding", "vision", "function_calling", "fast", "cheap"],
           },
         ],
       },
@@ -370,6 +1470,7 @@ export function createGateway(
             maxTokens: 128000,
             costPer1kInput: 0.0025,
             costPer1kOutput: 0.01,
+            costPer1kCachedInput: 0.00125,
             latencyP50Ms: 600,
             latencyP95Ms: 1500,
             capabilities: ["reasoning", "coding", "creative", "vision", "function_calling"],
@@ -381,9 +1482,10 @@ export function createGateway(
             maxTokens: 128000,
             costPer1kInput: 0.00015,
             costPer1kOutput: 0.0006,
+            costPer1kCachedInput: 0.000075,
             latencyP50Ms: 300,
             latencyP95Ms: 800,
-            capabilities: ["coding", "fast", "cheap"],
+            capabilities: ["coding", "vision", "function_calling", "fast", "cheap"],
           },
         ],
       },
@@ -402,7 +1504,7 @@ export function createGateway(
             costPer1kOutput: 0.0003,
             latencyP50Ms: 500,
             latencyP95Ms: 1200,
-            capabilities: ["reasoning", "coding", "long_context", "fast", "cheap"],
+            capabilities: ["reasoning", "coding", "vision", "function_calling", "long_context", "fast", "cheap"],
           },
         ],
       },
@@ -422,7 +1524,7 @@ export function createGateway(
             costPer1kOutput: 0,
             latencyP50Ms: 200,
             latencyP95Ms: 500,
-            capabilities: ["coding", "fast", "cheap"],
+            capabilities: ["coding", "function_calling", "fast", "cheap"],
           },
         ],
       },
@@ -456,6 +1558,8 @@ export function createGateway(
         requestMs: 60000,
         streamMs: 300000,
       },
+      healthMonitor: { ...DEFAULT_HEALTH_MONITOR_CONFIG },
+      rateLimitQueueMs: DEFAULT_RATE_LIMIT_QUEUE_MS,
     },
     observability: {
       tracing: {
@@ -494,6 +1598,12 @@ export function createGateway(
         enabled: true,
         destination: "stdout",
       },
+      images: {
+        allowedMediaTypes: ["image/jpeg", "image/png", "image/gif", "image/webp"],
+        maxBytes: 20 * 1024 * 1024,
+        allowUrls: true,
+        fetchUrls: { enabled: false },
+      },
     },
     cost: {
       budgets: {
@@ -513,10 +1623,6 @@ export function createGateway(
       },
     },
   };
-
-  // Deep merge configs
-  const mergedConfig = deepMerge(defaultConfig, overrides);
-  return new LLMGateway(mergedConfig);
 }
 
 function deepMerge(target: GatewayConfig, source: Partial<GatewayConfig>): GatewayConfig {
@@ -0,0 +1,281 @@
+/**
+ * Images - Helpers for image content blocks
+ * Inlining URL images for providers that only accept inline data, reading dimensions
+ * from image headers, and estimating the tokens an image costs.
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import type { ContentBlock, GatewayRequest, ImageSource, Message, SecurityConfig } from "./types";
+import { InvalidRequestError } from "./errors";
+
+// Tokens assumed when an image's size can't be read, e.g. URL sources (a 1024x1024 image)
+export const DEFAULT_IMAGE_TOKENS = 765;
+
+export const DEFAULT_IMAGE_FETCH_TIMEOUT_MS = 10000;
+
+type ImageLimits = NonNullable<SecurityConfig["images"]>;
+
+export function hasImages(messages: Message[]): boolean {
+  return messages.some(
+    (m) => typeof m.content !== "string" && m.content.some((b) => b.type === "image" && b.source)
+  );
+}
+
+/**
+ * Inline base64 data for an image. data: URLs are decoded; remote URLs are rejected,
+ * since the gateway downloads them under its fetch policy before the provider call.
+ */
+export function loadImage(source: ImageSource): { mediaType: string; data: string } {
+  if (source.type === "base64") return { mediaType: source.mediaType, data: source.data };
+
+  const dataUrl = parseDataUrl(source.data);
+  if (dataUrl) return dataUrl;
+
+  throw new InvalidRequestError(
+    `The provider needs inline image data for ${source.data}: send it as base64, ` +
+      "or enable security.images.fetchUrls so the gateway downloads it"
+  );
+}
+
+/**
+ * Replace URL images with base64 sources before any provider call. data: URLs are decoded;
+ * remote URLs are downloaded when `limits.fetchUrls` is enabled and otherwise left for
+ * providers that fetch them themselves. Inlined images must pass the same type and size
+ * limits as base64 ones. Failures throw InvalidRequestError, as no provider could do better.
+ */
+export async function inlineImages(request: GatewayRequest, limits?: ImageLimits): Promise<GatewayRequest> {
+  if (!request.messages.some((m) => typeof m.content !== "string" && m.content.some(isUrlImage))) {
+    return request;
+  }
+
+  const inline = async (block: ContentBlock): Promise<ContentBlock> => {
+    if (!isUrlImage(block)) return block;
+    const url = block.source!.data;
+    const image = parseDataUrl(url) ?? (limits?.fetchUrls?.enabled ? await downloadImage(url, limits) : null);
+    if (!image) return block;
+
+    const bytes = base64ByteLength(image.data);
+    if (limits && !limits.allowedMediaTypes.includes(image.mediaType)) {
+      throw new InvalidRequestError(`Image type ${image.mediaType} is not allowed (${describeUrl(url)})`);
+    }
+    if (limits && bytes > limits.maxBytes) {
+      throw new InvalidRequestError(`Image exceeds ${limits.maxBytes} bytes (${describeUrl(url)})`);
+    }
+    return { ...block, source: { type: "base64", ...image } };
+  };
+
+  return {
+    ...request,
+    messages: await Promise.all(
+      request.messages.map(async (m) =>
+        typeof m.content === "string" ? m : { ...m, content: await Promise.all(m.content.map(inline)) }
+      )
+    ),
+  };
+}
+
+function isUrlImage(block: ContentBlock): boolean {
+  return block.type === "image" && block.source?.type === "url";
+}
+
+function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  return match ? { mediaType: match[1]!, data: match[2]! } : null;
+}
+
+// data: URLs are too long to quote in errors
+function describeUrl(url: string): string {
+  return url.startsWith("data:") ? "data URL" : url;
+}
+
+/**
+ * Download an image under the fetch policy: http(s) only, allowed hosts only, no private
+ * addresses unless allowed, no redirects, and at most maxBytes within the timeout
+ */
+async function downloadImage(url: string, limits: ImageLimits): Promise<{ mediaType: string; data: string }> {
+  const policy = limits.fetchUrls!;
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new InvalidRequestError(`Invalid image URL: ${url}`);
+  }
+  if (target.protocol !== "https:" && target.protocol !== "http:") {
+    throw new InvalidRequestError(`Image URLs must use http or https: ${url}`);
+  }
+  await checkImageHost(target, policy);
+
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_IMAGE_FETCH_TIMEOUT_MS;
+  try {
+    // A redirect could lead to a host the policy refuses, so none are followed
+    const response = await fetch(target, { redirect: "manual", signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new InvalidRequestError(`Failed to fetch image ${url}: ${response.status}`);
+    }
+    if (Number(response.headers.get("content-length")) > limits.maxBytes) {
+      throw new InvalidRequestError(`Image exceeds ${limits.maxBytes} bytes (${url})`);
+    }
+    const bytes = await readAtMost(response, limits.maxBytes, url);
+    const mediaType = response.headers.get("content-type")?.split(";")[0]?.trim() || "application/octet-stream";
+    return { mediaType, data: bytes.toString("base64") };
+  } catch (error) {
+    if (error instanceof InvalidRequestError) throw error;
+    const timedOut = (error as Error).name === "TimeoutError";
+    throw new InvalidRequestError(
+      `Failed to fetch image ${url}: ${timedOut ? `timed out after ${timeoutMs}ms` : (error as Error).message}`
+    );
+  }
+}
+
+// Read a body, giving up as soon as it grows past maxBytes
+async function readAtMost(response: Response, maxBytes: number, url: string): Promise<Buffer> {
+  const reader = response.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new InvalidRequestError(`Image exceeds ${maxBytes} bytes (${url})`);
+    }
+    parts.push(value);
+  }
+  return Buffer.concat(parts);
+}
+
+async function checkImageHost(url: URL, policy: NonNullable<ImageLimits["fetchUrls"]>): Promise<void> {
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (policy.allowedHosts && !policy.allowedHosts.some((pattern) => matchesHost(host, pattern.toLowerCase()))) {
+    throw new InvalidRequestError(`Image host ${host} is not allowed`);
+  }
+  if (policy.allowPrivateNetworks) return;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    throw new InvalidRequestError(`Image host ${host} could not be resolved`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new InvalidRequestError(`Image host ${host} resolves to a private address`);
+  }
+}
+
+// "*.example.com" matches subdomains of example.com, anything else the exact host
+function matchesHost(host: string, pattern: string): boolean {
+  return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+}
+
+/**
+ * Loopback, private, link-local (cloud metadata), shared, multicast and reserved addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  const lower = address.toLowerCase();
+  // IPv4-mapped IPv6, dotted or as the two hex groups URL parsing turns it into
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower);
+  if (dotted) return isPrivateAddress(dotted[1]!);
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(lower);
+  if (hex) {
+    const high = parseInt(hex[1]!, 16);
+    const low = parseInt(hex[2]!, 16);
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  if (isIP(lower) === 4) {
+    const [a, b] = lower.split(".").map(Number) as [number, number];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168)
+    );
+  }
+  // Unspecified, loopback, unique local, link-local and multicast
+  return lower === "::" || lower === "::1" || /^(f[cd]|fe[89ab]|ff)/.test(lower);
+}
+
+// Decoded size of base64 data without decoding it
+export function base64ByteLength(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * Pixel size from a PNG, GIF, JPEG or WebP header, or null if unknown
+ */
+export function imageDimensions(source: ImageSource): { width: number; height: number } | null {
+  if (source.type !== "base64") return null;
+
+  // Headers sit near the start, except JPEG frame markers which can follow large metadata
+  const bytes = Buffer.from(source.data.slice(0, 65536 - (65536 % 4)), "base64");
+  if (bytes.length < 30) return null;
+
+  // PNG: IHDR width and height
+  if (bytes.readUInt32BE(0) === 0x89504e47) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size
+  if (bytes.toString("ascii", 0, 3) === "GIF") {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+
+  // WebP: lossy, lossless and extended formats
+  if (bytes.toString("ascii", 0, 4) === "RIFF" && bytes.toString("ascii", 8, 12) === "WEBP") {
+    const format = bytes.toString("ascii", 12, 16);
+    if (format === "VP8 ") {
+      return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+    }
+    if (format === "VP8L") {
+      const bits = bytes.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (format === "VP8X") {
+      return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+  }
+
+  // JPEG: walk segments to the first start-of-frame marker
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1]!;
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isFrame) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + bytes.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Estimated input tokens for an image, using the OpenAI high-detail tiling rule:
+ * fit within 2048x2048, scale the short side to 768, then 170 per 512px tile plus 85.
+ */
+export function estimateImageTokens(source: ImageSource): number {
+  const size = imageDimensions(source);
+  if (!size || size.width === 0 || size.height === 0) return DEFAULT_IMAGE_TOKENS;
+
+  let { width, height } = size;
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  width *= fit;
+  height *= fit;
+  const shortSide = Math.min(1, 768 / Math.min(width, height));
+  width *= shortSide;
+  height *= shortSide;
+
+  return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+}
@@ -0,0 +1,161 @@
+/**
+ * JSON Schema Validation - The subset of JSON Schema used by tool and response schemas
+ * Covers type, enum/const, properties/required/additionalProperties, items, the common
+ * numeric/string/array bounds and anyOf/oneOf/allOf. Unknown keywords are ignored.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaIssue {
+  // JSON path of the offending value, "$" for the root
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate a value against a schema, returning every issue found (empty when valid)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  check(value, schema, "$", issues);
+  return issues;
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join("; ");
+}
+
+function check(value: unknown, schema: JsonSchema, path: string, issues: SchemaIssue[]): void {
+  const fail = (message: string) => issues.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      // Further keywords would only repeat the type mismatch
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    fail(`must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      fail(`must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      fail(`must have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (isPlainObject(schema.items)) {
+      value.forEach((item, i) => check(item, schema.items as JsonSchema, `${path}[${i}]`, issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties)
+      ? (schema.properties as Record<string, JsonSchema>)
+      : {};
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) {
+          issues.push({ path: `${path}.${key}`, message: "is required" });
+        }
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}.${key}`;
+      if (key in properties) {
+        check(child, properties[key]!, childPath, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath, message: "is not allowed" });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        check(child, schema.additionalProperties as JsonSchema, childPath, issues);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as JsonSchema[]) check(value, sub, path, issues);
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const passing = (schema.anyOf as JsonSchema[]).filter(
+      (sub) => validateJsonSchema(value, sub).length === 0
+    );
+    if (passing.length === 0) fail("must match at least one of the allowed schemas");
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const passing = (schema.oneOf as JsonSchema[]).filter(
+      (sub) => validateJsonSchema(value, sub).length === 0
+    );
+    if (passing.length !== 1) fail("must match exactly one of the allowed schemas");
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,220 @@
+/**
+ * Middleware Pipeline - Ordered before-request, after-response and on-error hooks
+ * around LLMGateway.complete() and LLMGateway.stream()
+ */
+
+import type {
+  CacheConfig,
+  GatewayRequest,
+  GatewayResponse,
+  RoutingDecision,
+  SecurityConfig,
+} from "./types";
+import { BudgetExceededError, SecurityBlockedError } from "./errors";
+import type { SemanticCache } from "../cache/semantic-cache";
+import type { CostTracker } from "../cost/tracker";
+import type { SecurityGuard } from "../security/guard";
+import type { Logger } from "../observability/logger";
+import type { KeyPolicyEnforcer } from "../auth/policy";
+
+export interface MiddlewareContext {
+  // The request as seen by the next hook; hooks may replace it
+  request: GatewayRequest;
+  readonly startTime: number;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly stream: boolean;
+  // Set by a beforeRequest hook to short-circuit routing and execution
+  response?: GatewayResponse;
+  routingDecision?: RoutingDecision;
+  // Scratch space shared between hooks for a single request
+  state: Map<string, unknown>;
+  // Build a response from content without calling a provider and short-circuit with it
+  respond(content: string): GatewayResponse;
+}
+
+export interface GatewayMiddleware {
+  name: string;
+  beforeRequest?(ctx: MiddlewareContext): void | Promise<void>;
+  // May return a replacement response; hooks run in reverse order
+  afterResponse?(
+    ctx: MiddlewareContext,
+    response: GatewayResponse
+  ): void | GatewayResponse | Promise<void | GatewayResponse>;
+  onError?(ctx: MiddlewareContext, error: Error): void | Promise<void>;
+}
+
+export interface MiddlewareConfig {
+  // Names in execution order; middlewares not listed keep their default position after these
+  order?: string[];
+  disabled?: string[];
+  custom?: GatewayMiddleware[];
+}
+
+export const BUILTIN_MIDDLEWARE = ["policy", "security", "budget", "cache", "cost"] as const;
+
+/**
+ * Resolve the final middleware chain from built-ins and configuration
+ */
+export function resolveMiddleware(
+  builtIns: GatewayMiddleware[],
+  config: MiddlewareConfig = {}
+): GatewayMiddleware[] {
+  const all = [...builtIns, ...(config.custom || [])];
+  const byName = new Map<string, GatewayMiddleware>();
+  for (const middleware of all) {
+    if (byName.has(middleware.name)) {
+      throw new Error(`Duplicate middleware name: ${middleware.name}`);
+    }
+    byName.set(middleware.name, middleware);
+  }
+
+  const disabled = new Set(config.disabled || []);
+  const ordered: GatewayMiddleware[] = [];
+
+  for (const name of config.order || []) {
+    const middleware = byName.get(name);
+    if (!middleware) {
+      throw new Error(`Unknown middleware in order: ${name}`);
+    }
+    ordered.push(middleware);
+    byName.delete(name);
+  }
+  ordered.push(...byName.values());
+
+  return ordered.filter((m) => !disabled.has(m.name));
+}
+
+export async function runBeforeRequest(
+  chain: GatewayMiddleware[],
+  ctx: MiddlewareContext
+): Promise<void> {
+  for (const middleware of chain) {
+    await middleware.beforeRequest?.(ctx);
+    if (ctx.response) return;
+  }
+}
+
+export async function runAfterResponse(
+  chain: GatewayMiddleware[],
+  ctx: MiddlewareContext,
+  response: GatewayResponse
+): Promise<GatewayResponse> {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const result = await chain[i]!.afterResponse?.(ctx, response);
+    if (result) response = result;
+  }
+  return response;
+}
+
+export async function runOnError(
+  chain: GatewayMiddleware[],
+  ctx: MiddlewareContext,
+  error: Error
+): Promise<void> {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    try {
+      await chain[i]!.onError?.(ctx, error);
+    } catch {
+      // Error hooks must not mask the original failure
+    }
+  }
+}
+
+/**
+ * Whether the cache stage may answer a request and store its response.
+ * Cache entries are keyed on prompt text alone and hold only the answer text, so
+ * structured requests and tool use (definitions, calls or results) bypass the cache.
+ */
+export function isCacheable(request: GatewayRequest, cacheConfig: CacheConfig): boolean {
+  return (
+    request.routing?.cacheEnabled !== false &&
+    cacheConfig.enabled &&
+    !request.responseFormat &&
+    !request.tools?.length &&
+    !request.messages.some(
+      (m) =>
+        m.role === "tool" ||
+        (Array.isArray(m.content) && m.content.some((b) => b.type === "tool_use" || b.type === "tool_result"))
+    )
+  );
+}
+
+/**
+ * Built-in stages, in their default order: policy, security, budget, cache, cost
+ */
+export function createBuiltinMiddleware(deps: {
+  securityGuard: SecurityGuard;
+  securityConfig: SecurityConfig;
+  keyPolicy: KeyPolicyEnforcer;
+  costTracker: CostTracker;
+  cache: SemanticCache;
+  cacheConfig: CacheConfig;
+  logger: Logger;
+}): GatewayMiddleware[] {
+  const { securityGuard, securityConfig, keyPolicy, costTracker, cache, cacheConfig, logger } = deps;
+  const cacheEnabled = (request: GatewayRequest) => isCacheable(request, cacheConfig);
+
+  return [
+    {
+      // No-op unless the request carries an API key principal
+      name: "policy",
+      async beforeRequest(ctx) {
+        ctx.request = await keyPolicy.enforce(ctx.request, securityConfig);
+      },
+      afterResponse(ctx, response) {
+        keyPolicy.record(ctx.request, response);
+      },
+    },
+    {
+      name: "security",
+      async beforeRequest(ctx) {
+        const result = await securityGuard.check(ctx.request);
+        if (result.blocked) {
+          throw new SecurityBlockedError(result.reason);
+        }
+        if (result.sanitizedRequest) {
+          ctx.request = result.sanitizedRequest;
+        }
+      },
+    },
+    {
+      name: "budget",
+      async beforeRequest(ctx) {
+        const budgetOk = await costTracker.checkBudget(ctx.request.metadata);
+        if (!budgetOk) {
+          throw new BudgetExceededError();
+        }
+      },
+    },
+    {
+      name: "cache",
+      async beforeRequest(ctx) {
+        if (!cacheEnabled(ctx.request)) return;
+        const cachedResponse = await cache.get(ctx.request);
+        if (cachedResponse) {
+          logger.info("Cache hit", { requestId: ctx.request.id });
+          ctx.respond(cachedResponse);
+        }
+      },
+      async afterResponse(ctx, response) {
+        if (response.cached || response.metadata.abandoned || !cacheEnabled(ctx.request)) return;
+        await cache.set(ctx.request, response.content);
+      },
+    },
+    {
+      name: "cost",
+      async afterResponse(ctx, response) {
+        if (response.cached) return;
+        await costTracker.track({
+          requestId: ctx.request.id,
+          provider: response.provider,
+          model: response.model,
+          usage: response.usage,
+          cost: response.cost,
+          metadata: ctx.request.metadata,
+        });
+      },
+    },
+  ];
+}
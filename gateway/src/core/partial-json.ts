@@ -0,0 +1,115 @@
+/**
+ * Partial JSON - Best-effort parsing of JSON that is still streaming in
+ * Unfinished strings are closed, open objects and arrays are closed, and a trailing
+ * key, comma or unfinished literal is dropped, so tool arguments can be shown as they arrive.
+ */
+
+interface Frame {
+  kind: "object" | "array";
+  // What the container expects next
+  expect: "key" | "colon" | "value" | "comma";
+}
+
+/**
+ * Parse as much of a JSON prefix as forms a value. Returns undefined when nothing
+ * usable has arrived yet or the text is not a prefix of valid JSON.
+ */
+export function parsePartialJson(text: string): unknown {
+  const stack: Frame[] = [];
+  // Longest prefix ending on a whole value or an opened container, with its containers closed
+  let committed: string | undefined;
+  // The whole text closed as it stands, when it ends inside a string value or a literal
+  let partial: string | undefined;
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+
+  const closers = () =>
+    stack
+      .map((frame) => (frame.kind === "object" ? "}" : "]"))
+      .reverse()
+      .join("");
+  const commit = (end: number) => {
+    committed = text.slice(0, end) + closers();
+  };
+  const afterValue = () => {
+    const top = stack[stack.length - 1];
+    if (top) top.expect = "comma";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (stringIsKey) {
+          stack[stack.length - 1]!.expect = "colon";
+        } else {
+          afterValue();
+          commit(i + 1);
+        }
+      }
+      continue;
+    }
+
+    if (/\s/.test(ch)) continue;
+    const top = stack[stack.length - 1];
+
+    switch (ch) {
+      case "{":
+      case "[":
+        stack.push(ch === "{" ? { kind: "object", expect: "key" } : { kind: "array", expect: "value" });
+        commit(i + 1);
+        break;
+      case "}":
+      case "]":
+        stack.pop();
+        afterValue();
+        commit(i + 1);
+        break;
+      case '"':
+        inString = true;
+        stringIsKey = top?.kind === "object" && top.expect === "key";
+        break;
+      case ":":
+        if (top) top.expect = "value";
+        break;
+      case ",":
+        if (top) top.expect = top.kind === "object" ? "key" : "value";
+        break;
+      default: {
+        // A number, true, false or null runs to the next delimiter
+        let end = i;
+        while (end < text.length && !/[\s,:\]}]/.test(text[end]!)) end++;
+        if (end === text.length) {
+          partial = text + closers();
+        } else {
+          afterValue();
+          commit(end);
+        }
+        i = end - 1;
+      }
+    }
+  }
+
+  if (inString && !stringIsKey) {
+    // Drop an escape sequence cut off midway
+    const open = escaped ? text.slice(0, -1) : text.replace(/\\u[0-9a-fA-F]{0,3}$/, "");
+    partial = open + '"' + closers();
+  }
+
+  for (const candidate of [partial, committed]) {
+    if (candidate === undefined) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the shorter prefix
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,149 @@
+/**
+ * Stream Multiplexer - One source stream, many subscribers
+ * The source is read only when a subscriber is waiting for its next chunk, so it runs at the
+ * pace of the fastest subscriber. Chunks are kept in a buffer: each subscriber replays it from
+ * the start and then follows live, ending with the source's return value or error.
+ */
+
+// Where one subscriber is in the stream, counted from the first chunk
+interface Cursor {
+  index: number;
+}
+
+export class StreamMultiplexer<T, R> {
+  private source: AsyncIterator<T, R, undefined>;
+  private onFinish?: () => void;
+  private maxBufferedChunks: number;
+  private chunks: T[] = [];
+  // Chunks released from the front of the buffer
+  private released = 0;
+  private result?: R;
+  private error?: unknown;
+  private failed = false;
+  private finished = false;
+  private reading = false;
+  private cursors = new Set<Cursor>();
+  // Subscribers waiting for the next chunk or the end
+  private waiters: Array<() => void> = [];
+
+  /**
+   * @param maxBufferedChunks Chunks kept for replay. Once reached, chunks every subscriber
+   *   has read are released, no one can join any more, and the source waits for the
+   *   slowest subscriber while the buffer is full.
+   */
+  constructor(source: AsyncIterator<T, R, undefined>, onFinish?: () => void, maxBufferedChunks = 1024) {
+    this.source = source;
+    this.onFinish = onFinish;
+    this.maxBufferedChunks = maxBufferedChunks;
+  }
+
+  /**
+   * Follow the stream from its first chunk. When every subscriber has left before the end,
+   * the source is closed before the last one's return() resolves.
+   */
+  async *subscribe(): AsyncGenerator<T, R, undefined> {
+    if (!this.joinable) {
+      throw new Error("Stream has released chunks and cannot be joined");
+    }
+    const cursor: Cursor = { index: 0 };
+    this.cursors.add(cursor);
+    try {
+      for (;;) {
+        if (cursor.index < this.released + this.chunks.length) {
+          const chunk = this.chunks[cursor.index - this.released]!;
+          cursor.index++;
+          // Others may be waiting for this subscriber to free room in a full buffer
+          if (this.waiters.length > 0) void this.read();
+          yield chunk;
+          continue;
+        }
+        if (this.finished) {
+          if (this.failed) throw this.error;
+          return this.result as R;
+        }
+        const waiting = new Promise<void>((resolve) => this.waiters.push(resolve));
+        void this.read();
+        await waiting;
+      }
+    } finally {
+      this.cursors.delete(cursor);
+      if (this.cursors.size === 0) {
+        await this.close();
+      } else if (this.waiters.length > 0) {
+        // The slowest subscriber may have left, making room for the next chunk
+        void this.read();
+      }
+    }
+  }
+
+  /**
+   * Whether the source has ended, successfully or not
+   */
+  get done(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Whether a new subscriber would still see the stream from its first chunk
+   */
+  get joinable(): boolean {
+    return this.released === 0;
+  }
+
+  // Read one chunk for the waiting subscribers, unless a read is running or the buffer is full
+  private async read(): Promise<void> {
+    if (this.reading || this.finished || !this.makeRoom()) return;
+    this.reading = true;
+    try {
+      const next = await this.source.next();
+      if (next.done) {
+        this.result = next.value;
+        this.finish();
+      } else {
+        this.chunks.push(next.value);
+      }
+    } catch (error) {
+      this.error = error;
+      this.failed = true;
+      this.finish();
+    }
+    this.reading = false;
+    // Everyone left while the chunk was on its way
+    if (this.cursors.size === 0) {
+      await this.close();
+    }
+    this.wake();
+  }
+
+  // Release chunks every subscriber has read once the buffer is full; false while it stays full
+  private makeRoom(): boolean {
+    if (this.chunks.length < this.maxBufferedChunks) return true;
+    let slowest = Infinity;
+    for (const cursor of this.cursors) slowest = Math.min(slowest, cursor.index);
+    const readByAll = Math.min(slowest, this.released + this.chunks.length) - this.released;
+    if (readByAll <= 0) return false;
+    this.chunks.splice(0, readByAll);
+    this.released += readByAll;
+    return true;
+  }
+
+  private async close(): Promise<void> {
+    // A running read closes the source once it settles
+    if (this.finished || this.reading) return;
+    this.error = new Error("Stream closed after every subscriber left");
+    this.failed = true;
+    this.finish();
+    await this.source.return?.();
+  }
+
+  private finish(): void {
+    this.finished = true;
+    this.onFinish?.();
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) resolve();
+  }
+}
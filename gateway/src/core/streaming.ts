@@ -3,35 +3,206 @@
  * Provides streaming responses from all providers
  */
 
-import type { GatewayRequest, Provider, ProviderConfig, TokenUsage } from "./types";
+import type {
+  GatewayRequest,
+  Message,
+  Provider,
+  ProviderConfig,
+  RateLimitSnapshot,
+  TokenUsage,
+} from "./types";
+import { GatewayError, type GatewayErrorCode } from "./errors";
+import { parsePartialJson } from "./partial-json";
+import { defaultProviderRegistry, type ProviderRegistry } from "../providers/registry";
 
 export interface StreamChunk {
-  type: "text" | "tool_call" | "done" | "error";
+  // reasoning chunks carry thinking text in content, separate from the answer;
+  // failover chunks mark where a failed stream continues on another model.
+  // tool_call chunks are raw fragments from provider plugins; StreamingProvider turns them
+  // into a tool_call_delta per fragment and a tool_call_complete per assembled call.
+  type:
+    | "text"
+    | "reasoning"
+    | "tool_call"
+    | "tool_call_delta"
+    | "tool_call_complete"
+    | "done"
+    | "error"
+    | "failover";
   content?: string;
+  // On tool_call_delta chunks, arguments holds just the new fragment
   toolCall?: {
     id: string;
     name: string;
     arguments: string;
+    // Position of the call in the response; providers set it on fragments they index
+    index?: number;
   };
+  // On tool_call_delta chunks: the arguments so far, parsed as far as they go.
+  // On tool_call_complete chunks: the parsed arguments, unset if they are not valid JSON.
+  parsedArguments?: unknown;
   error?: string;
+  errorCode?: GatewayErrorCode;
+  // On error chunks: what the provider threw, to decide on retries and fallback
+  cause?: unknown;
+  // On error chunks: tool calls the error cut off, with the arguments received so far.
+  // They never get a tool_call_complete and must not be run.
+  incompleteToolCalls?: Array<NonNullable<StreamChunk["toolCall"]>>;
+  failover?: StreamFailover;
+  // On the first chunk of a gateway stream, and the first after a failover: the model answering
+  model?: string;
   usage?: TokenUsage;
   finishReason?: string;
+  // On done chunks: quota from the response's rate-limit headers
+  rateLimit?: RateLimitSnapshot;
+}
+
+export interface StreamFailover {
+  fromProvider: Provider;
+  fromModel: string;
+  provider: Provider;
+  model: string;
+  // Why the previous stream failed
+  error: string;
 }
 
 export interface StreamMetrics {
+  // Time to the first text, reasoning or tool-call chunk
   firstTokenMs: number;
   totalMs: number;
+  // Output tokens per second from the first token to the end of the stream
   tokensPerSecond: number;
   totalTokens: number;
+  outputTokens: number;
+  // Usage from the provider's final event, when it reported any
+  usage?: TokenUsage;
+  // Set when the provider reported no usage and outputTokens is estimated from the streamed text
+  estimated: boolean;
+  // Text, reasoning and tool-call chunks received
+  chunks: number;
+  // Gaps between consecutive chunks
+  interChunkMs: { p50: number; p95: number; p99: number; max: number };
+  // Gaps longer than the stall threshold
+  stalls: number;
 }
 
+export interface StreamingOptions {
+  // A gap between chunks at least this long counts as a stall
+  stallThresholdMs?: number;
+}
+
+export const DEFAULT_STALL_THRESHOLD_MS = 2000;
+
 export type StreamCallback = (chunk: StreamChunk) => void;
 
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+  // The provider's index for the call, when it sends one
+  providerIndex?: number;
+  complete: boolean;
+}
+
+/**
+ * Assembles raw tool-call fragments into whole calls. Fragments are matched to a call
+ * by index, then by id; a fragment with neither continues the latest call. Providers send
+ * calls one after another, so a new call completes the ones before it. Calls still open
+ * when the stream fails are abandoned instead of completed.
+ */
+export class ToolCallAssembler {
+  private calls: PendingToolCall[] = [];
+
+  /**
+   * tool_call_delta for a fragment, preceded by tool_call_complete for calls it ends
+   */
+  add(fragment: NonNullable<StreamChunk["toolCall"]>): StreamChunk[] {
+    const chunks: StreamChunk[] = [];
+    let position = this.find(fragment);
+    if (position === -1) {
+      chunks.push(...this.complete());
+      position = this.calls.push({
+        id: fragment.id,
+        name: fragment.name,
+        arguments: "",
+        providerIndex: fragment.index,
+        complete: false,
+      }) - 1;
+    }
+
+    const call = this.calls[position]!;
+    call.id ||= fragment.id;
+    call.name ||= fragment.name;
+    call.arguments += fragment.arguments;
+    chunks.push({
+      type: "tool_call_delta",
+      toolCall: { id: call.id, name: call.name, arguments: fragment.arguments, index: position },
+      parsedArguments: parsePartialJson(call.arguments),
+    });
+    return chunks;
+  }
+
+  /**
+   * tool_call_complete for every call not yet completed
+   */
+  complete(): StreamChunk[] {
+    return this.calls.flatMap((call, index): StreamChunk[] => {
+      if (call.complete) return [];
+      call.complete = true;
+      // A call without arguments takes none
+      const args = call.arguments || "{}";
+      let parsedArguments: unknown;
+      try {
+        parsedArguments = JSON.parse(args);
+      } catch {
+        // Left unset; consumers see the raw arguments
+      }
+      return [
+        {
+          type: "tool_call_complete",
+          toolCall: { id: call.id, name: call.name, arguments: args, index },
+          parsedArguments,
+        },
+      ];
+    });
+  }
+
+  /**
+   * End every call not yet completed without completing it, returning what was received
+   */
+  abandon(): Array<NonNullable<StreamChunk["toolCall"]>> {
+    return this.calls.flatMap((call, index) => {
+      if (call.complete) return [];
+      call.complete = true;
+      return [{ id: call.id, name: call.name, arguments: call.arguments, index }];
+    });
+  }
+
+  private find(fragment: NonNullable<StreamChunk["toolCall"]>): number {
+    if (fragment.index !== undefined) {
+      return this.calls.findIndex((call) => call.providerIndex === fragment.index);
+    }
+    if (fragment.id) {
+      return this.calls.findIndex((call) => call.id === fragment.id);
+    }
+    const last = this.calls.length - 1;
+    return last >= 0 && !this.calls[last]!.complete ? last : -1;
+  }
+}
+
 export class StreamingProvider {
   private config: ProviderConfig;
-
-  constructor(config: ProviderConfig) {
+  private registry: ProviderRegistry;
+  private stallThresholdMs: number;
+
+  constructor(
+    config: ProviderConfig,
+    registry: ProviderRegistry = defaultProviderRegistry,
+    options: StreamingOptions = {}
+  ) {
     this.config = config;
+    this.registry = registry;
+    this.stallThresholdMs = options.stallThresholdMs ?? DEFAULT_STALL_THRESHOLD_MS;
   }
 
   async *stream(
@@ -40,441 +211,124 @@ export class StreamingProvider {
   ): AsyncGenerator<StreamChunk, StreamMetrics, undefined> {
     const startTime = Date.now();
     let firstTokenTime: number | null = null;
-    let totalTokens = 0;
+    let lastChunkTime = 0;
+    const gaps: number[] = [];
+    let streamedChars = 0;
+    let usage: TokenUsage | undefined;
+    const toolCalls = new ToolCallAssembler();
+    // Providers end with several done events (OpenAI: finish reason, usage and [DONE];
+    // Anthropic: message_delta and message_stop), merged into the one sent at the end
+    let done: StreamChunk = { type: "done" };
 
     try {
-      switch (this.config.provider) {
-        case "anthropic":
-          yield* this.streamAnthropic(request, model, (time) => {
-            if (!firstTokenTime) firstTokenTime = time;
-          });
-          break;
-        case "openai":
-          yield* this.streamOpenAI(request, model, (time) => {
-            if (!firstTokenTime) firstTokenTime = time;
-          });
-          break;
-        case "gemini":
-          yield* this.streamGemini(request, model, (time) => {
-            if (!firstTokenTime) firstTokenTime = time;
-          });
-          break;
-        case "ollama":
-          yield* this.streamOllama(request, model, (time) => {
-            if (!firstTokenTime) firstTokenTime = time;
-          });
-          break;
-        default:
-          throw new Error(`Streaming not supported for ${this.config.provider}`);
+      // Resolved here so an unknown kind surfaces as an error chunk
+      const plugin = this.registry.resolve(this.config);
+      for await (const chunk of plugin.stream(this.config, request, model)) {
+        if (chunk.type === "text" || chunk.type === "reasoning" || chunk.type === "tool_call") {
+          const now = Date.now();
+          if (firstTokenTime === null) firstTokenTime = now;
+          else gaps.push(now - lastChunkTime);
+          lastChunkTime = now;
+          streamedChars += (chunk.content ?? chunk.toolCall?.arguments ?? "").length;
+        } else if (chunk.type === "done" && chunk.usage) {
+          // Providers report running totals, so the last report is the final count
+          usage = chunk.usage;
+        }
+
+        if (chunk.type === "tool_call") {
+          if (chunk.toolCall) yield* toolCalls.add(chunk.toolCall);
+          continue;
+        }
+        if (chunk.type === "done") {
+          done = mergeDone(done, chunk);
+          continue;
+        }
+        yield chunk;
       }
+      yield* toolCalls.complete();
+      yield done;
     } catch (error) {
+      const incompleteToolCalls = toolCalls.abandon();
       yield {
         type: "error",
         error: (error as Error).message,
+        errorCode: error instanceof GatewayError ? error.code : undefined,
+        cause: error,
+        ...(incompleteToolCalls.length > 0 ? { incompleteToolCalls } : {}),
       };
     }
 
-    const totalMs = Date.now() - startTime;
+    const endTime = Date.now();
+    const totalMs = endTime - startTime;
+    const outputTokens = usage?.outputTokens ?? Math.ceil(streamedChars / 4);
+    // A stream that arrived in one chunk is rated over its whole duration
+    const generationMs = endTime - (firstTokenTime ?? startTime) || totalMs;
+    const sorted = [...gaps].sort((a, b) => a - b);
 
     return {
-      firstTokenMs: firstTokenTime ? firstTokenTime - startTime : totalMs,
+      firstTokenMs: firstTokenTime === null ? totalMs : firstTokenTime - startTime,
       totalMs,
-      tokensPerSecond: totalMs > 0 ? (totalTokens / totalMs) * 1000 : 0,
-      totalTokens,
-    };
-  }
-
-  private async *streamAnthropic(
-    request: GatewayRequest,
-    model: string,
-    onFirstToken: (time: number) => void
-  ): AsyncGenerator<StreamChunk> {
-    const messages = request.messages.filter((m) => m.role !== "system");
-    const systemMessage = request.messages.find((m) => m.role === "system");
-
-    const body: Record<string, unknown> = {
-      model,
-      max_tokens: request.maxTokens || 4096,
-      stream: true,
-      messages: messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
-    };
-
-    if (systemMessage) {
-      body.system =
-        typeof systemMessage.content === "string"
-          ? systemMessage.content
-          : JSON.stringify(systemMessage.content);
-    }
-
-    if (request.temperature !== undefined) {
-      body.temperature = request.temperature;
-    }
-
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": this.config.apiKey,
-        "anthropic-version": "2023-06-01",
+      tokensPerSecond: generationMs > 0 ? (outputTokens / generationMs) * 1000 : 0,
+      totalTokens: usage?.totalTokens ?? outputTokens,
+      outputTokens,
+      usage,
+      estimated: !usage,
+      chunks: gaps.length + (firstTokenTime === null ? 0 : 1),
+      interChunkMs: {
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        p99: percentile(sorted, 99),
+        max: sorted[sorted.length - 1] ?? 0,
       },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Anthropic streaming error: ${response.status} - ${error}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error("No response body");
-
-    const decoder = new TextDecoder();
-    let buffer = "";
-    let firstToken = false;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6);
-          if (data === "[DONE]") continue;
-
-          try {
-            const event = JSON.parse(data) as {
-              type: string;
-              delta?: { type: string; text?: string };
-              message?: { usage: { input_tokens: number; output_tokens: number } };
-            };
-
-            if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
-              if (!firstToken) {
-                onFirstToken(Date.now());
-                firstToken = true;
-              }
-              yield { type: "text", content: event.delta.text };
-            } else if (event.type === "message_stop") {
-              yield { type: "done" };
-            } else if (event.type === "message_delta" && event.message?.usage) {
-              yield {
-                type: "done",
-                usage: {
-                  inputTokens: event.message.usage.input_tokens,
-                  outputTokens: event.message.usage.output_tokens,
-                  totalTokens:
-                    event.message.usage.input_tokens + event.message.usage.output_tokens,
-                },
-              };
-            }
-          } catch {
-            // Skip invalid JSON
-          }
-        }
-      }
-    }
-  }
-
-  private async *streamOpenAI(
-    request: GatewayRequest,
-    model: string,
-    onFirstToken: (time: number) => void
-  ): AsyncGenerator<StreamChunk> {
-    const body: Record<string, unknown> = {
-      model,
-      stream: true,
-      stream_options: { include_usage: true },
-      messages: request.messages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      })),
+      stalls: gaps.filter((gap) => gap >= this.stallThresholdMs).length,
     };
-
-    if (request.maxTokens) {
-      body.max_tokens = request.maxTokens;
-    }
-
-    if (request.temperature !== undefined) {
-      body.temperature = request.temperature;
-    }
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI streaming error: ${response.status} - ${error}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error("No response body");
-
-    const decoder = new TextDecoder();
-    let buffer = "";
-    let firstToken = false;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          const data = line.slice(6);
-          if (data === "[DONE]") {
-            yield { type: "done" };
-            continue;
-          }
-
-          try {
-            const event = JSON.parse(data) as {
-              choices?: Array<{
-                delta?: { content?: string; tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }> };
-                finish_reason?: string;
-              }>;
-              usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
-            };
-
-            const choice = event.choices?.[0];
-            if (choice?.delta?.content) {
-              if (!firstToken) {
-                onFirstToken(Date.now());
-                firstToken = true;
-              }
-              yield { type: "text", content: choice.delta.content };
-            }
-
-            if (choice?.delta?.tool_calls) {
-              for (const tc of choice.delta.tool_calls) {
-                yield {
-                  type: "tool_call",
-                  toolCall: {
-                    id: tc.id,
-                    name: tc.function.name,
-                    arguments: tc.function.arguments,
-                  },
-                };
-              }
-            }
-
-            if (event.usage) {
-              yield {
-                type: "done",
-                usage: {
-                  inputTokens: event.usage.prompt_tokens,
-                  outputTokens: event.usage.completion_tokens,
-                  totalTokens: event.usage.total_tokens,
-                },
-              };
-            }
-
-            if (choice?.finish_reason) {
-              yield { type: "done", finishReason: choice.finish_reason };
-            }
-          } catch {
-            // Skip invalid JSON
-          }
-        }
-      }
-    }
   }
 
-  private async *streamGemini(
+  /**
+   * Continue an answer another stream left unfinished: the model is shown the
+   * partial output and asked to go on from there. Only the continuation is streamed,
+   * without reasoning, which the caller already has. With no partial text the answer
+   * starts over, still without reasoning.
+   */
+  resume(
     request: GatewayRequest,
     model: string,
-    onFirstToken: (time: number) => void
-  ): AsyncGenerator<StreamChunk> {
-    const contents = request.messages
-      .filter((m) => m.role !== "system")
-      .map((m) => ({
-        role: m.role === "assistant" ? "model" : "user",
-        parts: [
-          {
-            text:
-              typeof m.content === "string" ? m.content : JSON.stringify(m.content),
-          },
-        ],
-      }));
-
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${this.config.apiKey}`;
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents,
-        generationConfig: {
-          maxOutputTokens: request.maxTokens || 4096,
-          temperature: request.temperature ?? 0.7,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Gemini streaming error: ${response.status} - ${error}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error("No response body");
-
-    const decoder = new TextDecoder();
-    let buffer = "";
-    let firstToken = false;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (line.startsWith("data: ")) {
-          try {
-            const event = JSON.parse(line.slice(6)) as {
-              candidates?: Array<{
-                content?: { parts?: Array<{ text?: string }> };
-                finishReason?: string;
-              }>;
-              usageMetadata?: {
-                promptTokenCount: number;
-                candidatesTokenCount: number;
-                totalTokenCount: number;
-              };
-            };
-
-            const candidate = event.candidates?.[0];
-            const text = candidate?.content?.parts?.[0]?.text;
-
-            if (text) {
-              if (!firstToken) {
-                onFirstToken(Date.now());
-                firstToken = true;
-              }
-              yield { type: "text", content: text };
-            }
-
-            if (candidate?.finishReason) {
-              yield { type: "done", finishReason: candidate.finishReason };
-            }
-
-            if (event.usageMetadata) {
-              yield {
-                type: "done",
-                usage: {
-                  inputTokens: event.usageMetadata.promptTokenCount,
-                  outputTokens: event.usageMetadata.candidatesTokenCount,
-                  totalTokens: event.usageMetadata.totalTokenCount,
-                },
-              };
-            }
-          } catch {
-            // Skip invalid JSON
-          }
-        }
-      }
-    }
+    partial: string
+  ): AsyncGenerator<StreamChunk, StreamMetrics, undefined> {
+    const messages = partial ? resumeMessages(request.messages, partial) : request.messages;
+    return this.stream({ ...request, reasoning: undefined, messages }, model);
   }
+}
 
-  private async *streamOllama(
-    request: GatewayRequest,
-    model: string,
-    onFirstToken: (time: number) => void
-  ): AsyncGenerator<StreamChunk> {
-    const baseUrl = this.config.baseUrl || "http://localhost:11434";
-
-    const messages = request.messages.map((m) => ({
-      role: m.role,
-      content: typeof m.content === "string" ? m.content : JSON.stringify(m.content),
-    }));
-
-    const response = await fetch(`${baseUrl}/api/chat`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model,
-        messages,
-        stream: true,
-        options: {
-          num_predict: request.maxTokens || 4096,
-          temperature: request.temperature ?? 0.7,
-        },
-      }),
-    });
+// Later events add to earlier ones: usage is a running total, the finish reason comes once
+function mergeDone(done: StreamChunk, next: StreamChunk): StreamChunk {
+  const merged = { ...done };
+  if (next.finishReason) merged.finishReason = next.finishReason;
+  if (next.usage) merged.usage = next.usage;
+  if (next.rateLimit) merged.rateLimit = next.rateLimit;
+  return merged;
+}
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Ollama streaming error: ${response.status} - ${error}`);
-    }
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]!;
+}
 
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error("No response body");
-
-    const decoder = new TextDecoder();
-    let buffer = "";
-    let firstToken = false;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() || "";
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-
-        try {
-          const event = JSON.parse(line) as {
-            message?: { content?: string };
-            done?: boolean;
-            prompt_eval_count?: number;
-            eval_count?: number;
-          };
-
-          if (event.message?.content) {
-            if (!firstToken) {
-              onFirstToken(Date.now());
-              firstToken = true;
-            }
-            yield { type: "text", content: event.message.content };
-          }
-
-          if (event.done) {
-            yield {
-              type: "done",
-              usage: {
-                inputTokens: event.prompt_eval_count || 0,
-                outputTokens: event.eval_count || 0,
-                totalTokens: (event.prompt_eval_count || 0) + (event.eval_count || 0),
-              },
-            };
-          }
-        } catch {
-          // Skip invalid JSON
-        }
-      }
-    }
-  }
+/**
+ * Messages asking a model to continue a partial answer. An assistant turn alone would
+ * only work as a prefill on Anthropic, so a user turn asks for the continuation.
+ */
+export function resumeMessages(messages: Message[], partial: string): Message[] {
+  return [
+    ...messages,
+    { role: "assistant", content: partial },
+    {
+      role: "user",
+      content:
+        "Your previous answer was cut off. Continue it exactly where it stopped, " +
+        "without repeating any of it or commenting on the interruption.",
+    },
+  ];
 }
 
 /**
@@ -484,13 +338,21 @@ export async function collectStream(
   stream: AsyncGenerator<StreamChunk, StreamMetrics, undefined>
 ): Promise<{
   content: string;
+  reasoning: string;
   toolCalls: Array<{ id: string; name: string; arguments: string }>;
   usage?: TokenUsage;
   metrics: StreamMetrics;
 }> {
   let content = "";
+  let reasoning = "";
   const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
   let usage: TokenUsage | undefined;
+  // Raw fragments, from streams that did not come through StreamingProvider
+  const fragments = new ToolCallAssembler();
+  const addCall = (chunk: StreamChunk) => {
+    const { id, name, arguments: args } = chunk.toolCall!;
+    toolCalls.push({ id, name, arguments: args });
+  };
 
   let result = await stream.next();
 
@@ -499,17 +361,28 @@ export async function collectStream(
 
     if (chunk.type === "text" && chunk.content) {
       content += chunk.content;
+    } else if (chunk.type === "reasoning" && chunk.content) {
+      reasoning += chunk.content;
+    } else if (chunk.type === "tool_call_complete" && chunk.toolCall) {
+      addCall(chunk);
     } else if (chunk.type === "tool_call" && chunk.toolCall) {
-      toolCalls.push(chunk.toolCall);
+      fragments
+        .add(chunk.toolCall)
+        .filter((c) => c.type === "tool_call_complete")
+        .forEach(addCall);
     } else if (chunk.type === "done" && chunk.usage) {
       usage = chunk.usage;
+    } else if (chunk.type === "error") {
+      fragments.abandon();
     }
 
     result = await stream.next();
   }
+  fragments.complete().forEach(addCall);
 
   return {
     content,
+    reasoning,
     toolCalls,
     usage,
     metrics: result.value,
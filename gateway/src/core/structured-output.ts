@@ -0,0 +1,300 @@
+/**
+ * Structured Output - responseFormat schemas, provider-native encodings and validation
+ * A format carries either a JSON Schema or a zod schema; zod schemas are converted to
+ * JSON Schema for providers and used directly for parsing, so `parsed` gets their output type.
+ */
+
+import {
+  ZodFirstPartyTypeKind,
+  type ZodArrayDef,
+  type ZodBooleanDef,
+  type ZodBrandedDef,
+  type ZodCatchDef,
+  type ZodDefaultDef,
+  type ZodDiscriminatedUnionDef,
+  type ZodEffectsDef,
+  type ZodEnumDef,
+  type ZodLiteralDef,
+  type ZodNativeEnumDef,
+  type ZodNullableDef,
+  type ZodNullDef,
+  type ZodNumberDef,
+  type ZodObjectDef,
+  type ZodOptionalDef,
+  type ZodPipelineDef,
+  type ZodReadonlyDef,
+  type ZodRecordDef,
+  type ZodStringDef,
+  type ZodTypeAny,
+  type ZodUnionDef,
+} from "zod";
+import type { Message, ResponseFormat } from "./types";
+import { formatSchemaIssues, validateJsonSchema, type JsonSchema } from "./json-schema";
+
+// Repair round-trips after the first answer, unless the format sets maxRepairs
+export const DEFAULT_MAX_REPAIRS = 2;
+
+export type StructuredParseResult = { ok: true; value: unknown } | { ok: false; issues: string };
+
+const jsonSchemaCache = new WeakMap<object, JsonSchema>();
+
+export function isZodSchema(schema: unknown): schema is ZodTypeAny {
+  return (
+    typeof schema === "object" &&
+    schema !== null &&
+    typeof (schema as { safeParse?: unknown }).safeParse === "function"
+  );
+}
+
+/**
+ * JSON Schema sent to providers for a format
+ */
+export function responseJsonSchema(format: ResponseFormat): JsonSchema {
+  if (!isZodSchema(format.schema)) return format.schema as JsonSchema;
+
+  let schema = jsonSchemaCache.get(format.schema);
+  if (!schema) {
+    schema = zodToJsonSchema(format.schema);
+    jsonSchemaCache.set(format.schema, schema);
+  }
+  return schema;
+}
+
+// OpenAI and Anthropic only accept [a-zA-Z0-9_-]{1,64} as schema and tool names
+export function responseSchemaName(format: ResponseFormat): string {
+  const name = (format.name ?? "response").replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+  return name || "response";
+}
+
+/**
+ * Parse a model answer as JSON and validate it against the format's schema.
+ * Markdown code fences around the JSON are tolerated.
+ */
+export function parseStructuredOutput(format: ResponseFormat, content: string): StructuredParseResult {
+  const text = content.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, "$1");
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, issues: `response is not valid JSON (${(error as Error).message})` };
+  }
+
+  if (isZodSchema(format.schema)) {
+    const result = format.schema.safeParse(value);
+    if (result.success) return { ok: true, value: result.data };
+    return {
+      ok: false,
+      issues: result.error.issues
+        .map((issue) => `${["$", ...issue.path].join(".")}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+
+  const issues = validateJsonSchema(value, format.schema as JsonSchema);
+  return issues.length === 0 ? { ok: true, value } : { ok: false, issues: formatSchemaIssues(issues) };
+}
+
+/**
+ * Conversation for a repair round-trip: the rejected answer followed by the validation errors
+ */
+export function repairMessages(messages: Message[], content: string, issues: string): Message[] {
+  return [
+    ...messages,
+    { role: "assistant", content },
+    {
+      role: "user",
+      content:
+        `Your previous response did not match the required JSON schema: ${issues}\n` +
+        "Reply again with only the corrected JSON.",
+    },
+  ];
+}
+
+// Keywords Gemini's OpenAPI-style responseSchema understands
+const GEMINI_SCHEMA_KEYS = new Set([
+  "type",
+  "format",
+  "description",
+  "nullable",
+  "enum",
+  "properties",
+  "required",
+  "items",
+  "minItems",
+  "maxItems",
+  "minimum",
+  "maximum",
+  "anyOf",
+  "propertyOrdering",
+]);
+
+/**
+ * Reduce a JSON Schema to the subset Gemini accepts; ["x", "null"] types become nullable
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "const") {
+      result.enum = [value];
+    } else if (!GEMINI_SCHEMA_KEYS.has(key)) {
+      continue;
+    } else if (key === "type" && Array.isArray(value)) {
+      const types = value.filter((type) => type !== "null");
+      result.type = types[0];
+      if (types.length < value.length) result.nullable = true;
+    } else if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([name, sub]) => [name, toGeminiSchema(sub)])
+      );
+    } else if (key === "items") {
+      result.items = toGeminiSchema(value as JsonSchema);
+    } else if (key === "anyOf") {
+      result.anyOf = (value as JsonSchema[]).map(toGeminiSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Tool input schema used to force an Anthropic answer into the format.
+ * Tool inputs must be objects, so other root types are wrapped in { value }.
+ */
+export function anthropicToolSchema(schema: JsonSchema): { schema: JsonSchema; wrapped: boolean } {
+  if (schema.type === "object") return { schema, wrapped: false };
+  return {
+    schema: { type: "object", properties: { value: schema }, required: ["value"] },
+    wrapped: true,
+  };
+}
+
+/**
+ * Convert a zod schema to JSON Schema. Covers the types that have a JSON representation;
+ * refinements and transforms are left to zod when the answer is parsed.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const result = convertZodDef(schema._def as ConvertibleZodDef);
+  if (schema.description) result.description = schema.description;
+  return result;
+}
+
+// Definitions of the zod types with a JSON form; typeName tells them apart
+type ConvertibleZodDef =
+  | ZodStringDef
+  | ZodNumberDef
+  | ZodBooleanDef
+  | ZodNullDef
+  | ZodLiteralDef<unknown>
+  | ZodEnumDef
+  | ZodNativeEnumDef
+  | ZodArrayDef
+  | ZodObjectDef
+  | ZodRecordDef
+  | ZodUnionDef
+  | ZodDiscriminatedUnionDef<string>
+  | ZodNullableDef
+  | ZodDefaultDef
+  | ZodOptionalDef
+  | ZodReadonlyDef
+  | ZodCatchDef
+  | ZodEffectsDef
+  | ZodBrandedDef<ZodTypeAny>
+  | ZodPipelineDef<ZodTypeAny, ZodTypeAny>;
+
+function convertZodDef(def: ConvertibleZodDef): JsonSchema {
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: "string" };
+      for (const check of def.checks) {
+        if (check.kind === "min") result.minLength = check.value;
+        else if (check.kind === "max") result.maxLength = check.value;
+        else if (check.kind === "length") result.minLength = result.maxLength = check.value;
+        else if (check.kind === "regex") result.pattern = check.regex.source;
+        else if (check.kind === "email") result.format = "email";
+        else if (check.kind === "url") result.format = "uri";
+        else if (check.kind === "uuid") result.format = "uuid";
+        else if (check.kind === "datetime") result.format = "date-time";
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: "number" };
+      for (const check of def.checks) {
+        if (check.kind === "int") result.type = "integer";
+        else if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        else if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...def.values] };
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric TS enums map names to values and back; keep only the values
+      const values = def.values;
+      return {
+        enum: Object.entries(values)
+          .filter(([key]) => typeof values[values[key]!] !== "number")
+          .map(([, value]) => value),
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: "array", items: zodToJsonSchema(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      if (def.exactLength) result.minItems = result.maxItems = def.exactLength.value;
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      const catchallType = (def.catchall._def as { typeName?: unknown }).typeName;
+      const catchall = catchallType !== ZodFirstPartyTypeKind.ZodNever ? def.catchall : undefined;
+      return {
+        type: "object",
+        properties,
+        required,
+        additionalProperties: catchall
+          ? zodToJsonSchema(catchall)
+          : def.unknownKeys === "passthrough",
+      };
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: zodToJsonSchema(def.valueType) };
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: def.options.map((option) => zodToJsonSchema(option)) };
+    case ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = zodToJsonSchema(def.innerType);
+      if (typeof inner.type === "string") return { ...inner, type: [inner.type, "null"] };
+      return { anyOf: [inner, { type: "null" }] };
+    }
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type);
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+    default:
+      // ZodAny, ZodUnknown and types without a JSON form accept anything
+      return {};
+  }
+}
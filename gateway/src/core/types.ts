@@ -3,7 +3,17 @@
  * Defines the unified interface for all LLM providers
  */
 
-export type Provider = "anthropic" | "openai" | "gemini" | "ollama";
+import type { MiddlewareConfig } from "./middleware";
+import type { ZodType } from "zod";
+import type { KeyPolicy } from "../auth/types";
+
+export type BuiltinProvider = "anthropic" | "openai" | "gemini" | "ollama";
+
+// A built-in provider, or the name of a configured instance of some kind
+export type Provider = BuiltinProvider | (string & {});
+
+// Wire protocol a provider speaks: a built-in or the kind of a registered plugin
+export type ProviderKind = BuiltinProvider | "openai_compatible" | "azure_openai" | (string & {});
 
 export type ModelTier = "premium" | "standard" | "economy";
 
@@ -14,9 +24,15 @@ export interface ModelConfig {
   maxTokens: number;
   costPer1kInput: number;
   costPer1kOutput: number;
+  // Input read from the provider's prompt cache; defaults to costPer1kInput
+  costPer1kCachedInput?: number;
+  // Input written to the prompt cache (Anthropic); defaults to costPer1kInput
+  costPer1kCacheWrite?: number;
   latencyP50Ms: number;
   latencyP95Ms: number;
   capabilities: ModelCapability[];
+  // Azure OpenAI deployment serving this model; defaults to the model name
+  deployment?: string;
 }
 
 export type ModelCapability =
@@ -27,9 +43,11 @@ export type ModelCapability =
   | "function_calling"
   | "long_context"
   | "fast"
-  | "cheap";
+  | "cheap"
+  // Accepts reasoning options: thinking budgets or reasoning effort
+  | "thinking";
 
-export interface GatewayRequest {
+export interface GatewayRequest<T = unknown> {
   id: string;
   messages: Message[];
   model?: string;
@@ -37,9 +55,22 @@ export interface GatewayRequest {
   maxTokens?: number;
   temperature?: number;
   tools?: Tool[];
+  // Think before answering; only routed to models with the "thinking" capability
+  reasoning?: ReasoningOptions;
   stream?: boolean;
+  // Ask for JSON matching a schema; the validated value is returned as response.parsed.
+  // complete() only: stream() rejects it with InvalidRequestError
+  responseFormat?: ResponseFormat<T>;
   metadata?: RequestMetadata;
   routing?: RoutingPreferences;
+  // Set by the HTTP server after verifying a gateway-issued API key, never read from request bodies
+  principal?: RequestPrincipal;
+}
+
+export interface RequestPrincipal {
+  keyId: string;
+  tenantId: string;
+  policy: KeyPolicy;
 }
 
 export interface Message {
@@ -47,6 +78,8 @@ export interface Message {
   content: string | ContentBlock[];
   name?: string;
   toolCallId?: string;
+  // Tool messages: the result is an error; only Anthropic has a field for it, others get the text alone
+  isError?: boolean;
 }
 
 export interface ContentBlock {
@@ -57,6 +90,8 @@ export interface ContentBlock {
   name?: string;
   input?: unknown;
   content?: string;
+  // Prompt cache breakpoint: providers with explicit caching (Anthropic) cache everything up to here
+  cacheBreakpoint?: boolean;
 }
 
 export interface ImageSource {
@@ -65,6 +100,27 @@ export interface ImageSource {
   data: string;
 }
 
+export interface ResponseFormat<T = unknown> {
+  // A JSON Schema object, or a zod schema whose output type becomes `parsed`
+  schema: Record<string, unknown> | ZodType<T>;
+  // Schema name passed to providers that ask for one
+  name?: string;
+  // Times to re-ask with the validation errors before failing, default 2
+  maxRepairs?: number;
+}
+
+/**
+ * Provider-neutral reasoning request, mapped to Anthropic and Gemini thinking budgets,
+ * OpenAI reasoning_effort and Ollama think. Give either field; the other is derived.
+ */
+export interface ReasoningOptions {
+  effort?: ReasoningEffort;
+  // Tokens the model may spend thinking; Anthropic requires at least 1024
+  budgetTokens?: number;
+}
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
 export interface Tool {
   name: string;
   description: string;
@@ -91,6 +147,9 @@ export interface RoutingPreferences {
   preferredProviders?: Provider[];
   excludeProviders?: Provider[];
   requiredCapabilities?: ModelCapability[];
+  // Hard allow-lists, unlike preferredProviders; fallback stays within them
+  allowedProviders?: Provider[];
+  allowedModels?: string[];
   fallbackEnabled?: boolean;
   cacheEnabled?: boolean;
 }
@@ -101,13 +160,19 @@ export type RoutingStrategy =
   | "quality_optimized"
   | "balanced";
 
-export interface GatewayResponse {
+export interface GatewayResponse<T = unknown> {
   id: string;
   requestId: string;
   provider: Provider;
   model: string;
   content: string;
+  // The model's thinking, when the provider returns it; never part of content
+  reasoning?: string;
   toolCalls?: ToolCall[];
+  // Why the answer ended, as the provider reported it, e.g. "max_tokens" or "length"
+  finishReason?: string;
+  // Validated value of content, set when the request had a responseFormat
+  parsed?: T;
   usage: TokenUsage;
   latencyMs: number;
   cached: boolean;
@@ -122,14 +187,26 @@ export interface ToolCall {
 }
 
 export interface TokenUsage {
+  // Includes input read from or written to the provider's prompt cache
   inputTokens: number;
+  // Includes reasoning tokens, which are billed as output
   outputTokens: number;
   totalTokens: number;
+  // Part of outputTokens spent thinking, when the provider reports it
+  reasoningTokens?: number;
+  // Parts of inputTokens served from and written to the prompt cache
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
 }
 
 export interface CostBreakdown {
+  // Includes cacheReadCost and cacheWriteCost
   inputCost: number;
   outputCost: number;
+  // Part of outputCost spent on reasoning tokens
+  reasoningCost?: number;
+  cacheReadCost?: number;
+  cacheWriteCost?: number;
   totalCost: number;
   currency: "USD";
 }
@@ -138,8 +215,25 @@ export interface ResponseMetadata {
   routingDecision: RoutingDecision;
   cacheStatus: CacheStatus;
   retryCount: number;
+  // Every provider call made for this request, in order, including failed ones
+  attempts: AttemptRecord[];
   traceId: string;
   spanId: string;
+  // Set when the caller stopped reading a stream before it ended; usage covers what was generated
+  abandoned?: boolean;
+}
+
+export interface AttemptRecord {
+  provider: Provider;
+  model: string;
+  kind: "primary" | "retry" | "fallback";
+  success: boolean;
+  // GatewayErrorCode of the failure, or "unknown" for untyped errors
+  errorCode?: string;
+  error?: string;
+  latencyMs: number;
+  // Tokens reported by the provider for this attempt, when known
+  usage?: TokenUsage;
 }
 
 export interface RoutingDecision {
@@ -156,15 +250,39 @@ export interface CacheStatus {
   key?: string;
   ttlSeconds?: number;
   similarity?: number;
+  // Answered by joining an identical request's stream while it was still running
+  shared?: boolean;
 }
 
 export interface ProviderHealth {
   provider: Provider;
   healthy: boolean;
   latencyMs: number;
+  // Share of recent probes that failed
   errorRate: number;
   lastCheck: Date;
   consecutiveFailures: number;
+  probe: HealthProbe;
+  // Why the last probe failed
+  error?: string;
+}
+
+/**
+ * How a provider is probed:
+ * - models: the provider's model-list endpoint (free), the default
+ * - head: a HEAD request to `url`; any response below 500 counts as up
+ * - completion: a 1-token completion, sampled at most every `intervalMs`
+ */
+export type HealthProbe = "models" | "head" | "completion";
+
+export interface ProviderHealthCheckConfig {
+  probe: HealthProbe;
+  // Target of head probes, defaults to baseUrl
+  url?: string;
+  // Model for completion probes, defaults to the cheapest configured model
+  model?: string;
+  // Minimum time between probes; defaults to the monitor's cacheTtlMs, or 5 minutes for completion probes
+  intervalMs?: number;
 }
 
 export interface CircuitBreakerState {
@@ -183,16 +301,51 @@ export interface GatewayConfig {
   observability: ObservabilityConfig;
   security: SecurityConfig;
   cost: CostConfig;
+  middleware?: MiddlewareConfig;
+  discovery?: DiscoveryConfig;
+}
+
+export interface DiscoveryConfig {
+  // Discover models from each provider's list endpoint when the gateway starts
+  enabled: boolean;
+  // JSON or YAML catalog merged over the built-in one
+  catalogPath?: string;
+  // Rediscover periodically; off when unset
+  refreshIntervalMs?: number;
+  // Route to discovered models that have no catalog entry, priced at zero
+  includeUncataloged?: boolean;
 }
 
 export interface ProviderConfig {
+  // Unique name; several openai_compatible instances can share a kind
   provider: Provider;
+  // Defaults to `provider` for built-ins, required for any other name
+  kind?: ProviderKind;
+  // May be empty for endpoints without auth
   apiKey: string;
+  // Required for openai_compatible, e.g. "http://vllm:8000/v1", and azure_openai
   baseUrl?: string;
+  // Azure OpenAI api-version query parameter
+  apiVersion?: string;
+  // Extra headers sent with every request to this provider
+  headers?: Record<string, string>;
   models: ModelConfig[];
   enabled: boolean;
   weight: number;
   rateLimit?: RateLimitConfig;
+  healthCheck?: ProviderHealthCheckConfig;
+  promptCaching?: PromptCachingConfig;
+}
+
+/**
+ * Automatic prompt cache breakpoints, for providers that need them (Anthropic).
+ * OpenAI and Gemini cache long prefixes on their own.
+ */
+export interface PromptCachingConfig {
+  // Mark the end of long tool definitions and system prompts, default true
+  auto: boolean;
+  // Estimated tokens a prefix needs before it is marked, default 1024; shorter ones are not cached
+  minTokens?: number;
 }
 
 export interface RateLimitConfig {
@@ -200,6 +353,18 @@ export interface RateLimitConfig {
   tokensPerMinute: number;
 }
 
+/**
+ * Quota a provider reported in its rate-limit headers; resets are epoch ms
+ */
+export interface RateLimitSnapshot {
+  limitRequests?: number;
+  remainingRequests?: number;
+  resetRequestsAt?: number;
+  limitTokens?: number;
+  remainingTokens?: number;
+  resetTokensAt?: number;
+}
+
 export interface RoutingConfig {
   defaultStrategy: RoutingStrategy;
   complexityThresholds: {
@@ -232,6 +397,23 @@ export interface ReliabilityConfig {
     requestMs: number;
     streamMs: number;
   };
+  healthMonitor?: HealthMonitorConfig;
+  // Longest a request waits for provider rate-limit capacity before falling back (default 5000)
+  rateLimitQueueMs?: number;
+  // Continue a stream that fails after its first token on a fallback model, seeded
+  // with the partial answer (default true); when off such streams end with an error
+  resumeStreams?: boolean;
+  // Let identical concurrent streams the cache could answer share one upstream stream (default true)
+  dedupeStreams?: boolean;
+}
+
+export interface HealthMonitorConfig {
+  // Probe all providers in the background every intervalMs
+  enabled: boolean;
+  intervalMs: number;
+  // How long a probe result is reused before a caller triggers a new probe
+  cacheTtlMs: number;
+  timeoutMs: number;
 }
 
 export interface ObservabilityConfig {
@@ -243,6 +425,8 @@ export interface ObservabilityConfig {
   metrics: {
     enabled: boolean;
     prefix: string;
+    // A gap between stream chunks at least this long is counted as a stall (default 2000)
+    stallThresholdMs?: number;
   };
   logging: {
     level: "debug" | "info" | "warn" | "error";
@@ -263,12 +447,37 @@ export interface SecurityConfig {
   outputSanitization: {
     enabled: boolean;
     blockedPatterns: string[];
+    // redact (default) replaces blocked patterns with [REDACTED]; block fails the response
+    action?: "redact" | "block";
+    // Also mask piiDetection.patterns in answers
+    maskPII?: boolean;
+    // Longest match to catch across stream chunks; streams hold back one character less (default 64)
+    maxMatchLength?: number;
   };
   auditLog: {
     enabled: boolean;
     destination: "file" | "stdout" | "remote";
     path?: string;
   };
+  // Limits on image inputs; without it any image is passed through
+  images?: {
+    allowedMediaTypes: string[];
+    // Decoded size of base64 images, and of images the gateway downloads
+    maxBytes: number;
+    // Accept image URLs at all; providers that take URLs (OpenAI, Anthropic) fetch them themselves
+    allowUrls: boolean;
+    // Let the gateway download URL images for providers that only take inline data (Gemini,
+    // Ollama). Off unless enabled, since the gateway would fetch whatever URL a client sends.
+    fetchUrls?: {
+      enabled: boolean;
+      // Per download (default 10000)
+      timeoutMs?: number;
+      // Hosts that may be fetched, e.g. "cdn.example.com" or "*.example.com"; any when unset
+      allowedHosts?: string[];
+      // Loopback, private and link-local addresses (such as cloud metadata) are refused unless set
+      allowPrivateNetworks?: boolean;
+    };
+  };
 }
 
 export interface CostConfig {
@@ -10,8 +10,16 @@ interface CostEntry {
   model: string;
   inputTokens: number;
   outputTokens: number;
+  // Part of outputTokens and outputCost spent on reasoning
+  reasoningTokens: number;
+  // Part of inputTokens and inputCost read from and written to the prompt cache
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
   inputCost: number;
   outputCost: number;
+  reasoningCost: number;
+  cacheReadCost: number;
+  cacheWriteCost: number;
   totalCost: number;
   timestamp: Date;
   userId?: string;
@@ -31,6 +39,11 @@ interface CostBreakdown {
   byUser: Record<string, number>;
   byProject: Record<string, number>;
   byFeature: Record<string, number>;
+  // Spend on reasoning tokens, included in the totals above
+  reasoning: number;
+  // Spend on prompt cache reads and writes, included in the totals above
+  cacheReads: number;
+  cacheWrites: number;
 }
 
 export class CostTracker {
@@ -55,14 +68,28 @@ export class CostTracker {
     setInterval(() => this.checkReset(), 60000);
   }
 
+  // Apply new budgets and alert thresholds; spend totals are kept
+  updateConfig(config: CostConfig): void {
+    this.config = config;
+  }
+
   async track(data: {
     requestId: string;
     provider: Provider;
     model: string;
     usage: TokenUsage;
     metadata?: RequestMetadata;
+    // Cost priced from the model's configuration; the built-in table is only a fallback
+    cost?: {
+      inputCost: number;
+      outputCost: number;
+      reasoningCost?: number;
+      cacheReadCost?: number;
+      cacheWriteCost?: number;
+      totalCost: number;
+    };
   }): Promise<void> {
-    const costs = this.calculateCost(data.provider, data.model, data.usage);
+    const costs = data.cost ?? this.calculateCost(data.provider, data.model, data.usage);
 
     const entry: CostEntry = {
       requestId: data.requestId,
@@ -70,8 +97,14 @@ export class CostTracker {
       model: data.model,
       inputTokens: data.usage.inputTokens,
       outputTokens: data.usage.outputTokens,
+      reasoningTokens: data.usage.reasoningTokens ?? 0,
+      cacheReadTokens: data.usage.cacheReadTokens ?? 0,
+      cacheWriteTokens: data.usage.cacheWriteTokens ?? 0,
       inputCost: costs.inputCost,
       outputCost: costs.outputCost,
+      reasoningCost: costs.reasoningCost ?? 0,
+      cacheReadCost: costs.cacheReadCost ?? 0,
+      cacheWriteCost: costs.cacheWriteCost ?? 0,
       totalCost: costs.totalCost,
       timestamp: new Date(),
       userId: data.metadata?.userId,
@@ -153,6 +186,9 @@ export class CostTracker {
       byUser: {},
       byProject: {},
       byFeature: {},
+      reasoning: 0,
+      cacheReads: 0,
+      cacheWrites: 0,
     };
 
     for (const entry of filteredEntries) {
@@ -164,6 +200,10 @@ export class CostTracker {
       breakdown.byModel[entry.model] =
         (breakdown.byModel[entry.model] || 0) + entry.totalCost;
 
+      breakdown.reasoning += entry.reasoningCost;
+      breakdown.cacheReads += entry.cacheReadCost;
+      breakdown.cacheWrites += entry.cacheWriteCost;
+
       // By user
       if (entry.userId && this.config.tracking.byUser) {
         breakdown.byUser[entry.userId] =
@@ -190,7 +230,14 @@ export class CostTracker {
     provider: Provider,
     model: string,
     usage: TokenUsage
-  ): { inputCost: number; outputCost: number; totalCost: number } {
+  ): {
+    inputCost: number;
+    outputCost: number;
+    reasoningCost: number;
+    cacheReadCost: number;
+    cacheWriteCost: number;
+    totalCost: number;
+  } {
     // Cost per 1k tokens (approximate, update with actual pricing)
     const pricing: Record<string, { input: number; output: number }> = {
       // Anthropic
@@ -210,12 +257,19 @@ export class CostTracker {
 
     const modelPricing = pricing[model] || { input: 0.001, output: 0.002 };
 
+    // Without a model config there are no cache prices; cached input is priced as input
     const inputCost = (usage.inputTokens / 1000) * modelPricing.input;
     const outputCost = (usage.outputTokens / 1000) * modelPricing.output;
+    const reasoningCost = ((usage.reasoningTokens ?? 0) / 1000) * modelPricing.output;
+    const cacheReadCost = ((usage.cacheReadTokens ?? 0) / 1000) * modelPricing.input;
+    const cacheWriteCost = ((usage.cacheWriteTokens ?? 0) / 1000) * modelPricing.input;
 
     return {
       inputCost,
       outputCost,
+      reasoningCost,
+      cacheReadCost,
+      cacheWriteCost,
       totalCost: inputCost + outputCost,
     };
   }
@@ -347,6 +401,9 @@ export class CostTracker {
         "model",
         "inputTokens",
         "outputTokens",
+        "reasoningTokens",
+        "cacheReadTokens",
+        "cacheWriteTokens",
         "totalCost",
         "userId",
         "projectId",
@@ -359,6 +416,9 @@ export class CostTracker {
           e.model,
           e.inputTokens,
           e.outputTokens,
+          e.reasoningTokens,
+          e.cacheReadTokens,
+          e.cacheWriteTokens,
           e.totalCost.toFixed(6),
           e.userId || "",
           e.projectId || "",
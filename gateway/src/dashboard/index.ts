@@ -18,6 +18,7 @@ export {
 
 export {
   DashboardServer,
+  connectGateway,
   createDashboardServer,
   type DashboardServerConfig,
 } from "./server";
@@ -16,6 +16,11 @@ export interface RequestMetric {
   cached: boolean;
   success: boolean;
   error?: string;
+  // Streamed requests only
+  firstTokenMs?: number;
+  tokensPerSecond?: number;
+  interChunkP95Ms?: number;
+  stalls?: number;
 }
 
 export interface ProviderHealth {
@@ -73,6 +78,14 @@ export interface AggregatedMetrics {
     output: number;
     total: number;
   };
+  streaming: {
+    count: number;
+    firstTokenP50: number;
+    firstTokenP95: number;
+    interChunkP95: number;
+    avgTokensPerSecond: number;
+    stalls: number;
+  };
   providers: ProviderHealth[];
   cache: CacheStats;
   cost: CostMetrics;
@@ -147,6 +160,8 @@ export class MetricsCollector {
     errors: number;
     successes: number;
     circuitState: "closed" | "open" | "half-open";
+    // Result of the last health probe, if any
+    probeHealthy?: boolean;
     lastError?: string;
     lastErrorTime?: number;
   }> = new Map();
@@ -279,6 +294,24 @@ export class MetricsCollector {
     }
   }
 
+  /**
+   * Record a health probe result, e.g. from the gateway's HealthMonitor.
+   * A failed probe shows the provider as down until the next successful one.
+   */
+  recordHealthProbe(provider: string, healthy: boolean, error?: string): void {
+    let providerState = this.providerStates.get(provider);
+    if (!providerState) {
+      providerState = { latencies: [], errors: 0, successes: 0, circuitState: "closed" };
+      this.providerStates.set(provider, providerState);
+    }
+
+    providerState.probeHealthy = healthy;
+    if (!healthy) {
+      providerState.lastError = error;
+      providerState.lastErrorTime = Date.now();
+    }
+  }
+
   /**
    * Set budget
    */
@@ -328,6 +361,9 @@ export class MetricsCollector {
     const latencies = windowRequests.map(r => r.latencyMs).sort((a, b) => a - b);
     const successful = windowRequests.filter(r => r.success);
     const cached = windowRequests.filter(r => r.cached);
+    const streamed = windowRequests.filter(r => r.firstTokenMs !== undefined);
+    const firstTokens = streamed.map(r => r.firstTokenMs!).sort((a, b) => a - b);
+    const interChunk = streamed.map(r => r.interChunkP95Ms ?? 0).sort((a, b) => a - b);
 
     // Calculate projections based on recent rate
     const hourMs = 60 * 60 * 1000;
@@ -360,6 +396,16 @@ export class MetricsCollector {
         output: windowRequests.reduce((sum, r) => sum + r.outputTokens, 0),
         total: windowRequests.reduce((sum, r) => sum + r.inputTokens + r.outputTokens, 0),
       },
+      streaming: {
+        count: streamed.length,
+        firstTokenP50: this.percentile(firstTokens, 50),
+        firstTokenP95: this.percentile(firstTokens, 95),
+        interChunkP95: this.percentile(interChunk, 95),
+        avgTokensPerSecond: streamed.length > 0
+          ? streamed.reduce((sum, r) => sum + (r.tokensPerSecond ?? 0), 0) / streamed.length
+          : 0,
+        stalls: streamed.reduce((sum, r) => sum + (r.stalls ?? 0), 0),
+      },
       providers: this.getProviderHealth(),
       cache: { ...this.cacheStats },
       cost: { ...this.costMetrics },
@@ -378,7 +424,7 @@ export class MetricsCollector {
       const successRate = total > 0 ? (state.successes / total) * 100 : 100;
 
       let status: "healthy" | "degraded" | "down" = "healthy";
-      if (state.circuitState === "open") {
+      if (state.circuitState === "open" || state.probeHealthy === false) {
         status = "down";
       } else if (successRate < 95 || state.circuitState === "half-open") {
         status = "degraded";
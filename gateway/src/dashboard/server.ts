@@ -3,6 +3,7 @@
  */
 
 import { MetricsCollector, getMetricsCollector, type DashboardState } from "./metrics-collector";
+import type { LLMGateway } from "../core/gateway";
 
 export interface DashboardServerConfig {
   port: number;
@@ -1020,13 +1021,30 @@ export class DashboardServer {
 }
 
 /**
- * Create and start dashboard server
+ * Feed a collector from a gateway: every request it finishes and every health probe.
+ * Returns a function that stops both.
+ */
+export function connectGateway(collector: MetricsCollector, gateway: LLMGateway): () => void {
+  const stopMetrics = gateway.subscribeMetrics((metric) => collector.recordRequest(metric));
+  const stopProbes = gateway
+    .getHealthMonitor()
+    .subscribe((health) => collector.recordHealthProbe(health.provider, health.healthy, health.error));
+  return () => {
+    stopMetrics();
+    stopProbes();
+  };
+}
+
+/**
+ * Create and start dashboard server, showing the gateway's requests and health probes if given
  */
 export function createDashboardServer(
-  config?: Partial<DashboardServerConfig>
+  config?: Partial<DashboardServerConfig>,
+  gateway?: LLMGateway
 ): DashboardServer {
   const collector = getMetricsCollector();
   collector.start();
+  if (gateway) connectGateway(collector, gateway);
   const server = new DashboardServer(collector, config);
   server.start();
   return server;
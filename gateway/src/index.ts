@@ -2,37 +2,158 @@
  * LLM Gateway - Production-grade AI orchestration
  *
  * Features:
- * - Multi-provider support (Anthropic, OpenAI, Gemini, Ollama)
+ * - Multi-provider support (Anthropic, OpenAI, Azure OpenAI, Gemini, Ollama, any OpenAI-compatible endpoint)
+ * - Provider plugin registry for third-party providers
  * - Semantic caching (up to 95% cost reduction)
  * - Intelligent routing (cost, latency, quality optimization)
  * - Circuit breakers and automatic failover
+ * - Cached, cheap provider health probes with an optional background monitor
+ * - Provider rate-limit tracking with client-side limits, queueing and rerouting
+ * - Model discovery from provider list endpoints, priced from a model catalog
  * - Distributed tracing (OpenTelemetry compatible)
  * - Cost tracking with budget alerts
- * - Security guardrails (PII detection, prompt injection prevention)
+ * - Security guardrails (PII detection, prompt injection prevention, streamed output sanitization)
  * - Evaluation framework (automated evals, A/B testing, LLM-as-Judge)
  * - Async job queue for background processing
- * - Streaming support with first-token latency tracking
+ * - Streaming support with mid-stream failover, throughput, inter-chunk latency and stall metrics
+ * - Shared upstream streams for identical concurrent prompts, with replay for late joiners
+ * - Streamed tool calls assembled per call, with live partial arguments
+ * - Pluggable middleware pipeline (before-request, after-response, on-error hooks)
+ * - YAML/JSON config files with validation and hot reload
+ * - Multi-tenant virtual API keys with per-key policies
+ * - Tool-calling agent loop with argument validation and step/cost limits
+ * - Structured output with JSON Schema/zod validation and repair
+ * - Provider-neutral reasoning options with reasoning token accounting
+ * - Provider prompt caching with automatic breakpoints and cache-rate pricing
  * - Real-time monitoring dashboard
+ * - OpenAI-compatible HTTP API (/v1/chat/completions, /v1/models)
+ * - Anthropic Messages-compatible HTTP API (/v1/messages)
  * - Kubernetes-ready with Helm charts
  */
 
 // Core
-export { LLMGateway, createGateway } from "./core/gateway";
-export { ProviderAdapter } from "./core/providers";
-export { StreamingProvider } from "./core/streaming";
+export {
+  LLMGateway,
+  createGateway,
+  defaultGatewayConfig,
+  resolveGatewayConfig,
+} from "./core/gateway";
+export { ProviderAdapter, BUILTIN_PROVIDERS, providerKind } from "./core/providers";
+export {
+  StreamingProvider,
+  ToolCallAssembler,
+  resumeMessages,
+  DEFAULT_STALL_THRESHOLD_MS,
+} from "./core/streaming";
+export { parsePartialJson } from "./core/partial-json";
+export { StreamMultiplexer } from "./core/stream-multiplexer";
+export type { StreamChunk, StreamFailover, StreamMetrics, StreamingOptions } from "./core/streaming";
+export { resolveMiddleware, createBuiltinMiddleware, BUILTIN_MIDDLEWARE } from "./core/middleware";
+export type { GatewayMiddleware, MiddlewareContext, MiddlewareConfig } from "./core/middleware";
+export {
+  GatewayError,
+  BudgetExceededError,
+  SecurityBlockedError,
+  RateLimitedError,
+  ProviderError,
+  TimeoutError,
+  NoEligibleModelError,
+  CircuitOpenError,
+  InvalidApiKeyError,
+  PermissionDeniedError,
+  QuotaExceededError,
+  InvalidOutputError,
+  OutputBlockedError,
+  InvalidRequestError,
+} from "./core/errors";
+export type { GatewayErrorCode } from "./core/errors";
 export type {
   GatewayRequest,
   GatewayResponse,
   GatewayConfig,
   Message,
   Provider,
+  BuiltinProvider,
+  ProviderKind,
+  ProviderConfig,
   ModelConfig,
   RoutingStrategy,
   RoutingDecision,
   TokenUsage,
   CostBreakdown,
+  AttemptRecord,
+  RequestPrincipal,
+  ResponseFormat,
+  ProviderHealth,
+  HealthProbe,
+  HealthMonitorConfig,
+  ProviderHealthCheckConfig,
+  DiscoveryConfig,
+  RateLimitConfig,
+  RateLimitSnapshot,
+  ReasoningOptions,
+  ReasoningEffort,
+  PromptCachingConfig,
 } from "./core/types";
+export { zodToJsonSchema, parseStructuredOutput } from "./core/structured-output";
+export { validateJsonSchema, formatSchemaIssues } from "./core/json-schema";
+export type { JsonSchema, SchemaIssue } from "./core/json-schema";
+
+// Config
+export {
+  ConfigError,
+  ConfigWatcher,
+  createGatewayFromFile,
+  gatewayConfigSchema,
+  loadConfigFile,
+  parseConfigSource,
+  validateConfig,
+} from "./config";
+export type { ConfigFormat, ConfigWatcherOptions } from "./config";
+
+// Auth
+export {
+  ApiKeyManager,
+  FileKeyStore,
+  SqliteKeyStore,
+  KeyPolicyEnforcer,
+  openKeyStore,
+  toPublicKey,
+} from "./auth";
+export type { ApiKeyRecord, ApiKeyStore, KeyPolicy, PublicApiKey, IssueKeyInput } from "./auth";
 
+// Providers
+export {
+  ProviderRegistry,
+  BUILTIN_PLUGINS,
+  defaultProviderRegistry,
+  registerProvider,
+  anthropicProvider,
+  openaiProvider,
+  openAICompatibleProvider,
+  azureOpenAIProvider,
+  geminiProvider,
+  ollamaProvider,
+  readLines,
+  parseSSEData,
+  parseRateLimitHeaders,
+  reasoningBudget,
+  reasoningEffort,
+} from "./providers";
+export type { ProviderPlugin, CompletionResult } from "./providers";
+
+// Agent
+export { AgentRunner, createAgentRunner } from "./agent";
+export type {
+  AgentTool,
+  AgentToolContext,
+  AgentRunnerConfig,
+  AgentRunRequest,
+  AgentRunResult,
+  AgentStep,
+  AgentStopReason,
+  AgentToolResult,
+} from "./agent";
 // Cache
 export { SemanticCache, RedisSemanticCache } from "./cache/semantic-cache";
 export { DistributedRedisCache } from "./cache/redis-cache";
@@ -41,9 +162,23 @@ export { EmbeddingProvider } from "./cache/embeddings";
 // Routing
 export { IntelligentRouter } from "./routing/router";
 
+// Catalog
+export {
+  CatalogError,
+  DEFAULT_MODEL_CATALOG,
+  findCatalogEntry,
+  loadModelCatalog,
+  buildCatalogView,
+  discoverProviderModels,
+} from "./catalog";
+export type { ModelCatalog, ModelCatalogEntry, CatalogModel, ProviderDiscovery } from "./catalog";
+
 // Reliability
 export { CircuitBreaker, CircuitBreakerRegistry } from "./reliability/circuit-breaker";
 export { RetryHandler, RequestDeduplicator } from "./reliability/retry";
+export { HealthMonitor, DEFAULT_HEALTH_MONITOR_CONFIG } from "./reliability/health-monitor";
+export { RateLimitTracker, DEFAULT_RATE_LIMIT_QUEUE_MS } from "./reliability/rate-limits";
+export type { RateLimitSlot, ProviderRateLimitState } from "./reliability/rate-limits";
 
 // Observability
 export { Tracer, MetricsCollector as TracerMetrics } from "./observability/tracer";
@@ -51,6 +186,8 @@ export { Logger, AuditLogger } from "./observability/logger";
 
 // Security
 export { SecurityGuard, RateLimiter } from "./security/guard";
+export { StreamSanitizer, DEFAULT_MAX_MATCH_LENGTH } from "./security/stream-sanitizer";
+export type { SanitizerRule } from "./security/stream-sanitizer";
 
 // Cost
 export { CostTracker } from "./cost/tracker";
@@ -70,8 +207,22 @@ export {
   MetricsCollector,
   getMetricsCollector,
   DashboardServer,
+  connectGateway,
   createDashboardServer,
 } from "./dashboard";
+export type { RequestMetric } from "./dashboard";
+
+// Server
+export {
+  GatewayServer,
+  createGatewayServer,
+  fromOpenAIRequest,
+  toOpenAIResponse,
+  OpenAIChunkEncoder,
+  fromAnthropicRequest,
+  toAnthropicResponse,
+  AnthropicEventEncoder,
+} from "./server";
 
 // Quick start helper
 export function quickStart() {
@@ -141,6 +292,10 @@ export function quickStart() {
 5. Run the playground:
    bun run playground
 
+6. Serve the OpenAI-compatible API:
+   bun run serve
+   # then point any OpenAI SDK at http://localhost:8080/v1
+
 For full documentation, see the README.md
 `);
 }
@@ -155,10 +310,29 @@ if (import.meta.main) {
     // Health check
     const { createGateway: createGw } = await import("./core/gateway");
     const gateway = createGw();
-    const health = await gateway.healthCheck();
     console.log("Provider Health:");
-    for (const [provider, healthy] of Object.entries(health)) {
-      console.log(`  ${provider}: ${healthy ? "✓" : "✗"}`);
+    for (const health of await gateway.getProviderHealth()) {
+      const detail = health.healthy ? `${health.latencyMs}ms` : health.error;
+      console.log(`  ${health.provider}: ${health.healthy ? "✓" : "✗"} (${health.probe}, ${detail})`);
+    }
+  } else if (args[0] === "models") {
+    // Discover models and print the merged catalog
+    const configIndex = args.indexOf("--config");
+    const configPath = configIndex >= 0 ? args[configIndex + 1] : process.env.GATEWAY_CONFIG;
+    const { createGateway: createGw } = await import("./core/gateway");
+    const { createGatewayFromFile } = await import("./config");
+    const gateway = configPath ? (await createGatewayFromFile(configPath)).gateway : createGw();
+    const discovery = await gateway.discoverModels();
+    console.log("Models:");
+    for (const m of gateway.getModelCatalog()) {
+      const price = `$${m.costPer1kInput}/$${m.costPer1kOutput} per 1k`;
+      console.log(`  ${m.provider}:${m.model}  ${m.tier}  ${price}  ${m.source}  ${m.status}`);
+    }
+    for (const result of discovery) {
+      if (result.error) console.log(`  ${result.provider}: discovery failed (${result.error})`);
+      if (result.uncataloged.length > 0) {
+        console.log(`  ${result.provider}: not in catalog: ${result.uncataloged.join(", ")}`);
+      }
     }
   } else if (args[0] === "stats") {
     // Get stats
@@ -168,11 +342,17 @@ if (import.meta.main) {
     console.log("Gateway Stats:");
     console.log(JSON.stringify(stats, null, 2));
   } else if (args[0] === "dashboard") {
-    // Start dashboard server
+    // Start dashboard server, probing the configured providers in the background
     const port = parseInt(args[1]) || 3001;
+    const configIndex = args.indexOf("--config");
+    const configPath = configIndex >= 0 ? args[configIndex + 1] : process.env.GATEWAY_CONFIG;
+    const { createGateway: createGw } = await import("./core/gateway");
+    const { createGatewayFromFile } = await import("./config");
     const { createDashboardServer } = await import("./dashboard");
     console.log("Starting LLM Gateway Dashboard...");
-    const server = createDashboardServer({ port });
+    const gateway = configPath ? (await createGatewayFromFile(configPath)).gateway : createGw();
+    const server = createDashboardServer({ port }, gateway);
+    gateway.getHealthMonitor().start();
     console.log(`Dashboard available at http://localhost:${port}/dashboard`);
     console.log("Press Ctrl+C to stop");
     // Keep process running
@@ -181,6 +361,39 @@ if (import.meta.main) {
       server.stop();
       process.exit(0);
     });
+  } else if (args[0] === "serve") {
+    // Start the OpenAI-compatible API server, optionally from a hot-reloaded config file
+    const flag = (name: string) => {
+      const i = args.indexOf(name);
+      return i >= 0 ? args[i + 1] : undefined;
+    };
+    const configPath = flag("--config") || process.env.GATEWAY_CONFIG;
+    const keysPath = flag("--keys") || process.env.GATEWAY_KEYS;
+    const port = parseInt(args[1]) || 8080;
+    const { createGateway: createGw } = await import("./core/gateway");
+    const { createGatewayFromFile } = await import("./config");
+    const { createGatewayServer } = await import("./server");
+    const { ApiKeyManager, openKeyStore } = await import("./auth");
+    const { gateway, watcher } = configPath
+      ? await createGatewayFromFile(configPath, {
+          watch: true,
+          onReload: () => console.log(`Reloaded config from ${configPath}`),
+        })
+      : { gateway: createGw(), watcher: null };
+    const server = createGatewayServer(gateway, {
+      port,
+      keys: keysPath ? new ApiKeyManager(openKeyStore(keysPath)) : undefined,
+      adminToken: process.env.GATEWAY_ADMIN_TOKEN,
+    });
+    if (keysPath) console.log(`API keys required (store: ${keysPath})`);
+    if (configPath) console.log(`Watching ${configPath} for changes`);
+    console.log("Press Ctrl+C to stop");
+    process.on("SIGINT", () => {
+      console.log("\nShutting down gateway server...");
+      watcher?.stop();
+      server.stop();
+      process.exit(0);
+    });
   } else if (args[0] === "playground") {
     // Start interactive playground - just import the file which starts the server
     await import("./playground/server");
@@ -3,6 +3,7 @@
  */
 
 import { nanoid } from "nanoid";
+import type { StreamMetrics } from "../core/streaming";
 
 interface TracingConfig {
   enabled: boolean;
@@ -308,6 +309,16 @@ export class MetricsCollector {
     this.increment("cost_usd_total", costUsd, labels);
   }
 
+  recordStream(provider: string, model: string, metrics: StreamMetrics): void {
+    const labels = { provider, model };
+    this.increment("streams_total", 1, labels);
+    this.histogram("stream_first_token_ms", metrics.firstTokenMs, labels);
+    this.histogram("stream_tokens_per_second", metrics.tokensPerSecond, labels);
+    this.histogram("stream_inter_chunk_p95_ms", metrics.interChunkMs.p95, labels);
+    this.histogram("stream_inter_chunk_max_ms", metrics.interChunkMs.max, labels);
+    this.increment("stream_stalls_total", metrics.stalls, labels);
+  }
+
   recordCacheHit(hit: boolean): void {
     if (hit) {
       this.increment("cache_hits_total");
@@ -4,6 +4,7 @@
 
 import { createGateway } from "../core/gateway";
 import type { GatewayRequest, RoutingStrategy } from "../core/types";
+import { GatewayError } from "../core/errors";
 
 const gateway = createGateway();
 
@@ -282,6 +283,9 @@ const server = Bun.serve({
         return Response.json(response);
       } catch (error) {
         const err = error as Error;
+        if (err instanceof GatewayError) {
+          return Response.json({ error: err.message, code: err.code }, { status: err.status });
+        }
         return Response.json({ error: err.message }, { status: 500 });
       }
     }
@@ -0,0 +1,359 @@
+/**
+ * Anthropic Provider - Messages API
+ */
+
+import type { GatewayRequest, ProviderConfig, TokenUsage } from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+import { ProviderError } from "../core/errors";
+import {
+  anthropicToolSchema,
+  responseJsonSchema,
+  responseSchemaName,
+} from "../core/structured-output";
+import { ANTHROPIC_CACHE_CONTROL, toAnthropicMessages } from "./messages";
+import { reasoningBudget } from "./reasoning";
+import { parseRateLimitHeaders, parseSSEData, readLines, streamError, truncatedStreamError } from "./http";
+import type { CompletionResult, ProviderPlugin } from "./types";
+
+const API_URL = "https://api.anthropic.com/v1";
+const MIN_THINKING_BUDGET = 1024;
+// Anthropic rejects requests with more cache breakpoints
+const MAX_CACHE_BREAKPOINTS = 4;
+// Shortest prefix Anthropic caches on Sonnet and Opus models
+const DEFAULT_CACHE_MIN_TOKENS = 1024;
+
+// HTTP status of each Anthropic error type, for errors sent as stream events
+const ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+type AnthropicUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+};
+
+function headers(config: ProviderConfig): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "x-api-key": config.apiKey,
+    "anthropic-version": "2023-06-01",
+    ...config.headers,
+  };
+}
+
+function toAnthropicTools(request: GatewayRequest): Record<string, unknown>[] | undefined {
+  if (!request.tools || request.tools.length === 0) return undefined;
+  return request.tools.map((t) => ({
+    name: t.name,
+    description: t.description,
+    input_schema: t.inputSchema,
+  }));
+}
+
+// Extended thinking: the budget comes on top of the answer's max_tokens,
+// and a custom temperature is not allowed alongside it
+function applyThinking(body: Record<string, unknown>, request: GatewayRequest): void {
+  if (!request.reasoning) return;
+  const budget = Math.max(MIN_THINKING_BUDGET, reasoningBudget(request.reasoning));
+  body.thinking = { type: "enabled", budget_tokens: budget };
+  body.max_tokens = budget + (request.maxTokens || 4096);
+  delete body.temperature;
+}
+
+// Prompt caching: mark the end of long tool definitions and the system prompt, in the
+// order Anthropic caches them, with whatever breakpoints explicit markers left over
+function applyCacheBreakpoints(body: Record<string, unknown>, config: ProviderConfig): void {
+  if (config.promptCaching?.auto === false) return;
+  const minTokens = config.promptCaching?.minTokens ?? DEFAULT_CACHE_MIN_TOKENS;
+  let available = MAX_CACHE_BREAKPOINTS - countCacheBreakpoints(body);
+
+  const tools = body.tools as Record<string, unknown>[] | undefined;
+  const toolTokens = tools ? estimateTokens(JSON.stringify(tools)) : 0;
+  if (tools?.length && toolTokens >= minTokens && available > 0 && !tools[tools.length - 1]!.cache_control) {
+    tools[tools.length - 1] = { ...tools[tools.length - 1], cache_control: ANTHROPIC_CACHE_CONTROL };
+    available--;
+  }
+
+  // The system prompt's breakpoint caches the tools before it as well
+  const system = body.system as string | Record<string, unknown>[] | undefined;
+  if (!system || available <= 0) return;
+  const systemTokens = estimateTokens(typeof system === "string" ? system : JSON.stringify(system));
+  if (toolTokens + systemTokens < minTokens) return;
+  if (typeof system === "string") {
+    body.system = [{ type: "text", text: system, cache_control: ANTHROPIC_CACHE_CONTROL }];
+  } else if (!system[system.length - 1]!.cache_control) {
+    system[system.length - 1] = { ...system[system.length - 1], cache_control: ANTHROPIC_CACHE_CONTROL };
+  }
+}
+
+function countCacheBreakpoints(body: Record<string, unknown>): number {
+  const blocks = [
+    ...((body.tools as Record<string, unknown>[] | undefined) ?? []),
+    ...(Array.isArray(body.system) ? (body.system as Record<string, unknown>[]) : []),
+    ...(body.messages as Array<{ content: unknown }>).flatMap((m) =>
+      Array.isArray(m.content) ? (m.content as Record<string, unknown>[]) : []
+    ),
+  ];
+  return blocks.filter((b) => b.cache_control).length;
+}
+
+// Same rough four-characters-per-token estimate as ContextManager
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Anthropic reports cached input apart from input_tokens; the gateway counts it as input
+function toTokenUsage(usage: AnthropicUsage): TokenUsage {
+  const cacheReadTokens = usage.cache_read_input_tokens ?? 0;
+  const cacheWriteTokens = usage.cache_creation_input_tokens ?? 0;
+  const inputTokens = usage.input_tokens + cacheReadTokens + cacheWriteTokens;
+  return {
+    inputTokens,
+    outputTokens: usage.output_tokens,
+    totalTokens: inputTokens + usage.output_tokens,
+    ...(cacheReadTokens ? { cacheReadTokens } : {}),
+    ...(cacheWriteTokens ? { cacheWriteTokens } : {}),
+  };
+}
+
+export const anthropicProvider: ProviderPlugin = {
+  kind: "anthropic",
+
+  async complete(config, request, model): Promise<CompletionResult> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    const body: Record<string, unknown> = {
+      model,
+      max_tokens: request.maxTokens || 4096,
+      messages,
+    };
+
+    if (system) {
+      body.system = system;
+    }
+
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+
+    const tools = toAnthropicTools(request);
+    if (tools) {
+      body.tools = tools;
+    }
+
+    // No JSON mode on Anthropic: force a tool call whose input is the structured answer
+    let forcedTool: { name: string; wrapped: boolean } | undefined;
+    if (request.responseFormat) {
+      const name = responseSchemaName(request.responseFormat);
+      const { schema, wrapped } = anthropicToolSchema(responseJsonSchema(request.responseFormat));
+      body.tools = [
+        ...(tools ?? []),
+        { name, description: "Respond with the requested structured output", input_schema: schema },
+      ];
+      body.tool_choice = { type: "tool", name };
+      forcedTool = { name, wrapped };
+    } else {
+      // Thinking cannot be combined with a forced tool choice
+      applyThinking(body, request);
+    }
+
+    applyCacheBreakpoints(body, config);
+
+    const response = await fetch(`${API_URL}/messages`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Anthropic API error");
+    }
+
+    const data = (await response.json()) as {
+      content: Array<{ type: string; text?: string; thinking?: string; id?: string; name?: string; input?: unknown }>;
+      stop_reason?: string | null;
+      usage: AnthropicUsage;
+    };
+
+    const usage = toTokenUsage(data.usage);
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    const finishReason = data.stop_reason ?? undefined;
+
+    const forced = forcedTool
+      ? data.content.find((c) => c.type === "tool_use" && c.name === forcedTool.name)
+      : undefined;
+    if (forcedTool && forced) {
+      const input = forcedTool.wrapped ? (forced.input as { value?: unknown }).value : forced.input;
+      // The forced tool call is the answer itself, not a call the caller should run
+      return {
+        content: JSON.stringify(input),
+        usage,
+        rateLimit,
+        finishReason: finishReason === "tool_use" ? "end_turn" : finishReason,
+      };
+    }
+
+    const textContent = data.content
+      .filter((c) => c.type === "text")
+      .map((c) => c.text)
+      .join("");
+    const thinking = data.content
+      .filter((c) => c.type === "thinking")
+      .map((c) => c.thinking)
+      .join("");
+
+    const toolCalls = data.content
+      .filter((c) => c.type === "tool_use")
+      .map((c) => ({
+        id: c.id!,
+        name: c.name!,
+        arguments: JSON.stringify(c.input),
+      }));
+
+    return {
+      content: textContent,
+      reasoning: thinking || undefined,
+      usage,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      rateLimit,
+      finishReason,
+    };
+  },
+
+  async *stream(config, request, model): AsyncGenerator<StreamChunk> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+
+    const body: Record<string, unknown> = {
+      model,
+      max_tokens: request.maxTokens || 4096,
+      stream: true,
+      messages,
+    };
+
+    if (system) {
+      body.system = system;
+    }
+
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+
+    const tools = toAnthropicTools(request);
+    if (tools) {
+      body.tools = tools;
+    }
+
+    applyThinking(body, request);
+    applyCacheBreakpoints(body, config);
+
+    const response = await fetch(`${API_URL}/messages`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Anthropic streaming error");
+    }
+
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    // Input and cache counts arrive with message_start, the output count with message_delta
+    let startUsage: AnthropicUsage | undefined;
+
+    for await (const line of readLines(response)) {
+      const event = parseSSEData<{
+        type: string;
+        // Content block the event belongs to
+        index?: number;
+        delta?: { type?: string; text?: string; thinking?: string; partial_json?: string; stop_reason?: string | null };
+        content_block?: { type: string; id?: string; name?: string };
+        message?: { usage: AnthropicUsage };
+        usage?: { output_tokens: number };
+        error?: { type: string; message: string };
+      }>(line);
+      if (!event) continue;
+
+      if (event.type === "error") {
+        const error = event.error ?? { type: "api_error", message: "Unknown error" };
+        throw streamError(
+          config.provider,
+          `Anthropic streaming error: ${error.type} - ${error.message}`,
+          ERROR_STATUS[error.type]
+        );
+      } else if (event.type === "message_start" && event.message?.usage) {
+        startUsage = event.message.usage;
+      } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        yield { type: "text", content: event.delta.text };
+      } else if (event.type === "content_block_delta" && event.delta?.type === "thinking_delta") {
+        yield { type: "reasoning", content: event.delta.thinking };
+      } else if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+        yield {
+          type: "tool_call",
+          toolCall: {
+            id: event.content_block.id!,
+            name: event.content_block.name!,
+            arguments: "",
+            index: event.index,
+          },
+        };
+      } else if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+        yield {
+          type: "tool_call",
+          toolCall: { id: "", name: "", arguments: event.delta.partial_json || "", index: event.index },
+        };
+      } else if (event.type === "message_stop") {
+        yield { type: "done", rateLimit };
+        return;
+      } else if (event.type === "message_delta") {
+        yield {
+          type: "done",
+          usage:
+            event.usage &&
+            toTokenUsage({ input_tokens: 0, ...startUsage, output_tokens: event.usage.output_tokens }),
+          finishReason: event.delta?.stop_reason ?? undefined,
+          rateLimit,
+        };
+      }
+    }
+
+    throw truncatedStreamError(config.provider, "Anthropic streaming error", "message_stop");
+  },
+
+  // Listing models is free and does not count against token rate limits
+  async healthCheck(config) {
+    const response = await fetch(`${API_URL}/models?limit=1`, { headers: headers(config) });
+    return response.ok;
+  },
+
+  async listModels(config) {
+    const response = await fetch(`${API_URL}/models?limit=1000`, { headers: headers(config) });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Anthropic API error");
+    }
+    const data = (await response.json()) as { data: Array<{ id: string }> };
+    return data.data.map((m) => m.id);
+  },
+
+  async countTokens(config, request, model) {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const response = await fetch(`${API_URL}/messages/count_tokens`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify({ model, messages, system, tools: toAnthropicTools(request) }),
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Anthropic API error");
+    }
+    const data = (await response.json()) as { input_tokens: number };
+    return data.input_tokens;
+  },
+};
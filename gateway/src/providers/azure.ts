@@ -0,0 +1,99 @@
+/**
+ * Azure OpenAI Provider - Chat Completions on per-resource deployments
+ * Requests go to {baseUrl}/openai/deployments/{deployment}/... with an api-version query
+ * and an api-key header. Each ModelConfig maps its logical model to a deployment, so the
+ * same model name can be routed to Azure and public OpenAI interchangeably.
+ */
+
+import type { ProviderConfig } from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+import { ProviderError } from "../core/errors";
+import { openAIChatBody, parseOpenAICompletion, readOpenAIStream } from "./openai";
+import type { CompletionResult, ProviderPlugin } from "./types";
+
+// Latest GA data-plane version; override per provider with apiVersion
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+/**
+ * Deployment serving a configured model; defaults to the model name
+ */
+export function azureDeployment(config: ProviderConfig, model: string): string {
+  return config.models.find((m) => m.model === model)?.deployment ?? model;
+}
+
+function azureUrl(config: ProviderConfig, path: string): string {
+  const base = config.baseUrl!.replace(/\/+$/, "");
+  const version = encodeURIComponent(config.apiVersion ?? DEFAULT_AZURE_API_VERSION);
+  return `${base}/openai/${path}?api-version=${version}`;
+}
+
+function deploymentUrl(config: ProviderConfig, model: string, operation: string): string {
+  return azureUrl(config, `deployments/${encodeURIComponent(azureDeployment(config, model))}/${operation}`);
+}
+
+// Configured headers win, e.g. an Entra ID "Authorization: Bearer" instead of the key
+function headers(config: ProviderConfig): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(config.apiKey ? { "api-key": config.apiKey } : {}),
+    ...config.headers,
+  };
+}
+
+export const azureOpenAIProvider: ProviderPlugin = {
+  kind: "azure_openai",
+
+  async complete(config, request, model): Promise<CompletionResult> {
+    const response = await fetch(deploymentUrl(config, model, "chat/completions"), {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify(openAIChatBody(request, model, false)),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Azure OpenAI API error");
+    }
+
+    return parseOpenAICompletion(response);
+  },
+
+  async *stream(config, request, model): AsyncGenerator<StreamChunk> {
+    const response = await fetch(deploymentUrl(config, model, "chat/completions"), {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify(openAIChatBody(request, model, true)),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Azure OpenAI streaming error");
+    }
+
+    yield* readOpenAIStream(response, config.provider, "Azure OpenAI streaming error");
+  },
+
+  async healthCheck(config) {
+    const response = await fetch(azureUrl(config, "models"), { headers: headers(config) });
+    return response.ok;
+  },
+
+  async embed(config, input, model) {
+    const response = await fetch(deploymentUrl(config, model, "embeddings"), {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify({ input }),
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Azure OpenAI API error");
+    }
+    const data = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+    return [...data.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  },
+
+  validateConfig(config) {
+    if (!config.baseUrl) {
+      throw new Error(
+        `Provider ${config.provider} is azure_openai and needs a baseUrl, e.g. https://<resource>.openai.azure.com`
+      );
+    }
+  },
+};
@@ -0,0 +1,309 @@
+/**
+ * Gemini Provider - Generative Language API
+ */
+
+import { nanoid } from "nanoid";
+import type { ContentBlock, GatewayRequest, ProviderConfig, TokenUsage, ToolCall } from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+import { ProviderError } from "../core/errors";
+import { responseJsonSchema, toGeminiSchema } from "../core/structured-output";
+import { loadImage } from "../core/images";
+import { toolCallNames, toolResultText } from "./messages";
+import { reasoningBudget } from "./reasoning";
+import { parseSSEData, readLines, streamError, truncatedStreamError } from "./http";
+import type { CompletionResult, ProviderPlugin } from "./types";
+
+const API_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+function headers(config: ProviderConfig): Record<string, string> {
+  return { "Content-Type": "application/json", ...config.headers };
+}
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { name: string; args: unknown } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } };
+
+type GeminiContent = { role: string; parts: GeminiPart[] };
+
+/**
+ * Convert non-system messages to Gemini contents. Images become inlineData parts,
+ * tool_use blocks functionCall parts, and tool messages functionResponse parts
+ * (consecutive results share one turn, as Gemini expects).
+ */
+function toGeminiContents(request: GatewayRequest): GeminiContent[] {
+  const names = toolCallNames(request.messages);
+  const contents: GeminiContent[] = [];
+
+  for (const m of request.messages) {
+    if (m.role === "system") continue;
+
+    if (m.role === "tool") {
+      const part: GeminiPart = {
+        functionResponse: {
+          name: names.get(m.toolCallId ?? "") ?? m.name ?? "tool",
+          response: toFunctionResponse(toolResultText(m)),
+        },
+      };
+      const previous = contents[contents.length - 1];
+      if (previous?.parts.every((p) => "functionResponse" in p)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: "user", parts: [part] });
+      }
+      continue;
+    }
+
+    contents.push({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: typeof m.content === "string" ? [{ text: m.content }] : toGeminiParts(m.content),
+    });
+  }
+
+  return contents;
+}
+
+function toGeminiParts(blocks: ContentBlock[]): GeminiPart[] {
+  return blocks.map((block): GeminiPart => {
+    if (block.type === "image" && block.source) {
+      const { mediaType, data } = loadImage(block.source);
+      return { inlineData: { mimeType: mediaType, data } };
+    }
+    if (block.type === "tool_use") return { functionCall: { name: block.name ?? "", args: block.input ?? {} } };
+    if (block.type === "text") return { text: block.text ?? "" };
+    return { text: JSON.stringify(block) };
+  });
+}
+
+// functionResponse.response must be an object; other results are wrapped
+function toFunctionResponse(text: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(text);
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) return value;
+    return { result: value };
+  } catch {
+    return { result: text };
+  }
+}
+
+function toGeminiTools(request: GatewayRequest): Record<string, unknown>[] | undefined {
+  if (!request.tools || request.tools.length === 0) return undefined;
+  return [
+    {
+      functionDeclarations: request.tools.map((t) => ({
+        name: t.name,
+        description: t.description,
+        parameters: toGeminiSchema(t.inputSchema),
+      })),
+    },
+  ];
+}
+
+// Gemini only sometimes ids its function calls; tool results are matched by name anyway
+function toToolCall(call: { id?: string; name: string; args?: unknown }): ToolCall {
+  return { id: call.id ?? `call_${nanoid(12)}`, name: call.name, arguments: JSON.stringify(call.args ?? {}) };
+}
+
+type GeminiResponsePart = {
+  text?: string;
+  // Set on thought summaries, which also arrive as text parts
+  thought?: boolean;
+  functionCall?: { id?: string; name: string; args?: unknown };
+};
+
+type GeminiUsage = {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+  thoughtsTokenCount?: number;
+  // Implicitly cached prompt prefix, part of promptTokenCount
+  cachedContentTokenCount?: number;
+  totalTokenCount: number;
+};
+
+// Ask for thought summaries so they can be returned apart from the answer
+function thinkingConfig(request: GatewayRequest): Record<string, unknown> {
+  if (!request.reasoning) return {};
+  return { thinkingConfig: { thinkingBudget: reasoningBudget(request.reasoning), includeThoughts: true } };
+}
+
+// Thinking tokens are billed as output but not counted in candidatesTokenCount
+function toUsage(usage: GeminiUsage | undefined): TokenUsage {
+  const reasoningTokens = usage?.thoughtsTokenCount || 0;
+  const cacheReadTokens = usage?.cachedContentTokenCount || 0;
+  return {
+    inputTokens: usage?.promptTokenCount || 0,
+    outputTokens: (usage?.candidatesTokenCount || 0) + reasoningTokens,
+    totalTokens: usage?.totalTokenCount || 0,
+    ...(reasoningTokens ? { reasoningTokens } : {}),
+    ...(cacheReadTokens ? { cacheReadTokens } : {}),
+  };
+}
+
+export const geminiProvider: ProviderPlugin = {
+  kind: "gemini",
+
+  async complete(config, request, model): Promise<CompletionResult> {
+    const systemMessage = request.messages.find((m) => m.role === "system");
+    const systemInstruction = systemMessage
+      ? { parts: [{ text: typeof systemMessage.content === "string" ? systemMessage.content : JSON.stringify(systemMessage.content) }] }
+      : undefined;
+
+    const body: Record<string, unknown> = {
+      contents: toGeminiContents(request),
+      generationConfig: {
+        maxOutputTokens: request.maxTokens || 4096,
+        temperature: request.temperature ?? 0.7,
+        ...thinkingConfig(request),
+        ...(request.responseFormat
+          ? {
+              responseMimeType: "application/json",
+              responseSchema: toGeminiSchema(responseJsonSchema(request.responseFormat)),
+            }
+          : {}),
+      },
+    };
+
+    if (systemInstruction) {
+      body.systemInstruction = systemInstruction;
+    }
+
+    const tools = toGeminiTools(request);
+    if (tools) {
+      body.tools = tools;
+    }
+
+    const response = await fetch(`${API_URL}/models/${model}:generateContent?key=${config.apiKey}`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Gemini API error");
+    }
+
+    const data = (await response.json()) as {
+      candidates: Array<{ content: { parts: GeminiResponsePart[] }; finishReason?: string }>;
+      usageMetadata?: GeminiUsage;
+    };
+
+    const parts = data.candidates[0]?.content.parts ?? [];
+    const content = parts.filter((p) => !p.thought).map((p) => p.text ?? "").join("");
+    const thoughts = parts.filter((p) => p.thought).map((p) => p.text ?? "").join("");
+    const toolCalls = parts.filter((p) => p.functionCall).map((p) => toToolCall(p.functionCall!));
+
+    return {
+      content,
+      reasoning: thoughts || undefined,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: toUsage(data.usageMetadata),
+      finishReason: data.candidates[0]?.finishReason,
+    };
+  },
+
+  async *stream(config, request, model): AsyncGenerator<StreamChunk> {
+    const url = `${API_URL}/models/${model}:streamGenerateContent?alt=sse&key=${config.apiKey}`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify({
+        contents: toGeminiContents(request),
+        tools: toGeminiTools(request),
+        generationConfig: {
+          maxOutputTokens: request.maxTokens || 4096,
+          temperature: request.temperature ?? 0.7,
+          ...thinkingConfig(request),
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Gemini streaming error");
+    }
+
+    // Every event carries the running usage; it is reported once, with the last event
+    let usage: GeminiUsage | undefined;
+    let finishReason: string | undefined;
+    for await (const line of readLines(response)) {
+      const event = parseSSEData<{
+        candidates?: Array<{ content?: { parts?: GeminiResponsePart[] }; finishReason?: string }>;
+        usageMetadata?: GeminiUsage;
+        error?: { code?: number; message?: string; status?: string };
+      }>(line);
+      if (!event) continue;
+
+      if (event.error) {
+        const detail = [event.error.status, event.error.message].filter(Boolean).join(" - ") || "Unknown error";
+        throw streamError(config.provider, `Gemini streaming error: ${detail}`, event.error.code);
+      }
+
+      const candidate = event.candidates?.[0];
+      for (const part of candidate?.content?.parts ?? []) {
+        if (part.text) {
+          yield { type: part.thought ? "reasoning" : "text", content: part.text };
+        }
+        // Function calls arrive whole, never split across events
+        if (part.functionCall) {
+          yield { type: "tool_call", toolCall: toToolCall(part.functionCall) };
+        }
+      }
+
+      finishReason = candidate?.finishReason ?? finishReason;
+      usage = event.usageMetadata ?? usage;
+    }
+
+    // The last event carries the finish reason
+    if (!finishReason) {
+      throw truncatedStreamError(config.provider, "Gemini streaming error", "a finish reason");
+    }
+    yield { type: "done", finishReason, usage: usage && toUsage(usage) };
+  },
+
+  async healthCheck(config) {
+    const response = await fetch(`${API_URL}/models?key=${config.apiKey}`, {
+      headers: { ...config.headers },
+    });
+    return response.ok;
+  },
+
+  async listModels(config) {
+    const response = await fetch(`${API_URL}/models?pageSize=1000&key=${config.apiKey}`, {
+      headers: { ...config.headers },
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Gemini API error");
+    }
+    const data = (await response.json()) as { models: Array<{ name: string }> };
+    return data.models.map((m) => m.name.replace(/^models\//, ""));
+  },
+
+  async countTokens(config, request, model) {
+    const response = await fetch(`${API_URL}/models/${model}:countTokens?key=${config.apiKey}`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify({ contents: toGeminiContents(request), tools: toGeminiTools(request) }),
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Gemini API error");
+    }
+    const data = (await response.json()) as { totalTokens: number };
+    return data.totalTokens;
+  },
+
+  async embed(config, input, model) {
+    const response = await fetch(`${API_URL}/models/${model}:batchEmbedContents?key=${config.apiKey}`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify({
+        requests: input.map((text) => ({ model: `models/${model}`, content: { parts: [{ text }] } })),
+      }),
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Gemini API error");
+    }
+    const data = (await response.json()) as { embeddings: Array<{ values: number[] }> };
+    return data.embeddings.map((e) => e.values);
+  },
+};
@@ -0,0 +1,123 @@
+/**
+ * HTTP helpers shared by the built-in provider plugins
+ */
+
+import type { Provider, RateLimitSnapshot } from "../core/types";
+import { ProviderError, RateLimitedError } from "../core/errors";
+
+/**
+ * Split a streamed response body into lines; a trailing partial line is dropped
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response body");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    yield* lines;
+  }
+}
+
+/**
+ * Parse the JSON payload of an SSE `data:` line, or undefined for other lines and bad JSON
+ */
+export function parseSSEData<T>(line: string): T | undefined {
+  if (!line.startsWith("data: ")) return undefined;
+  try {
+    return JSON.parse(line.slice(6)) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Error for a failure the provider reports inside a stream it already answered with 200.
+ * `status` is the HTTP status the same failure gets before a stream starts, so retries
+ * and fallback treat both alike; without one the failure counts as transient.
+ */
+export function streamError(provider: Provider, message: string, status?: number): ProviderError {
+  if (status === 429) return new RateLimitedError(provider, message);
+  return new ProviderError(provider, message, { upstreamStatus: status });
+}
+
+/**
+ * Error for a stream whose body ended before the provider's final event
+ */
+export function truncatedStreamError(provider: Provider, label: string, finalEvent: string): ProviderError {
+  return new ProviderError(provider, `${label}: stream ended before ${finalEvent}`);
+}
+
+/**
+ * Quota reported in OpenAI-style (x-ratelimit-*) or Anthropic (anthropic-ratelimit-*)
+ * response headers, or undefined when the response carries none
+ */
+export function parseRateLimitHeaders(headers: Headers, now = Date.now()): RateLimitSnapshot | undefined {
+  const num = (name: string): number | undefined => {
+    const value = headers.get(name);
+    if (value === null || value.trim() === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+  const reset = (name: string): number | undefined => {
+    const value = headers.get(name);
+    return value === null ? undefined : parseResetTime(value, now);
+  };
+
+  let snapshot: RateLimitSnapshot;
+  if (headers.has("anthropic-ratelimit-requests-remaining") || headers.has("anthropic-ratelimit-tokens-remaining")) {
+    snapshot = {
+      limitRequests: num("anthropic-ratelimit-requests-limit"),
+      remainingRequests: num("anthropic-ratelimit-requests-remaining"),
+      resetRequestsAt: reset("anthropic-ratelimit-requests-reset"),
+      limitTokens: num("anthropic-ratelimit-tokens-limit"),
+      remainingTokens: num("anthropic-ratelimit-tokens-remaining"),
+      resetTokensAt: reset("anthropic-ratelimit-tokens-reset"),
+    };
+  } else if (headers.has("x-ratelimit-remaining-requests") || headers.has("x-ratelimit-remaining-tokens")) {
+    snapshot = {
+      limitRequests: num("x-ratelimit-limit-requests"),
+      remainingRequests: num("x-ratelimit-remaining-requests"),
+      resetRequestsAt: reset("x-ratelimit-reset-requests"),
+      limitTokens: num("x-ratelimit-limit-tokens"),
+      remainingTokens: num("x-ratelimit-remaining-tokens"),
+      resetTokensAt: reset("x-ratelimit-reset-tokens"),
+    };
+  } else {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(snapshot).filter(([, value]) => value !== undefined)
+  ) as RateLimitSnapshot;
+}
+
+/**
+ * Epoch ms of a reset header: a duration such as "1s", "6m0s" or "120ms" (OpenAI),
+ * or an RFC 3339 timestamp (Anthropic)
+ */
+function parseResetTime(value: string, now: number): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const at = Date.parse(trimmed);
+    return Number.isNaN(at) ? undefined : at;
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  let ms = 0;
+  let matched = "";
+  for (const match of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    ms += Number(match[1]) * units[match[2]!]!;
+    matched += match[0];
+  }
+  if (matched === "" || matched !== trimmed) return undefined;
+  return now + Math.ceil(ms);
+}
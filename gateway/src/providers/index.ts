@@ -0,0 +1,20 @@
+/**
+ * Providers - Pluggable provider implementations and their registry
+ */
+
+export {
+  ProviderRegistry,
+  BUILTIN_PLUGINS,
+  defaultProviderRegistry,
+  registerProvider,
+} from "./registry";
+export { BUILTIN_PROVIDERS, providerKind } from "./kind";
+export { anthropicProvider } from "./anthropic";
+export { openaiProvider, openAICompatibleProvider, openAIBaseUrl, openAIHeaders } from "./openai";
+export { azureOpenAIProvider, azureDeployment, DEFAULT_AZURE_API_VERSION } from "./azure";
+export { geminiProvider } from "./gemini";
+export { ollamaProvider } from "./ollama";
+export { toAnthropicMessages, toOpenAIMessages } from "./messages";
+export { readLines, parseSSEData, parseRateLimitHeaders, streamError, truncatedStreamError } from "./http";
+export { reasoningBudget, reasoningEffort } from "./reasoning";
+export type { ProviderPlugin, CompletionResult } from "./types";
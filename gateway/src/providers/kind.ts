@@ -0,0 +1,18 @@
+/**
+ * Provider Kinds - Which plugin serves a configured provider
+ */
+
+import type { BuiltinProvider, ProviderConfig, ProviderKind } from "../core/types";
+
+export const BUILTIN_PROVIDERS: readonly BuiltinProvider[] = ["anthropic", "openai", "gemini", "ollama"];
+
+/**
+ * Protocol a provider speaks; names other than the built-ins must declare a kind
+ */
+export function providerKind(config: ProviderConfig): ProviderKind {
+  if (config.kind) return config.kind;
+  if ((BUILTIN_PROVIDERS as readonly string[]).includes(config.provider)) {
+    return config.provider as BuiltinProvider;
+  }
+  throw new Error(`Provider ${config.provider} has no kind; set kind: "openai_compatible"`);
+}
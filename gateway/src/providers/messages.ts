@@ -0,0 +1,164 @@
+/**
+ * Message Conversion - Gateway messages to provider wire formats
+ */
+
+import type { ContentBlock, Message } from "../core/types";
+
+/**
+ * Convert gateway messages to the OpenAI chat schema.
+ * tool_use blocks become assistant tool_calls and tool messages carry tool_call_id.
+ */
+export function toOpenAIMessages(messages: Message[]): Record<string, unknown>[] {
+  return messages.map((m) => {
+    if (m.role === "tool") {
+      return {
+        role: "tool",
+        tool_call_id: m.toolCallId,
+        content: toolResultText(m),
+      };
+    }
+
+    if (typeof m.content === "string") {
+      return { role: m.role, content: m.content, ...(m.name ? { name: m.name } : {}) };
+    }
+
+    if (m.role === "assistant") {
+      const text = m.content
+        .filter((b) => b.type === "text")
+        .map((b) => b.text || "")
+        .join("");
+      const toolCalls = m.content
+        .filter((b) => b.type === "tool_use")
+        .map((b) => ({
+          id: b.id,
+          type: "function",
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      return {
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      };
+    }
+
+    return {
+      role: m.role,
+      content: m.content.map((b) => {
+        if (b.type === "image" && b.source) {
+          const url = b.source.type === "url"
+            ? b.source.data
+            : `data:${b.source.mediaType};base64,${b.source.data}`;
+          return { type: "image_url", image_url: { url } };
+        }
+        return { type: "text", text: b.text ?? b.content ?? "" };
+      }),
+    };
+  });
+}
+
+// Anthropic's only cache type; entries live five minutes after their last use
+export const ANTHROPIC_CACHE_CONTROL = { type: "ephemeral" } as const;
+
+/**
+ * Convert gateway messages to the Anthropic Messages schema.
+ * System messages are lifted to the top-level system prompt, and tool messages
+ * become tool_result blocks on a user turn (consecutive results share one turn).
+ * Blocks marked as cache breakpoints carry cache_control; a marked system message
+ * turns the system prompt into text blocks, one per message.
+ */
+export function toAnthropicMessages(messages: Message[]): {
+  system?: string | Record<string, unknown>[];
+  messages: Array<{ role: "user" | "assistant"; content: string | Record<string, unknown>[] }>;
+} {
+  const systemMessages = messages.filter((m) => m.role === "system");
+  const systemTexts = systemMessages.map((m) => typeof m.content === "string"
+    ? m.content
+    : m.content.map((b) => b.text || "").join(""));
+  const marked = systemMessages.map((m) => typeof m.content !== "string" && m.content.some((b) => b.cacheBreakpoint));
+  const system = marked.includes(true)
+    ? systemTexts.map((text, i) => ({
+        type: "text",
+        text,
+        ...(marked[i] ? { cache_control: ANTHROPIC_CACHE_CONTROL } : {}),
+      }))
+    : systemTexts.join("\n\n");
+
+  const result: Array<{ role: "user" | "assistant"; content: string | Record<string, unknown>[] }> = [];
+
+  for (const m of messages) {
+    if (m.role === "system") continue;
+
+    if (m.role === "tool") {
+      const block = {
+        type: "tool_result",
+        tool_use_id: m.toolCallId,
+        content: toolResultText(m),
+        ...(m.isError ? { is_error: true } : {}),
+        ...(typeof m.content !== "string" && m.content.some((b) => b.cacheBreakpoint)
+          ? { cache_control: ANTHROPIC_CACHE_CONTROL }
+          : {}),
+      };
+      const previous = result[result.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    result.push({
+      role: m.role,
+      content: typeof m.content === "string"
+        ? m.content
+        : m.content.map(toAnthropicBlock),
+    });
+  }
+
+  return { system: system.length > 0 ? system : undefined, messages: result };
+}
+
+function toAnthropicBlock(block: ContentBlock): Record<string, unknown> {
+  const converted = toAnthropicBlockBody(block);
+  return block.cacheBreakpoint ? { ...converted, cache_control: ANTHROPIC_CACHE_CONTROL } : converted;
+}
+
+function toAnthropicBlockBody(block: ContentBlock): Record<string, unknown> {
+  switch (block.type) {
+    case "image":
+      return {
+        type: "image",
+        source: block.source?.type === "url"
+          ? { type: "url", url: block.source.data }
+          : { type: "base64", media_type: block.source?.mediaType, data: block.source?.data },
+      };
+    case "tool_use":
+      return { type: "tool_use", id: block.id, name: block.name, input: block.input ?? {} };
+    case "tool_result":
+      return { type: "tool_result", tool_use_id: block.id, content: block.content ?? "" };
+    default:
+      return { type: "text", text: block.text ?? "" };
+  }
+}
+
+/**
+ * Tool names by call id, from the assistant tool_use blocks in a conversation.
+ * Gemini and Ollama identify tool results by function name rather than call id.
+ */
+export function toolCallNames(messages: Message[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const m of messages) {
+    if (m.role !== "assistant" || typeof m.content === "string") continue;
+    for (const block of m.content) {
+      if (block.type === "tool_use" && block.id && block.name) names.set(block.id, block.name);
+    }
+  }
+  return names;
+}
+
+// Text of a tool message, whichever way its result was given
+export function toolResultText(message: Message): string {
+  return typeof message.content === "string"
+    ? message.content
+    : message.content.map((b) => b.content ?? b.text ?? "").join("");
+}
@@ -0,0 +1,235 @@
+/**
+ * Ollama Provider - Local models over the Ollama HTTP API
+ */
+
+import { nanoid } from "nanoid";
+import type { GatewayRequest, ProviderConfig, ToolCall } from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+import { ProviderError } from "../core/errors";
+import { responseJsonSchema } from "../core/structured-output";
+import { loadImage } from "../core/images";
+import { toolCallNames, toolResultText } from "./messages";
+import { readLines, streamError, truncatedStreamError } from "./http";
+import type { CompletionResult, ProviderPlugin } from "./types";
+
+function baseUrl(config: ProviderConfig): string {
+  return config.baseUrl || "http://localhost:11434";
+}
+
+function headers(config: ProviderConfig): Record<string, string> {
+  return { "Content-Type": "application/json", ...config.headers };
+}
+
+type OllamaMessage = {
+  role: string;
+  content: string;
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+  tool_name?: string;
+};
+
+type OllamaToolCall = { id?: string; function: { name: string; arguments?: unknown } };
+
+/**
+ * Convert messages to Ollama chat messages. Image blocks move to the message's images
+ * list, tool_use blocks to tool_calls, and tool messages name the tool they answer.
+ */
+function toOllamaMessages(request: GatewayRequest): OllamaMessage[] {
+  const names = toolCallNames(request.messages);
+
+  return request.messages.map((m): OllamaMessage => {
+    if (m.role === "tool") {
+      return { role: "tool", content: toolResultText(m), tool_name: names.get(m.toolCallId ?? "") ?? m.name };
+    }
+    if (typeof m.content === "string") return { role: m.role, content: m.content };
+
+    const content = m.content
+      .filter((b) => b.type !== "image" && b.type !== "tool_use")
+      .map((b) => (b.type === "text" ? b.text ?? "" : JSON.stringify(b)))
+      .join("\n");
+    const message: OllamaMessage = { role: m.role, content };
+
+    const toolCalls = m.content.filter((b) => b.type === "tool_use");
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls.map((b) => ({ function: { name: b.name ?? "", arguments: b.input ?? {} } }));
+    }
+
+    const images = m.content.filter((b) => b.type === "image" && b.source);
+    if (images.length > 0) {
+      message.images = images.map((b) => loadImage(b.source!).data);
+    }
+
+    return message;
+  });
+}
+
+function toOllamaTools(request: GatewayRequest): Record<string, unknown>[] | undefined {
+  if (!request.tools || request.tools.length === 0) return undefined;
+  return request.tools.map((t) => ({
+    type: "function",
+    function: { name: t.name, description: t.description, parameters: t.inputSchema },
+  }));
+}
+
+// Ollama returns arguments as an object and usually no call id
+function toToolCall(call: OllamaToolCall): ToolCall {
+  return {
+    id: call.id ?? `call_${nanoid(12)}`,
+    name: call.function.name,
+    arguments: JSON.stringify(call.function.arguments ?? {}),
+  };
+}
+
+export const ollamaProvider: ProviderPlugin = {
+  kind: "ollama",
+
+  async complete(config, request, model): Promise<CompletionResult> {
+    const body = {
+      model,
+      messages: toOllamaMessages(request),
+      tools: toOllamaTools(request),
+      stream: false,
+      // Ollama constrains generation to a JSON Schema passed as format
+      format: request.responseFormat ? responseJsonSchema(request.responseFormat) : undefined,
+      // Thinking models take no budget, only on or off
+      think: request.reasoning ? true : undefined,
+      options: {
+        num_predict: request.maxTokens || 4096,
+        temperature: request.temperature ?? 0.7,
+      },
+    };
+
+    const response = await fetch(`${baseUrl(config)}/api/chat`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Ollama API error");
+    }
+
+    const data = (await response.json()) as {
+      message: { content: string; thinking?: string; tool_calls?: OllamaToolCall[] };
+      done_reason?: string;
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+
+    return {
+      content: data.message.content,
+      reasoning: data.message.thinking || undefined,
+      toolCalls: data.message.tool_calls?.length ? data.message.tool_calls.map(toToolCall) : undefined,
+      usage: {
+        inputTokens: data.prompt_eval_count || 0,
+        outputTokens: data.eval_count || 0,
+        totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+      },
+      finishReason: data.done_reason,
+    };
+  },
+
+  async *stream(config, request, model): AsyncGenerator<StreamChunk> {
+    const response = await fetch(`${baseUrl(config)}/api/chat`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify({
+        model,
+        messages: toOllamaMessages(request),
+        tools: toOllamaTools(request),
+        stream: true,
+        think: request.reasoning ? true : undefined,
+        options: {
+          num_predict: request.maxTokens || 4096,
+          temperature: request.temperature ?? 0.7,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Ollama streaming error");
+    }
+
+    // Newline-delimited JSON rather than SSE
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+
+      let event: {
+        message?: { content?: string; thinking?: string; tool_calls?: OllamaToolCall[] };
+        done?: boolean;
+        done_reason?: string;
+        prompt_eval_count?: number;
+        eval_count?: number;
+        error?: string;
+      };
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // Skip invalid JSON
+        continue;
+      }
+
+      // Ollama gives no status for errors in the stream, so they count as transient
+      if (event.error) {
+        throw streamError(config.provider, `Ollama streaming error: ${event.error}`);
+      }
+
+      if (event.message?.thinking) {
+        yield { type: "reasoning", content: event.message.thinking };
+      }
+      if (event.message?.content) {
+        yield { type: "text", content: event.message.content };
+      }
+
+      for (const call of event.message?.tool_calls ?? []) {
+        yield { type: "tool_call", toolCall: toToolCall(call) };
+      }
+
+      if (event.done) {
+        yield {
+          type: "done",
+          usage: {
+            inputTokens: event.prompt_eval_count || 0,
+            outputTokens: event.eval_count || 0,
+            totalTokens: (event.prompt_eval_count || 0) + (event.eval_count || 0),
+          },
+          finishReason: event.done_reason,
+        };
+        return;
+      }
+    }
+
+    throw truncatedStreamError(config.provider, "Ollama streaming error", "done");
+  },
+
+  async healthCheck(config) {
+    const response = await fetch(`${baseUrl(config)}/api/tags`, {
+      headers: { ...config.headers },
+    });
+    return response.ok;
+  },
+
+  async listModels(config) {
+    const response = await fetch(`${baseUrl(config)}/api/tags`, {
+      headers: { ...config.headers },
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Ollama API error");
+    }
+    const data = (await response.json()) as { models: Array<{ name: string }> };
+    return data.models.map((m) => m.name);
+  },
+
+  async embed(config, input, model) {
+    const response = await fetch(`${baseUrl(config)}/api/embed`, {
+      method: "POST",
+      headers: headers(config),
+      body: JSON.stringify({ model, input }),
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, "Ollama API error");
+    }
+    const data = (await response.json()) as { embeddings: number[][] };
+    return data.embeddings;
+  },
+};
@@ -0,0 +1,325 @@
+/**
+ * OpenAI Provider - Chat Completions API, also used for OpenAI-compatible endpoints
+ */
+
+import type { GatewayRequest, Provider, ProviderConfig, TokenUsage } from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+import { ProviderError } from "../core/errors";
+import { responseJsonSchema, responseSchemaName } from "../core/structured-output";
+import { toOpenAIMessages } from "./messages";
+import { reasoningEffort } from "./reasoning";
+import { parseRateLimitHeaders, readLines, streamError, truncatedStreamError } from "./http";
+import { providerKind } from "./kind";
+import type { CompletionResult, ProviderPlugin } from "./types";
+
+// Chat-completions base URL for OpenAI and OpenAI-compatible providers
+export function openAIBaseUrl(config: ProviderConfig): string {
+  return (config.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, "");
+}
+
+// Configured headers win, so an endpoint can replace the Authorization scheme
+export function openAIHeaders(config: ProviderConfig): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    ...config.headers,
+  };
+}
+
+export function openAILabel(config: ProviderConfig): string {
+  return providerKind(config) === "openai" ? "OpenAI" : config.provider;
+}
+
+function toOpenAITools(request: GatewayRequest): Record<string, unknown>[] | undefined {
+  if (!request.tools || request.tools.length === 0) return undefined;
+  return request.tools.map((t) => ({
+    type: "function",
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: t.inputSchema,
+    },
+  }));
+}
+
+/**
+ * Chat-completions request body, shared by every OpenAI-protocol plugin
+ */
+export function openAIChatBody(request: GatewayRequest, model: string, stream: boolean): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    model,
+    messages: toOpenAIMessages(request.messages),
+  };
+
+  if (stream) {
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+  }
+
+  if (request.reasoning) {
+    // Reasoning models take max_completion_tokens, which covers reasoning tokens,
+    // and reject a custom temperature
+    body.reasoning_effort = reasoningEffort(request.reasoning);
+    if (request.maxTokens) {
+      body.max_completion_tokens = request.maxTokens;
+    }
+  } else {
+    if (request.maxTokens) {
+      body.max_tokens = request.maxTokens;
+    }
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+  }
+
+  const tools = toOpenAITools(request);
+  if (tools) {
+    body.tools = tools;
+  }
+
+  if (request.responseFormat && !stream) {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: responseSchemaName(request.responseFormat),
+        schema: responseJsonSchema(request.responseFormat),
+        // Strict mode rejects optional properties; validation happens in the gateway instead
+        strict: false,
+      },
+    };
+  }
+
+  return body;
+}
+
+type OpenAIUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+  // Prompt prefix served from OpenAI's automatic cache, part of prompt_tokens
+  prompt_tokens_details?: { cached_tokens?: number };
+};
+
+function toTokenUsage(usage: OpenAIUsage): TokenUsage {
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens;
+  const cacheReadTokens = usage.prompt_tokens_details?.cached_tokens;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    ...(reasoningTokens ? { reasoningTokens } : {}),
+    ...(cacheReadTokens ? { cacheReadTokens } : {}),
+  };
+}
+
+/**
+ * Read a non-streaming chat-completions response
+ */
+export async function parseOpenAICompletion(response: Response): Promise<CompletionResult> {
+  const data = (await response.json()) as {
+    choices: Array<{
+      message: {
+        content: string | null;
+        reasoning_content?: string | null;
+        tool_calls?: Array<{
+          id: string;
+          function: { name: string; arguments: string };
+        }>;
+      };
+      finish_reason?: string | null;
+    }>;
+    usage: OpenAIUsage;
+  };
+
+  const choice = data.choices[0];
+  const toolCalls = choice?.message.tool_calls?.map((tc) => ({
+    id: tc.id,
+    name: tc.function.name,
+    arguments: tc.function.arguments,
+  }));
+
+  return {
+    content: choice?.message.content || "",
+    reasoning: choice?.message.reasoning_content || undefined,
+    usage: toTokenUsage(data.usage),
+    toolCalls,
+    rateLimit: parseRateLimitHeaders(response.headers),
+    finishReason: choice?.finish_reason ?? undefined,
+  };
+}
+
+interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIStreamError {
+  message?: string;
+  type?: string;
+  // OpenAI sends a string such as "rate_limit_exceeded"; vLLM and others an HTTP status
+  code?: string | number | null;
+}
+
+// HTTP status the error would have had before the stream started, when it says
+function streamErrorStatus(error: OpenAIStreamError): number | undefined {
+  if (typeof error.code === "number") return error.code;
+  if (error.code === "rate_limit_exceeded" || error.type === "rate_limit_error") return 429;
+  if (error.type === "invalid_request_error") return 400;
+  if (error.type === "server_error") return 500;
+  return undefined;
+}
+
+/**
+ * Translate a chat-completions SSE body into stream chunks. An error event, or a body
+ * that ends before [DONE], fails the stream with a ProviderError.
+ */
+export async function* readOpenAIStream(
+  response: Response,
+  provider: Provider,
+  label: string
+): AsyncGenerator<StreamChunk> {
+  const rateLimit = parseRateLimitHeaders(response.headers);
+  for await (const line of readLines(response)) {
+    if (!line.startsWith("data: ")) continue;
+
+    const data = line.slice(6);
+    if (data === "[DONE]") {
+      yield { type: "done", rateLimit };
+      return;
+    }
+
+    let event: {
+      choices?: Array<{
+        delta?: { content?: string; reasoning_content?: string; tool_calls?: OpenAIToolCallDelta[] };
+        finish_reason?: string;
+      }>;
+      usage?: OpenAIUsage;
+      error?: OpenAIStreamError;
+    };
+    try {
+      event = JSON.parse(data);
+    } catch {
+      // Skip invalid JSON
+      continue;
+    }
+
+    if (event.error) {
+      const detail = [event.error.type, event.error.message].filter(Boolean).join(" - ") || "Unknown error";
+      throw streamError(provider, `${label}: ${detail}`, streamErrorStatus(event.error));
+    }
+
+    const choice = event.choices?.[0];
+    // OpenAI keeps reasoning hidden; DeepSeek and vLLM stream it as reasoning_content
+    if (choice?.delta?.reasoning_content) {
+      yield { type: "reasoning", content: choice.delta.reasoning_content };
+    }
+    if (choice?.delta?.content) {
+      yield { type: "text", content: choice.delta.content };
+    }
+
+    // Only a call's first fragment carries its id and name; the rest are matched by index
+    for (const tc of choice?.delta?.tool_calls ?? []) {
+      yield {
+        type: "tool_call",
+        toolCall: {
+          id: tc.id ?? "",
+          name: tc.function?.name ?? "",
+          arguments: tc.function?.arguments ?? "",
+          index: tc.index,
+        },
+      };
+    }
+
+    if (event.usage) {
+      yield {
+        type: "done",
+        usage: toTokenUsage(event.usage),
+        rateLimit,
+      };
+    }
+
+    if (choice?.finish_reason) {
+      yield { type: "done", finishReason: choice.finish_reason, rateLimit };
+    }
+  }
+
+  throw truncatedStreamError(provider, label, "[DONE]");
+}
+
+export const openaiProvider: ProviderPlugin = {
+  kind: "openai",
+
+  async complete(config, request, model): Promise<CompletionResult> {
+    const response = await fetch(`${openAIBaseUrl(config)}/chat/completions`, {
+      method: "POST",
+      headers: openAIHeaders(config),
+      body: JSON.stringify(openAIChatBody(request, model, false)),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, `${openAILabel(config)} API error`);
+    }
+
+    return parseOpenAICompletion(response);
+  },
+
+  async *stream(config, request, model): AsyncGenerator<StreamChunk> {
+    const response = await fetch(`${openAIBaseUrl(config)}/chat/completions`, {
+      method: "POST",
+      headers: openAIHeaders(config),
+      body: JSON.stringify(openAIChatBody(request, model, true)),
+    });
+
+    const label = `${openAILabel(config)} streaming error`;
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, label);
+    }
+
+    yield* readOpenAIStream(response, config.provider, label);
+  },
+
+  async healthCheck(config) {
+    const response = await fetch(`${openAIBaseUrl(config)}/models`, {
+      headers: openAIHeaders(config),
+    });
+    return response.ok;
+  },
+
+  async listModels(config) {
+    const response = await fetch(`${openAIBaseUrl(config)}/models`, {
+      headers: openAIHeaders(config),
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, `${openAILabel(config)} API error`);
+    }
+    const data = (await response.json()) as { data: Array<{ id: string }> };
+    return data.data.map((m) => m.id);
+  },
+
+  async embed(config, input, model) {
+    const response = await fetch(`${openAIBaseUrl(config)}/embeddings`, {
+      method: "POST",
+      headers: openAIHeaders(config),
+      body: JSON.stringify({ model, input }),
+    });
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(config.provider, response, `${openAILabel(config)} API error`);
+    }
+    const data = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+    return [...data.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  },
+};
+
+// Same protocol at a user-supplied baseUrl (vLLM, LM Studio, Groq, Together, ...)
+export const openAICompatibleProvider: ProviderPlugin = {
+  ...openaiProvider,
+  kind: "openai_compatible",
+
+  validateConfig(config) {
+    if (!config.baseUrl) {
+      throw new Error(`Provider ${config.provider} is openai_compatible and needs a baseUrl`);
+    }
+  },
+};
@@ -0,0 +1,25 @@
+/**
+ * Reasoning Options - Map the provider-neutral reasoning request to what each provider takes
+ * Anthropic and Gemini want a token budget, OpenAI an effort level.
+ */
+
+import type { ReasoningEffort, ReasoningOptions } from "../core/types";
+
+// Thinking budget for each effort level
+const EFFORT_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
+
+export function reasoningBudget(options: ReasoningOptions): number {
+  return options.budgetTokens ?? EFFORT_BUDGETS[options.effort ?? "medium"];
+}
+
+// The effort whose budget is closest without exceeding budgetTokens
+export function reasoningEffort(options: ReasoningOptions): ReasoningEffort {
+  if (options.effort) return options.effort;
+  const budget = reasoningBudget(options);
+  if (budget >= EFFORT_BUDGETS.high) return "high";
+  return budget >= EFFORT_BUDGETS.medium ? "medium" : "low";
+}
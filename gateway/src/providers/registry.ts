@@ -0,0 +1,82 @@
+/**
+ * Provider Registry - Maps provider kinds to the plugins that implement them
+ * The gateway resolves each configured provider through a registry, so new
+ * providers can ship as separate packages that register a plugin.
+ */
+
+import type { ProviderConfig } from "../core/types";
+import { providerKind } from "./kind";
+import { anthropicProvider } from "./anthropic";
+import { openaiProvider, openAICompatibleProvider } from "./openai";
+import { azureOpenAIProvider } from "./azure";
+import { geminiProvider } from "./gemini";
+import { ollamaProvider } from "./ollama";
+import type { ProviderPlugin } from "./types";
+
+export const BUILTIN_PLUGINS: readonly ProviderPlugin[] = [
+  anthropicProvider,
+  openaiProvider,
+  openAICompatibleProvider,
+  azureOpenAIProvider,
+  geminiProvider,
+  ollamaProvider,
+];
+
+export class ProviderRegistry {
+  private plugins = new Map<string, ProviderPlugin>();
+
+  constructor(plugins: readonly ProviderPlugin[] = BUILTIN_PLUGINS) {
+    for (const plugin of plugins) {
+      this.register(plugin);
+    }
+  }
+
+  /**
+   * Add a plugin; pass replace to override an existing kind, e.g. a built-in
+   */
+  register(plugin: ProviderPlugin, options: { replace?: boolean } = {}): this {
+    if (this.plugins.has(plugin.kind) && !options.replace) {
+      throw new Error(`Provider kind already registered: ${plugin.kind}`);
+    }
+    this.plugins.set(plugin.kind, plugin);
+    return this;
+  }
+
+  unregister(kind: string): boolean {
+    return this.plugins.delete(kind);
+  }
+
+  get(kind: string): ProviderPlugin | undefined {
+    return this.plugins.get(kind);
+  }
+
+  has(kind: string): boolean {
+    return this.plugins.has(kind);
+  }
+
+  kinds(): string[] {
+    return [...this.plugins.keys()];
+  }
+
+  /**
+   * Plugin serving a configured provider
+   */
+  resolve(config: ProviderConfig): ProviderPlugin {
+    const kind = providerKind(config);
+    const plugin = this.plugins.get(kind);
+    if (!plugin) {
+      throw new Error(`No provider plugin registered for kind "${kind}" (provider ${config.provider})`);
+    }
+    return plugin;
+  }
+}
+
+// Used by gateways created without an explicit registry
+export const defaultProviderRegistry = new ProviderRegistry();
+
+/**
+ * Register a plugin with the default registry
+ */
+export function registerProvider(plugin: ProviderPlugin, options?: { replace?: boolean }): void {
+  defaultProviderRegistry.register(plugin, options);
+}
@@ -0,0 +1,46 @@
+/**
+ * Provider Plugin Types - Contract between the gateway and a provider implementation
+ * Plugins are stateless: every call receives the ProviderConfig of the instance it serves,
+ * so one plugin backs any number of named instances of its kind.
+ */
+
+import type { GatewayRequest, ProviderConfig, RateLimitSnapshot, TokenUsage } from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+
+export interface CompletionResult {
+  content: string;
+  // Thinking text, when the request asked for reasoning and the provider returns it
+  reasoning?: string;
+  usage: TokenUsage;
+  toolCalls?: { id: string; name: string; arguments: string }[];
+  // Why the answer ended, as the provider reports it, e.g. "max_tokens" or "length"
+  finishReason?: string;
+  // Quota from the response's rate-limit headers, when the provider sends them
+  rateLimit?: RateLimitSnapshot;
+}
+
+export interface ProviderPlugin {
+  // Matched against ProviderConfig.kind, or the provider name for built-ins
+  readonly kind: string;
+
+  complete(config: ProviderConfig, request: GatewayRequest, model: string): Promise<CompletionResult>;
+
+  // Errors are thrown; the gateway turns them into error chunks. Tool calls are yielded
+  // as raw tool_call fragments, with the provider's index when it has one.
+  stream(config: ProviderConfig, request: GatewayRequest, model: string): AsyncIterable<StreamChunk>;
+
+  // The "models" health probe; should be free, e.g. a model-list request, never a completion
+  healthCheck(config: ProviderConfig): Promise<boolean>;
+
+  // Model ids the upstream serves; configured models are used when omitted
+  listModels?(config: ProviderConfig): Promise<string[]>;
+
+  // Exact input token count; a local estimate is used when omitted
+  countTokens?(config: ProviderConfig, request: GatewayRequest, model: string): Promise<number>;
+
+  // One vector per input, in order
+  embed?(config: ProviderConfig, input: string[], model: string): Promise<number[][]>;
+
+  // Throw to reject an instance when the gateway is built rather than on the first request
+  validateConfig?(config: ProviderConfig): void;
+}
@@ -193,7 +193,7 @@ export class CircuitBreakerRegistry {
     return breaker;
   }
 
-  getAllStats(): Record<Provider, CircuitStats & { state: CircuitState }> {
+  getAllStats(): Partial<Record<Provider, CircuitStats & { state: CircuitState }>> {
     const stats: Record<string, CircuitStats & { state: CircuitState }> = {};
     for (const [provider, breaker] of this.breakers) {
       stats[provider] = {
@@ -201,7 +201,7 @@ export class CircuitBreakerRegistry {
         state: breaker.getState(),
       };
     }
-    return stats as Record<Provider, CircuitStats & { state: CircuitState }>;
+    return stats as Partial<Record<Provider, CircuitStats & { state: CircuitState }>>;
   }
 
   resetAll(): void {
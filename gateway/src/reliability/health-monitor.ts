@@ -0,0 +1,173 @@
+/**
+ * Health Monitor - Cached provider health probes, optionally run in the background
+ * Concurrent callers share the probe in flight, and results are reused for cacheTtlMs,
+ * so health endpoints and the CLI cannot trigger probe storms.
+ */
+
+import type { HealthMonitorConfig, Provider, ProviderHealth } from "../core/types";
+import type { ProviderAdapter } from "../core/providers";
+import { TimeoutError } from "../core/errors";
+
+// Probes considered for errorRate
+const PROBE_HISTORY = 20;
+// Completion probes cost money, so they are sampled far less often by default
+const COMPLETION_PROBE_INTERVAL_MS = 5 * 60 * 1000;
+
+export const DEFAULT_HEALTH_MONITOR_CONFIG: HealthMonitorConfig = {
+  enabled: false,
+  intervalMs: 30000,
+  cacheTtlMs: 15000,
+  timeoutMs: 5000,
+};
+
+export class HealthMonitor {
+  private config: HealthMonitorConfig;
+  private providers: Map<Provider, ProviderAdapter> = new Map();
+  private health: Map<Provider, ProviderHealth> = new Map();
+  private history: Map<Provider, boolean[]> = new Map();
+  private inFlight: Map<Provider, Promise<ProviderHealth>> = new Map();
+  private listeners: Set<(health: ProviderHealth) => void> = new Set();
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: Partial<HealthMonitorConfig> = {}) {
+    this.config = { ...DEFAULT_HEALTH_MONITOR_CONFIG, ...config };
+  }
+
+  /**
+   * Apply new settings, starting or stopping the background loop to match `enabled`
+   */
+  updateConfig(config: Partial<HealthMonitorConfig> = {}): void {
+    this.config = { ...DEFAULT_HEALTH_MONITOR_CONFIG, ...config };
+    this.stop();
+    if (this.config.enabled) this.start();
+  }
+
+  /**
+   * Replace the probed providers; results for removed providers are dropped
+   */
+  setProviders(providers: Map<Provider, ProviderAdapter>): void {
+    this.providers = providers;
+    for (const provider of [...this.health.keys()]) {
+      if (!providers.has(provider)) {
+        this.health.delete(provider);
+        this.history.delete(provider);
+      }
+    }
+  }
+
+  /**
+   * Probe every provider now and then every intervalMs. The timer does not keep the process alive.
+   */
+  start(): void {
+    if (this.interval) return;
+    void this.checkAll();
+    this.interval = setInterval(() => void this.checkAll(), this.config.intervalMs);
+    this.interval.unref?.();
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.interval !== null;
+  }
+
+  // Last known health, without probing
+  getHealth(provider: Provider): ProviderHealth | undefined {
+    return this.health.get(provider);
+  }
+
+  getAll(): ProviderHealth[] {
+    return [...this.health.values()];
+  }
+
+  /**
+   * Called after every probe, e.g. to feed the dashboard
+   */
+  subscribe(callback: (health: ProviderHealth) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  /**
+   * Health of one provider, probing only if the cached result is stale or `force` is set
+   */
+  async check(provider: Provider, force = false): Promise<ProviderHealth> {
+    const adapter = this.providers.get(provider);
+    if (!adapter) {
+      throw new Error(`Unknown provider: ${provider}`);
+    }
+
+    const cached = this.health.get(provider);
+    if (!force && cached && Date.now() - cached.lastCheck.getTime() < this.cacheTtl(adapter)) {
+      return cached;
+    }
+
+    const pending = this.inFlight.get(provider);
+    if (pending) return pending;
+
+    const probe = this.probe(provider, adapter).finally(() => this.inFlight.delete(provider));
+    this.inFlight.set(provider, probe);
+    return probe;
+  }
+
+  async checkAll(force = false): Promise<ProviderHealth[]> {
+    return Promise.all([...this.providers.keys()].map((provider) => this.check(provider, force)));
+  }
+
+  private cacheTtl(adapter: ProviderAdapter): number {
+    const check = adapter.getHealthCheckConfig();
+    if (check?.intervalMs !== undefined) return check.intervalMs;
+    return check?.probe === "completion" ? COMPLETION_PROBE_INTERVAL_MS : this.config.cacheTtlMs;
+  }
+
+  private async probe(provider: Provider, adapter: ProviderAdapter): Promise<ProviderHealth> {
+    const startTime = Date.now();
+    let error: string | undefined;
+    try {
+      await this.withTimeout(adapter.probe(), this.config.timeoutMs);
+    } catch (e) {
+      error = (e as Error).message;
+    }
+
+    const history = [...(this.history.get(provider) ?? []), error === undefined].slice(-PROBE_HISTORY);
+    this.history.set(provider, history);
+    const previous = this.health.get(provider);
+
+    const health: ProviderHealth = {
+      provider,
+      healthy: error === undefined,
+      latencyMs: Date.now() - startTime,
+      errorRate: history.filter((ok) => !ok).length / history.length,
+      lastCheck: new Date(),
+      consecutiveFailures: error === undefined ? 0 : (previous?.consecutiveFailures ?? 0) + 1,
+      probe: adapter.getHealthCheckConfig()?.probe ?? "models",
+      error,
+    };
+
+    // The provider may have been removed by a config reload while probing
+    if (this.providers.get(provider) === adapter) {
+      this.health.set(provider, health);
+    }
+    for (const listener of this.listeners) listener(health);
+    return health;
+  }
+
+  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timeoutId: ReturnType<typeof setTimeout>;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new TimeoutError(timeoutMs)), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      clearTimeout(timeoutId!);
+    }
+  }
+}
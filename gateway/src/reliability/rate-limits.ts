@@ -0,0 +1,224 @@
+/**
+ * Rate Limit Tracker - Provider-reported quota plus configured client-side limits
+ * Requests wait briefly for capacity; when the wait would be too long they fail with a
+ * RateLimitedError so the gateway falls back instead of sending a request that would get a 429.
+ */
+
+import type { Provider, RateLimitConfig, RateLimitSnapshot } from "../core/types";
+import { RateLimitedError } from "../core/errors";
+
+const WINDOW_MS = 60000;
+// Share of a reported limit at or below which the router avoids the model
+const NEAR_EXHAUSTION_RATIO = 0.05;
+// Assumed wait after a 429 without Retry-After
+const REJECTION_BACKOFF_MS = 1000;
+
+export const DEFAULT_RATE_LIMIT_QUEUE_MS = 5000;
+
+/**
+ * One request counted against its provider's configured limits
+ */
+export interface RateLimitSlot {
+  provider: Provider;
+  at: number;
+  // Estimated when acquired, replaced with actual usage by settle()
+  tokens: number;
+}
+
+export interface ProviderRateLimitState {
+  provider: Provider;
+  // Requests and tokens in the last minute, counted against ProviderConfig.rateLimit
+  windowRequests: number;
+  windowTokens: number;
+  // Last quota each model reported, less what the gateway has sent since
+  models: Record<string, RateLimitSnapshot>;
+}
+
+export class RateLimitTracker {
+  private windows: Map<Provider, RateLimitSlot[]> = new Map();
+  private reported: Map<Provider, Map<string, RateLimitSnapshot>> = new Map();
+
+  /**
+   * Store the quota a response reported for a model
+   */
+  record(provider: Provider, model: string, snapshot: RateLimitSnapshot | undefined): void {
+    if (!snapshot) return;
+    this.modelsOf(provider).set(model, { ...snapshot });
+  }
+
+  /**
+   * The provider answered 429: treat the model as exhausted until Retry-After
+   */
+  recordRejection(provider: Provider, model: string, retryAfterMs?: number): void {
+    const previous = this.modelsOf(provider).get(model);
+    this.modelsOf(provider).set(model, {
+      ...previous,
+      remainingRequests: 0,
+      resetRequestsAt: Date.now() + (retryAfterMs ?? REJECTION_BACKOFF_MS),
+    });
+  }
+
+  /**
+   * Milliseconds until a request of `tokens` fits both the reported quota and the configured limits
+   */
+  waitTime(
+    provider: Provider,
+    model: string,
+    limits: RateLimitConfig | undefined,
+    tokens: number,
+    now = Date.now()
+  ): number {
+    let wait = 0;
+
+    const snapshot = this.current(provider, model, now);
+    if (snapshot?.remainingRequests !== undefined && snapshot.remainingRequests <= 0) {
+      wait = Math.max(wait, snapshot.resetRequestsAt! - now);
+    }
+    if (snapshot?.remainingTokens !== undefined && snapshot.remainingTokens < tokens) {
+      wait = Math.max(wait, snapshot.resetTokensAt! - now);
+    }
+
+    if (limits) {
+      const window = this.windowOf(provider, now);
+      if (window.length >= limits.requestsPerMinute) {
+        wait = Math.max(wait, window[window.length - limits.requestsPerMinute]!.at + WINDOW_MS - now);
+      }
+
+      // A request larger than the whole budget is let through once the window is empty
+      let used = window.reduce((sum, slot) => sum + slot.tokens, 0);
+      for (const slot of window) {
+        if (used + tokens <= limits.tokensPerMinute) break;
+        used -= slot.tokens;
+        wait = Math.max(wait, slot.at + WINDOW_MS - now);
+      }
+    }
+
+    return Math.max(0, wait);
+  }
+
+  /**
+   * Whether the router should avoid the model: its reported quota is nearly spent,
+   * or the provider's configured limits leave no room right now
+   */
+  isThrottled(provider: Provider, model: string, limits?: RateLimitConfig): boolean {
+    const now = Date.now();
+    const snapshot = this.current(provider, model, now);
+    if (snapshot) {
+      if (nearlySpent(snapshot.remainingRequests, snapshot.limitRequests)) return true;
+      if (nearlySpent(snapshot.remainingTokens, snapshot.limitTokens)) return true;
+    }
+    // No room for even a one-token request
+    return this.waitTime(provider, model, limits, 1, now) > 0;
+  }
+
+  /**
+   * Reserve capacity for a request, waiting up to maxWaitMs for it to free up.
+   * Throws RateLimitedError when the wait would be longer.
+   */
+  async acquire(
+    provider: Provider,
+    model: string,
+    limits: RateLimitConfig | undefined,
+    tokens: number,
+    maxWaitMs = DEFAULT_RATE_LIMIT_QUEUE_MS
+  ): Promise<RateLimitSlot> {
+    const deadline = Date.now() + maxWaitMs;
+
+    while (true) {
+      const now = Date.now();
+      const wait = this.waitTime(provider, model, limits, tokens, now);
+      if (wait === 0) {
+        return this.reserve(provider, model, limits, tokens, now);
+      }
+      if (now + wait > deadline) {
+        throw new RateLimitedError(
+          provider,
+          `Rate limit reached for ${provider}/${model}, capacity frees up in ${wait}ms`,
+          wait
+        );
+      }
+      // Re-check after waiting: other requests may have taken the capacity
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+
+  /**
+   * Replace a slot's estimated tokens with the provider-reported usage
+   */
+  settle(slot: RateLimitSlot, tokens: number): void {
+    slot.tokens = tokens;
+  }
+
+  getState(): ProviderRateLimitState[] {
+    const now = Date.now();
+    const providers = new Set([...this.windows.keys(), ...this.reported.keys()]);
+    return [...providers].map((provider) => {
+      const window = this.windowOf(provider, now);
+      const models: Record<string, RateLimitSnapshot> = {};
+      for (const model of this.reported.get(provider)?.keys() ?? []) {
+        const snapshot = this.current(provider, model, now);
+        if (snapshot) models[model] = snapshot;
+      }
+      return {
+        provider,
+        windowRequests: window.length,
+        windowTokens: window.reduce((sum, slot) => sum + slot.tokens, 0),
+        models,
+      };
+    });
+  }
+
+  private reserve(
+    provider: Provider,
+    model: string,
+    limits: RateLimitConfig | undefined,
+    tokens: number,
+    now: number
+  ): RateLimitSlot {
+    const slot: RateLimitSlot = { provider, at: now, tokens };
+    if (limits) this.windowOf(provider, now).push(slot);
+
+    // Spend the reported quota locally so concurrent requests see it shrink
+    const snapshot = this.reported.get(provider)?.get(model);
+    if (snapshot?.remainingRequests !== undefined) snapshot.remainingRequests--;
+    if (snapshot?.remainingTokens !== undefined) snapshot.remainingTokens -= tokens;
+    return slot;
+  }
+
+  // Reported quota with counts whose reset time has passed dropped
+  private current(provider: Provider, model: string, now: number): RateLimitSnapshot | undefined {
+    const snapshot = this.reported.get(provider)?.get(model);
+    if (!snapshot) return undefined;
+
+    const current = { ...snapshot };
+    if (current.resetRequestsAt === undefined || current.resetRequestsAt <= now) {
+      delete current.remainingRequests;
+      delete current.resetRequestsAt;
+    }
+    if (current.resetTokensAt === undefined || current.resetTokensAt <= now) {
+      delete current.remainingTokens;
+      delete current.resetTokensAt;
+    }
+    return current;
+  }
+
+  private windowOf(provider: Provider, now: number): RateLimitSlot[] {
+    const window = (this.windows.get(provider) ?? []).filter((slot) => now - slot.at < WINDOW_MS);
+    this.windows.set(provider, window);
+    return window;
+  }
+
+  private modelsOf(provider: Provider): Map<string, RateLimitSnapshot> {
+    let models = this.reported.get(provider);
+    if (!models) {
+      models = new Map();
+      this.reported.set(provider, models);
+    }
+    return models;
+  }
+}
+
+function nearlySpent(remaining: number | undefined, limit: number | undefined): boolean {
+  if (remaining === undefined) return false;
+  return limit ? remaining <= limit * NEAR_EXHAUSTION_RATIO : remaining <= 0;
+}
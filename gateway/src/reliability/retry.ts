@@ -3,13 +3,18 @@
  */
 
 import type { ReliabilityConfig } from "../core/types";
+import { GatewayError, ProviderError, TimeoutError } from "../core/errors";
+import { StreamMultiplexer } from "../core/stream-multiplexer";
 
 interface RetryOptions {
   maxAttempts?: number;
   baseDelayMs?: number;
   backoffMultiplier?: number;
   maxDelayMs?: number;
+  // Message substrings treated as retryable for errors that are not GatewayErrors
   retryableErrors?: string[];
+  // Called after every attempt, successful or not, with the attempt number (1-based)
+  onAttempt?: (attempt: number, latencyMs: number, error?: Error) => void;
 }
 
 export class RetryHandler {
@@ -24,53 +29,28 @@ export class RetryHandler {
     options: RetryOptions = {}
   ): Promise<T> {
     const maxAttempts = options.maxAttempts ?? this.config.retryAttempts;
-    const baseDelayMs = options.baseDelayMs ?? this.config.retryDelayMs;
-    const backoffMultiplier =
-      options.backoffMultiplier ?? this.config.retryBackoffMultiplier;
-    const maxDelayMs = options.maxDelayMs ?? 30000;
-    const retryableErrors = options.retryableErrors ?? [
-      "rate_limit",
-      "timeout",
-      "server_error",
-      "overloaded",
-      "429",
-      "500",
-      "502",
-      "503",
-      "504",
-    ];
 
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const attemptStart = Date.now();
       try {
         // Add timeout wrapper
         const result = await this.withTimeout(
           fn(),
           this.config.timeout.requestMs
         );
+        options.onAttempt?.(attempt, Date.now() - attemptStart);
         return result;
       } catch (error) {
         lastError = error as Error;
-        const errorMessage = lastError.message.toLowerCase();
+        options.onAttempt?.(attempt, Date.now() - attemptStart, lastError);
 
-        // Check if error is retryable
-        const isRetryable = retryableErrors.some(
-          (e) =>
-            errorMessage.includes(e.toLowerCase()) ||
-            errorMessage.includes(e)
-        );
-
-        if (!isRetryable || attempt === maxAttempts) {
+        const delay = this.retryDelay(lastError, attempt, options);
+        if (delay === null) {
           throw lastError;
         }
 
-        // Calculate delay with exponential backoff and jitter
-        const exponentialDelay =
-          baseDelayMs * Math.pow(backoffMultiplier, attempt - 1);
-        const jitter = Math.random() * 0.3 * exponentialDelay; // 30% jitter
-        const delay = Math.min(exponentialDelay + jitter, maxDelayMs);
-
         console.log(
           `[Retry] Attempt ${attempt}/${maxAttempts} failed: ${lastError.message}. Retrying in ${Math.round(delay)}ms`
         );
@@ -82,12 +62,48 @@ export class RetryHandler {
     throw lastError || new Error("Retry failed with unknown error");
   }
 
+  /**
+   * Milliseconds to wait before retrying after a failed attempt (1-based),
+   * or null when the error is not retryable or the attempts are used up
+   */
+  retryDelay(error: Error, attempt: number, options: RetryOptions = {}): number | null {
+    const maxAttempts = options.maxAttempts ?? this.config.retryAttempts;
+    const baseDelayMs = options.baseDelayMs ?? this.config.retryDelayMs;
+    const backoffMultiplier =
+      options.backoffMultiplier ?? this.config.retryBackoffMultiplier;
+    const maxDelayMs = options.maxDelayMs ?? 30000;
+    const retryableErrors = options.retryableErrors ?? [
+      "rate_limit",
+      "timeout",
+      "server_error",
+      "overloaded",
+      "429",
+      "500",
+      "502",
+      "503",
+      "504",
+    ];
+
+    if (!isRetryable(error, retryableErrors) || attempt >= maxAttempts) {
+      return null;
+    }
+
+    // Calculate delay with exponential backoff and jitter
+    const exponentialDelay =
+      baseDelayMs * Math.pow(backoffMultiplier, attempt - 1);
+    const jitter = Math.random() * 0.3 * exponentialDelay; // 30% jitter
+    // Never retry sooner than the provider asked us to
+    const retryAfterMs =
+      error instanceof ProviderError ? error.retryAfterMs ?? 0 : 0;
+    return Math.min(Math.max(exponentialDelay + jitter, retryAfterMs), maxDelayMs);
+  }
+
   private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
     let timeoutId: ReturnType<typeof setTimeout>;
 
     const timeoutPromise = new Promise<never>((_, reject) => {
       timeoutId = setTimeout(() => {
-        reject(new Error(`Request timeout after ${timeoutMs}ms`));
+        reject(new TimeoutError(timeoutMs));
       }, timeoutMs);
     });
 
@@ -106,11 +122,20 @@ export class RetryHandler {
   }
 }
 
+function isRetryable(error: Error, retryableErrors: string[]): boolean {
+  if (error instanceof GatewayError) {
+    return error.retryable;
+  }
+  const errorMessage = error.message.toLowerCase();
+  return retryableErrors.some((e) => errorMessage.includes(e.toLowerCase()));
+}
+
 /**
  * Deduplication handler - Prevents duplicate in-flight requests
  */
 export class RequestDeduplicator {
   private inFlight: Map<string, Promise<unknown>> = new Map();
+  private inFlightStreams: Map<string, StreamMultiplexer<unknown, unknown>> = new Map();
 
   async dedupe<T>(key: string, fn: () => Promise<T>): Promise<T> {
     // Check if request is already in flight
@@ -128,6 +153,29 @@ export class RequestDeduplicator {
     return promise;
   }
 
+  /**
+   * Share one stream between concurrent callers with the same key. The first caller's fn
+   * starts it; callers joining while it runs replay what it has produced, then follow it live.
+   * `shared` tells joiners apart from the caller whose stream it is. Once a stream has
+   * released buffered chunks, the next caller starts a new one.
+   */
+  dedupeStream<T, R>(
+    key: string,
+    fn: () => AsyncIterator<T, R, undefined>
+  ): { stream: AsyncGenerator<T, R, undefined>; shared: boolean } {
+    const existing = this.inFlightStreams.get(key) as StreamMultiplexer<T, R> | undefined;
+    // A stream too long to replay from the start is left to its readers
+    if (existing?.joinable) {
+      return { stream: existing.subscribe(), shared: true };
+    }
+
+    const multiplexer: StreamMultiplexer<T, R> = new StreamMultiplexer(fn(), () => {
+      if (this.inFlightStreams.get(key) === multiplexer) this.inFlightStreams.delete(key);
+    });
+    this.inFlightStreams.set(key, multiplexer as StreamMultiplexer<unknown, unknown>);
+    return { stream: multiplexer.subscribe(), shared: false };
+  }
+
   // Generate deduplication key from request
   static generateKey(request: {
     messages: Array<{ role: string; content: unknown }>;
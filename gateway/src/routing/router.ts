@@ -12,16 +12,31 @@ import type {
   ModelConfig,
   ModelCapability,
   Provider,
+  ProviderHealth,
+  RateLimitConfig,
 } from "../core/types";
+import { NoEligibleModelError } from "../core/errors";
+import { hasImages } from "../core/images";
 
 export class IntelligentRouter {
   private config: RoutingConfig;
   private providers: ProviderConfig[];
   private modelScores: Map<string, ModelScore>;
-
-  constructor(config: RoutingConfig, providers: ProviderConfig[]) {
+  // Latest probe result per provider, e.g. from a HealthMonitor
+  private healthOf: (provider: Provider) => ProviderHealth | undefined;
+  // Whether a model is near its rate limits, e.g. from a RateLimitTracker
+  private isThrottled: (model: ModelConfig, limits?: RateLimitConfig) => boolean;
+
+  constructor(
+    config: RoutingConfig,
+    providers: ProviderConfig[],
+    healthOf: (provider: Provider) => ProviderHealth | undefined = () => undefined,
+    isThrottled: (model: ModelConfig, limits?: RateLimitConfig) => boolean = () => false
+  ) {
     this.config = config;
     this.providers = providers.filter((p) => p.enabled);
+    this.healthOf = healthOf;
+    this.isThrottled = isThrottled;
     this.modelScores = new Map();
     this.initializeModelScores();
   }
@@ -48,7 +63,7 @@ export class IntelligentRouter {
     const eligibleModels = this.getEligibleModels(request, complexity);
 
     if (eligibleModels.length === 0) {
-      throw new Error("No eligible models found for request");
+      throw new NoEligibleModelError();
     }
 
     // Score and rank models based on strategy
@@ -89,6 +104,15 @@ export class IntelligentRouter {
       },
     };
 
+    // Prefer the same logical model on another provider, e.g. Azure and public OpenAI
+    if (!request.model) {
+      try {
+        return await this.route({ ...modifiedRequest, model: failedDecision.selectedModel });
+      } catch {
+        // No other provider serves it; any eligible model will do
+      }
+    }
+
     try {
       return await this.route(modifiedRequest);
     } catch {
@@ -154,13 +178,34 @@ export class IntelligentRouter {
     const eligible: ModelConfig[] = [];
     const excludeProviders = request.routing?.excludeProviders || [];
     const preferredProviders = request.routing?.preferredProviders;
-    const requiredCapabilities = request.routing?.requiredCapabilities || [];
+    const requiredCapabilities: ModelCapability[] = [...(request.routing?.requiredCapabilities || [])];
+    // Image inputs can only go to models that accept them
+    if (hasImages(request.messages) && !requiredCapabilities.includes("vision")) {
+      requiredCapabilities.push("vision");
+    }
+    // Likewise tool definitions need a model that can call them
+    if (request.tools?.length && !requiredCapabilities.includes("function_calling")) {
+      requiredCapabilities.push("function_calling");
+    }
+    // And reasoning options a model that accepts them
+    if (request.reasoning && !requiredCapabilities.includes("thinking")) {
+      requiredCapabilities.push("thinking");
+    }
+    const allowedProviders = request.routing?.allowedProviders;
+    const allowedModels = request.routing?.allowedModels;
 
     for (const provider of this.providers) {
       // Skip excluded providers
       if (excludeProviders.includes(provider.provider)) continue;
+      if (allowedProviders && !allowedProviders.includes(provider.provider)) continue;
+      // An explicitly requested provider, e.g. one named instance, pins routing to it
+      if (request.provider && provider.provider !== request.provider) continue;
 
       for (const model of provider.models) {
+        // An explicitly requested model pins routing to that model
+        if (request.model && model.model !== request.model) continue;
+        if (allowedModels && !allowedModels.includes(model.model)) continue;
+
         // Check capabilities
         const hasCapabilities = requiredCapabilities.every((cap) =>
           model.capabilities.includes(cap)
@@ -176,7 +221,7 @@ export class IntelligentRouter {
         }
 
         // Tier filtering based on complexity
-        if (complexity < this.config.complexityThresholds.simple) {
+        if (!request.model && complexity < this.config.complexityThresholds.simple) {
           // Simple tasks can use economy models
           if (model.tier === "premium" && !preferredProviders?.includes(provider.provider)) {
             continue;
@@ -187,9 +232,17 @@ export class IntelligentRouter {
       }
     }
 
+    // Avoid providers whose last health probe failed, then models near their rate limits,
+    // unless nothing else is eligible
+    const healthy = eligible.filter((m) => this.healthOf(m.provider)?.healthy !== false);
+    const unthrottled = healthy.filter(
+      (m) => !this.isThrottled(m, this.providers.find((p) => p.provider === m.provider)?.rateLimit)
+    );
+    const candidates = unthrottled.length > 0 ? unthrottled : healthy.length > 0 ? healthy : eligible;
+
     // If preferred providers specified, prioritize them
     if (preferredProviders && preferredProviders.length > 0) {
-      const preferred = eligible.filter((m) =>
+      const preferred = candidates.filter((m) =>
         preferredProviders.includes(m.provider)
       );
       if (preferred.length > 0) {
@@ -197,7 +250,7 @@ export class IntelligentRouter {
       }
     }
 
-    return eligible;
+    return candidates;
   }
 
   private scoreModel(
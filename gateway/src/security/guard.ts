@@ -3,6 +3,8 @@
  */
 
 import type { GatewayRequest, SecurityConfig } from "../core/types";
+import { base64ByteLength } from "../core/images";
+import { StreamSanitizer, type SanitizerRule } from "./stream-sanitizer";
 
 interface SecurityCheckResult {
   blocked: boolean;
@@ -30,11 +32,35 @@ export class SecurityGuard {
   private config: SecurityConfig;
   private piiPatterns: RegExp[];
   private injectionPatterns: InjectionPattern[];
+  private outputRules: SanitizerRule[];
 
   constructor(config: SecurityConfig) {
     this.config = config;
     this.piiPatterns = config.piiDetection.patterns.map((p) => new RegExp(p, "gi"));
     this.injectionPatterns = this.initInjectionPatterns();
+    this.outputRules = this.initOutputRules();
+  }
+
+  private initOutputRules(): SanitizerRule[] {
+    const { blockedPatterns, action, maskPII } = this.config.outputSanitization;
+    const rules: SanitizerRule[] = blockedPatterns.map((pattern) => ({
+      pattern: new RegExp(pattern, "gi"),
+      replacement: "[REDACTED]",
+      label: `blocked pattern: ${pattern}`,
+      block: action === "block",
+    }));
+    if (maskPII) {
+      const piiTypes = ["email", "ssn", "credit_card", "phone"];
+      this.piiPatterns.forEach((pattern, index) => {
+        const type = piiTypes[index] || "PII";
+        rules.push({
+          pattern: new RegExp(pattern.source, "gi"),
+          replacement: `[${type.toUpperCase()}_REDACTED]`,
+          label: `PII: ${piiTypes[index] || "unknown"}`,
+        });
+      });
+    }
+    return rules;
   }
 
   private initInjectionPatterns(): InjectionPattern[] {
@@ -115,6 +141,16 @@ export class SecurityGuard {
       injectionDetected: [],
     };
 
+    // Check image inputs against the configured limits
+    if (this.config.images) {
+      const imageViolation = this.checkImages(request);
+      if (imageViolation) {
+        result.blocked = true;
+        result.reason = imageViolation;
+        return result;
+      }
+    }
+
     // Check PII
     if (this.config.piiDetection.enabled) {
       const piiResult = this.checkPII(request);
@@ -242,6 +278,32 @@ export class SecurityGuard {
     return { text: maskedText, blockDetections };
   }
 
+  private checkImages(request: GatewayRequest): string | null {
+    const limits = this.config.images!;
+
+    for (const [msgIndex, message] of request.messages.entries()) {
+      if (typeof message.content === "string") continue;
+
+      for (const [blockIndex, block] of message.content.entries()) {
+        if (block.type !== "image" || !block.source) continue;
+        const location = `message[${msgIndex}].content[${blockIndex}]`;
+
+        if (block.source.type === "url") {
+          if (!limits.allowUrls) return `Image URLs are not allowed (${location})`;
+          continue;
+        }
+        if (!limits.allowedMediaTypes.includes(block.source.mediaType)) {
+          return `Image type ${block.source.mediaType} is not allowed (${location})`;
+        }
+        if (base64ByteLength(block.source.data) > limits.maxBytes) {
+          return `Image exceeds ${limits.maxBytes} bytes (${location})`;
+        }
+      }
+    }
+
+    return null;
+  }
+
   private checkInjection(request: GatewayRequest): InjectionDetection[] {
     const detections: InjectionDetection[] = [];
 
@@ -265,8 +327,8 @@ export class SecurityGuard {
     return detections;
   }
 
-  // Sanitize output before returning to user
-  sanitizeOutput(content: string): { content: string; warnings: string[] } {
+  // Sanitize output before returning to user; blocked is set when a blocking pattern matched
+  sanitizeOutput(content: string): { content: string; warnings: string[]; blocked?: string } {
     const warnings: string[] = [];
     let sanitized = content;
 
@@ -274,16 +336,27 @@ export class SecurityGuard {
       return { content, warnings };
     }
 
-    for (const pattern of this.config.outputSanitization.blockedPatterns) {
-      const regex = new RegExp(pattern, "gi");
-      if (regex.test(sanitized)) {
-        sanitized = sanitized.replace(regex, "[REDACTED]");
-        warnings.push(`Output contained blocked pattern: ${pattern}`);
+    for (const rule of this.outputRules) {
+      if (sanitized.search(rule.pattern) === -1) continue;
+      if (rule.block) {
+        return { content, warnings, blocked: rule.label };
       }
+      sanitized = sanitized.replace(rule.pattern, rule.replacement);
+      warnings.push(`Output contained ${rule.label}`);
     }
 
     return { content: sanitized, warnings };
   }
+
+  /**
+   * The same sanitization for a streamed answer, or null when there is nothing to apply
+   */
+  createStreamSanitizer(): StreamSanitizer | null {
+    if (!this.config.outputSanitization.enabled || this.outputRules.length === 0) {
+      return null;
+    }
+    return new StreamSanitizer(this.outputRules, this.config.outputSanitization.maxMatchLength);
+  }
 }
 
 interface InjectionPattern {
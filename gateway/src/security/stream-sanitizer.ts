@@ -0,0 +1,187 @@
+/**
+ * Stream Sanitizer - Output sanitization over streamed text and reasoning
+ * Text is scanned in a sliding window that holds back just enough characters to catch
+ * matches split across chunks; everything before the window is released as it clears.
+ */
+
+import { OutputBlockedError } from "../core/errors";
+import type { StreamChunk } from "../core/streaming";
+
+export const DEFAULT_MAX_MATCH_LENGTH = 64;
+
+// Released characters kept ahead of the window, so \b and short lookbehinds see what came before
+const CONTEXT_LENGTH = 16;
+
+export interface SanitizerRule {
+  // Global regex; matches are replaced, or end the output when block is set
+  pattern: RegExp;
+  replacement: string;
+  // What matched, for warnings and block reasons (e.g. "PII: email")
+  label: string;
+  block?: boolean;
+}
+
+interface RuleMatch {
+  rule: SanitizerRule;
+  start: number;
+  end: number;
+}
+
+export class StreamSanitizer {
+  // Answer text and reasoning are scanned apart, each in its own window
+  private text: SanitizerWindow;
+  private thinking: SanitizerWindow;
+
+  constructor(rules: SanitizerRule[], maxMatchLength = DEFAULT_MAX_MATCH_LENGTH) {
+    // A match ending in the newest character starts at most this far back
+    const holdBack = Math.max(0, maxMatchLength - 1);
+    this.text = new SanitizerWindow(rules, holdBack);
+    this.thinking = new SanitizerWindow(rules, holdBack);
+  }
+
+  /**
+   * Add streamed answer text and return whatever can now be released, possibly "".
+   * Throws OutputBlockedError as soon as a blocking rule matches.
+   */
+  push(text: string): string {
+    return this.text.push(text);
+  }
+
+  /**
+   * Release all answer text held back, at the end of the text or before another chunk
+   */
+  flush(): string {
+    return this.text.flush();
+  }
+
+  /**
+   * Sanitized answer text released so far
+   */
+  get content(): string {
+    return this.text.released;
+  }
+
+  /**
+   * Sanitized reasoning released so far
+   */
+  get reasoning(): string {
+    return this.thinking.released;
+  }
+
+  /**
+   * Sanitize the text and reasoning chunks of a stream. Held-back text is released before
+   * any other chunk except failover, so chunks keep their order. When a blocking rule
+   * matches, the upstream stream is closed and ends with an error chunk; the
+   * OutputBlockedError is returned, like any other error the stream failed with.
+   */
+  async *transform(
+    chunks: AsyncGenerator<StreamChunk, Error | undefined, undefined>
+  ): AsyncGenerator<StreamChunk, Error | undefined, undefined> {
+    try {
+      let next = await chunks.next();
+      for (; !next.done; next = await chunks.next()) {
+        const chunk = next.value;
+        if (chunk.type === "text" || chunk.type === "reasoning") {
+          yield* this.release(chunk.type === "text" ? "reasoning" : "text");
+          const text = this.window(chunk.type).push(chunk.content ?? "");
+          if (text) yield { ...chunk, content: text };
+          continue;
+        }
+        if (chunk.type !== "failover") {
+          yield* this.release("reasoning");
+          yield* this.release("text");
+        }
+        yield chunk;
+      }
+      yield* this.release("reasoning");
+      yield* this.release("text");
+      return next.value;
+    } catch (error) {
+      if (!(error instanceof OutputBlockedError)) throw error;
+      await chunks.return(undefined);
+      yield { type: "error", error: error.message, errorCode: error.code, cause: error };
+      return error;
+    }
+  }
+
+  private window(type: "text" | "reasoning"): SanitizerWindow {
+    return type === "text" ? this.text : this.thinking;
+  }
+
+  private *release(type: "text" | "reasoning"): Generator<StreamChunk> {
+    const text = this.window(type).flush();
+    if (text) yield { type, content: text };
+  }
+}
+
+// One text scanned in a sliding window
+class SanitizerWindow {
+  private rules: SanitizerRule[];
+  private holdBack: number;
+  // Text received but not yet released
+  private pending = "";
+  private context = "";
+  private output = "";
+
+  constructor(rules: SanitizerRule[], holdBack: number) {
+    this.rules = rules;
+    this.holdBack = holdBack;
+  }
+
+  // Sanitized text released so far
+  get released(): string {
+    return this.output;
+  }
+
+  push(text: string): string {
+    this.pending += text;
+    return this.drain(false);
+  }
+
+  flush(): string {
+    return this.drain(true);
+  }
+
+  private drain(final: boolean): string {
+    const found = this.findMatches();
+    const blocking = found.find((m) => m.rule.block);
+    if (blocking) throw new OutputBlockedError(blocking.rule.label);
+
+    let cut = final ? this.pending.length : Math.max(0, this.pending.length - this.holdBack);
+    // Never split a surrogate pair between two chunks
+    if (cut < this.pending.length && /[\uD800-\uDBFF]/.test(this.pending[cut - 1] ?? "")) cut--;
+
+    let text = "";
+    let pos = 0;
+    for (const match of found) {
+      // Overlaps a match already replaced
+      if (match.start < pos) continue;
+      if (match.start >= cut) break;
+      // A match starting before the cut is released whole, as its replacement
+      text += this.pending.slice(pos, match.start) + match.rule.replacement;
+      pos = match.end;
+      cut = Math.max(cut, match.end);
+    }
+    text += this.pending.slice(pos, cut);
+
+    this.context = (this.context + this.pending.slice(0, cut)).slice(-CONTEXT_LENGTH);
+    this.pending = this.pending.slice(cut);
+    this.output += text;
+    return text;
+  }
+
+  // Matches starting in the pending text, leftmost first, longest on a tie
+  private findMatches(): RuleMatch[] {
+    const window = this.context + this.pending;
+    const offset = this.context.length;
+    const found: RuleMatch[] = [];
+
+    for (const rule of this.rules) {
+      for (const match of window.matchAll(rule.pattern)) {
+        if (match.index < offset || match[0].length === 0) continue;
+        found.push({ rule, start: match.index - offset, end: match.index - offset + match[0].length });
+      }
+    }
+    return found.sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * Anthropic Compatibility - Maps the Anthropic Messages wire format to gateway types
+ */
+
+import { nanoid } from "nanoid";
+import type {
+  ContentBlock,
+  GatewayRequest,
+  GatewayResponse,
+  Message,
+  TokenUsage,
+} from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens: number;
+  messages: AnthropicMessage[];
+  system?: string | Array<{ type: "text"; text: string; cache_control?: CacheControl }>;
+  tools?: Array<{ name: string; description?: string; input_schema: Record<string, unknown> }>;
+  temperature?: number;
+  // budget_tokens counts against max_tokens
+  thinking?: { type: "enabled"; budget_tokens: number } | { type: "disabled" };
+  stream?: boolean;
+  metadata?: { user_id?: string };
+}
+
+export type CacheControl = { type: "ephemeral" };
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+export type AnthropicContentBlock = (
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source:
+        | { type: "base64"; media_type: string; data: string }
+        | { type: "url"; url: string };
+    }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "thinking"; thinking: string; signature?: string }
+  | { type: "redacted_thinking"; data: string }
+  | {
+      type: "tool_result";
+      tool_use_id: string;
+      content?: string | Array<{ type: "text"; text: string }>;
+      is_error?: boolean;
+    }
+) & { cache_control?: CacheControl };
+
+export interface AnthropicMessageResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: Array<
+    | { type: "thinking"; thinking: string; signature: string }
+    | { type: "text"; text: string }
+    | { type: "tool_use"; id: string; name: string; input: unknown }
+  >;
+  stop_reason: "end_turn" | "max_tokens" | "tool_use" | "stop_sequence";
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+export interface AnthropicStreamEvent {
+  event: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Map an Anthropic Messages request onto a GatewayRequest.
+ * tool_result blocks become tool messages so every provider sees the same pivot.
+ */
+export function fromAnthropicRequest(body: AnthropicMessagesRequest): GatewayRequest {
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new TypeError("messages: field required");
+  }
+
+  const messages: Message[] = [];
+
+  if (body.system) {
+    const text = typeof body.system === "string"
+      ? body.system
+      : body.system.map((b) => b.text).join("\n");
+    // A cache breakpoint anywhere in the system prompt caches all of it
+    const cached = typeof body.system !== "string" && body.system.some((b) => b.cache_control);
+    messages.push({
+      role: "system",
+      content: cached ? [{ type: "text", text, cacheBreakpoint: true }] : text,
+    });
+  }
+
+  for (const message of body.messages) {
+    messages.push(...fromAnthropicMessage(message));
+  }
+
+  // The gateway's maxTokens leaves the thinking budget out
+  const thinkingBudget = body.thinking?.type === "enabled" ? body.thinking.budget_tokens : undefined;
+
+  return {
+    id: `msg_${nanoid(16)}`,
+    messages,
+    model: body.model && body.model !== "auto" ? body.model : undefined,
+    maxTokens: thinkingBudget ? Math.max(1, body.max_tokens - thinkingBudget) : body.max_tokens,
+    temperature: body.temperature,
+    reasoning: thinkingBudget ? { budgetTokens: thinkingBudget } : undefined,
+    tools: body.tools?.map((t) => ({
+      name: t.name,
+      description: t.description || "",
+      inputSchema: t.input_schema,
+    })),
+    stream: body.stream === true,
+    metadata: body.metadata?.user_id ? { userId: body.metadata.user_id } : undefined,
+  };
+}
+
+function fromAnthropicMessage(message: AnthropicMessage): Message[] {
+  if (typeof message.content === "string") {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  const result: Message[] = [];
+  const blocks: ContentBlock[] = [];
+
+  for (const block of message.content) {
+    const marker = block.cache_control ? { cacheBreakpoint: true } : {};
+    switch (block.type) {
+      case "tool_result": {
+        const text = typeof block.content === "string"
+          ? block.content
+          : (block.content || []).map((b) => b.text).join("");
+        result.push({
+          role: "tool",
+          toolCallId: block.tool_use_id,
+          content: block.cache_control ? [{ type: "text", text, ...marker }] : text,
+          ...(block.is_error ? { isError: true } : {}),
+        });
+        break;
+      }
+      case "tool_use":
+        blocks.push({ type: "tool_use", id: block.id, name: block.name, input: block.input, ...marker });
+        break;
+      case "thinking":
+      case "redacted_thinking":
+        // Thinking from earlier turns is not sent upstream again
+        break;
+      case "image":
+        blocks.push({
+          type: "image",
+          source: block.source.type === "url"
+            ? { type: "url", mediaType: "image/*", data: block.source.url }
+            : { type: "base64", mediaType: block.source.media_type, data: block.source.data },
+          ...marker,
+        });
+        break;
+      default:
+        blocks.push({ type: "text", text: block.text, ...marker });
+    }
+  }
+
+  if (blocks.length > 0) {
+    result.push({ role: message.role, content: blocks });
+  }
+
+  return result;
+}
+
+/**
+ * Map a GatewayResponse back to an Anthropic message object
+ */
+export function toAnthropicResponse(response: GatewayResponse): AnthropicMessageResponse {
+  const content: AnthropicMessageResponse["content"] = [];
+
+  if (response.reasoning) {
+    // The gateway has no signature to pass on
+    content.push({ type: "thinking", thinking: response.reasoning, signature: "" });
+  }
+  if (response.content) {
+    content.push({ type: "text", text: response.content });
+  }
+  for (const tc of response.toolCalls || []) {
+    content.push({ type: "tool_use", id: tc.id, name: tc.name, input: parseInput(tc.arguments) });
+  }
+
+  return {
+    id: `msg_${response.id}`,
+    type: "message",
+    role: "assistant",
+    model: response.model,
+    content,
+    stop_reason: toAnthropicStopReason(response.finishReason, Boolean(response.toolCalls?.length)),
+    stop_sequence: null,
+    usage: toAnthropicUsage(response.usage),
+  };
+}
+
+// A provider's finish reason as an Anthropic stop reason; reasons it has no match for end the turn
+function toAnthropicStopReason(
+  reason: string | undefined,
+  toolUse: boolean
+): AnthropicMessageResponse["stop_reason"] {
+  switch (reason?.toLowerCase()) {
+    case "max_tokens":
+    case "length":
+      return "max_tokens";
+    case "stop_sequence":
+      return "stop_sequence";
+    case "tool_use":
+    case "tool_calls":
+      return "tool_use";
+    default:
+      return toolUse ? "tool_use" : "end_turn";
+  }
+}
+
+// Anthropic reports cached input apart from input_tokens
+export function toAnthropicUsage(usage: TokenUsage): AnthropicMessageResponse["usage"] {
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  return {
+    input_tokens: usage.inputTokens - cacheRead - cacheWrite,
+    output_tokens: usage.outputTokens,
+    ...(cacheWrite ? { cache_creation_input_tokens: cacheWrite } : {}),
+    ...(cacheRead ? { cache_read_input_tokens: cacheRead } : {}),
+  };
+}
+
+function parseInput(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Stateful translator from gateway StreamChunks to Anthropic SSE events
+ * (message_start, content_block_start/delta/stop, message_delta, message_stop).
+ * message_start reports the routed model and an estimate of the input tokens;
+ * message_delta carries the counts the provider reported.
+ */
+export class AnthropicEventEncoder {
+  private id: string;
+  private model: string;
+  private inputTokens: number;
+  private started = false;
+  private blockIndex = -1;
+  private openBlock: "thinking" | "text" | "tool_use" | null = null;
+  private openToolId = "";
+  private stopReason: AnthropicMessageResponse["stop_reason"] = "end_turn";
+
+  constructor(model: string, inputTokens = 0, id: string = `msg_${nanoid(16)}`) {
+    this.model = model;
+    this.id = id;
+    this.inputTokens = inputTokens;
+  }
+
+  encode(chunk: StreamChunk): AnthropicStreamEvent[] {
+    if (chunk.model) this.model = chunk.model;
+    const events = this.start();
+
+    switch (chunk.type) {
+      case "reasoning":
+        if (!chunk.content) break;
+        if (this.openBlock !== "thinking") {
+          events.push(...this.openContentBlock({ type: "thinking", thinking: "" }, "thinking"));
+        }
+        events.push(this.blockDelta({ type: "thinking_delta", thinking: chunk.content }));
+        break;
+
+      case "text":
+        if (!chunk.content) break;
+        if (this.openBlock !== "text") {
+          events.push(...this.openContentBlock({ type: "text", text: "" }, "text"));
+        }
+        events.push(this.blockDelta({ type: "text_delta", text: chunk.content }));
+        break;
+
+      case "tool_call":
+      case "tool_call_delta":
+        if (!chunk.toolCall) break;
+        // A call with a new id starts a tool_use block; fragments extend the open one
+        if (this.openBlock !== "tool_use" || (chunk.toolCall.id && chunk.toolCall.id !== this.openToolId)) {
+          this.openToolId = chunk.toolCall.id;
+          events.push(
+            ...this.openContentBlock(
+              { type: "tool_use", id: chunk.toolCall.id, name: chunk.toolCall.name, input: {} },
+              "tool_use"
+            )
+          );
+        }
+        if (chunk.toolCall.arguments) {
+          events.push(
+            this.blockDelta({ type: "input_json_delta", partial_json: chunk.toolCall.arguments })
+          );
+        }
+        this.stopReason = "tool_use";
+        break;
+
+      case "done":
+        this.stopReason = toAnthropicStopReason(chunk.finishReason, this.stopReason === "tool_use");
+        break;
+    }
+
+    return events;
+  }
+
+  finish(usage?: TokenUsage): AnthropicStreamEvent[] {
+    const events = this.start();
+    events.push(...this.closeContentBlock());
+    events.push({
+      event: "message_delta",
+      data: {
+        type: "message_delta",
+        delta: { stop_reason: this.stopReason, stop_sequence: null },
+        usage: usage ? toAnthropicUsage(usage) : { output_tokens: 0 },
+      },
+    });
+    events.push({ event: "message_stop", data: { type: "message_stop" } });
+    return events;
+  }
+
+  private start(): AnthropicStreamEvent[] {
+    if (this.started) return [];
+    this.started = true;
+    return [
+      {
+        event: "message_start",
+        data: {
+          type: "message_start",
+          message: {
+            id: this.id,
+            type: "message",
+            role: "assistant",
+            model: this.model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: this.inputTokens, output_tokens: 0 },
+          },
+        },
+      },
+    ];
+  }
+
+  private openContentBlock(
+    contentBlock: Record<string, unknown>,
+    kind: "thinking" | "text" | "tool_use"
+  ): AnthropicStreamEvent[] {
+    const events = this.closeContentBlock();
+    this.blockIndex++;
+    this.openBlock = kind;
+    events.push({
+      event: "content_block_start",
+      data: { type: "content_block_start", index: this.blockIndex, content_block: contentBlock },
+    });
+    return events;
+  }
+
+  private closeContentBlock(): AnthropicStreamEvent[] {
+    if (this.openBlock === null) return [];
+    this.openBlock = null;
+    return [
+      {
+        event: "content_block_stop",
+        data: { type: "content_block_stop", index: this.blockIndex },
+      },
+    ];
+  }
+
+  private blockDelta(delta: Record<string, unknown>): AnthropicStreamEvent {
+    return {
+      event: "content_block_delta",
+      data: { type: "content_block_delta", index: this.blockIndex, delta },
+    };
+  }
+}
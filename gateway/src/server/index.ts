@@ -0,0 +1,34 @@
+/**
+ * Server Module - OpenAI- and Anthropic-compatible HTTP API
+ */
+
+export {
+  GatewayServer,
+  createGatewayServer,
+  type GatewayServerConfig,
+} from "./server";
+
+export {
+  fromOpenAIRequest,
+  toOpenAIResponse,
+  toOpenAIModel,
+  toOpenAIUsage,
+  OpenAIChunkEncoder,
+  type OpenAIChatRequest,
+  type OpenAIChatCompletion,
+  type OpenAIChatCompletionChunk,
+  type OpenAIMessage,
+  type OpenAIModel,
+} from "./openai-compat";
+
+export {
+  fromAnthropicRequest,
+  toAnthropicResponse,
+  toAnthropicUsage,
+  AnthropicEventEncoder,
+  type AnthropicMessagesRequest,
+  type AnthropicMessage,
+  type AnthropicContentBlock,
+  type AnthropicMessageResponse,
+  type AnthropicStreamEvent,
+} from "./anthropic-compat";
@@ -0,0 +1,393 @@
+/**
+ * OpenAI Compatibility - Maps the OpenAI chat-completions wire format to gateway types
+ */
+
+import { nanoid } from "nanoid";
+import type {
+  ContentBlock,
+  GatewayRequest,
+  GatewayResponse,
+  ImageSource,
+  Message,
+  ModelConfig,
+  ReasoningEffort,
+  ResponseFormat,
+  TokenUsage,
+} from "../core/types";
+import type { StreamChunk } from "../core/streaming";
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  tools?: Array<{
+    type: "function";
+    function: { name: string; description?: string; parameters?: Record<string, unknown> };
+  }>;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  reasoning_effort?: ReasoningEffort;
+  temperature?: number;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  response_format?:
+    | { type: "text" | "json_object" }
+    | { type: "json_schema"; json_schema: { name: string; schema?: Record<string, unknown> } };
+  user?: string;
+}
+
+export interface OpenAIMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface OpenAIChatCompletion {
+  id: string;
+  object: "chat.completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    // reasoning_content follows the DeepSeek and vLLM convention for thinking text
+    message: { role: "assistant"; content: string | null; reasoning_content?: string; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string;
+  }>;
+  usage: OpenAIUsage;
+}
+
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: "chat.completion.chunk";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: "assistant";
+      content?: string;
+      reasoning_content?: string;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: "function";
+        function: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+export interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  completion_tokens_details?: { reasoning_tokens: number };
+  prompt_tokens_details?: { cached_tokens: number };
+}
+
+export interface OpenAIModel {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+}
+
+/**
+ * Map an OpenAI chat-completion request onto a GatewayRequest.
+ * The model "auto" (or no model) leaves selection to the router.
+ */
+export function fromOpenAIRequest(body: OpenAIChatRequest): GatewayRequest {
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new TypeError("messages must be a non-empty array");
+  }
+
+  return {
+    id: `chatcmpl_${nanoid(16)}`,
+    messages: body.messages.map(fromOpenAIMessage),
+    model: body.model && body.model !== "auto" ? body.model : undefined,
+    maxTokens: body.max_completion_tokens ?? body.max_tokens,
+    temperature: body.temperature,
+    reasoning: body.reasoning_effort ? { effort: body.reasoning_effort } : undefined,
+    tools: body.tools?.map((t) => ({
+      name: t.function.name,
+      description: t.function.description || "",
+      inputSchema: t.function.parameters || { type: "object", properties: {} },
+    })),
+    stream: body.stream === true,
+    responseFormat: fromOpenAIResponseFormat(body.response_format),
+    metadata: body.user ? { userId: body.user } : undefined,
+  };
+}
+
+// json_object asks for any JSON object, which the gateway enforces like a schema of its own
+function fromOpenAIResponseFormat(format: OpenAIChatRequest["response_format"]): ResponseFormat | undefined {
+  if (format?.type === "json_object") {
+    return { schema: { type: "object" }, name: "json_object" };
+  }
+  if (format?.type === "json_schema" && format.json_schema.schema) {
+    return { schema: format.json_schema.schema, name: format.json_schema.name };
+  }
+  return undefined;
+}
+
+function fromOpenAIMessage(message: OpenAIMessage): Message {
+  if (message.role === "tool") {
+    return {
+      role: "tool",
+      content: contentToText(message.content),
+      toolCallId: message.tool_call_id,
+    };
+  }
+
+  const role = message.role === "developer" ? "system" : message.role;
+
+  if (role === "assistant" && message.tool_calls && message.tool_calls.length > 0) {
+    const blocks: ContentBlock[] = [];
+    const text = contentToText(message.content);
+    if (text) blocks.push({ type: "text", text });
+    for (const tc of message.tool_calls) {
+      blocks.push({
+        type: "tool_use",
+        id: tc.id,
+        name: tc.function.name,
+        input: parseArguments(tc.function.arguments),
+      });
+    }
+    return { role, content: blocks };
+  }
+
+  if (Array.isArray(message.content)) {
+    return {
+      role,
+      name: message.name,
+      content: message.content.map((part): ContentBlock =>
+        part.type === "image_url"
+          ? { type: "image", source: parseImageUrl(part.image_url.url) }
+          : { type: "text", text: part.text }
+      ),
+    };
+  }
+
+  return { role, name: message.name, content: message.content ?? "" };
+}
+
+function contentToText(content: OpenAIMessage["content"]): string {
+  if (content === null) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((p): p is { type: "text"; text: string } => p.type === "text")
+    .map((p) => p.text)
+    .join("");
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+function parseImageUrl(url: string): ImageSource {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(url);
+  if (match) {
+    return { type: "base64", mediaType: match[1]!, data: match[2]! };
+  }
+  return { type: "url", mediaType: "image/*", data: url };
+}
+
+/**
+ * Map a GatewayResponse back to an OpenAI chat.completion object
+ */
+export function toOpenAIResponse(response: GatewayResponse): OpenAIChatCompletion {
+  const toolCalls = response.toolCalls?.map((tc) => ({
+    id: tc.id,
+    type: "function" as const,
+    function: { name: tc.name, arguments: tc.arguments },
+  }));
+
+  return {
+    id: `chatcmpl-${response.id}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: response.content || (toolCalls ? null : ""),
+          ...(response.reasoning ? { reasoning_content: response.reasoning } : {}),
+          ...(toolCalls ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: normalizeFinishReason(response.finishReason, Boolean(toolCalls)),
+      },
+    ],
+    usage: toOpenAIUsage(response.usage),
+  };
+}
+
+export function toOpenAIUsage(usage: TokenUsage): OpenAIUsage {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+    ...(usage.reasoningTokens ? { completion_tokens_details: { reasoning_tokens: usage.reasoningTokens } } : {}),
+    ...(usage.cacheReadTokens ? { prompt_tokens_details: { cached_tokens: usage.cacheReadTokens } } : {}),
+  };
+}
+
+export function toOpenAIModel(model: ModelConfig): OpenAIModel {
+  return {
+    id: model.model,
+    object: "model",
+    created: 0,
+    owned_by: model.provider,
+  };
+}
+
+/**
+ * Stateful translator from gateway StreamChunks to chat.completion.chunk objects.
+ * Tracks tool-call indexes, since OpenAI clients address partial calls by index.
+ * The model starts as the requested one and follows the model the gateway streams from.
+ */
+export class OpenAIChunkEncoder {
+  private id: string;
+  private model: string;
+  private created = Math.floor(Date.now() / 1000);
+  private sentRole = false;
+  // Indexes of calls whose first fragment was sent
+  private startedToolIndexes: Set<number> = new Set();
+  // For fragments without an index: the index given to each call id
+  private toolIndexes: Map<string, number> = new Map();
+  private lastToolIndex = -1;
+  private finishReason: string | null = null;
+
+  constructor(model: string, id: string = `chatcmpl-${nanoid(16)}`) {
+    this.model = model;
+    this.id = id;
+  }
+
+  encode(chunk: StreamChunk): OpenAIChatCompletionChunk[] {
+    if (chunk.model) this.model = chunk.model;
+    switch (chunk.type) {
+      case "text":
+        return chunk.content ? [this.build({ content: chunk.content })] : [];
+
+      case "reasoning":
+        return chunk.content ? [this.build({ reasoning_content: chunk.content })] : [];
+
+      case "tool_call":
+      case "tool_call_delta": {
+        if (!chunk.toolCall) return [];
+        const { id, name, arguments: args } = chunk.toolCall;
+        const index = this.toolIndex(chunk.toolCall);
+        const isNew = !this.startedToolIndexes.has(index);
+        this.startedToolIndexes.add(index);
+        this.lastToolIndex = index;
+        this.finishReason = "tool_calls";
+        return [
+          this.build({
+            tool_calls: [
+              {
+                index,
+                ...(isNew ? { id, type: "function" as const } : {}),
+                function: { ...(isNew && name ? { name } : {}), arguments: args || "" },
+              },
+            ],
+          }),
+        ];
+      }
+
+      case "failover":
+        if (chunk.failover) this.model = chunk.failover.model;
+        return [];
+
+      case "done":
+        if (chunk.finishReason) {
+          this.finishReason = normalizeFinishReason(chunk.finishReason, this.finishReason === "tool_calls");
+        }
+        return [];
+
+      default:
+        return [];
+    }
+  }
+
+  // Final chunk carrying the finish reason, optionally followed by a usage-only chunk
+  finish(usage?: TokenUsage, includeUsage = false): OpenAIChatCompletionChunk[] {
+    const chunks: OpenAIChatCompletionChunk[] = [
+      this.build({}, this.finishReason || "stop"),
+    ];
+    if (includeUsage && usage) {
+      chunks.push({
+        id: this.id,
+        object: "chat.completion.chunk",
+        created: this.created,
+        model: this.model,
+        choices: [],
+        usage: toOpenAIUsage(usage),
+      });
+    }
+    return chunks;
+  }
+
+  // The assembler's index for the call; raw fragments are matched by id or continue the latest call
+  private toolIndex(toolCall: NonNullable<StreamChunk["toolCall"]>): number {
+    if (toolCall.index !== undefined) return toolCall.index;
+    if (!toolCall.id) return Math.max(this.lastToolIndex, 0);
+    let index = this.toolIndexes.get(toolCall.id);
+    if (index === undefined) {
+      index = this.startedToolIndexes.size;
+      this.toolIndexes.set(toolCall.id, index);
+    }
+    return index;
+  }
+
+  private build(
+    delta: OpenAIChatCompletionChunk["choices"][number]["delta"],
+    finishReason: string | null = null
+  ): OpenAIChatCompletionChunk {
+    if (!this.sentRole) {
+      delta = { role: "assistant", ...delta };
+      this.sentRole = true;
+    }
+    return {
+      id: this.id,
+      object: "chat.completion.chunk",
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    };
+  }
+}
+
+// A provider's finish reason in OpenAI's terms; reasons it has no match for stop the answer
+function normalizeFinishReason(reason: string | undefined, toolCalls: boolean): string {
+  switch (reason?.toLowerCase()) {
+    case "max_tokens":
+    case "length":
+      return "length";
+    case "tool_use":
+    case "tool_calls":
+      return "tool_calls";
+    case "content_filter":
+    case "safety":
+      return "content_filter";
+    default:
+      return toolCalls ? "tool_calls" : "stop";
+  }
+}
@@ -0,0 +1,539 @@
+/**
+ * Gateway Server - OpenAI- and Anthropic-compatible HTTP API in front of LLMGateway
+ */
+
+import type { LLMGateway } from "../core/gateway";
+import type { StreamChunk } from "../core/streaming";
+import { timingSafeEqual } from "node:crypto";
+import type { GatewayRequest, RequestPrincipal, TokenUsage } from "../core/types";
+import { GatewayError, InvalidApiKeyError, type GatewayErrorCode } from "../core/errors";
+import { ZodError } from "zod";
+import { ApiKeyManager, toPublicKey } from "../auth/keys";
+import { issueKeySchema, updateKeySchema } from "../auth/schema";
+import { TokenCounter } from "../context/manager";
+import {
+  fromOpenAIRequest,
+  toOpenAIResponse,
+  toOpenAIModel,
+  OpenAIChunkEncoder,
+  type OpenAIChatRequest,
+} from "./openai-compat";
+import {
+  fromAnthropicRequest,
+  toAnthropicResponse,
+  AnthropicEventEncoder,
+  type AnthropicMessagesRequest,
+} from "./anthropic-compat";
+
+const tokenCounter = new TokenCounter();
+
+const OPENAI_ERROR_TYPES: Record<GatewayErrorCode, string> = {
+  security_blocked: "invalid_request_error",
+  no_eligible_model: "invalid_request_error",
+  budget_exceeded: "insufficient_quota",
+  rate_limited: "rate_limit_error",
+  provider_error: "server_error",
+  timeout: "server_error",
+  circuit_open: "server_error",
+  invalid_api_key: "invalid_api_key",
+  permission_denied: "permission_denied",
+  invalid_output: "server_error",
+  output_blocked: "server_error",
+  invalid_request: "invalid_request_error",
+};
+
+const ANTHROPIC_ERROR_TYPES: Record<GatewayErrorCode, string> = {
+  security_blocked: "invalid_request_error",
+  no_eligible_model: "not_found_error",
+  budget_exceeded: "rate_limit_error",
+  rate_limited: "rate_limit_error",
+  provider_error: "api_error",
+  timeout: "api_error",
+  circuit_open: "overloaded_error",
+  invalid_api_key: "authentication_error",
+  permission_denied: "permission_error",
+  invalid_output: "api_error",
+  output_blocked: "api_error",
+  invalid_request: "invalid_request_error",
+};
+
+// Read a stream on past its error chunk, so the gateway still runs error hooks,
+// records metrics and ends the trace before the response is closed
+async function finishStream(stream: AsyncGenerator<StreamChunk, unknown, undefined>): Promise<void> {
+  while (!(await stream.next()).done) {
+    // Nothing after an error chunk is sent
+  }
+}
+
+export interface GatewayServerConfig {
+  port: number;
+  host: string;
+  cors: boolean;
+  // When set, /v1 routes require a gateway-issued API key
+  keys?: ApiKeyManager;
+  // Bearer token for the /admin/keys API; the admin API is disabled without it
+  adminToken?: string;
+}
+
+const DEFAULT_CONFIG: GatewayServerConfig = {
+  port: 8080,
+  host: "0.0.0.0",
+  cors: true,
+};
+
+export class GatewayServer {
+  private config: GatewayServerConfig;
+  private gateway: LLMGateway;
+  private server: ReturnType<typeof Bun.serve> | null = null;
+
+  constructor(gateway: LLMGateway, config: Partial<GatewayServerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.gateway = gateway;
+  }
+
+  /**
+   * Start the HTTP server
+   */
+  start(): void {
+    if (this.server) return;
+
+    const self = this;
+    this.server = Bun.serve({
+      port: this.config.port,
+      hostname: this.config.host,
+      // Streams can outlive Bun's default 10s idle timeout between chunks
+      idleTimeout: 0,
+      fetch(req) {
+        return self.handleRequest(req);
+      },
+    });
+
+    console.log(`Gateway API running at http://${this.config.host}:${this.config.port}/v1`);
+  }
+
+  /**
+   * Stop the HTTP server
+   */
+  stop(): void {
+    if (this.server) {
+      this.server.stop(true);
+      this.server = null;
+    }
+  }
+
+  /**
+   * Get headers with optional CORS
+   */
+  private getHeaders(additionalHeaders: Record<string, string> = {}): Record<string, string> {
+    const headers: Record<string, string> = { ...additionalHeaders };
+    if (this.config.cors) {
+      headers["Access-Control-Allow-Origin"] = "*";
+      headers["Access-Control-Allow-Methods"] = "GET, POST, PATCH, DELETE, OPTIONS";
+      headers["Access-Control-Allow-Headers"] =
+        "Content-Type, Authorization, x-api-key, anthropic-version";
+    }
+    return headers;
+  }
+
+  /**
+   * Handle incoming requests
+   */
+  private async handleRequest(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const path = url.pathname;
+
+    if (req.method === "OPTIONS") {
+      return new Response(null, { headers: this.getHeaders() });
+    }
+
+    if (path === "/health") {
+      return this.json({ status: "ok" });
+    }
+
+    if (path.startsWith("/admin/keys") && this.config.keys && this.config.adminToken) {
+      return this.handleAdmin(req, path, this.config.keys);
+    }
+
+    const isMessages = path === "/v1/messages";
+    let principal: RequestPrincipal | undefined;
+    if (path.startsWith("/v1/") && this.config.keys) {
+      const authenticated = await this.authenticate(req, this.config.keys);
+      if (!authenticated) {
+        const error = new InvalidApiKeyError();
+        return isMessages ? this.anthropicError(error) : this.openAIError(error);
+      }
+      principal = authenticated;
+    }
+
+    if (path === "/v1/chat/completions" && req.method === "POST") {
+      return this.handleChatCompletions(req, principal);
+    }
+
+    if (isMessages && req.method === "POST") {
+      return this.handleMessages(req, principal);
+    }
+
+    if (path === "/v1/models" && req.method === "GET") {
+      const allowed = principal?.policy.allowedModels;
+      const allowedProviders = principal?.policy.allowedProviders;
+      return this.json({
+        object: "list",
+        data: this.gateway
+          .listModels()
+          .filter((m) => !allowed || allowed.includes(m.model))
+          .filter((m) => !allowedProviders || allowedProviders.includes(m.provider))
+          .map(toOpenAIModel),
+      });
+    }
+
+    // Merged model catalog: configured and discovered models with pricing and status
+    if (path === "/v1/catalog" && req.method === "GET") {
+      const allowed = principal?.policy.allowedModels;
+      const allowedProviders = principal?.policy.allowedProviders;
+      return this.json({
+        object: "list",
+        data: this.gateway
+          .getModelCatalog()
+          .filter((m) => !allowed || allowed.includes(m.model))
+          .filter((m) => !allowedProviders || allowedProviders.includes(m.provider)),
+      });
+    }
+
+    return this.json(
+      { error: { message: `Unknown route: ${req.method} ${path}`, type: "invalid_request_error", code: null } },
+      404
+    );
+  }
+
+  /**
+   * POST /v1/chat/completions
+   */
+  private async handleChatCompletions(
+    req: Request,
+    principal?: RequestPrincipal
+  ): Promise<Response> {
+    let body: OpenAIChatRequest;
+    let request: GatewayRequest;
+    try {
+      body = (await req.json()) as OpenAIChatRequest;
+      request = { ...fromOpenAIRequest(body), principal };
+    } catch (error) {
+      return this.invalidRequest("openai", (error as Error).message);
+    }
+
+    if (request.stream) {
+      return this.streamChatCompletions(request, body);
+    }
+
+    try {
+      const response = await this.gateway.complete(request);
+      return this.json(toOpenAIResponse(response));
+    } catch (error) {
+      return this.openAIError(error as Error);
+    }
+  }
+
+  /**
+   * Stream chat.completion.chunk objects over SSE
+   */
+  private async streamChatCompletions(
+    request: GatewayRequest,
+    body: OpenAIChatRequest
+  ): Promise<Response> {
+    const stream = this.gateway.stream(request);
+
+    // Pull the first chunk eagerly so pipeline errors (blocked, budget, routing)
+    // still surface as a proper HTTP status instead of a broken event stream.
+    let first: IteratorResult<StreamChunk, unknown>;
+    try {
+      first = await stream.next();
+    } catch (error) {
+      return this.openAIError(error as Error);
+    }
+
+    const encoder = new OpenAIChunkEncoder(body.model || "auto");
+    const includeUsage = body.stream_options?.include_usage === true;
+    const textEncoder = new TextEncoder();
+
+    const sse = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (data: unknown) =>
+          controller.enqueue(textEncoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+        let usage: TokenUsage | undefined;
+        let result = first;
+        try {
+          while (!result.done) {
+            const chunk = result.value;
+            if (chunk.type === "error") {
+              send({
+                error: {
+                  message: chunk.error,
+                  type: OPENAI_ERROR_TYPES[chunk.errorCode || "provider_error"],
+                  code: chunk.errorCode || null,
+                },
+              });
+              await finishStream(stream);
+              break;
+            }
+            if (chunk.type === "done" && chunk.usage) {
+              usage = chunk.usage;
+            }
+            for (const out of encoder.encode(chunk)) send(out);
+            result = await stream.next();
+          }
+          if (result.done) {
+            for (const out of encoder.finish(usage, includeUsage)) send(out);
+          }
+        } catch (error) {
+          send({ error: { message: (error as Error).message, type: "server_error" } });
+        }
+
+        controller.enqueue(textEncoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      },
+      async cancel() {
+        await stream.return(null);
+      },
+    });
+
+    return new Response(sse, {
+      headers: this.getHeaders({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      }),
+    });
+  }
+
+  /**
+   * POST /v1/messages
+   */
+  private async handleMessages(req: Request, principal?: RequestPrincipal): Promise<Response> {
+    let body: AnthropicMessagesRequest;
+    let request: GatewayRequest;
+    try {
+      body = (await req.json()) as AnthropicMessagesRequest;
+      request = { ...fromAnthropicRequest(body), principal };
+    } catch (error) {
+      return this.invalidRequest("anthropic", (error as Error).message);
+    }
+
+    if (request.stream) {
+      return this.streamMessages(request, body);
+    }
+
+    try {
+      const response = await this.gateway.complete(request);
+      return this.json(toAnthropicResponse(response));
+    } catch (error) {
+      return this.anthropicError(error as Error);
+    }
+  }
+
+  /**
+   * Stream Anthropic Messages events over SSE
+   */
+  private async streamMessages(
+    request: GatewayRequest,
+    body: AnthropicMessagesRequest
+  ): Promise<Response> {
+    const stream = this.gateway.stream(request);
+
+    let first: IteratorResult<StreamChunk, unknown>;
+    try {
+      first = await stream.next();
+    } catch (error) {
+      return this.anthropicError(error as Error);
+    }
+
+    // Providers report input tokens at the end, so message_start carries an estimate
+    const encoder = new AnthropicEventEncoder(
+      body.model || "auto",
+      tokenCounter.countStructuredContent(request.messages).total
+    );
+    const textEncoder = new TextEncoder();
+
+    const sse = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) =>
+          controller.enqueue(
+            textEncoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        const sendError = (message?: string, code?: GatewayErrorCode) =>
+          send("error", {
+            type: "error",
+            error: { type: ANTHROPIC_ERROR_TYPES[code || "provider_error"], message },
+          });
+
+        let usage: TokenUsage | undefined;
+        let result = first;
+        try {
+          while (!result.done) {
+            const chunk = result.value;
+            if (chunk.type === "error") {
+              sendError(chunk.error, chunk.errorCode);
+              await finishStream(stream);
+              break;
+            }
+            if (chunk.type === "done" && chunk.usage) {
+              usage = chunk.usage;
+            }
+            for (const out of encoder.encode(chunk)) send(out.event, out.data);
+            result = await stream.next();
+          }
+          if (result.done) {
+            for (const out of encoder.finish(usage)) send(out.event, out.data);
+          }
+        } catch (error) {
+          sendError((error as Error).message);
+        }
+
+        controller.close();
+      },
+      async cancel() {
+        await stream.return(null);
+      },
+    });
+
+    return new Response(sse, {
+      headers: this.getHeaders({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      }),
+    });
+  }
+
+  /**
+   * Resolve the presented key from Authorization: Bearer or x-api-key
+   */
+  private async authenticate(
+    req: Request,
+    keys: ApiKeyManager
+  ): Promise<RequestPrincipal | null> {
+    const authorization = req.headers.get("authorization");
+    const key = authorization?.startsWith("Bearer ")
+      ? authorization.slice("Bearer ".length).trim()
+      : req.headers.get("x-api-key");
+    return key ? keys.authenticate(key) : null;
+  }
+
+  /**
+   * /admin/keys API: list, issue, inspect, update, revoke and delete keys
+   */
+  private async handleAdmin(req: Request, path: string, keys: ApiKeyManager): Promise<Response> {
+    const authorization = req.headers.get("authorization") || "";
+    if (!safeEqual(authorization, `Bearer ${this.config.adminToken}`)) {
+      return this.json({ error: { message: "Invalid admin token", type: "invalid_api_key" } }, 401);
+    }
+
+    const [, , , id, action] = path.split("/");
+
+    try {
+      if (!id) {
+        if (req.method === "GET") {
+          return this.json({ data: (await keys.list()).map(toPublicKey) });
+        }
+        if (req.method === "POST") {
+          const input = issueKeySchema.parse(await req.json());
+          const { key, record } = await keys.issue(input);
+          return this.json({ ...toPublicKey(record), key }, 201);
+        }
+      } else if (action === "revoke" && req.method === "POST") {
+        const record = await keys.revoke(id);
+        return record ? this.json(toPublicKey(record)) : this.adminNotFound(id);
+      } else if (!action) {
+        if (req.method === "GET") {
+          const record = await keys.get(id);
+          return record
+            ? this.json({ ...toPublicKey(record), usage: this.gateway.getKeyUsage(id) })
+            : this.adminNotFound(id);
+        }
+        if (req.method === "PATCH") {
+          const record = await keys.update(id, updateKeySchema.parse(await req.json()));
+          return record ? this.json(toPublicKey(record)) : this.adminNotFound(id);
+        }
+        if (req.method === "DELETE") {
+          return (await keys.delete(id))
+            ? new Response(null, { status: 204, headers: this.getHeaders() })
+            : this.adminNotFound(id);
+        }
+      }
+    } catch (error) {
+      const message = error instanceof ZodError
+        ? error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ")
+        : (error as Error).message;
+      return this.json({ error: { message, type: "invalid_request_error" } }, 400);
+    }
+
+    return this.json(
+      { error: { message: `Unknown route: ${req.method} ${path}`, type: "invalid_request_error" } },
+      404
+    );
+  }
+
+  private adminNotFound(id: string): Response {
+    return this.json({ error: { message: `API key ${id} not found`, type: "not_found_error" } }, 404);
+  }
+
+  private json(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: this.getHeaders({ ...headers, "Content-Type": "application/json" }),
+    });
+  }
+
+  private invalidRequest(format: "openai" | "anthropic", message: string): Response {
+    return format === "openai"
+      ? this.json({ error: { message, type: "invalid_request_error", code: null } }, 400)
+      : this.json({ type: "error", error: { type: "invalid_request_error", message } }, 400);
+  }
+
+  private openAIError(error: Error): Response {
+    if (!(error instanceof GatewayError)) {
+      return this.json({ error: { message: error.message, type: "server_error", code: null } }, 500);
+    }
+    return this.json(
+      { error: { message: error.message, type: OPENAI_ERROR_TYPES[error.code], code: error.code } },
+      error.status,
+      retryAfterHeader(error)
+    );
+  }
+
+  private anthropicError(error: Error): Response {
+    if (!(error instanceof GatewayError)) {
+      return this.json({ type: "error", error: { type: "api_error", message: error.message } }, 500);
+    }
+    return this.json(
+      { type: "error", error: { type: ANTHROPIC_ERROR_TYPES[error.code], message: error.message } },
+      error.status,
+      retryAfterHeader(error)
+    );
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function retryAfterHeader(error: GatewayError): Record<string, string> {
+  if (error.retryAfterMs !== undefined) {
+    return { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) };
+  }
+  return {};
+}
+
+/**
+ * Create and start a gateway server
+ */
+export function createGatewayServer(
+  gateway: LLMGateway,
+  config?: Partial<GatewayServerConfig>
+): GatewayServer {
+  const server = new GatewayServer(gateway, config);
+  server.start();
+  return server;
+}